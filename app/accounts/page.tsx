@@ -0,0 +1,62 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import AccountManagementContent from "@/components/account-management-content"
+import { redirect } from "next/navigation"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import DatabaseError from "@/components/database-error"
+import { ADMIN_ROLES, canAssignRole, hasPermission } from "@/lib/permissions"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function AccountsPage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    // Only admins who manage accounts can review registrations
+    if (!hasPermission(session.role, "admins:manage")) {
+      redirect("/dashboard")
+    }
+
+    const { hospitalId } = session
+    const assignableRoles = ADMIN_ROLES.filter((role) => canAssignRole(session.role, role))
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Accounts</h1>
+
+          <div className="max-w-6xl mx-auto">
+            <AccountManagementContent assignableRoles={assignableRoles} />
+          </div>
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Accounts page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return <DatabaseError message="Unable to load accounts. Database connection failed." />
+    }
+
+    // Return a simple error message for other errors
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
@@ -2,25 +2,94 @@
 
 import type React from "react"
 
-import { useState, useCallback, useEffect, useRef } from "react"
+import { useState, useCallback, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { AlertCircle, CheckCircle2, RefreshCw } from "lucide-react"
+import { AlertCircle, CheckCircle2, RefreshCw, ScanLine } from "lucide-react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { ErrorType } from "@/lib/error-handling"
 import { useToast } from "@/components/ui/use-toast"
 import { useSessionTimeout } from "@/lib/session-timeout"
+import {
+  BLOOD_COMPONENT_KEYS,
+  BLOOD_COMPONENT_LIST,
+  BLOOD_COMPONENTS,
+  type BloodComponentKey,
+  type ShelfLifeRule,
+} from "@/lib/blood-components"
+import {
+  checkShelfLife,
+  computeExpirationDate,
+  DEFAULT_SHELF_LIFE_RULES,
+  resolveShelfLifeRule,
+  today,
+  type ShelfLifeRules,
+} from "@/lib/shelf-life"
+import { DEFAULT_TIME_ZONE, isExpired, zonedTimeToIso } from "@/lib/expiry"
+import { formatDin, parseDonationId, parseIsbtScan, type IsbtLabel } from "@/lib/isbt128"
+import DonorLookup, { type DonorSummary } from "@/components/donor-lookup"
+import type { StorageUnit } from "@/lib/storage-unit-types"
 
 type AddEntryFormProps = {
   hospitalId: number
+  // The hospital's shelf-life rules; the built-in defaults when not given
+  shelfLifeRules?: ShelfLifeRules
+  // In-service storage units at the hospital, with their usage
+  storageUnits?: StorageUnit[]
+  // The hospital's time zone, which dates and expiry times are entered in
+  timeZone?: string
 }
 
+type EntryFormState = {
+  donorName: string
+  amount: string
+  // Expiration defaults to the collection date plus the chosen rule's shelf life
+  collectionDate: string
+  shelfLifeRule: string
+  expirationDate: string
+  bloodType: string
+  // Only sent for components with an Rh factor
+  rh: string
+  // Optional ISBT 128 identifiers, usually filled in from a scanned label
+  isbtDin: string
+  isbtProductCode: string
+  // Optional location the bag is put away in
+  storageUnitId: string
+  storagePosition: string
+}
+
+// A blank form for a unit collected today, dated by the component's first rule
+const createEmptyForm = (rules: ShelfLifeRule[], timeZone: string): EntryFormState => {
+  const collectionDate = today(timeZone)
+  const rule = rules[0]
+
+  return {
+    donorName: "",
+    amount: "",
+    collectionDate,
+    shelfLifeRule: rule?.name ?? "",
+    expirationDate: rule ? computeExpirationDate(collectionDate, rule) : "",
+    bloodType: "",
+    rh: "+",
+    isbtDin: "",
+    isbtProductCode: "",
+    storageUnitId: "",
+    storagePosition: "",
+  }
+}
+
+const createEmptyForms = (rules: ShelfLifeRules, timeZone: string) =>
+  Object.fromEntries(BLOOD_COMPONENT_KEYS.map((key) => [key, createEmptyForm(rules[key], timeZone)])) as Record<
+    BloodComponentKey,
+    EntryFormState
+  >
+
 // Define specific error types for the add entry system
 type ApiErrorResponse = {
   success: boolean
@@ -31,7 +100,12 @@ type ApiErrorResponse = {
   retryable?: boolean
 }
 
-export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
+export default function AddEntryForm({
+  hospitalId,
+  shelfLifeRules = DEFAULT_SHELF_LIFE_RULES,
+  storageUnits = [],
+  timeZone = DEFAULT_TIME_ZONE,
+}: AddEntryFormProps) {
   const router = useRouter()
   const { toast } = useToast()
   const [isLoading, setIsLoading] = useState(false)
@@ -42,136 +116,116 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
   const [isRetryable, setIsRetryable] = useState(false)
   const [retryCount, setRetryCount] = useState(0)
   const [success, setSuccess] = useState("")
-  const [activeTab, setActiveTab] = useState("redblood")
-  const formRef = useRef<HTMLFormElement>(null)
-
-  // Red blood cell form state
-  const [redBloodForm, setRedBloodForm] = useState({
-    donorName: "",
-    amount: "",
-    expirationDate: "",
-    bloodType: "",
-    rh: "+",
-  })
-
-  // Plasma form state
-  const [plasmaForm, setPlasmaForm] = useState({
-    donorName: "",
-    amount: "",
-    expirationDate: "",
-    bloodType: "",
-  })
+  const [activeTab, setActiveTab] = useState<BloodComponentKey>(BLOOD_COMPONENT_KEYS[0])
+  const [scanValue, setScanValue] = useState("")
+  const [scanError, setScanError] = useState("")
 
-  // Platelets form state
-  const [plateletsForm, setPlateletsForm] = useState({
-    donorName: "",
-    amount: "",
-    expirationDate: "",
-    bloodType: "",
-    rh: "+",
-  })
+  // One form state per blood component
+  const [forms, setForms] = useState(() => createEmptyForms(shelfLifeRules, timeZone))
+  // Registered donor linked to each component's form
+  const [linkedDonors, setLinkedDonors] = useState<Partial<Record<BloodComponentKey, DonorSummary>>>({})
 
   // Use session timeout hook with form data preservation
   const { saveFormData } = useSessionTimeout({
     onTimeout: () => {
       // Save form data before timeout
-      saveFormData(
-        activeTab === "redblood" ? "redblood-form" : activeTab === "plasma" ? "plasma-form" : "platelets-form",
-      )
+      saveFormData(`${activeTab}-form`)
     },
   })
 
   // Save form data periodically
   useEffect(() => {
     const saveInterval = setInterval(() => {
-      saveFormData(
-        activeTab === "redblood" ? "redblood-form" : activeTab === "plasma" ? "plasma-form" : "platelets-form",
-      )
+      saveFormData(`${activeTab}-form`)
     }, 30000) // Save every 30 seconds
 
     return () => clearInterval(saveInterval)
-  }, [activeTab, saveFormData, redBloodForm, plasmaForm, plateletsForm])
+  }, [activeTab, saveFormData, forms])
 
   // Handle tab change
   const handleTabChange = (value: string) => {
-    setActiveTab(value)
+    setActiveTab(value as BloodComponentKey)
   }
 
-  // Handle red blood cell form change
-  const handleRedBloodChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target
-    setRedBloodForm((prev) => ({ ...prev, [name]: value }))
+  // Update a field of a component's form and clear its validation error
+  const updateField = (component: BloodComponentKey, name: keyof EntryFormState, value: string) => {
+    setForms((prev) => ({ ...prev, [component]: { ...prev[component], [name]: value } }))
 
     // Clear validation error when field is updated
-    if (validationErrors[`redblood-${name}`]) {
+    if (validationErrors[`${component}-${name}`]) {
       setValidationErrors((prev) => {
         const updated = { ...prev }
-        delete updated[`redblood-${name}`]
+        delete updated[`${component}-${name}`]
         return updated
       })
     }
   }
 
-  // Handle red blood cell Rh change
-  const handleRedBloodRhChange = (value: string) => {
-    setRedBloodForm((prev) => ({ ...prev, rh: value }))
+  // Change the collection date or shelf-life rule and recompute the default expiration date
+  const updateDating = (component: BloodComponentKey, name: "collectionDate" | "shelfLifeRule", value: string) => {
+    const form = { ...forms[component], [name]: value }
+    const rule = resolveShelfLifeRule(shelfLifeRules[component], form.shelfLifeRule)
 
-    // Clear validation error when field is updated
-    if (validationErrors["redblood-rh"]) {
-      setValidationErrors((prev) => {
-        const updated = { ...prev }
-        delete updated["redblood-rh"]
-        return updated
-      })
+    updateField(component, name, value)
+    if (form.collectionDate && rule) {
+      updateField(component, "expirationDate", computeExpirationDate(form.collectionDate, rule))
     }
   }
 
-  // Handle plasma form change
-  const handlePlasmaChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target
-    setPlasmaForm((prev) => ({ ...prev, [name]: value }))
-
-    // Clear validation error when field is updated
-    if (validationErrors[`plasma-${name}`]) {
-      setValidationErrors((prev) => {
-        const updated = { ...prev }
-        delete updated[`plasma-${name}`]
-        return updated
-      })
-    }
+  // Reason a form's expiration date breaks its shelf-life rule, if it does
+  const getShelfLifeProblem = (component: BloodComponentKey, form: EntryFormState) => {
+    if (!form.expirationDate) return null
+    const rule = resolveShelfLifeRule(shelfLifeRules[component], form.shelfLifeRule)
+    return checkShelfLife(form.expirationDate, form.collectionDate, rule, timeZone)
   }
 
-  // Handle platelets form change
-  const handlePlateletsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target
-    setPlateletsForm((prev) => ({ ...prev, [name]: value }))
+  // Link a registered donor to a component's form, taking the name and blood group from the registry
+  const handleDonorSelect = (component: BloodComponentKey, donor: DonorSummary | null) => {
+    setLinkedDonors((prev) => ({ ...prev, [component]: donor ?? undefined }))
+    if (!donor) return
 
-    // Clear validation error when field is updated
-    if (validationErrors[`platelets-${name}`]) {
-      setValidationErrors((prev) => {
-        const updated = { ...prev }
-        delete updated[`platelets-${name}`]
-        return updated
-      })
+    updateField(component, "donorName", donor.full_name)
+    updateField(component, "bloodType", donor.blood_type)
+    if (donor.rh && BLOOD_COMPONENTS[component].hasRh) {
+      updateField(component, "rh", donor.rh)
     }
   }
 
-  // Handle platelets Rh change
-  const handlePlateletsRhChange = (value: string) => {
-    setPlateletsForm((prev) => ({ ...prev, rh: value }))
+  // Pre-fill a form from a scanned ISBT 128 label, switching to the tab of the
+  // scanned product when its product code is recognised
+  const handleScan = () => {
+    setScanError("")
 
-    // Clear validation error when field is updated
-    if (validationErrors["platelets-rh"]) {
-      setValidationErrors((prev) => {
-        const updated = { ...prev }
-        delete updated["platelets-rh"]
-        return updated
-      })
+    let label: IsbtLabel
+    try {
+      label = parseIsbtScan(scanValue)
+    } catch (err) {
+      setScanError(err instanceof Error ? err.message : "Could not read the barcode")
+      return
     }
+
+    const component = label.product?.component ?? activeTab
+    const { hasRh } = BLOOD_COMPONENTS[component]
+
+    setForms((prev) => ({
+      ...prev,
+      [component]: {
+        ...prev[component],
+        ...(label.donationId ? { isbtDin: label.donationId.din } : {}),
+        ...(label.product ? { isbtProductCode: label.product.code } : {}),
+        ...(label.bloodGroup ? { bloodType: label.bloodGroup.bloodType } : {}),
+        ...(label.bloodGroup?.rh && hasRh ? { rh: label.bloodGroup.rh } : {}),
+        // A label without an expiry time is read as the start of its expiry date, as dates are elsewhere
+        ...(label.expiry ? { expirationDate: `${label.expiry.date}T${label.expiry.time ?? "00:00"}` } : {}),
+      },
+    }))
+    setActiveTab(component)
+    setScanValue("")
   }
 
   // Client-side validation function
-  const validateForm = (formType: "redblood" | "plasma" | "platelets", formData: any): boolean => {
+  const validateForm = (formType: BloodComponentKey, formData: EntryFormState): boolean => {
+    const { hasRh, volumeRange } = BLOOD_COMPONENTS[formType]
     const newValidationErrors: Record<string, string> = {}
     let isValid = true
 
@@ -192,24 +246,30 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
       if (isNaN(amount) || amount <= 0) {
         newValidationErrors[`${formType}-amount`] = "Amount must be a positive number"
         isValid = false
-      } else if (amount < 100) {
-        newValidationErrors[`${formType}-amount`] = "Amount must be at least 100 ml"
+      } else if (amount < volumeRange.min) {
+        newValidationErrors[`${formType}-amount`] = `Amount must be at least ${volumeRange.min} ml`
         isValid = false
-      } else if (amount > 500) {
-        newValidationErrors[`${formType}-amount`] = "Amount cannot exceed 500 ml"
+      } else if (amount > volumeRange.max) {
+        newValidationErrors[`${formType}-amount`] = `Amount cannot exceed ${volumeRange.max} ml`
         isValid = false
       }
     }
 
+    if (formData.collectionDate > today(timeZone)) {
+      newValidationErrors[`${formType}-collectionDate`] = "Collection date cannot be in the future"
+      isValid = false
+    }
+
     if (!formData.expirationDate) {
       newValidationErrors[`${formType}-expirationDate`] = "Expiration date is required"
       isValid = false
+    } else if (isExpired(zonedTimeToIso(formData.expirationDate, timeZone))) {
+      newValidationErrors[`${formType}-expirationDate`] = "Expiration date cannot be in the past"
+      isValid = false
     } else {
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const expirationDate = new Date(formData.expirationDate)
-      if (expirationDate < today) {
-        newValidationErrors[`${formType}-expirationDate`] = "Expiration date cannot be in the past"
+      const shelfLifeProblem = getShelfLifeProblem(formType, formData)
+      if (shelfLifeProblem) {
+        newValidationErrors[`${formType}-expirationDate`] = shelfLifeProblem
         isValid = false
       }
     }
@@ -220,11 +280,23 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
     }
 
     // For forms that require Rh factor
-    if ((formType === "redblood" || formType === "platelets") && !formData.rh) {
+    if (hasRh && !formData.rh) {
       newValidationErrors[`${formType}-rh`] = "Rh factor is required"
       isValid = false
     }
 
+    if (formData.isbtDin) {
+      try {
+        parseDonationId(formData.isbtDin)
+      } catch (err) {
+        newValidationErrors[`${formType}-isbtDin`] = err instanceof Error ? err.message : "Invalid DIN"
+        isValid = false
+      }
+    } else if (formData.isbtProductCode) {
+      newValidationErrors[`${formType}-isbtDin`] = "A product code needs the bag's donation identification number"
+      isValid = false
+    }
+
     setValidationErrors((prev) => ({ ...prev, ...newValidationErrors }))
     return isValid
   }
@@ -242,12 +314,10 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
           credentials: "include", // Important for session cookies
         })
 
-        // Check for authentication issues
-        if (response.status === 401 || response.status === 403) {
+        // Check for authentication issues (403 means the role lacks permission and is shown as an error)
+        if (response.status === 401) {
           // Save form data before redirecting
-          saveFormData(
-            activeTab === "redblood" ? "redblood-form" : activeTab === "plasma" ? "plasma-form" : "platelets-form",
-          )
+          saveFormData(`${activeTab}-form`)
 
           toast({
             title: "Session expired",
@@ -307,9 +377,7 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
 
         if (isSessionError) {
           // Save form data before redirecting
-          saveFormData(
-            activeTab === "redblood" ? "redblood-form" : activeTab === "plasma" ? "plasma-form" : "platelets-form",
-          )
+          saveFormData(`${activeTab}-form`)
 
           // Redirect to login with return path
           const returnPath = encodeURIComponent(window.location.pathname)
@@ -334,60 +402,11 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
     [activeTab, saveFormData, toast],
   )
 
-  // Handle red blood cell form submit
-  const handleRedBloodSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-
-    // Reset error states
-    setError("")
-    setErrorType(null)
-    setErrorDetails(null)
-    setValidationErrors({})
-    setIsRetryable(false)
-    setSuccess("")
-
-    // Validate form
-    if (!validateForm("redblood", redBloodForm)) {
-      return
-    }
-
-    setIsLoading(true)
-
-    try {
-      const result = await makeApiRequest("/api/add-redblood", {
-        ...redBloodForm,
-        amount: Number(redBloodForm.amount),
-        hospitalId,
-      })
-
-      if (result.success) {
-        setSuccess("Red blood cell bag added successfully!")
-        setRedBloodForm({
-          donorName: "",
-          amount: "",
-          expirationDate: "",
-          bloodType: "",
-          rh: "+",
-        })
-        router.refresh()
-      } else {
-        setError(result.error || "Failed to add red blood cell bag. Please try again.")
-        setErrorType(result.type || ErrorType.SERVER)
-        setErrorDetails(result.details || null)
-        setIsRetryable(result.retryable || false)
-
-        if (result.validationErrors) {
-          setValidationErrors(result.validationErrors)
-        }
-      }
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  // Handle plasma form submit
-  const handlePlasmaSubmit = async (e: React.FormEvent) => {
+  // Handle form submit for the given component
+  const handleSubmit = async (e: React.FormEvent, component: BloodComponentKey) => {
     e.preventDefault()
+    const { bagLabel, hasRh } = BLOOD_COMPONENTS[component]
+    const form = forms[component]
 
     // Reset error states
     setError("")
@@ -398,81 +417,38 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
     setSuccess("")
 
     // Validate form
-    if (!validateForm("plasma", plasmaForm)) {
+    if (!validateForm(component, form)) {
       return
     }
 
     setIsLoading(true)
 
-    try {
-      const result = await makeApiRequest("/api/add-plasma", {
-        ...plasmaForm,
-        amount: Number(plasmaForm.amount),
-        hospitalId,
-      })
-
-      if (result.success) {
-        setSuccess("Plasma bag added successfully!")
-        setPlasmaForm({
-          donorName: "",
-          amount: "",
-          expirationDate: "",
-          bloodType: "",
-        })
-        router.refresh()
-      } else {
-        setError(result.error || "Failed to add plasma bag. Please try again.")
-        setErrorType(result.type || ErrorType.SERVER)
-        setErrorDetails(result.details || null)
-        setIsRetryable(result.retryable || false)
-
-        if (result.validationErrors) {
-          setValidationErrors(result.validationErrors)
-        }
-      }
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  // Handle platelets form submit
-  const handlePlateletsSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-
-    // Reset error states
-    setError("")
-    setErrorType(null)
-    setErrorDetails(null)
-    setValidationErrors({})
-    setIsRetryable(false)
-    setSuccess("")
-
-    // Validate form
-    if (!validateForm("platelets", plateletsForm)) {
-      return
-    }
-
-    setIsLoading(true)
+    const linkedDonor = linkedDonors[component]
 
     try {
-      const result = await makeApiRequest("/api/add-platelets", {
-        ...plateletsForm,
-        amount: Number(plateletsForm.amount),
+      const result = await makeApiRequest(`/api/inventory/${component}`, {
+        donorName: form.donorName,
+        amount: Number(form.amount),
+        collectionDate: form.collectionDate || undefined,
+        shelfLifeRule: form.shelfLifeRule || undefined,
+        expirationDate: form.expirationDate,
+        bloodType: form.bloodType,
+        ...(hasRh ? { rh: form.rh } : {}),
+        ...(linkedDonor ? { donorId: linkedDonor.donor_id } : {}),
+        ...(form.isbtDin ? { isbtDin: form.isbtDin, isbtProductCode: form.isbtProductCode || undefined } : {}),
+        ...(form.storageUnitId
+          ? { storageUnitId: Number(form.storageUnitId), storagePosition: form.storagePosition || undefined }
+          : {}),
         hospitalId,
       })
 
       if (result.success) {
-        setSuccess("Platelets bag added successfully!")
-        setPlateletsForm({
-          donorName: "",
-          amount: "",
-          expirationDate: "",
-          bloodType: "",
-          rh: "+",
-        })
+        setSuccess(`${bagLabel} added successfully!`)
+        setForms((prev) => ({ ...prev, [component]: createEmptyForm(shelfLifeRules[component], timeZone) }))
+        setLinkedDonors((prev) => ({ ...prev, [component]: undefined }))
         router.refresh()
       } else {
-        setError(result.error || "Failed to add platelets bag. Please try again.")
+        setError(result.error || `Failed to add ${bagLabel.toLowerCase()}. Please try again.`)
         setErrorType(result.type || ErrorType.SERVER)
         setErrorDetails(result.details || null)
         setIsRetryable(result.retryable || false)
@@ -495,12 +471,6 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
     setIsRetryable(false)
   }
 
-  // Get min date for expiration (today)
-  const getMinDate = () => {
-    const today = new Date()
-    return today.toISOString().split("T")[0]
-  }
-
   // Helper function to check if a field has validation error
   const hasError = (fieldName: string): boolean => {
     return !!validationErrors[fieldName]
@@ -541,384 +511,341 @@ export default function AddEntryForm({ hospitalId }: AddEntryFormProps) {
           </Alert>
         )}
 
-        <Tabs defaultValue="redblood" onValueChange={handleTabChange}>
-          <TabsList className="grid w-full grid-cols-3 mb-6">
-            <TabsTrigger value="redblood">Red Blood Cells</TabsTrigger>
-            <TabsTrigger value="plasma">Plasma</TabsTrigger>
-            <TabsTrigger value="platelets">Platelets</TabsTrigger>
+        <div className="space-y-2 mb-6">
+          <Label htmlFor="isbt-scan">Scan ISBT 128 label</Label>
+          <div className="flex gap-2">
+            <Input
+              id="isbt-scan"
+              value={scanValue}
+              onChange={(e) => setScanValue(e.target.value)}
+              onKeyDown={(e) => {
+                // Barcode scanners finish with Enter
+                if (e.key === "Enter") {
+                  e.preventDefault()
+                  handleScan()
+                }
+              }}
+              placeholder="Scan a barcode or type a DIN"
+              className={scanError ? "border-destructive" : ""}
+              autoComplete="off"
+            />
+            <Button type="button" variant="outline" onClick={handleScan} disabled={!scanValue.trim()}>
+              <ScanLine className="h-4 w-4 mr-1" />
+              Apply
+            </Button>
+          </div>
+          {scanError ? (
+            <p className="text-xs text-destructive">{scanError}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Fills in the donation number, component, blood group and expiry from the label
+            </p>
+          )}
+        </div>
+
+        <Tabs value={activeTab} onValueChange={handleTabChange}>
+          <TabsList
+            className="grid w-full mb-6"
+            style={{ gridTemplateColumns: `repeat(${BLOOD_COMPONENT_LIST.length}, minmax(0, 1fr))` }}
+          >
+            {BLOOD_COMPONENT_LIST.map((component) => (
+              <TabsTrigger key={component.key} value={component.key}>
+                {component.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
-          <TabsContent value="redblood">
-            <form id="redblood-form" onSubmit={handleRedBloodSubmit} className="space-y-4" ref={formRef}>
-              <div className="space-y-2">
-                <Label
-                  htmlFor="redblood-donorName"
-                  className={hasError("redblood-donorName") ? "text-destructive" : ""}
-                >
-                  Donor Name
-                </Label>
-                <Input
-                  id="redblood-donorName"
-                  name="donorName"
-                  value={redBloodForm.donorName}
-                  onChange={handleRedBloodChange}
-                  className={hasError("redblood-donorName") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("redblood-donorName") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("redblood-donorName")}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="redblood-amount" className={hasError("redblood-amount") ? "text-destructive" : ""}>
-                  Amount (ml)
-                </Label>
-                <Input
-                  id="redblood-amount"
-                  name="amount"
-                  type="number"
-                  min="100"
-                  max="500"
-                  value={redBloodForm.amount}
-                  onChange={handleRedBloodChange}
-                  className={hasError("redblood-amount") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("redblood-amount") ? (
-                  <p className="text-xs text-destructive">{getErrorMessage("redblood-amount")}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Valid range: 100-500 ml</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label
-                  htmlFor="redblood-expirationDate"
-                  className={hasError("redblood-expirationDate") ? "text-destructive" : ""}
-                >
-                  Expiration Date
-                </Label>
-                <Input
-                  id="redblood-expirationDate"
-                  name="expirationDate"
-                  type="date"
-                  min={getMinDate()}
-                  value={redBloodForm.expirationDate}
-                  onChange={handleRedBloodChange}
-                  className={hasError("redblood-expirationDate") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("redblood-expirationDate") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("redblood-expirationDate")}</p>
-                )}
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="redblood-bloodType"
-                    className={hasError("redblood-bloodType") ? "text-destructive" : ""}
-                  >
-                    Blood Type
-                  </Label>
-                  <Select
-                    name="bloodType"
-                    value={redBloodForm.bloodType}
-                    onValueChange={(value) => {
-                      setRedBloodForm((prev) => ({ ...prev, bloodType: value }))
-                      if (validationErrors["redblood-bloodType"]) {
-                        setValidationErrors((prev) => {
-                          const updated = { ...prev }
-                          delete updated["redblood-bloodType"]
-                          return updated
-                        })
-                      }
-                    }}
-                    required
-                  >
-                    <SelectTrigger
-                      id="redblood-bloodType"
-                      className={hasError("redblood-bloodType") ? "border-destructive" : ""}
-                    >
-                      <SelectValue placeholder="Select blood type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="A">A</SelectItem>
-                      <SelectItem value="B">B</SelectItem>
-                      <SelectItem value="AB">AB</SelectItem>
-                      <SelectItem value="O">O</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {hasError("redblood-bloodType") && (
-                    <p className="text-xs text-destructive">{getErrorMessage("redblood-bloodType")}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label className={hasError("redblood-rh") ? "text-destructive" : ""}>Rh Factor</Label>
-                  <RadioGroup value={redBloodForm.rh} onValueChange={handleRedBloodRhChange} className="flex space-x-4">
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="+" id="redblood-rh-positive" />
-                      <Label htmlFor="redblood-rh-positive">Positive (+)</Label>
+          {BLOOD_COMPONENT_LIST.map(({ key, label, hasRh, volumeRange, storageType }) => {
+            const form = forms[key]
+            const componentStorageUnits = storageUnits.filter((unit) => unit.unit_type === storageType)
+            const rules = shelfLifeRules[key]
+            const shelfLifeProblem = getShelfLifeProblem(key, form)
+
+            return (
+              <TabsContent key={key} value={key}>
+                <form id={`${key}-form`} onSubmit={(e) => handleSubmit(e, key)} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={`${key}-isbtDin`} className={hasError(`${key}-isbtDin`) ? "text-destructive" : ""}>
+                        Donation ID (DIN)
+                      </Label>
+                      <Input
+                        id={`${key}-isbtDin`}
+                        name="isbtDin"
+                        value={form.isbtDin}
+                        onChange={(e) => updateField(key, "isbtDin", e.target.value.toUpperCase())}
+                        placeholder="Optional"
+                        className={hasError(`${key}-isbtDin`) ? "border-destructive" : ""}
+                      />
+                      {hasError(`${key}-isbtDin`) ? (
+                        <p className="text-xs text-destructive">{getErrorMessage(`${key}-isbtDin`)}</p>
+                      ) : (
+                        /^[A-Z0-9]{13}$/.test(form.isbtDin) && (
+                          <p className="text-xs text-muted-foreground">Label reads {formatDin(form.isbtDin)}</p>
+                        )
+                      )}
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="-" id="redblood-rh-negative" />
-                      <Label htmlFor="redblood-rh-negative">Negative (-)</Label>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor={`${key}-isbtProductCode`}
+                        className={hasError(`${key}-isbtProductCode`) ? "text-destructive" : ""}
+                      >
+                        Product Code
+                      </Label>
+                      <Input
+                        id={`${key}-isbtProductCode`}
+                        name="isbtProductCode"
+                        value={form.isbtProductCode}
+                        onChange={(e) => updateField(key, "isbtProductCode", e.target.value.toUpperCase())}
+                        placeholder="Optional"
+                        className={hasError(`${key}-isbtProductCode`) ? "border-destructive" : ""}
+                      />
+                      {hasError(`${key}-isbtProductCode`) && (
+                        <p className="text-xs text-destructive">{getErrorMessage(`${key}-isbtProductCode`)}</p>
+                      )}
                     </div>
-                  </RadioGroup>
-                  {hasError("redblood-rh") && (
-                    <p className="text-xs text-destructive">{getErrorMessage("redblood-rh")}</p>
-                  )}
-                </div>
-              </div>
-
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? "Adding..." : "Add Red Blood Cell Bag"}
-              </Button>
-            </form>
-          </TabsContent>
-
-          <TabsContent value="plasma">
-            <form id="plasma-form" onSubmit={handlePlasmaSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="plasma-donorName" className={hasError("plasma-donorName") ? "text-destructive" : ""}>
-                  Donor Name
-                </Label>
-                <Input
-                  id="plasma-donorName"
-                  name="donorName"
-                  value={plasmaForm.donorName}
-                  onChange={handlePlasmaChange}
-                  className={hasError("plasma-donorName") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("plasma-donorName") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("plasma-donorName")}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="plasma-amount" className={hasError("plasma-amount") ? "text-destructive" : ""}>
-                  Amount (ml)
-                </Label>
-                <Input
-                  id="plasma-amount"
-                  name="amount"
-                  type="number"
-                  min="100"
-                  max="500"
-                  value={plasmaForm.amount}
-                  onChange={handlePlasmaChange}
-                  className={hasError("plasma-amount") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("plasma-amount") ? (
-                  <p className="text-xs text-destructive">{getErrorMessage("plasma-amount")}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Valid range: 100-500 ml</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label
-                  htmlFor="plasma-expirationDate"
-                  className={hasError("plasma-expirationDate") ? "text-destructive" : ""}
-                >
-                  Expiration Date
-                </Label>
-                <Input
-                  id="plasma-expirationDate"
-                  name="expirationDate"
-                  type="date"
-                  min={getMinDate()}
-                  value={plasmaForm.expirationDate}
-                  onChange={handlePlasmaChange}
-                  className={hasError("plasma-expirationDate") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("plasma-expirationDate") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("plasma-expirationDate")}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="plasma-bloodType" className={hasError("plasma-bloodType") ? "text-destructive" : ""}>
-                  Blood Type
-                </Label>
-                <Select
-                  name="bloodType"
-                  value={plasmaForm.bloodType}
-                  onValueChange={(value) => {
-                    setPlasmaForm((prev) => ({ ...prev, bloodType: value }))
-                    if (validationErrors["plasma-bloodType"]) {
-                      setValidationErrors((prev) => {
-                        const updated = { ...prev }
-                        delete updated["plasma-bloodType"]
-                        return updated
-                      })
-                    }
-                  }}
-                  required
-                >
-                  <SelectTrigger
-                    id="plasma-bloodType"
-                    className={hasError("plasma-bloodType") ? "border-destructive" : ""}
-                  >
-                    <SelectValue placeholder="Select blood type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="A">A</SelectItem>
-                    <SelectItem value="B">B</SelectItem>
-                    <SelectItem value="AB">AB</SelectItem>
-                    <SelectItem value="O">O</SelectItem>
-                  </SelectContent>
-                </Select>
-                {hasError("plasma-bloodType") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("plasma-bloodType")}</p>
-                )}
-              </div>
-
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? "Adding..." : "Add Plasma Bag"}
-              </Button>
-            </form>
-          </TabsContent>
-
-          <TabsContent value="platelets">
-            <form id="platelets-form" onSubmit={handlePlateletsSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label
-                  htmlFor="platelets-donorName"
-                  className={hasError("platelets-donorName") ? "text-destructive" : ""}
-                >
-                  Donor Name
-                </Label>
-                <Input
-                  id="platelets-donorName"
-                  name="donorName"
-                  value={plateletsForm.donorName}
-                  onChange={handlePlateletsChange}
-                  className={hasError("platelets-donorName") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("platelets-donorName") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("platelets-donorName")}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="platelets-amount" className={hasError("platelets-amount") ? "text-destructive" : ""}>
-                  Amount (ml)
-                </Label>
-                <Input
-                  id="platelets-amount"
-                  name="amount"
-                  type="number"
-                  min="100"
-                  max="500"
-                  value={plateletsForm.amount}
-                  onChange={handlePlateletsChange}
-                  className={hasError("platelets-amount") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("platelets-amount") ? (
-                  <p className="text-xs text-destructive">{getErrorMessage("platelets-amount")}</p>
-                ) : (
-                  <p className="text-xs text-muted-foreground">Valid range: 100-500 ml</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label
-                  htmlFor="platelets-expirationDate"
-                  className={hasError("platelets-expirationDate") ? "text-destructive" : ""}
-                >
-                  Expiration Date
-                </Label>
-                <Input
-                  id="platelets-expirationDate"
-                  name="expirationDate"
-                  type="date"
-                  min={getMinDate()}
-                  value={plateletsForm.expirationDate}
-                  onChange={handlePlateletsChange}
-                  className={hasError("platelets-expirationDate") ? "border-destructive" : ""}
-                  required
-                />
-                {hasError("platelets-expirationDate") && (
-                  <p className="text-xs text-destructive">{getErrorMessage("platelets-expirationDate")}</p>
-                )}
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="platelets-bloodType"
-                    className={hasError("platelets-bloodType") ? "text-destructive" : ""}
-                  >
-                    Blood Type
-                  </Label>
-                  <Select
-                    name="bloodType"
-                    value={plateletsForm.bloodType}
-                    onValueChange={(value) => {
-                      setPlateletsForm((prev) => ({ ...prev, bloodType: value }))
-                      if (validationErrors["platelets-bloodType"]) {
-                        setValidationErrors((prev) => {
-                          const updated = { ...prev }
-                          delete updated["platelets-bloodType"]
-                          return updated
-                        })
-                      }
-                    }}
-                    required
-                  >
-                    <SelectTrigger
-                      id="platelets-bloodType"
-                      className={hasError("platelets-bloodType") ? "border-destructive" : ""}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor={`${key}-donorName`} className={hasError(`${key}-donorName`) ? "text-destructive" : ""}>
+                      Donor Name
+                    </Label>
+                    <DonorLookup
+                      id={`${key}-donorName`}
+                      value={form.donorName}
+                      onChange={(value) => updateField(key, "donorName", value)}
+                      donor={linkedDonors[key] ?? null}
+                      onSelect={(donor) => handleDonorSelect(key, donor)}
+                      className={hasError(`${key}-donorName`) ? "border-destructive" : ""}
+                    />
+                    {hasError(`${key}-donorName`) && (
+                      <p className="text-xs text-destructive">{getErrorMessage(`${key}-donorName`)}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor={`${key}-amount`} className={hasError(`${key}-amount`) ? "text-destructive" : ""}>
+                      Amount (ml)
+                    </Label>
+                    <Input
+                      id={`${key}-amount`}
+                      name="amount"
+                      type="number"
+                      min={volumeRange.min}
+                      max={volumeRange.max}
+                      value={form.amount}
+                      onChange={(e) => updateField(key, "amount", e.target.value)}
+                      className={hasError(`${key}-amount`) ? "border-destructive" : ""}
+                      required
+                    />
+                    {hasError(`${key}-amount`) ? (
+                      <p className="text-xs text-destructive">{getErrorMessage(`${key}-amount`)}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Valid range: {volumeRange.min}-{volumeRange.max} ml
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor={`${key}-collectionDate`}
+                        className={hasError(`${key}-collectionDate`) ? "text-destructive" : ""}
+                      >
+                        Collection Date
+                      </Label>
+                      <Input
+                        id={`${key}-collectionDate`}
+                        name="collectionDate"
+                        type="date"
+                        max={today(timeZone)}
+                        value={form.collectionDate}
+                        onChange={(e) => updateDating(key, "collectionDate", e.target.value)}
+                        className={hasError(`${key}-collectionDate`) ? "border-destructive" : ""}
+                      />
+                      {hasError(`${key}-collectionDate`) && (
+                        <p className="text-xs text-destructive">{getErrorMessage(`${key}-collectionDate`)}</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor={`${key}-shelfLifeRule`}
+                        className={hasError(`${key}-shelfLifeRule`) ? "text-destructive" : ""}
+                      >
+                        Shelf Life
+                      </Label>
+                      <Select
+                        name="shelfLifeRule"
+                        value={form.shelfLifeRule}
+                        onValueChange={(value) => updateDating(key, "shelfLifeRule", value)}
+                      >
+                        <SelectTrigger
+                          id={`${key}-shelfLifeRule`}
+                          className={hasError(`${key}-shelfLifeRule`) ? "border-destructive" : ""}
+                        >
+                          <SelectValue placeholder="Select a rule" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {rules.map((rule) => (
+                            <SelectItem key={rule.name} value={rule.name}>
+                              {rule.name} ({rule.days} days)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {hasError(`${key}-shelfLifeRule`) && (
+                        <p className="text-xs text-destructive">{getErrorMessage(`${key}-shelfLifeRule`)}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor={`${key}-expirationDate`}
+                      className={hasError(`${key}-expirationDate`) ? "text-destructive" : ""}
                     >
-                      <SelectValue placeholder="Select blood type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="A">A</SelectItem>
-                      <SelectItem value="B">B</SelectItem>
-                      <SelectItem value="AB">AB</SelectItem>
-                      <SelectItem value="O">O</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {hasError("platelets-bloodType") && (
-                    <p className="text-xs text-destructive">{getErrorMessage("platelets-bloodType")}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label className={hasError("platelets-rh") ? "text-destructive" : ""}>Rh Factor</Label>
-                  <RadioGroup
-                    value={plateletsForm.rh}
-                    onValueChange={handlePlateletsRhChange}
-                    className="flex space-x-4"
-                  >
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="+" id="platelets-rh-positive" />
-                      <Label htmlFor="platelets-rh-positive">Positive (+)</Label>
+                      Expires
+                    </Label>
+                    <Input
+                      id={`${key}-expirationDate`}
+                      name="expirationDate"
+                      type="datetime-local"
+                      min={`${today(timeZone)}T00:00`}
+                      value={form.expirationDate}
+                      onChange={(e) => updateField(key, "expirationDate", e.target.value)}
+                      className={hasError(`${key}-expirationDate`) ? "border-destructive" : ""}
+                      required
+                    />
+                    {hasError(`${key}-expirationDate`) ? (
+                      <p className="text-xs text-destructive">{getErrorMessage(`${key}-expirationDate`)}</p>
+                    ) : shelfLifeProblem ? (
+                      <p className="text-xs text-amber-600">{shelfLifeProblem}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Set from the collection date and shelf life; times are in {timeZone}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className={hasRh ? "grid grid-cols-2 gap-4" : ""}>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor={`${key}-bloodType`}
+                        className={hasError(`${key}-bloodType`) ? "text-destructive" : ""}
+                      >
+                        Blood Type
+                      </Label>
+                      <Select
+                        name="bloodType"
+                        value={form.bloodType}
+                        onValueChange={(value) => updateField(key, "bloodType", value)}
+                        required
+                      >
+                        <SelectTrigger
+                          id={`${key}-bloodType`}
+                          className={hasError(`${key}-bloodType`) ? "border-destructive" : ""}
+                        >
+                          <SelectValue placeholder="Select blood type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="A">A</SelectItem>
+                          <SelectItem value="B">B</SelectItem>
+                          <SelectItem value="AB">AB</SelectItem>
+                          <SelectItem value="O">O</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {hasError(`${key}-bloodType`) && (
+                        <p className="text-xs text-destructive">{getErrorMessage(`${key}-bloodType`)}</p>
+                      )}
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="-" id="platelets-rh-negative" />
-                      <Label htmlFor="platelets-rh-negative">Negative (-)</Label>
+
+                    {hasRh && (
+                      <div className="space-y-2">
+                        <Label className={hasError(`${key}-rh`) ? "text-destructive" : ""}>Rh Factor</Label>
+                        <RadioGroup
+                          value={form.rh}
+                          onValueChange={(value) => updateField(key, "rh", value)}
+                          className="flex space-x-4"
+                        >
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="+" id={`${key}-rh-positive`} />
+                            <Label htmlFor={`${key}-rh-positive`}>Positive (+)</Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="-" id={`${key}-rh-negative`} />
+                            <Label htmlFor={`${key}-rh-negative`}>Negative (-)</Label>
+                          </div>
+                        </RadioGroup>
+                        {hasError(`${key}-rh`) && (
+                          <p className="text-xs text-destructive">{getErrorMessage(`${key}-rh`)}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {componentStorageUnits.length > 0 && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label
+                          htmlFor={`${key}-storageUnitId`}
+                          className={hasError(`${key}-storageUnitId`) ? "text-destructive" : ""}
+                        >
+                          Storage Unit
+                        </Label>
+                        <Select
+                          name="storageUnitId"
+                          value={form.storageUnitId || "none"}
+                          onValueChange={(value) => updateField(key, "storageUnitId", value === "none" ? "" : value)}
+                        >
+                          <SelectTrigger
+                            id={`${key}-storageUnitId`}
+                            className={hasError(`${key}-storageUnitId`) ? "border-destructive" : ""}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not put away yet</SelectItem>
+                            {componentStorageUnits.map((unit) => (
+                              <SelectItem
+                                key={unit.storage_unit_id}
+                                value={String(unit.storage_unit_id)}
+                                disabled={unit.bag_count >= unit.capacity}
+                              >
+                                {unit.name} ({unit.bag_count}/{unit.capacity})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {hasError(`${key}-storageUnitId`) && (
+                          <p className="text-xs text-destructive">{getErrorMessage(`${key}-storageUnitId`)}</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor={`${key}-storagePosition`}>Shelf / Slot</Label>
+                        <Input
+                          id={`${key}-storagePosition`}
+                          name="storagePosition"
+                          value={form.storagePosition}
+                          onChange={(e) => updateField(key, "storagePosition", e.target.value)}
+                          placeholder="Optional"
+                          maxLength={50}
+                          disabled={!form.storageUnitId}
+                        />
+                      </div>
                     </div>
-                  </RadioGroup>
-                  {hasError("platelets-rh") && (
-                    <p className="text-xs text-destructive">{getErrorMessage("platelets-rh")}</p>
                   )}
-                </div>
-              </div>
-
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? "Adding..." : "Add Platelets Bag"}
-              </Button>
-            </form>
-          </TabsContent>
+
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? "Adding..." : `Add ${label}`}
+                  </Button>
+                </form>
+              </TabsContent>
+            )
+          })}
         </Tabs>
       </CardContent>
     </Card>
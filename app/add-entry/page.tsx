@@ -6,6 +6,10 @@ import { redirect } from "next/navigation"
 import { AppError, ErrorType } from "@/lib/error-handling"
 import DatabaseError from "@/components/database-error"
 import { isPreviewMode } from "@/lib/environment-detection"
+import { hasPermission } from "@/lib/permissions"
+import { getShelfLifeRules } from "@/lib/shelf-life-rules"
+import { getStorageUnits } from "@/lib/storage-units"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
 
 // Force dynamic rendering since we're using cookies
 export const dynamic = "force-dynamic"
@@ -40,21 +44,34 @@ export default async function AddEntryPage() {
       redirect("/login?reason=no-session")
     }
 
+    // Read-only roles cannot add entries
+    if (!hasPermission(session.role, "inventory:add")) {
+      redirect("/dashboard")
+    }
+
     const { hospitalId } = session
 
     try {
       // Fetch hospital data
       const hospital = await getHospitalById(hospitalId)
+      const shelfLifeRules = await getShelfLifeRules(hospitalId)
+      const storageUnits = await getStorageUnits(hospitalId)
+      const timeZone = await getHospitalTimeZone(hospitalId)
 
       return (
         <div className="min-h-screen flex flex-col">
-          <Header hospitalId={hospitalId} />
+          <Header hospitalId={hospitalId} role={session.role} />
 
           <main className="flex-1 container py-6 px-4 md:py-8">
             <h1 className="text-2xl font-bold mb-6">Add New Entry</h1>
 
             <div className="max-w-2xl mx-auto">
-              <AddEntryForm hospitalId={hospitalId} />
+              <AddEntryForm
+                hospitalId={hospitalId}
+                shelfLifeRules={shelfLifeRules}
+                storageUnits={storageUnits}
+                timeZone={timeZone}
+              />
             </div>
           </main>
         </div>
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { changeAdminPassword } from "@/lib/admin-accounts"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+    const { currentPassword, newPassword } = await request.json()
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { success: false, error: "Current password and new password are required" },
+        { status: 400 },
+      )
+    }
+
+    const result = await changeAdminPassword(
+      session.adminId,
+      String(currentPassword),
+      String(newPassword),
+      session.sessionId,
+    )
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error changing password:", error)
+    return apiErrorResponse(error, "Failed to change password")
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from "@/lib/two-factor"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+    const { code } = await request.json()
+
+    if (!code || !(await verifyTwoFactorCode(session.adminId, String(code)))) {
+      return NextResponse.json({ success: false, error: "Invalid authentication code" }, { status: 400 })
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.adminId)
+    return NextResponse.json({ success: true, data: { recoveryCodes } })
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error)
+    return apiErrorResponse(error, "Failed to regenerate recovery codes")
+  }
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { disableTwoFactor, getTwoFactorStatus, verifyTwoFactorCode } from "@/lib/two-factor"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await requireAuth()
+    const status = await getTwoFactorStatus(session.adminId)
+    return NextResponse.json({ success: true, data: status })
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error)
+    return apiErrorResponse(error, "Failed to fetch two-factor status")
+  }
+}
+
+// Disabling requires a current code so a hijacked session can't turn 2FA off
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await requireAuth()
+    const { code } = await request.json()
+
+    if (!code || !(await verifyTwoFactorCode(session.adminId, String(code)))) {
+      return NextResponse.json({ success: false, error: "Invalid authentication code" }, { status: 400 })
+    }
+
+    const result = await disableTwoFactor(session.adminId)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error)
+    return apiErrorResponse(error, "Failed to disable two-factor authentication")
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { startTwoFactorEnrollment } from "@/lib/two-factor"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function POST() {
+  try {
+    const session = await requireAuth()
+    const enrollment = await startTwoFactorEnrollment(session.adminId)
+    return NextResponse.json({ success: true, data: enrollment })
+  } catch (error) {
+    console.error("Error starting two-factor enrollment:", error)
+    return apiErrorResponse(error, "Failed to start enrollment")
+  }
+}
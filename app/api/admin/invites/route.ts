@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { createInvite, getActiveInvites, revokeInvite } from "@/lib/admin-accounts"
+import { ErrorType } from "@/lib/error-handling"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { canAssignRole, isAdminRole } from "@/lib/permissions"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await requirePermission("admins:manage")
+    const invites = await getActiveInvites(session.hospitalId)
+    return NextResponse.json({ success: true, data: invites })
+  } catch (error) {
+    console.error("Error fetching invites:", error)
+    return apiErrorResponse(error, "Failed to fetch invites")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("admins:manage")
+    const { role, ttlHours } = await request.json()
+
+    if (!isAdminRole(role)) {
+      return NextResponse.json({ success: false, error: "A valid role is required" }, { status: 400 })
+    }
+
+    // Admins cannot hand out a role above their own
+    if (!canAssignRole(session.role, role)) {
+      return NextResponse.json(
+        { success: false, error: "You cannot invite an account with this role", type: ErrorType.FORBIDDEN },
+        { status: 403 },
+      )
+    }
+
+    const invite = await createInvite(session.hospitalId, role, session.adminId, ttlHours ? Number(ttlHours) : undefined)
+    return NextResponse.json({ success: true, data: invite })
+  } catch (error) {
+    console.error("Error creating invite:", error)
+    return apiErrorResponse(error, "Failed to create invite")
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await requirePermission("admins:manage")
+    const { inviteId } = await request.json()
+
+    if (!inviteId) {
+      return NextResponse.json({ success: false, error: "Invite ID is required" }, { status: 400 })
+    }
+
+    const result = await revokeInvite(Number(inviteId), session.hospitalId)
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: "Invite not found or already used" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error revoking invite:", error)
+    return apiErrorResponse(error, "Failed to revoke invite")
+  }
+}
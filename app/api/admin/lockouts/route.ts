@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { getLockedAdmins, unlockAdmin } from "@/lib/login-throttle"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await requirePermission("admins:manage")
+    const locked = await getLockedAdmins(session.hospitalId)
+    return NextResponse.json({ success: true, data: locked })
+  } catch (error) {
+    console.error("Error fetching locked accounts:", error)
+    return apiErrorResponse(error, "Failed to fetch locked accounts")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("admins:manage")
+    const { adminId } = await request.json()
+
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: "Admin ID is required" }, { status: 400 })
+    }
+
+    const result = await unlockAdmin(Number(adminId), session.hospitalId)
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: "Locked account not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error unlocking account:", error)
+    return apiErrorResponse(error, "Failed to unlock account")
+  }
+}
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { createPasswordResetToken, getHospitalColleagues } from "@/lib/admin-accounts"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { canAssignRole, isAdminRole } from "@/lib/permissions"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Colleagues whose password the signed-in admin may reset
+export async function GET() {
+  try {
+    const session = await requirePermission("admins:manage")
+    const colleagues = await getHospitalColleagues(session.hospitalId, session.adminId)
+    const resettable = colleagues.filter((admin) => isAdminRole(admin.role) && canAssignRole(session.role, admin.role))
+    return NextResponse.json({ success: true, data: resettable })
+  } catch (error) {
+    console.error("Error fetching colleagues:", error)
+    return apiErrorResponse(error, "Failed to fetch accounts")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("admins:manage")
+    const { adminId } = await request.json()
+
+    if (!adminId) {
+      return NextResponse.json({ success: false, error: "Admin ID is required" }, { status: 400 })
+    }
+
+    const reset = await createPasswordResetToken(Number(adminId), session.hospitalId, session.adminId, session.role)
+    return NextResponse.json({ success: true, data: reset })
+  } catch (error) {
+    console.error("Error creating password reset:", error)
+    return apiErrorResponse(error, "Failed to create password reset")
+  }
+}
@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { getPendingAdmins, reviewPendingAdmin } from "@/lib/admin-accounts"
+import { ErrorType } from "@/lib/error-handling"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { canAssignRole, isAdminRole } from "@/lib/permissions"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await requirePermission("admins:manage")
+    const pending = await getPendingAdmins(session.hospitalId)
+    return NextResponse.json({ success: true, data: pending })
+  } catch (error) {
+    console.error("Error fetching pending accounts:", error)
+    return apiErrorResponse(error, "Failed to fetch pending accounts")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("admins:manage")
+    const { adminId, decision, role = "viewer" } = await request.json()
+
+    if (!adminId || (decision !== "approve" && decision !== "reject")) {
+      return NextResponse.json(
+        { success: false, error: "Admin ID and a decision of approve or reject are required" },
+        { status: 400 },
+      )
+    }
+
+    if (!isAdminRole(role)) {
+      return NextResponse.json({ success: false, error: "Invalid role" }, { status: 400 })
+    }
+
+    if (decision === "approve" && !canAssignRole(session.role, role)) {
+      return NextResponse.json(
+        { success: false, error: "You cannot approve an account with this role", type: ErrorType.FORBIDDEN },
+        { status: 403 },
+      )
+    }
+
+    const result = await reviewPendingAdmin(Number(adminId), session.hospitalId, session.adminId, decision, role)
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error reviewing pending account:", error)
+    return apiErrorResponse(error, "Failed to review pending account")
+  }
+}
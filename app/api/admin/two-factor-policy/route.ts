@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { getHospitalTwoFactorPolicy, setHospitalTwoFactorRequirement } from "@/lib/two-factor"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await requirePermission("admins:manage")
+    const policy = await getHospitalTwoFactorPolicy(session.hospitalId)
+    return NextResponse.json({ success: true, data: policy })
+  } catch (error) {
+    console.error("Error fetching two-factor policy:", error)
+    return apiErrorResponse(error, "Failed to fetch two-factor policy")
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission("admins:manage")
+    const { required } = await request.json()
+
+    if (typeof required !== "boolean") {
+      return NextResponse.json({ success: false, error: "required must be true or false" }, { status: 400 })
+    }
+
+    const result = await setHospitalTwoFactorRequirement(session.hospitalId, required)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error updating two-factor policy:", error)
+    return apiErrorResponse(error, "Failed to update two-factor policy")
+  }
+}
@@ -1,7 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { requireAuth } from "@/lib/auth"
+import { hasPermission } from "@/lib/permissions"
 import { dbClient } from "@/lib/db"
 import { AppError, ErrorType } from "@/lib/error-handling"
+import { BLOOD_COMPONENT_LIST } from "@/lib/blood-components"
+import { EXPIRING_SOON_DAYS } from "@/lib/expiry"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { buildInventoryWhereClause, parseInventoryFilterQuery, type InventoryFilters } from "@/lib/inventory-filters"
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,56 +19,33 @@ export async function GET(request: NextRequest) {
     // Get the hospital ID from the session
     const { hospitalId } = session
 
-    // Get URL parameters
+    // Parse and validate the filter parameters
     const url = new URL(request.url)
-    const showAllHospitals = url.searchParams.get("showAllHospitals") === "true"
-    const bloodType = url.searchParams.get("bloodType") || undefined
-    const rhFactor = url.searchParams.get("rhFactor") || undefined
-    const expirationStatus = url.searchParams.get("expirationStatus") || "valid"
-    const startDate = url.searchParams.get("startDate") || undefined
-    const endDate = url.searchParams.get("endDate") || undefined
-    const inventoryType = url.searchParams.get("inventoryType") || "all"
+    const query = parseInventoryFilterQuery(url.searchParams)
+    const { showAllHospitals } = query
 
-    // Build base conditions for queries
-    const baseConditions = []
-
-    // Hospital condition
-    if (!showAllHospitals) {
-      baseConditions.push(`hospital_id = ${hospitalId}`)
-    }
-
-    // Blood type condition
-    if (bloodType) {
-      baseConditions.push(`blood_type = '${bloodType}'`)
-    }
-
-    // Rh factor condition (only for red blood and platelets)
-    if (rhFactor) {
-      baseConditions.push(`rh = '${rhFactor}'`)
-    }
-
-    // Expiration status condition
-    if (expirationStatus === "valid") {
-      baseConditions.push("expiration_date > CURRENT_DATE")
-    } else if (expirationStatus === "expired") {
-      baseConditions.push("expiration_date <= CURRENT_DATE")
-    } else if (expirationStatus === "expiring-soon") {
-      baseConditions.push("expiration_date > CURRENT_DATE AND expiration_date <= CURRENT_DATE + INTERVAL '7 days'")
-    }
-
-    // Date range conditions
-    if (startDate) {
-      baseConditions.push(`expiration_date >= '${startDate}'::date`)
+    // Only network-level roles may look across hospitals
+    if (showAllHospitals && !hasPermission(session.role, "inventory:view-all-hospitals")) {
+      return NextResponse.json(
+        { success: false, error: "You don't have permission to view other hospitals' inventory" },
+        { status: 403 },
+      )
     }
-    if (endDate) {
-      baseConditions.push(`expiration_date <= '${endDate}'::date`)
+    const inventoryType = query.inventoryType || "all"
+
+    // Filters shared by every inventory table; rh is skipped by the builder for components without Rh
+    const filters: InventoryFilters = {
+      hospitalId,
+      showAllHospitals,
+      bloodType: query.bloodType,
+      rhFactor: query.rhFactor,
+      expirationStatus: query.expirationStatus || "valid",
+      startDate: query.startDate,
+      endDate: query.endDate,
+      timeZone: await getHospitalTimeZone(hospitalId),
     }
-
-    // Active condition
-    baseConditions.push("active = true")
-
-    // Combine conditions
-    const whereClause = baseConditions.length > 0 ? `WHERE ${baseConditions.join(" AND ")}` : ""
+    const components =
+      inventoryType === "all" ? BLOOD_COMPONENT_LIST : BLOOD_COMPONENT_LIST.filter(({ key }) => key === inventoryType)
 
     // Get summary data
     const summaryData = {
@@ -86,162 +68,64 @@ export async function GET(request: NextRequest) {
     // Get expiration timeline
     let expirationTimeline = []
 
-    // Execute queries based on inventory type
-    if (inventoryType === "all" || inventoryType === "redblood") {
-      // Get red blood cell data
-      const redBloodQuery = `
+    // Execute queries for each selected component
+    for (const component of components) {
+      const where = buildInventoryWhereClause(component.key, filters)
+
+      const summaryQuery = `
         SELECT 
           COUNT(*) as total_count,
-          SUM(CASE WHEN expiration_date > CURRENT_DATE THEN 1 ELSE 0 END) as valid_count,
-          SUM(CASE WHEN expiration_date <= CURRENT_DATE THEN 1 ELSE 0 END) as expired_count,
-          SUM(CASE WHEN expiration_date > CURRENT_DATE AND expiration_date <= CURRENT_DATE + INTERVAL '7 days' THEN 1 ELSE 0 END) as expiring_soon_count,
+          SUM(CASE WHEN expiration_date > NOW() THEN 1 ELSE 0 END) as valid_count,
+          SUM(CASE WHEN expiration_date <= NOW() THEN 1 ELSE 0 END) as expired_count,
+          SUM(
+            CASE WHEN expiration_date > NOW() AND expiration_date <= NOW() + INTERVAL '${EXPIRING_SOON_DAYS} days'
+            THEN 1 ELSE 0 END
+          ) as expiring_soon_count,
           SUM(amount) as total_amount
-        FROM redblood_inventory
-        ${whereClause}
+        FROM ${component.tableName}
+        ${where.clause}
       `
-      const redBloodSummary = await dbClient.query(redBloodQuery)
+      const summary = await dbClient.query(summaryQuery, where.params)
 
-      if (redBloodSummary.length > 0) {
-        summaryData.totalCount += Number(redBloodSummary[0].total_count || 0)
-        summaryData.validCount += Number(redBloodSummary[0].valid_count || 0)
-        summaryData.expiredCount += Number(redBloodSummary[0].expired_count || 0)
-        summaryData.expiringSoonCount += Number(redBloodSummary[0].expiring_soon_count || 0)
+      if (summary.length > 0) {
+        summaryData.totalCount += Number(summary[0].total_count || 0)
+        summaryData.validCount += Number(summary[0].valid_count || 0)
+        summaryData.expiredCount += Number(summary[0].expired_count || 0)
+        summaryData.expiringSoonCount += Number(summary[0].expiring_soon_count || 0)
 
         // Add to byType
-        if (Number(redBloodSummary[0].total_count) > 0) {
+        if (Number(summary[0].total_count) > 0) {
           summaryData.byType.push({
-            type: "Red Blood Cells",
-            count: Number(redBloodSummary[0].total_count),
-            totalAmount: Number(redBloodSummary[0].total_amount),
+            type: component.label,
+            count: Number(summary[0].total_count),
+            totalAmount: Number(summary[0].total_amount),
             percentage: 0, // Will calculate after all types are added
           })
         }
       }
 
-      // Get blood type distribution for red blood
-      const redBloodTypeQuery = `
+      // Get blood type distribution; components without Rh report an empty rh
+      const typeQuery = component.hasRh
+        ? `
         SELECT blood_type, rh, COUNT(*) as count, SUM(amount) as total_amount
-        FROM redblood_inventory
-        ${whereClause}
+        FROM ${component.tableName}
+        ${where.clause}
         GROUP BY blood_type, rh
         ORDER BY blood_type, rh
       `
-      const redBloodTypeData = await dbClient.query(redBloodTypeQuery)
-
-      if (redBloodTypeData.length > 0) {
-        bloodTypeDistribution = [
-          ...bloodTypeDistribution,
-          ...redBloodTypeData.map((item: any) => ({
-            bloodType: item.blood_type,
-            rh: item.rh,
-            count: Number(item.count),
-            totalAmount: Number(item.total_amount),
-            percentage: 0, // Will calculate after all data is collected
-          })),
-        ]
-      }
-    }
-
-    if (inventoryType === "all" || inventoryType === "plasma") {
-      // Get plasma data
-      const plasmaQuery = `
-        SELECT 
-          COUNT(*) as total_count,
-          SUM(CASE WHEN expiration_date > CURRENT_DATE THEN 1 ELSE 0 END) as valid_count,
-          SUM(CASE WHEN expiration_date <= CURRENT_DATE THEN 1 ELSE 0 END) as expired_count,
-          SUM(CASE WHEN expiration_date > CURRENT_DATE AND expiration_date <= CURRENT_DATE + INTERVAL '7 days' THEN 1 ELSE 0 END) as expiring_soon_count,
-          SUM(amount) as total_amount
-        FROM plasma_inventory
-        ${whereClause.replace("rh = '" + (rhFactor || "") + "' AND ", "")} 
-      `
-      const plasmaSummary = await dbClient.query(plasmaQuery)
-
-      if (plasmaSummary.length > 0) {
-        summaryData.totalCount += Number(plasmaSummary[0].total_count || 0)
-        summaryData.validCount += Number(plasmaSummary[0].valid_count || 0)
-        summaryData.expiredCount += Number(plasmaSummary[0].expired_count || 0)
-        summaryData.expiringSoonCount += Number(plasmaSummary[0].expiring_soon_count || 0)
-
-        // Add to byType
-        if (Number(plasmaSummary[0].total_count) > 0) {
-          summaryData.byType.push({
-            type: "Plasma",
-            count: Number(plasmaSummary[0].total_count),
-            totalAmount: Number(plasmaSummary[0].total_amount),
-            percentage: 0, // Will calculate after all types are added
-          })
-        }
-      }
-
-      // Get blood type distribution for plasma
-      const plasmaTypeQuery = `
+        : `
         SELECT blood_type, '' as rh, COUNT(*) as count, SUM(amount) as total_amount
-        FROM plasma_inventory
-        ${whereClause.replace("rh = '" + (rhFactor || "") + "' AND ", "")}
+        FROM ${component.tableName}
+        ${where.clause}
         GROUP BY blood_type
         ORDER BY blood_type
       `
-      const plasmaTypeData = await dbClient.query(plasmaTypeQuery)
-
-      if (plasmaTypeData.length > 0) {
-        bloodTypeDistribution = [
-          ...bloodTypeDistribution,
-          ...plasmaTypeData.map((item: any) => ({
-            bloodType: item.blood_type,
-            rh: item.rh,
-            count: Number(item.count),
-            totalAmount: Number(item.total_amount),
-            percentage: 0, // Will calculate after all data is collected
-          })),
-        ]
-      }
-    }
-
-    if (inventoryType === "all" || inventoryType === "platelets") {
-      // Get platelets data
-      const plateletsQuery = `
-        SELECT 
-          COUNT(*) as total_count,
-          SUM(CASE WHEN expiration_date > CURRENT_DATE THEN 1 ELSE 0 END) as valid_count,
-          SUM(CASE WHEN expiration_date <= CURRENT_DATE THEN 1 ELSE 0 END) as expired_count,
-          SUM(CASE WHEN expiration_date > CURRENT_DATE AND expiration_date <= CURRENT_DATE + INTERVAL '7 days' THEN 1 ELSE 0 END) as expiring_soon_count,
-          SUM(amount) as total_amount
-        FROM platelets_inventory
-        ${whereClause}
-      `
-      const plateletsSummary = await dbClient.query(plateletsQuery)
-
-      if (plateletsSummary.length > 0) {
-        summaryData.totalCount += Number(plateletsSummary[0].total_count || 0)
-        summaryData.validCount += Number(plateletsSummary[0].valid_count || 0)
-        summaryData.expiredCount += Number(plateletsSummary[0].expired_count || 0)
-        summaryData.expiringSoonCount += Number(plateletsSummary[0].expiring_soon_count || 0)
-
-        // Add to byType
-        if (Number(plateletsSummary[0].total_count) > 0) {
-          summaryData.byType.push({
-            type: "Platelets",
-            count: Number(plateletsSummary[0].total_count),
-            totalAmount: Number(plateletsSummary[0].total_amount),
-            percentage: 0, // Will calculate after all types are added
-          })
-        }
-      }
-
-      // Get blood type distribution for platelets
-      const plateletsTypeQuery = `
-        SELECT blood_type, rh, COUNT(*) as count, SUM(amount) as total_amount
-        FROM platelets_inventory
-        ${whereClause}
-        GROUP BY blood_type, rh
-        ORDER BY blood_type, rh
-      `
-      const plateletsTypeData = await dbClient.query(plateletsTypeQuery)
+      const typeData = await dbClient.query(typeQuery, where.params)
 
-      if (plateletsTypeData.length > 0) {
+      if (typeData.length > 0) {
         bloodTypeDistribution = [
           ...bloodTypeDistribution,
-          ...plateletsTypeData.map((item: any) => ({
+          ...typeData.map((item: any) => ({
             bloodType: item.blood_type,
             rh: item.rh,
             count: Number(item.count),
@@ -295,53 +179,26 @@ export async function GET(request: NextRequest) {
 
     // Get hospital distribution if showing all hospitals
     if (showAllHospitals) {
-      // Build the query based on inventory type
-      let hospitalQuery = ""
-
-      if (inventoryType === "all") {
-        hospitalQuery = `
-          SELECT h.hospital_id, h.hospital_name, COUNT(*) as count, SUM(amount) as total_amount
-          FROM (
-            SELECT hospital_id, amount FROM redblood_inventory ${whereClause}
-            UNION ALL
-            SELECT hospital_id, amount FROM plasma_inventory ${whereClause.replace("rh = '" + (rhFactor || "") + "' AND ", "")}
-            UNION ALL
-            SELECT hospital_id, amount FROM platelets_inventory ${whereClause}
-          ) as combined
-          JOIN hospital h ON combined.hospital_id = h.hospital_id
-          GROUP BY h.hospital_id, h.hospital_name
-          ORDER BY count DESC
-        `
-      } else if (inventoryType === "redblood") {
-        hospitalQuery = `
-          SELECT h.hospital_id, h.hospital_name, COUNT(*) as count, SUM(rb.amount) as total_amount
-          FROM redblood_inventory rb
-          JOIN hospital h ON rb.hospital_id = h.hospital_id
-          ${whereClause}
-          GROUP BY h.hospital_id, h.hospital_name
-          ORDER BY count DESC
-        `
-      } else if (inventoryType === "plasma") {
-        hospitalQuery = `
-          SELECT h.hospital_id, h.hospital_name, COUNT(*) as count, SUM(p.amount) as total_amount
-          FROM plasma_inventory p
-          JOIN hospital h ON p.hospital_id = h.hospital_id
-          ${whereClause.replace("rh = '" + (rhFactor || "") + "' AND ", "")}
-          GROUP BY h.hospital_id, h.hospital_name
-          ORDER BY count DESC
-        `
-      } else if (inventoryType === "platelets") {
-        hospitalQuery = `
-          SELECT h.hospital_id, h.hospital_name, COUNT(*) as count, SUM(p.amount) as total_amount
-          FROM platelets_inventory p
-          JOIN hospital h ON p.hospital_id = h.hospital_id
-          ${whereClause}
-          GROUP BY h.hospital_id, h.hospital_name
-          ORDER BY count DESC
-        `
-      }
+      // Combine the selected component tables; each subquery numbers its
+      // placeholders after the previous ones
+      let hospitalParams: unknown[] = []
+      const subqueries = components.map((component) => {
+        const where = buildInventoryWhereClause(component.key, filters, { startIndex: hospitalParams.length + 1 })
+        hospitalParams = [...hospitalParams, ...where.params]
+        return `SELECT hospital_id, amount FROM ${component.tableName} ${where.clause}`
+      })
+
+      const hospitalQuery = `
+        SELECT h.hospital_id, h.hospital_name, COUNT(*) as count, SUM(amount) as total_amount
+        FROM (
+          ${subqueries.join("\n          UNION ALL\n          ")}
+        ) as combined
+        JOIN hospital h ON combined.hospital_id = h.hospital_id
+        GROUP BY h.hospital_id, h.hospital_name
+        ORDER BY count DESC
+      `
 
-      const hospitalData = await dbClient.query(hospitalQuery)
+      const hospitalData = await dbClient.query(hospitalQuery, hospitalParams)
 
       if (hospitalData.length > 0) {
         hospitalDistribution = hospitalData.map((item: any) => ({
@@ -403,7 +260,9 @@ export async function GET(request: NextRequest) {
     if (error instanceof AppError) {
       return NextResponse.json(
         { success: false, error: error.message, details: error.details },
-        { status: error.type === ErrorType.AUTHENTICATION ? 401 : 400 },
+        {
+          status: error.type === ErrorType.AUTHENTICATION ? 401 : error.type === ErrorType.FORBIDDEN ? 403 : 400,
+        },
       )
     }
 
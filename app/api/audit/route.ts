@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { getAuditLog, parseAuditLogQuery } from "@/lib/audit-log"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requirePermission("audit:view")
+    const filters = parseAuditLogQuery(request.nextUrl.searchParams)
+    const entries = await getAuditLog(session.hospitalId, filters)
+    return NextResponse.json({ success: true, data: entries })
+  } catch (error) {
+    console.error("Error fetching audit log:", error)
+    return apiErrorResponse(error, "Failed to fetch audit log")
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server"
-import { isAuthenticated } from "@/lib/auth"
+import { getSession } from "@/lib/auth"
 import { AppError, ErrorType, logError } from "@/lib/error-handling"
 import { isPreviewMode } from "@/lib/environment-detection"
 
@@ -13,8 +13,16 @@ export async function GET() {
       return NextResponse.json({ authenticated: true }, { status: 200 })
     }
 
-    const authenticated = await isAuthenticated()
-    return NextResponse.json({ authenticated }, { status: 200 })
+    // Resolve the session token against the sessions table
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ authenticated: false }, { status: 200 })
+    }
+
+    return NextResponse.json(
+      { authenticated: true, adminId: session.adminId, hospitalId: session.hospitalId },
+      { status: 200 },
+    )
   } catch (error) {
     // Handle different error types
     if (error instanceof AppError) {
@@ -1,6 +1,19 @@
 import { NextResponse } from "next/server"
-import { testDatabaseConnection, getDbHealthStatus } from "@/lib/db"
+import { dbClient, testDatabaseConnection, getDbHealthStatus } from "@/lib/db"
 import { isPreviewMode } from "@/lib/environment-detection"
+import { getMigrationStatus } from "@/lib/migrations.mjs"
+
+// Applied schema version compared with the files in migrations/
+async function getMigrationSummary() {
+  if (!dbClient) return null
+
+  try {
+    const { currentVersion, pending, changed, missing, upToDate } = await getMigrationStatus(dbClient)
+    return { currentVersion, pending, changed, missing, upToDate }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Failed to read migration status" }
+  }
+}
 
 export async function GET() {
   try {
@@ -31,6 +44,7 @@ export async function GET() {
           responseTimeMs: healthStatus.responseTimeMs,
           lastChecked: healthStatus.lastChecked.toISOString(),
         },
+        migrations: healthStatus.isConnected ? await getMigrationSummary() : null,
       })
     }
 
@@ -47,6 +61,7 @@ export async function GET() {
         error: result.error,
         message: result.connected ? "Database is connected" : "Database connection failed",
         diagnostics: result.diagnostics,
+        migrations: result.connected ? await getMigrationSummary() : null,
       },
       { headers },
     )
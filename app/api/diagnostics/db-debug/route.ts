@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server"
 import { checkDatabaseConfig, testSqlQuery } from "@/lib/db-debug"
-import { cookies } from "next/headers"
+import { getSession } from "@/lib/auth"
+import { hasPermission } from "@/lib/permissions"
 
 // Force dynamic rendering for API routes that use cookies
 export const dynamic = "force-dynamic"
@@ -8,13 +9,16 @@ export const dynamic = "force-dynamic"
 export async function GET(request: Request) {
   try {
     // Get session
-    const cookieStore = cookies()
-    const adminId = cookieStore.get("adminId")?.value
+    const session = await getSession()
 
-    if (!adminId) {
+    if (!session) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
     }
 
+    if (!hasPermission(session.role, "diagnostics:debug")) {
+      return NextResponse.json({ success: false, error: "Forbidden" }, { status: 403 })
+    }
+
     // Check if this is a test query
     const url = new URL(request.url)
     const testQuery = url.searchParams.get("query")
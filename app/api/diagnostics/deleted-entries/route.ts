@@ -1,7 +1,10 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { requireAuth } from "@/lib/auth"
+import { hasPermission } from "@/lib/permissions"
 import { dbClient } from "@/lib/db"
 import { AppError, ErrorType } from "@/lib/error-handling"
+import { BLOOD_COMPONENT_LIST } from "@/lib/blood-components"
+import { buildInventoryWhereClause, parseInventoryFilterQuery, type InventoryFilters } from "@/lib/inventory-filters"
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,82 +17,46 @@ export async function GET(request: NextRequest) {
     // Get the hospital ID from the session
     const { hospitalId } = session
 
-    // Get URL parameters
+    // Parse and validate the filter parameters
     const url = new URL(request.url)
-    const showAllHospitals = url.searchParams.get("showAllHospitals") === "true"
+    const { showAllHospitals } = parseInventoryFilterQuery(url.searchParams)
 
-    // Get deleted entries based on hospital access
-    let redBloodEntries, plasmaEntries, plateletsEntries
-
-    if (showAllHospitals) {
-      // Query for all hospitals
-      redBloodEntries = await dbClient`
-        SELECT rb.*, h.hospital_name, 'RedBlood' as type
-        FROM redblood_inventory rb
-        JOIN hospital h ON rb.hospital_id = h.hospital_id
-        WHERE rb.active = false
-        ORDER BY rb.bag_id DESC
-      `
-
-      plasmaEntries = await dbClient`
-        SELECT p.*, h.hospital_name, 'Plasma' as type
-        FROM plasma_inventory p
-        JOIN hospital h ON p.hospital_id = h.hospital_id
-        WHERE p.active = false
-        ORDER BY p.bag_id DESC
-      `
+    // Only network-level roles may look across hospitals
+    if (showAllHospitals && !hasPermission(session.role, "inventory:view-all-hospitals")) {
+      return NextResponse.json(
+        { success: false, error: "You don't have permission to view other hospitals' inventory" },
+        { status: 403 },
+      )
+    }
 
-      plateletsEntries = await dbClient`
-        SELECT p.*, h.hospital_name, 'Platelets' as type
-        FROM platelets_inventory p
-        JOIN hospital h ON p.hospital_id = h.hospital_id
-        WHERE p.active = false
-        ORDER BY p.bag_id DESC
-      `
-    } else {
-      // Query for specific hospital
-      redBloodEntries = await dbClient`
-        SELECT rb.*, h.hospital_name, 'RedBlood' as type
-        FROM redblood_inventory rb
-        JOIN hospital h ON rb.hospital_id = h.hospital_id
-        WHERE rb.hospital_id = ${hospitalId} AND rb.active = false
-        ORDER BY rb.bag_id DESC
-      `
+    // Deleted entries are the inactive rows of each inventory table
+    const filters: InventoryFilters = { hospitalId, showAllHospitals, active: false }
+    const allEntries = []
 
-      plasmaEntries = await dbClient`
-        SELECT p.*, h.hospital_name, 'Plasma' as type
-        FROM plasma_inventory p
-        JOIN hospital h ON p.hospital_id = h.hospital_id
-        WHERE p.hospital_id = ${hospitalId} AND p.active = false
-        ORDER BY p.bag_id DESC
-      `
+    for (const { key, tableName, hasRh, entryType } of BLOOD_COMPONENT_LIST) {
+      const where = buildInventoryWhereClause(key, filters, { alias: "inv" })
+      const entries = await dbClient.query(
+        `
+          SELECT inv.*, h.hospital_name, cb.admin_username as created_by_username, '${entryType}' as type
+          FROM ${tableName} inv
+          JOIN hospital h ON inv.hospital_id = h.hospital_id
+          LEFT JOIN admin cb ON inv.created_by = cb.admin_id
+          ${where.clause}
+          ORDER BY inv.bag_id DESC
+        `,
+        where.params,
+      )
 
-      plateletsEntries = await dbClient`
-        SELECT p.*, h.hospital_name, 'Platelets' as type
-        FROM platelets_inventory p
-        JOIN hospital h ON p.hospital_id = h.hospital_id
-        WHERE p.hospital_id = ${hospitalId} AND p.active = false
-        ORDER BY p.bag_id DESC
-      `
+      allEntries.push(
+        ...entries.map((entry: any) => ({
+          ...entry,
+          deleted_at: new Date().toISOString(), // In a real app, this would be stored in the database
+          // Ensure rh is defined for components without an Rh factor
+          ...(hasRh ? {} : { rh: entry.rh || "" }),
+        })),
+      )
     }
 
-    // Combine all entries
-    const allEntries = [
-      ...redBloodEntries.map((entry: any) => ({
-        ...entry,
-        deleted_at: new Date().toISOString(), // In a real app, this would be stored in the database
-      })),
-      ...plasmaEntries.map((entry: any) => ({
-        ...entry,
-        deleted_at: new Date().toISOString(),
-        rh: entry.rh || "", // Ensure rh is defined for plasma
-      })),
-      ...plateletsEntries.map((entry: any) => ({
-        ...entry,
-        deleted_at: new Date().toISOString(),
-      })),
-    ]
-
     return NextResponse.json({ success: true, entries: allEntries })
   } catch (error) {
     console.error("Error fetching deleted entries:", error)
@@ -97,7 +64,9 @@ export async function GET(request: NextRequest) {
     if (error instanceof AppError) {
       return NextResponse.json(
         { success: false, error: error.message, details: error.details },
-        { status: error.type === ErrorType.AUTHENTICATION ? 401 : 400 },
+        {
+          status: error.type === ErrorType.AUTHENTICATION ? 401 : error.type === ErrorType.FORBIDDEN ? 403 : 400,
+        },
       )
     }
 
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { hasPermission } from "@/lib/permissions"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { parseInventoryFilterQuery } from "@/lib/inventory-filters"
+import { isBloodComponentKey } from "@/lib/blood-components"
+import { diagnoseComponentInventory } from "@/lib/db-diagnostics"
+
+// Force dynamic rendering for API routes that use cookies
+export const dynamic = "force-dynamic"
+
+type RouteContext = {
+  params: Promise<{ component: string }>
+}
+
+// Filtered, ungrouped inventory of one blood component, for the inventory management page
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { component } = await params
+
+  if (!isBloodComponentKey(component)) {
+    return NextResponse.json({ success: false, error: "Unknown blood component" }, { status: 404 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:view")
+    const { hospitalId } = session
+
+    // Parse and validate filter parameters from URL
+    const filters = parseInventoryFilterQuery(new URL(request.url).searchParams)
+
+    // Only network-level roles may look across hospitals
+    if (filters.showAllHospitals && !hasPermission(session.role, "inventory:view-all-hospitals")) {
+      return NextResponse.json(
+        { success: false, error: "You don't have permission to view other hospitals' inventory" },
+        { status: 403 },
+      )
+    }
+
+    const diagnosticResults = await diagnoseComponentInventory(component, {
+      ...filters,
+      hospitalId,
+      expirationStatus: filters.expirationStatus || "all",
+      limit: filters.limit || 100,
+      timeZone: await getHospitalTimeZone(hospitalId),
+    })
+
+    return NextResponse.json(diagnosticResults)
+  } catch (error) {
+    console.error(`${component} diagnostics error:`, error)
+    return apiErrorResponse(error, "Failed to get inventory diagnostic data")
+  }
+}
@@ -1,8 +1,16 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { hasPermission } from "@/lib/permissions"
 import { dbClient } from "@/lib/db"
 import { isPreviewMode } from "@/lib/environment-detection"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { buildInventoryWhereClause, parseInventoryFilterQuery, type InventoryFilters } from "@/lib/inventory-filters"
 
-export async function GET() {
+// Force dynamic rendering for API routes that use cookies
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
   try {
     // In preview mode, return mock data
     if (isPreviewMode()) {
@@ -22,64 +30,85 @@ export async function GET() {
       return NextResponse.json({ error: "Database client not initialized" }, { status: 500 })
     }
 
-    // Get all plasma entries without grouping
-    const allPlasmaEntries = await dbClient`
-      SELECT 
-        bag_id,
-        blood_type, 
-        amount,
-        expiration_date,
-        active,
-        hospital_id
-      FROM plasma_inventory
-      ORDER BY blood_type, expiration_date
-    `
+    const session = await requirePermission("inventory:view")
+    const { hospitalId } = session
+
+    // Parse and validate filter parameters from URL
+    const query = parseInventoryFilterQuery(new URL(request.url).searchParams)
+
+    // Only network-level roles may look across hospitals
+    if (query.showAllHospitals && !hasPermission(session.role, "inventory:view-all-hospitals")) {
+      return NextResponse.json(
+        { success: false, error: "You don't have permission to view other hospitals' inventory" },
+        { status: 403 },
+      )
+    }
+
+    const filters: InventoryFilters = { ...query, hospitalId, timeZone: await getHospitalTimeZone(hospitalId) }
+    const where = (overrides: InventoryFilters) => buildInventoryWhereClause("plasma", { ...filters, ...overrides })
+
+    // Get all plasma entries matching the filters without grouping
+    const entries = where({})
+    const allPlasmaEntries = await dbClient.query(
+      `
+        SELECT bag_id, blood_type, amount, expiration_date, active, hospital_id
+        FROM plasma_inventory
+        ${entries.clause}
+        ORDER BY blood_type, expiration_date
+      `,
+      entries.params,
+    )
 
     // Get grouped plasma data
-    const groupedPlasma = await dbClient`
-      SELECT 
-        blood_type, 
-        COUNT(*)::integer as count, 
-        SUM(amount)::integer as total_amount
-      FROM plasma_inventory
-      WHERE expiration_date > CURRENT_DATE AND active = true
-      GROUP BY blood_type
-      ORDER BY blood_type
-    `
+    const valid = where({ expirationStatus: "valid" })
+    const groupedPlasma = await dbClient.query(
+      `
+        SELECT blood_type, COUNT(*)::integer as count, SUM(amount)::integer as total_amount
+        FROM plasma_inventory
+        ${valid.clause}
+        GROUP BY blood_type
+        ORDER BY blood_type
+      `,
+      valid.params,
+    )
 
     // Get plasma data by hospital
-    const plasmaByHospital = await dbClient`
-      SELECT 
-        hospital_id,
-        blood_type, 
-        COUNT(*)::integer as count
-      FROM plasma_inventory
-      WHERE expiration_date > CURRENT_DATE AND active = true
-      GROUP BY hospital_id, blood_type
-      ORDER BY hospital_id, blood_type
-    `
+    const plasmaByHospital = await dbClient.query(
+      `
+        SELECT hospital_id, blood_type, COUNT(*)::integer as count
+        FROM plasma_inventory
+        ${valid.clause}
+        GROUP BY hospital_id, blood_type
+        ORDER BY hospital_id, blood_type
+      `,
+      valid.params,
+    )
 
     // Get expired plasma entries
-    const expiredPlasma = await dbClient`
-      SELECT 
-        blood_type, 
-        COUNT(*)::integer as count
-      FROM plasma_inventory
-      WHERE expiration_date <= CURRENT_DATE AND active = true
-      GROUP BY blood_type
-      ORDER BY blood_type
-    `
+    const expired = where({ expirationStatus: "expired" })
+    const expiredPlasma = await dbClient.query(
+      `
+        SELECT blood_type, COUNT(*)::integer as count
+        FROM plasma_inventory
+        ${expired.clause}
+        GROUP BY blood_type
+        ORDER BY blood_type
+      `,
+      expired.params,
+    )
 
     // Get inactive plasma entries
-    const inactivePlasma = await dbClient`
-      SELECT 
-        blood_type, 
-        COUNT(*)::integer as count
-      FROM plasma_inventory
-      WHERE active = false
-      GROUP BY blood_type
-      ORDER BY blood_type
-    `
+    const inactive = where({ active: false })
+    const inactivePlasma = await dbClient.query(
+      `
+        SELECT blood_type, COUNT(*)::integer as count
+        FROM plasma_inventory
+        ${inactive.clause}
+        GROUP BY blood_type
+        ORDER BY blood_type
+      `,
+      inactive.params,
+    )
 
     return NextResponse.json({
       totalEntries: allPlasmaEntries.length,
@@ -92,6 +121,6 @@ export async function GET() {
     })
   } catch (error) {
     console.error("Error in plasma diagnostics:", error)
-    return NextResponse.json({ error: "Failed to retrieve plasma diagnostics" }, { status: 500 })
+    return apiErrorResponse(error, "Failed to retrieve plasma diagnostics")
   }
 }
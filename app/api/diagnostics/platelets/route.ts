@@ -1,5 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { requireAuth } from "@/lib/auth"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { hasPermission } from "@/lib/permissions"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { parseInventoryFilterQuery } from "@/lib/inventory-filters"
 import { isPreviewMode } from "@/lib/environment-detection"
 import { getRawPlateletsInventory, addTestPlateletEntry } from "@/lib/platelets-service"
 
@@ -7,20 +11,34 @@ export async function GET(request: NextRequest) {
   try {
     // Check if we're in preview mode
     if (isPreviewMode()) {
-      const diagnosticData = await getRawPlateletsInventory(1)
+      const diagnosticData = await getRawPlateletsInventory({ hospitalId: 1 })
       return NextResponse.json(diagnosticData)
     }
 
-    // Check authentication
-    const session = await requireAuth()
+    const session = await requirePermission("inventory:view")
     const { hospitalId } = session
 
+    // Parse and validate filter parameters from URL
+    const query = parseInventoryFilterQuery(new URL(request.url).searchParams)
+
+    // Only network-level roles may look across hospitals
+    if (query.showAllHospitals && !hasPermission(session.role, "inventory:view-all-hospitals")) {
+      return NextResponse.json(
+        { success: false, error: "You don't have permission to view other hospitals' inventory" },
+        { status: 403 },
+      )
+    }
+
     // Get diagnostic data
-    const diagnosticData = await getRawPlateletsInventory(hospitalId)
+    const diagnosticData = await getRawPlateletsInventory({
+      ...query,
+      hospitalId,
+      timeZone: await getHospitalTimeZone(hospitalId),
+    })
     return NextResponse.json(diagnosticData)
   } catch (error) {
     console.error("Error in platelets diagnostics:", error)
-    return NextResponse.json({ error: "Failed to get platelets diagnostic data" }, { status: 500 })
+    return apiErrorResponse(error, "Failed to get platelets diagnostic data")
   }
 }
 
@@ -28,19 +46,19 @@ export async function POST(request: NextRequest) {
   try {
     // Check if we're in preview mode
     if (isPreviewMode()) {
-      const result = await addTestPlateletEntry(1)
+      const result = await addTestPlateletEntry(1, 1)
       return NextResponse.json(result)
     }
 
-    // Check authentication
-    const session = await requireAuth()
+    // Adding a bag, even a test one, needs the same permission as the add-entry form
+    const session = await requirePermission("inventory:add")
     const { hospitalId } = session
 
     // Add test platelet entry
-    const result = await addTestPlateletEntry(hospitalId)
+    const result = await addTestPlateletEntry(hospitalId, session.adminId)
     return NextResponse.json(result)
   } catch (error) {
     console.error("Error adding test platelet entry:", error)
-    return NextResponse.json({ error: "Failed to add test platelet entry" }, { status: 500 })
+    return apiErrorResponse(error, "Failed to add test platelet entry")
   }
 }
@@ -1,12 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { requireAuth } from "@/lib/auth"
+import { requirePermission } from "@/lib/auth"
 import { restoreBloodEntry } from "@/lib/restore-utils"
 import { AppError, ErrorType } from "@/lib/error-handling"
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication
-    const session = await requireAuth()
+    // Verify authentication and role
+    const session = await requirePermission("inventory:restore")
     if (!session) {
       return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
     }
@@ -23,7 +23,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Restore the entry
-    const result = await restoreBloodEntry(bagId, entryType, hospitalId)
+    const result = await restoreBloodEntry(bagId, entryType, hospitalId, session.adminId)
 
     if (result.success) {
       return NextResponse.json({ success: true })
@@ -36,7 +36,9 @@ export async function POST(request: NextRequest) {
     if (error instanceof AppError) {
       return NextResponse.json(
         { success: false, error: error.message, details: error.details },
-        { status: error.type === ErrorType.AUTHENTICATION ? 401 : 400 },
+        {
+          status: error.type === ErrorType.AUTHENTICATION ? 401 : error.type === ErrorType.FORBIDDEN ? 403 : 400,
+        },
       )
     }
 
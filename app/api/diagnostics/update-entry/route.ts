@@ -1,12 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { requireAuth } from "@/lib/auth"
+import { requirePermission } from "@/lib/auth"
 import { updateBloodEntry } from "@/lib/db-diagnostics"
 import { AppError, ErrorType } from "@/lib/error-handling"
 
 export async function PUT(request: NextRequest) {
   try {
-    // Verify authentication
-    const session = await requireAuth()
+    // Verify authentication and role
+    const session = await requirePermission("inventory:edit")
     if (!session) {
       return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 })
     }
@@ -35,13 +35,7 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Expiration date is required" }, { status: 400 })
     }
 
-    try {
-      // Validate expiration date format
-      new Date(entry.expiration_date)
-    } catch (e) {
-      return NextResponse.json({ success: false, error: "Invalid expiration date format" }, { status: 400 })
-    }
-
+    // The format, including the hospital's time zone, is checked by updateBloodEntry
     // Update the entry
     const result = await updateBloodEntry({
       bagId: entry.bag_id,
@@ -50,6 +44,7 @@ export async function PUT(request: NextRequest) {
       amount: entry.amount,
       expirationDate: entry.expiration_date,
       hospitalId,
+      adminId: session.adminId,
     })
 
     if (result.success) {
@@ -74,7 +69,9 @@ export async function PUT(request: NextRequest) {
     if (error instanceof AppError) {
       return NextResponse.json(
         { success: false, error: error.message, details: error.details },
-        { status: error.type === ErrorType.AUTHENTICATION ? 401 : 400 },
+        {
+          status: error.type === ErrorType.AUTHENTICATION ? 401 : error.type === ErrorType.FORBIDDEN ? 403 : 400,
+        },
       )
     }
 
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { getDonor, getDonorUnits } from "@/lib/donors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+type RouteContext = {
+  params: Promise<{ donorId: string }>
+}
+
+// A donor with every unit derived from their donations
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { donorId } = await params
+
+  if (!/^\d+$/.test(donorId)) {
+    return NextResponse.json({ success: false, error: "Invalid donor ID" }, { status: 400 })
+  }
+
+  try {
+    await requirePermission("inventory:view")
+    const donor = await getDonor(Number(donorId))
+    const units = await getDonorUnits(donor.donor_id)
+    return NextResponse.json({ success: true, data: { donor, units } })
+  } catch (error) {
+    console.error("Error fetching donor:", error)
+    return apiErrorResponse(error, "Failed to fetch donor")
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { createDonor, parseDonorInput, searchDonorRegistry } from "@/lib/donors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Donor lookup by name fragment or donor ID, used for autocomplete
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission("inventory:view")
+    const query = request.nextUrl.searchParams.get("q") || ""
+    const donors = await searchDonorRegistry(query)
+    return NextResponse.json({ success: true, data: donors })
+  } catch (error) {
+    console.error("Error searching donors:", error)
+    return apiErrorResponse(error, "Failed to search donors")
+  }
+}
+
+// Register a new donor
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("inventory:add")
+    const input = parseDonorInput(await request.json().catch(() => null))
+    const donor = await createDonor(input, session)
+    return NextResponse.json({ success: true, data: donor })
+  } catch (error) {
+    console.error("Error registering donor:", error)
+    return apiErrorResponse(error, "Failed to register donor")
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { getHospitalProfile, parseHospitalProfile, updateHospitalProfile } from "@/lib/hospital-settings"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// The signed-in admin's hospital's profile
+export async function GET() {
+  try {
+    const session = await requirePermission("inventory:view")
+    const profile = await getHospitalProfile(session.hospitalId)
+    return NextResponse.json({ success: true, data: profile })
+  } catch (error) {
+    console.error("Error fetching hospital profile:", error)
+    return apiErrorResponse(error, "Failed to fetch hospital profile")
+  }
+}
+
+// Update the profile: { name, contactPhone, contactEmail, address, latitude, longitude, timeZone,
+// afterHoursContactName, afterHoursContactPhone }
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission("hospital:settings")
+    const input = parseHospitalProfile(await request.json().catch(() => null))
+    const profile = await updateHospitalProfile(session.hospitalId, input, session.adminId)
+    return NextResponse.json({ success: true, data: profile })
+  } catch (error) {
+    console.error("Error updating hospital profile:", error)
+    return apiErrorResponse(error, "Failed to update hospital profile")
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// The time zone expiry times are entered and shown in at the signed-in admin's hospital;
+// it is changed with the rest of the hospital profile
+export async function GET() {
+  try {
+    const session = await requirePermission("inventory:view")
+    const timeZone = await getHospitalTimeZone(session.hospitalId)
+    return NextResponse.json({ success: true, data: { timeZone } })
+  } catch (error) {
+    console.error("Error fetching hospital time zone:", error)
+    return apiErrorResponse(error, "Failed to fetch hospital time zone")
+  }
+}
+
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { createHospital, parseHospitalProfile } from "@/lib/hospital-settings"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Add a hospital to the network, with the same fields as a profile update
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("hospitals:create")
+    const input = parseHospitalProfile(await request.json().catch(() => null))
+    const profile = await createHospital(input, session.adminId)
+    return NextResponse.json({ success: true, data: profile })
+  } catch (error) {
+    console.error("Error creating hospital:", error)
+    return apiErrorResponse(error, "Failed to create hospital")
+  }
+}
@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { isBloodComponentKey } from "@/lib/blood-components"
+import { getLocationHistory, moveUnit } from "@/lib/storage-units"
+
+type RouteContext = {
+  params: Promise<{ component: string; bagId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Where a bag has been stored, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { component, bagId } = await params
+
+  if (!isBloodComponentKey(component)) {
+    return NextResponse.json({ success: false, error: "Unknown blood component" }, { status: 404 })
+  }
+
+  if (!/^\d+$/.test(bagId)) {
+    return NextResponse.json({ success: false, error: "Invalid bag ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:view")
+    const history = await getLocationHistory(component, Number.parseInt(bagId, 10), session.hospitalId)
+    return NextResponse.json({ success: true, data: history })
+  } catch (error) {
+    console.error("Error fetching location history:", error)
+    return apiErrorResponse(error, "Failed to fetch location history")
+  }
+}
+
+// Move a bag to another storage unit and/or shelf: { storageUnitId, position }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { component, bagId } = await params
+
+  if (!isBloodComponentKey(component)) {
+    return NextResponse.json({ success: false, error: "Unknown blood component" }, { status: 404 })
+  }
+
+  if (!/^\d+$/.test(bagId)) {
+    return NextResponse.json({ success: false, error: "Invalid bag ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:edit")
+
+    const body = await request.json().catch(() => null)
+    const storageUnitId = body?.storageUnitId ?? null
+    const position = body?.position ?? null
+
+    if (storageUnitId !== null && !Number.isInteger(storageUnitId)) {
+      return NextResponse.json({ success: false, error: "Invalid storage unit" }, { status: 400 })
+    }
+
+    if (position !== null && (typeof position !== "string" || position.length > 50)) {
+      return NextResponse.json(
+        { success: false, error: "Shelf or slot must be text of at most 50 characters" },
+        { status: 400 },
+      )
+    }
+
+    const entry = await moveUnit(component, Number.parseInt(bagId, 10), { storageUnitId, position }, session)
+
+    return NextResponse.json({ success: true, message: "Unit moved", entry })
+  } catch (error) {
+    console.error("Error moving unit:", error)
+    return apiErrorResponse(error, "Failed to move unit")
+  }
+}
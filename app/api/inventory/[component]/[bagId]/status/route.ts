@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { isBloodComponentKey } from "@/lib/blood-components"
+import { isUnitStatus, UNIT_STATUS_LABELS } from "@/lib/unit-lifecycle"
+import { changeUnitStatus } from "@/lib/unit-status"
+
+type RouteContext = {
+  params: Promise<{ component: string; bagId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Move a unit to another lifecycle status; the transition and the admin's role are checked
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { component, bagId } = await params
+
+  if (!isBloodComponentKey(component)) {
+    return NextResponse.json({ success: false, error: "Unknown blood component" }, { status: 404 })
+  }
+
+  if (!/^\d+$/.test(bagId)) {
+    return NextResponse.json({ success: false, error: "Invalid bag ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:update-status")
+
+    const body = await request.json().catch(() => null)
+    const status = body?.status
+    if (!isUnitStatus(status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid status",
+          details: `Status must be one of: ${Object.keys(UNIT_STATUS_LABELS).join(", ")}`,
+        },
+        { status: 400 },
+      )
+    }
+
+    const entry = await changeUnitStatus(component, Number.parseInt(bagId, 10), status, session)
+
+    return NextResponse.json({
+      success: true,
+      message: `Unit marked ${UNIT_STATUS_LABELS[status].toLowerCase()}`,
+      entry,
+    })
+  } catch (error) {
+    console.error("Error changing unit status:", error)
+    return apiErrorResponse(error, "Failed to change unit status")
+  }
+}
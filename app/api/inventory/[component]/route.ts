@@ -0,0 +1,500 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { addBloodBag, findUnitsByDin, getComponentInventory, MOCK_DATA } from "@/lib/db"
+import { getSession, requireAuth } from "@/lib/auth"
+import { queryCache } from "@/lib/cache"
+import { isPreviewMode } from "@/lib/environment-detection"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import { hasPermission } from "@/lib/permissions"
+import { BLOOD_COMPONENTS, getInventoryCacheKey, isBloodComponentKey } from "@/lib/blood-components"
+import { parseDonationId, parseProductCode } from "@/lib/isbt128"
+import { getDonor } from "@/lib/donors"
+import { getShelfLifeRules } from "@/lib/shelf-life-rules"
+import { checkShelfLife, resolveShelfLifeRule, today } from "@/lib/shelf-life"
+import { isExpired, parseExpirationTime, toZonedInputValue } from "@/lib/expiry"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { checkStorageUnit } from "@/lib/storage-units"
+
+// Force dynamic rendering for API routes that use cookies
+export const dynamic = "force-dynamic"
+
+type RouteContext = {
+  params: Promise<{ component: string }>
+}
+
+// Grouped inventory of one blood component for the signed-in admin's hospital
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { component } = await params
+
+  if (!isBloodComponentKey(component)) {
+    return NextResponse.json({ error: "Unknown blood component" }, { status: 404 })
+  }
+
+  try {
+    // Return mock data for preview mode
+    if (isPreviewMode()) {
+      return NextResponse.json(MOCK_DATA[component])
+    }
+
+    // Check authentication
+    const session = await requireAuth()
+
+    // Get hospitalId from query params or session
+    const url = new URL(request.url)
+    const hospitalIdParam = url.searchParams.get("hospitalId")
+
+    let hospitalId: number
+
+    if (hospitalIdParam) {
+      // Validate hospital ID is a number
+      if (!/^\d+$/.test(hospitalIdParam)) {
+        return NextResponse.json({ error: "Invalid hospital ID format" }, { status: 400 })
+      }
+
+      hospitalId = Number.parseInt(hospitalIdParam)
+    } else {
+      hospitalId = session.hospitalId
+    }
+
+    // Verify the user has access to this hospital's data
+    if (hospitalId !== session.hospitalId) {
+      return NextResponse.json(
+        {
+          error: "Unauthorized access to hospital data",
+          message: "You do not have permission to view data for this hospital",
+        },
+        { status: 403 },
+      )
+    }
+
+    try {
+      const inventory = await getComponentInventory(component, hospitalId)
+
+      // Add response headers for caching and security
+      const headers = new Headers()
+      headers.set("Cache-Control", "private, max-age=60") // Cache for 1 minute
+      headers.set("X-Content-Type-Options", "nosniff")
+
+      return NextResponse.json(inventory, { headers })
+    } catch (error) {
+      if (error instanceof AppError) {
+        if (error.type === ErrorType.DATABASE_CONNECTION) {
+          return NextResponse.json(
+            { error: "Database connection error", message: error.message },
+            { status: 503 }, // Service Unavailable
+          )
+        }
+
+        if (error.type === ErrorType.TIMEOUT) {
+          return NextResponse.json(
+            { error: "Request timeout", message: "The database query took too long to complete" },
+            { status: 504 }, // Gateway Timeout
+          )
+        }
+      }
+
+      throw error // Let the outer catch handle other errors
+    }
+  } catch (error) {
+    console.error(`Error fetching ${component} inventory:`, error)
+
+    // Determine appropriate status code based on error type
+    let status = 500
+    let errorMessage = "Failed to fetch inventory data"
+
+    if (error instanceof AppError) {
+      switch (error.type) {
+        case ErrorType.AUTHENTICATION:
+          status = 401
+          errorMessage = "Authentication required"
+          break
+        case ErrorType.NOT_FOUND:
+          status = 404
+          errorMessage = "Resource not found"
+          break
+        case ErrorType.VALIDATION:
+          status = 400
+          errorMessage = "Invalid request"
+          break
+      }
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status })
+  }
+}
+
+// Add a bag of one blood component to the signed-in admin's hospital
+export async function POST(request: Request, { params }: RouteContext) {
+  const { component } = await params
+
+  if (!isBloodComponentKey(component)) {
+    return NextResponse.json(
+      { success: false, error: "Unknown blood component", type: ErrorType.NOT_FOUND },
+      { status: 404 },
+    )
+  }
+
+  const { bagLabel, hasRh, volumeRange } = BLOOD_COMPONENTS[component]
+
+  try {
+    // In preview mode, use mock data
+    if (isPreviewMode()) {
+      console.log(`[Preview Mode] Processing add ${component} request with mock data`)
+
+      // Simulate processing delay
+      await new Promise((resolve) => setTimeout(resolve, 500))
+
+      // Return success response
+      return NextResponse.json({
+        success: true,
+        message: `${bagLabel} added successfully (Preview Mode)`,
+        preview: true,
+      })
+    }
+
+    // Get session
+    const session = await getSession()
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unauthorized",
+          type: ErrorType.AUTHENTICATION,
+          details: "Your session has expired or is invalid. Please log in again.",
+        },
+        { status: 401 },
+      )
+    }
+
+    if (!hasPermission(session.role, "inventory:add")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Forbidden",
+          type: ErrorType.FORBIDDEN,
+          details: "Your role does not allow adding inventory entries.",
+        },
+        { status: 403 },
+      )
+    }
+
+    const { hospitalId } = session
+
+    // Get request body
+    let requestBody
+    try {
+      requestBody = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid request format",
+          type: ErrorType.VALIDATION,
+          details: "The request body could not be parsed as JSON.",
+        },
+        { status: 400 },
+      )
+    }
+
+    const { donorName, amount, expirationDate, bloodType, rh, hospitalId: formHospitalId } = requestBody
+
+    // Validate required fields; keys match the form's field ids
+    const validationErrors: Record<string, string> = {}
+
+    if (!donorName || typeof donorName !== "string" || donorName.trim().length < 2) {
+      validationErrors[`${component}-donorName`] = "Donor name must be at least 2 characters"
+    }
+
+    if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+      validationErrors[`${component}-amount`] = "Amount must be a positive number"
+    } else if (Number(amount) < volumeRange.min) {
+      validationErrors[`${component}-amount`] = `Amount must be at least ${volumeRange.min} ml`
+    } else if (Number(amount) > volumeRange.max) {
+      validationErrors[`${component}-amount`] = `Amount cannot exceed ${volumeRange.max} ml`
+    }
+
+    // Expiry is a wall-clock time in the hospital's time zone, or a timestamp with an offset
+    const timeZone = await getHospitalTimeZone(hospitalId)
+    const expiresAt = parseExpirationTime(expirationDate, timeZone)
+
+    if (!expirationDate) {
+      validationErrors[`${component}-expirationDate`] = "Expiration date is required"
+    } else if (!expiresAt) {
+      validationErrors[`${component}-expirationDate`] = "Invalid expiration date"
+    } else if (isExpired(expiresAt)) {
+      validationErrors[`${component}-expirationDate`] = "Expiration date cannot be in the past"
+    }
+
+    // The expiry may not exceed the shelf life allowed from the collection date, which
+    // is optional for API clients and then taken to be today
+    const collectionDate: string | undefined = requestBody.collectionDate || undefined
+    const shelfLifeRules = (await getShelfLifeRules(hospitalId))[component]
+    const shelfLifeRuleName: string | undefined = requestBody.shelfLifeRule || undefined
+
+    if (collectionDate !== undefined) {
+      if (typeof collectionDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(collectionDate)) {
+        validationErrors[`${component}-collectionDate`] = "Invalid collection date"
+      } else if (collectionDate > today(timeZone)) {
+        validationErrors[`${component}-collectionDate`] = "Collection date cannot be in the future"
+      }
+    }
+
+    if (shelfLifeRuleName && !shelfLifeRules.some((rule) => rule.name === shelfLifeRuleName)) {
+      validationErrors[`${component}-shelfLifeRule`] = "Unknown shelf-life rule"
+    }
+
+    const shelfLifeRule = resolveShelfLifeRule(shelfLifeRules, shelfLifeRuleName)
+
+    if (
+      expiresAt &&
+      !validationErrors[`${component}-expirationDate`] &&
+      !validationErrors[`${component}-collectionDate`]
+    ) {
+      const problem = checkShelfLife(toZonedInputValue(expiresAt, timeZone), collectionDate, shelfLifeRule, timeZone)
+      if (problem) {
+        validationErrors[`${component}-expirationDate`] = problem
+      }
+    }
+
+    if (!bloodType) {
+      validationErrors[`${component}-bloodType`] = "Blood type is required"
+    } else if (!["A", "B", "AB", "O"].includes(bloodType)) {
+      validationErrors[`${component}-bloodType`] = "Invalid blood type"
+    }
+
+    if (hasRh && (!rh || !["+", "-"].includes(rh))) {
+      validationErrors[`${component}-rh`] = "Valid Rh factor is required (+ or -)"
+    }
+
+    // A linked donor must exist and have the same blood group as the bag
+    let donorId: number | undefined
+    let linkedDonorName: string | undefined
+
+    if (requestBody.donorId) {
+      try {
+        const donor = await getDonor(Number(requestBody.donorId))
+        donorId = donor.donor_id
+        linkedDonorName = donor.full_name
+
+        if (bloodType && donor.blood_type !== bloodType) {
+          validationErrors[`${component}-bloodType`] = `Donor is registered as blood type ${donor.blood_type}`
+        }
+        if (hasRh && rh && donor.rh && donor.rh !== rh) {
+          validationErrors[`${component}-rh`] = `Donor is registered as Rh ${donor.rh}`
+        }
+      } catch (error) {
+        if (!(error instanceof AppError && error.type === ErrorType.NOT_FOUND)) throw error
+        validationErrors[`${component}-donorName`] = "The selected donor no longer exists"
+      }
+    }
+
+    // ISBT 128 identifiers are optional, but must be valid when given
+    let isbtDin: string | undefined
+    let isbtProductCode: string | undefined
+
+    if (requestBody.isbtDin) {
+      try {
+        isbtDin = parseDonationId(String(requestBody.isbtDin)).din
+      } catch (error) {
+        validationErrors[`${component}-isbtDin`] = error instanceof Error ? error.message : "Invalid DIN"
+      }
+    }
+
+    if (requestBody.isbtProductCode) {
+      try {
+        const product = parseProductCode(String(requestBody.isbtProductCode).toUpperCase())
+        isbtProductCode = product.code
+
+        if (product.component && product.component !== component) {
+          validationErrors[`${component}-isbtProductCode`] =
+            `${product.descriptionCode} is a ${BLOOD_COMPONENTS[product.component].label} product code`
+        }
+      } catch (error) {
+        validationErrors[`${component}-isbtProductCode`] =
+          error instanceof Error ? error.message : "Invalid product code"
+      }
+
+      if (!requestBody.isbtDin) {
+        validationErrors[`${component}-isbtDin`] = "A product code needs the bag's donation identification number"
+      }
+    }
+
+    // A bag can be put away in a storage unit as it is added
+    let storageUnitId: number | undefined
+    let storagePosition: string | undefined
+
+    if (requestBody.storageUnitId) {
+      storageUnitId = Number(requestBody.storageUnitId)
+      storagePosition =
+        typeof requestBody.storagePosition === "string" ? requestBody.storagePosition.trim().slice(0, 50) : undefined
+
+      try {
+        await checkStorageUnit(component, hospitalId, storageUnitId)
+      } catch (error) {
+        const rejected =
+          error instanceof AppError &&
+          [ErrorType.NOT_FOUND, ErrorType.VALIDATION, ErrorType.CONFLICT].includes(error.type)
+        if (!rejected) throw error
+        validationErrors[`${component}-storageUnitId`] = error.message
+      }
+    }
+
+    // Return validation errors if any
+    if (Object.keys(validationErrors).length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation failed",
+          type: ErrorType.VALIDATION,
+          validationErrors,
+          details: "Please correct the errors and try again.",
+        },
+        { status: 400 },
+      )
+    }
+
+    // Validate hospital ID
+    if (hospitalId !== formHospitalId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unauthorized: Hospital mismatch",
+          type: ErrorType.AUTHENTICATION,
+          details: "The hospital ID in the form does not match your authenticated hospital.",
+        },
+        { status: 403 },
+      )
+    }
+
+    // Add the new bag
+    try {
+      // A donation yields one unit per product code across the whole network; a missing product code
+      // counts as its own code, as in the unique index on (isbt_din, isbt_product_code)
+      if (isbtDin) {
+        const duplicate = (await findUnitsByDin(isbtDin)).find(
+          (unit) => (unit.isbt_product_code ?? "") === (isbtProductCode ?? ""),
+        )
+
+        if (duplicate) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "Duplicate unit",
+              type: ErrorType.CONFLICT,
+              validationErrors: {
+                [`${component}-isbtDin`]: `This unit is already recorded at ${duplicate.hospital_name} (bag #${duplicate.bag_id})`,
+              },
+              details: "Each ISBT 128 donation identification number can only be added once per product.",
+            },
+            { status: 409 },
+          )
+        }
+      }
+
+      const result = await addBloodBag(
+        component,
+        hospitalId,
+        {
+          donorName: linkedDonorName ?? donorName,
+          donorId,
+          amount,
+          // Validated above
+          expirationDate: expiresAt!,
+          collectionDate,
+          shelfLifeRule: shelfLifeRule?.name,
+          bloodType,
+          rh,
+          isbtDin,
+          isbtProductCode,
+          storageUnitId,
+          storagePosition,
+        },
+        session.adminId,
+      )
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || `Failed to add ${bagLabel.toLowerCase()}`,
+            type: result.type || ErrorType.SERVER,
+            details: result.details,
+            retryable: result.retryable,
+          },
+          { status: 400 },
+        )
+      }
+
+      // Invalidate relevant caches
+      queryCache.invalidate(getInventoryCacheKey(component, hospitalId))
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      // Handle database errors
+      if (error instanceof AppError) {
+        if (error.type === ErrorType.DATABASE_CONNECTION) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "Database connection error",
+              type: ErrorType.DATABASE_CONNECTION,
+              details: "Unable to connect to the database. Please try again later.",
+              retryable: true,
+            },
+            { status: 503 },
+          )
+        } else if (error.type === ErrorType.VALIDATION) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: error.message || "Validation error",
+              type: ErrorType.VALIDATION,
+              details: error.details || "Please check your input and try again.",
+            },
+            { status: 400 },
+          )
+        } else if (error.type === ErrorType.AUTHENTICATION) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "Authentication failure, please login again",
+              type: ErrorType.AUTHENTICATION,
+              details: "Your session has expired or is invalid. Please log in again.",
+            },
+            { status: 401 },
+          )
+        }
+      }
+
+      // Log the error for debugging
+      console.error(`Add ${component} error:`, error)
+
+      // Return a generic error response
+      return NextResponse.json(
+        {
+          success: false,
+          error: "An error occurred while processing your request",
+          type: ErrorType.SERVER,
+          details: "Our team has been notified of this issue. Please try again later.",
+          retryable: true,
+        },
+        { status: 500 },
+      )
+    }
+  } catch (error: any) {
+    // Log the error for debugging
+    console.error(`Add ${component} error:`, error)
+
+    // Return a generic error response
+    return NextResponse.json(
+      {
+        success: false,
+        error: "An unexpected error occurred",
+        type: ErrorType.SERVER,
+        details: "Our team has been notified of this issue. Please try again later.",
+        retryable: true,
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -1,42 +0,0 @@
-import { type NextRequest, NextResponse } from "next/server"
-import { getPlasmaInventory } from "@/lib/db"
-import { requireAuth } from "@/lib/auth"
-import { isPreviewMode } from "@/lib/environment-detection"
-
-export async function GET(request: NextRequest) {
-  try {
-    // Check if we're in preview mode
-    if (isPreviewMode()) {
-      // Return mock data for preview mode
-      const mockInventory = [
-        { blood_type: "A", count: 20, total_amount: 10000 },
-        { blood_type: "B", count: 15, total_amount: 7500 },
-        { blood_type: "AB", count: 10, total_amount: 5000 },
-        { blood_type: "O", count: 25, total_amount: 12500 },
-      ]
-      return NextResponse.json(mockInventory)
-    }
-
-    // Check authentication
-    const session = await requireAuth()
-
-    // Get hospitalId from query params or session
-    const url = new URL(request.url)
-    const hospitalId = url.searchParams.get("hospitalId")
-      ? Number.parseInt(url.searchParams.get("hospitalId")!)
-      : session.hospitalId
-
-    // Verify the user has access to this hospital's data
-    if (hospitalId !== session.hospitalId) {
-      return NextResponse.json({ error: "Unauthorized access to hospital data" }, { status: 403 })
-    }
-
-    // Get inventory data
-    const inventory = await getPlasmaInventory(hospitalId)
-
-    return NextResponse.json(inventory)
-  } catch (error) {
-    console.error("Error fetching plasma inventory:", error)
-    return NextResponse.json({ error: "Failed to fetch inventory data" }, { status: 500 })
-  }
-}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server"
 import { login } from "@/lib/auth"
 import { AppError, ErrorType, logError } from "@/lib/error-handling"
 import { getConnectionErrorMessage } from "@/lib/db"
+import { LoginThrottleError } from "@/lib/login-throttle"
 
 // Force dynamic rendering for API routes that use cookies
 export const dynamic = "force-dynamic"
@@ -41,6 +42,19 @@ export async function POST(request: Request) {
       throw error
     }
   } catch (error) {
+    // Locked out: tell the client how long to wait
+    if (error instanceof LoginThrottleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          type: error.type,
+          retryAfterSeconds: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } },
+      )
+    }
+
     // Handle different error types
     if (error instanceof AppError) {
       return NextResponse.json(
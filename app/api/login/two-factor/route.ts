@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { completeTwoFactorLogin } from "@/lib/auth"
+import { AppError, ErrorType, logError } from "@/lib/error-handling"
+import { getConnectionErrorMessage } from "@/lib/db"
+import { LoginThrottleError } from "@/lib/login-throttle"
+
+// Force dynamic rendering for API routes that use cookies
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  try {
+    const { challengeToken, code } = await request.json()
+
+    if (!challengeToken || !code) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "An authentication code is required",
+          type: ErrorType.VALIDATION,
+        },
+        { status: 400 },
+      )
+    }
+
+    const result = await completeTwoFactorLogin(challengeToken, String(code))
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    // Locked out: tell the client how long to wait
+    if (error instanceof LoginThrottleError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          type: error.type,
+          retryAfterSeconds: error.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } },
+      )
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Database connection error: " + getConnectionErrorMessage(),
+          type: ErrorType.DATABASE_CONNECTION,
+        },
+        { status: 503 },
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          type: error.type,
+        },
+        { status: error.type === ErrorType.AUTHENTICATION ? 401 : 500 },
+      )
+    }
+
+    const appError = logError(error, "Two-Factor Login API")
+    return NextResponse.json(
+      {
+        success: false,
+        error: appError.message,
+        type: appError.type,
+      },
+      { status: 500 },
+    )
+  }
+}
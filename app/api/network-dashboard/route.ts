@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { getNetworkDashboard } from "@/lib/network-dashboard"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Stock, days of supply, expiring units and suggested moves across every hospital in the network
+export async function GET() {
+  try {
+    await requirePermission("inventory:view-all-hospitals")
+    const dashboard = await getNetworkDashboard()
+    return NextResponse.json({ success: true, data: dashboard })
+  } catch (error) {
+    console.error("Error fetching network dashboard:", error)
+    return apiErrorResponse(error, "Failed to fetch network dashboard")
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { resetPasswordWithToken } from "@/lib/admin-accounts"
+import { apiErrorResponse } from "@/lib/api-errors"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Public: the reset token itself authorizes the change
+export async function POST(request: Request) {
+  try {
+    const { token, newPassword } = await request.json()
+
+    if (!token || !newPassword) {
+      return NextResponse.json({ success: false, error: "Reset token and new password are required" }, { status: 400 })
+    }
+
+    const result = await resetPasswordWithToken(String(token), String(newPassword))
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error resetting password:", error)
+    return apiErrorResponse(error, "Failed to reset password")
+  }
+}
@@ -1,27 +1,35 @@
 import { NextResponse } from "next/server"
 import { register } from "@/lib/auth"
+import { AppError, ErrorType } from "@/lib/error-handling"
 
 // Force dynamic rendering for API routes
 export const dynamic = "force-dynamic"
 
 export async function POST(request: Request) {
   try {
-    const { username, password, hospitalId } = await request.json()
+    const { username, password, hospitalId, inviteCode } = await request.json()
 
-    if (!username || !password || !hospitalId) {
+    // An invite code determines the hospital; without one the hospital ID is required
+    if (!username || !password || (!inviteCode && !hospitalId)) {
       return NextResponse.json(
         {
           success: false,
-          error: "Username, password, and hospital ID are required",
+          error: "Username, password, and an invite code or hospital ID are required",
         },
         { status: 400 },
       )
     }
 
-    const result = await register(username, password, hospitalId)
+    const result = await register(username, password, hospitalId ? Number(hospitalId) : null, inviteCode || null)
     return NextResponse.json(result, { status: result.success ? 200 : 400 })
   } catch (error) {
     console.error("Registration error:", error)
+
+    // Surface validation problems such as a taken username or an expired invite
+    if (error instanceof AppError && error.type === ErrorType.VALIDATION) {
+      return NextResponse.json({ success: false, error: error.message, type: error.type }, { status: 400 })
+    }
+
     return NextResponse.json(
       {
         success: false,
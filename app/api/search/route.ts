@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server"
 import { searchDonors } from "@/lib/db"
-import { cookies } from "next/headers"
+import { getSession } from "@/lib/auth"
 import { AppError, ErrorType, logError } from "@/lib/error-handling"
 
 // Force dynamic rendering for API routes that use cookies
@@ -9,11 +9,9 @@ export const dynamic = "force-dynamic"
 export async function GET(request: Request) {
   try {
     // Get session
-    const cookieStore = cookies()
-    const adminId = cookieStore.get("adminId")?.value
-    const hospitalId = cookieStore.get("hospitalId")?.value
+    const session = await getSession()
 
-    if (!adminId || !hospitalId) {
+    if (!session) {
       return NextResponse.json(
         {
           success: false,
@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { isBloodComponentKey } from "@/lib/blood-components"
+import { getShelfLifeRules, parseShelfLifeRules, setShelfLifeRules } from "@/lib/shelf-life-rules"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Shelf-life rules in effect at the signed-in admin's hospital, by component
+export async function GET() {
+  try {
+    const session = await requirePermission("inventory:view")
+    const rules = await getShelfLifeRules(session.hospitalId)
+    return NextResponse.json({ success: true, data: rules })
+  } catch (error) {
+    console.error("Error fetching shelf-life rules:", error)
+    return apiErrorResponse(error, "Failed to fetch shelf-life rules")
+  }
+}
+
+// Replace one component's rules: { component, rules: [{ name, days }] }
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission("hospital:settings")
+    const body = await request.json()
+
+    if (typeof body?.component !== "string" || !isBloodComponentKey(body.component)) {
+      return NextResponse.json({ success: false, error: "Unknown blood component" }, { status: 400 })
+    }
+
+    const rules = parseShelfLifeRules(body.rules)
+    await setShelfLifeRules(session.hospitalId, body.component, rules, session.adminId)
+
+    const updated = await getShelfLifeRules(session.hospitalId)
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    console.error("Error updating shelf-life rules:", error)
+    return apiErrorResponse(error, "Failed to update shelf-life rules")
+  }
+}
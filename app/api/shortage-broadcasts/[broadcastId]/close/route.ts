@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { closeShortageBroadcast, parseBroadcastClose } from "@/lib/shortage-broadcasts"
+
+type RouteContext = {
+  params: Promise<{ broadcastId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Close the hospital's own broadcast: { status: "fulfilled" | "cancelled" }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { broadcastId } = await params
+
+  if (!/^\d+$/.test(broadcastId)) {
+    return NextResponse.json({ success: false, error: "Invalid broadcast ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("transfers:manage")
+    const status = parseBroadcastClose(await request.json().catch(() => null))
+    await closeShortageBroadcast(Number.parseInt(broadcastId, 10), status, session)
+    return NextResponse.json({ success: true, message: `Broadcast marked ${status}` })
+  } catch (error) {
+    console.error("Error closing shortage broadcast:", error)
+    return apiErrorResponse(error, "Failed to close shortage broadcast")
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { parseShortageResponse, respondToShortageBroadcast } from "@/lib/shortage-broadcasts"
+
+type RouteContext = {
+  params: Promise<{ broadcastId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Offer units for another hospital's need, replacing any earlier offer: { quantity, message }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { broadcastId } = await params
+
+  if (!/^\d+$/.test(broadcastId)) {
+    return NextResponse.json({ success: false, error: "Invalid broadcast ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("transfers:manage")
+    const input = parseShortageResponse(await request.json().catch(() => null))
+    await respondToShortageBroadcast(Number.parseInt(broadcastId, 10), input, session)
+    return NextResponse.json({ success: true, message: "Response sent" })
+  } catch (error) {
+    console.error("Error responding to shortage broadcast:", error)
+    return apiErrorResponse(error, "Failed to respond to shortage broadcast")
+  }
+}
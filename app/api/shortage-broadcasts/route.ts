@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { createShortageBroadcast, getShortageBroadcasts, parseShortageBroadcast } from "@/lib/shortage-broadcasts"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// The signed-in admin's hospital's broadcasts and the open needs of every other hospital
+export async function GET() {
+  try {
+    const session = await requirePermission("inventory:view")
+    const broadcasts = await getShortageBroadcasts(session.hospitalId)
+    return NextResponse.json({ success: true, data: broadcasts })
+  } catch (error) {
+    console.error("Error fetching shortage broadcasts:", error)
+    return apiErrorResponse(error, "Failed to fetch shortage broadcasts")
+  }
+}
+
+// Post an urgent need to the network: { component, bloodType, rh, quantity, neededBy, reason }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("transfers:manage")
+    const input = parseShortageBroadcast(await request.json().catch(() => null))
+    const broadcastId = await createShortageBroadcast(input, session)
+    return NextResponse.json({ success: true, data: { broadcastId } })
+  } catch (error) {
+    console.error("Error creating shortage broadcast:", error)
+    return apiErrorResponse(error, "Failed to create shortage broadcast")
+  }
+}
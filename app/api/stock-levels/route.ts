@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { isBloodComponentKey } from "@/lib/blood-components"
+import { getStockLevels, parseStockLevels, setStockLevels } from "@/lib/stock-level-settings"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Stock levels in effect at the signed-in admin's hospital, by component and blood group
+export async function GET() {
+  try {
+    const session = await requirePermission("inventory:view")
+    const levels = await getStockLevels(session.hospitalId)
+    return NextResponse.json({ success: true, data: levels })
+  } catch (error) {
+    console.error("Error fetching stock levels:", error)
+    return apiErrorResponse(error, "Failed to fetch stock levels")
+  }
+}
+
+// Replace one component's levels: { component, measure, levels: [{ bloodType, rh, minimum, target, maximum }] }
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission("hospital:settings")
+    const body = await request.json()
+
+    if (typeof body?.component !== "string" || !isBloodComponentKey(body.component)) {
+      return NextResponse.json({ success: false, error: "Unknown blood component" }, { status: 400 })
+    }
+
+    const levels = parseStockLevels(body.component, body)
+    await setStockLevels(session.hospitalId, body.component, levels, session.adminId)
+
+    const updated = await getStockLevels(session.hospitalId)
+    return NextResponse.json({ success: true, data: updated })
+  } catch (error) {
+    console.error("Error updating stock levels:", error)
+    return apiErrorResponse(error, "Failed to update stock levels")
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { parseStorageUnitInput, updateStorageUnit } from "@/lib/storage-units"
+
+type RouteContext = {
+  params: Promise<{ storageUnitId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Update a storage unit; setting active to false takes it out of service
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { storageUnitId } = await params
+
+  if (!/^\d+$/.test(storageUnitId)) {
+    return NextResponse.json({ success: false, error: "Invalid storage unit ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("hospital:settings")
+    const input = parseStorageUnitInput(await request.json().catch(() => null))
+    await updateStorageUnit(session.hospitalId, Number.parseInt(storageUnitId, 10), input)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error updating storage unit:", error)
+    return apiErrorResponse(error, "Failed to update storage unit")
+  }
+}
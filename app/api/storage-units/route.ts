@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { createStorageUnit, getStorageUnits, parseStorageUnitInput } from "@/lib/storage-units"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Storage units at the signed-in admin's hospital with their usage; ?includeInactive=true adds retired ones
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requirePermission("inventory:view")
+    const includeInactive = request.nextUrl.searchParams.get("includeInactive") === "true"
+    const units = await getStorageUnits(session.hospitalId, { includeInactive })
+    return NextResponse.json({ success: true, data: units })
+  } catch (error) {
+    console.error("Error fetching storage units:", error)
+    return apiErrorResponse(error, "Failed to fetch storage units")
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("hospital:settings")
+    const input = parseStorageUnitInput(await request.json().catch(() => null))
+    const unit = await createStorageUnit(session.hospitalId, input)
+    return NextResponse.json({ success: true, data: unit })
+  } catch (error) {
+    console.error("Error creating storage unit:", error)
+    return apiErrorResponse(error, "Failed to create storage unit")
+  }
+}
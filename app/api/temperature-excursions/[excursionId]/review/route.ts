@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { parseExcursionReview, reviewTemperatureExcursion } from "@/lib/temperature-monitoring"
+
+type RouteContext = {
+  params: Promise<{ excursionId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Release or discard bags quarantined by an excursion; the excursion closes once all are reviewed
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { excursionId } = await params
+
+  if (!/^\d+$/.test(excursionId)) {
+    return NextResponse.json({ success: false, error: "Invalid excursion ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:release")
+    const decisions = parseExcursionReview(await request.json().catch(() => null))
+    const closed = await reviewTemperatureExcursion(Number.parseInt(excursionId, 10), decisions, session)
+    return NextResponse.json({ success: true, data: { closed } })
+  } catch (error) {
+    console.error("Error reviewing temperature excursion:", error)
+    return apiErrorResponse(error, "Failed to review temperature excursion")
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { getTemperatureExcursions } from "@/lib/temperature-monitoring"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Open excursions at the signed-in admin's hospital; ?includeResolved=true adds closed ones
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requirePermission("inventory:view")
+    const includeResolved = request.nextUrl.searchParams.get("includeResolved") === "true"
+    const excursions = await getTemperatureExcursions(session.hospitalId, { includeResolved })
+    return NextResponse.json({ success: true, data: excursions })
+  } catch (error) {
+    console.error("Error fetching temperature excursions:", error)
+    return apiErrorResponse(error, "Failed to fetch temperature excursions")
+  }
+}
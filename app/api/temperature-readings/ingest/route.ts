@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { parseReadingBatch, recordTemperatureReadings, verifyIngestKey } from "@/lib/temperature-monitoring"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+/**
+ * Readings posted by a local monitoring agent, authenticated with the shared
+ * TEMPERATURE_INGEST_KEY rather than a session:
+ *
+ *   POST /api/temperature-readings/ingest
+ *   Authorization: Bearer <key>
+ *   { "readings": [{ "storageUnitId": 1, "temperatureC": 4.2, "recordedAt": "2026-01-01T08:00:00Z" }] }
+ *
+ * See scripts/post-temperature-readings.mjs for a local client.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    verifyIngestKey(request.headers.get("authorization"))
+    const readings = parseReadingBatch(await request.json().catch(() => null))
+    const result = await recordTemperatureReadings(readings, { hospitalId: null, source: "monitor", adminId: null })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Error ingesting temperature readings:", error)
+    return apiErrorResponse(error, "Failed to ingest temperature readings")
+  }
+}
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import {
+  getTemperatureReadings,
+  parseTemperatureReading,
+  recordTemperatureReadings,
+} from "@/lib/temperature-monitoring"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Latest readings at the signed-in admin's hospital; ?storageUnitId= limits them to one unit
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requirePermission("inventory:view")
+    const storageUnitId = Number.parseInt(request.nextUrl.searchParams.get("storageUnitId") ?? "", 10)
+    const readings = await getTemperatureReadings(session.hospitalId, {
+      storageUnitId: Number.isNaN(storageUnitId) ? undefined : storageUnitId,
+    })
+    return NextResponse.json({ success: true, data: readings })
+  } catch (error) {
+    console.error("Error fetching temperature readings:", error)
+    return apiErrorResponse(error, "Failed to fetch temperature readings")
+  }
+}
+
+// Record a reading taken by hand; an out-of-range reading quarantines the unit's bags
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("inventory:update-status")
+    const reading = parseTemperatureReading(await request.json().catch(() => null))
+    const result = await recordTemperatureReadings([reading], {
+      hospitalId: session.hospitalId,
+      source: "manual",
+      adminId: session.adminId,
+    })
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error("Error recording temperature reading:", error)
+    return apiErrorResponse(error, "Failed to record temperature reading")
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { cancelTransfer, parseCancellation } from "@/lib/transfers"
+
+type RouteContext = {
+  params: Promise<{ transferId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Call off a request before it ships, from either side: { reason }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { transferId } = await params
+
+  if (!/^\d+$/.test(transferId)) {
+    return NextResponse.json({ success: false, error: "Invalid transfer ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("transfers:manage")
+    const { reason } = parseCancellation(await request.json().catch(() => null))
+    await cancelTransfer(Number.parseInt(transferId, 10), reason, session)
+    return NextResponse.json({ success: true, message: "Transfer cancelled" })
+  } catch (error) {
+    console.error("Error cancelling transfer:", error)
+    return apiErrorResponse(error, "Failed to cancel transfer")
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { getCandidateBags } from "@/lib/transfers"
+
+type RouteContext = {
+  params: Promise<{ transferId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Bags the supplier could send to fill a request, soonest to expire first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { transferId } = await params
+
+  if (!/^\d+$/.test(transferId)) {
+    return NextResponse.json({ success: false, error: "Invalid transfer ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("transfers:manage")
+    const bags = await getCandidateBags(Number.parseInt(transferId, 10), session.hospitalId)
+    return NextResponse.json({ success: true, data: bags })
+  } catch (error) {
+    console.error("Error fetching candidate bags:", error)
+    return apiErrorResponse(error, "Failed to fetch candidate bags")
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { receiveTransfer } from "@/lib/transfers"
+
+type RouteContext = {
+  params: Promise<{ transferId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Take a shipped transfer's bags into the requesting hospital's inventory
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { transferId } = await params
+
+  if (!/^\d+$/.test(transferId)) {
+    return NextResponse.json({ success: false, error: "Invalid transfer ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:update-status")
+    await receiveTransfer(Number.parseInt(transferId, 10), session)
+    return NextResponse.json({ success: true, message: "Transfer received" })
+  } catch (error) {
+    console.error("Error receiving transfer:", error)
+    return apiErrorResponse(error, "Failed to receive transfer")
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { parseTransferResponse, respondToTransfer } from "@/lib/transfers"
+
+type RouteContext = {
+  params: Promise<{ transferId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Answer a request as the supplier: { decision: "accept", bagIds } or { decision: "decline", reason }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { transferId } = await params
+
+  if (!/^\d+$/.test(transferId)) {
+    return NextResponse.json({ success: false, error: "Invalid transfer ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("transfers:manage")
+    const response = parseTransferResponse(await request.json().catch(() => null))
+    const status = await respondToTransfer(Number.parseInt(transferId, 10), response, session)
+    return NextResponse.json({ success: true, data: { status } })
+  } catch (error) {
+    console.error("Error responding to transfer:", error)
+    return apiErrorResponse(error, "Failed to respond to transfer")
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { parseShipment, shipTransfer } from "@/lib/transfers"
+
+type RouteContext = {
+  params: Promise<{ transferId: string }>
+}
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Hand the bags reserved for a request over for shipping: { courier }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { transferId } = await params
+
+  if (!/^\d+$/.test(transferId)) {
+    return NextResponse.json({ success: false, error: "Invalid transfer ID" }, { status: 400 })
+  }
+
+  try {
+    const session = await requirePermission("inventory:update-status")
+    const { courier } = parseShipment(await request.json().catch(() => null))
+    await shipTransfer(Number.parseInt(transferId, 10), courier, session)
+    return NextResponse.json({ success: true, message: "Transfer shipped" })
+  } catch (error) {
+    console.error("Error shipping transfer:", error)
+    return apiErrorResponse(error, "Failed to ship transfer")
+  }
+}
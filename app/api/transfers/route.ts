@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth"
+import { apiErrorResponse } from "@/lib/api-errors"
+import { createTransferRequest, getTransfers, parseTransferRequest } from "@/lib/transfers"
+
+// Force dynamic rendering for API routes
+export const dynamic = "force-dynamic"
+
+// Transfers the signed-in admin's hospital asked for (outgoing requests) or supplies (incoming requests)
+export async function GET() {
+  try {
+    const session = await requirePermission("inventory:view")
+    const transfers = await getTransfers(session.hospitalId)
+    return NextResponse.json({ success: true, data: transfers })
+  } catch (error) {
+    console.error("Error fetching transfers:", error)
+    return apiErrorResponse(error, "Failed to fetch transfers")
+  }
+}
+
+// Ask another hospital for units: { supplyingHospitalId, component, bloodType, rh, quantity, notes }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission("transfers:manage")
+    const input = parseTransferRequest(await request.json().catch(() => null))
+    const transferId = await createTransferRequest(input, session)
+    return NextResponse.json({ success: true, data: { transferId } })
+  } catch (error) {
+    console.error("Error creating transfer request:", error)
+    return apiErrorResponse(error, "Failed to create transfer request")
+  }
+}
@@ -0,0 +1,62 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import AuditLogContent from "@/components/audit-log-content"
+import { redirect } from "next/navigation"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import DatabaseError from "@/components/database-error"
+import { getAuditActors } from "@/lib/audit-log"
+import { hasPermission } from "@/lib/permissions"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function AuditPage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    if (!hasPermission(session.role, "audit:view")) {
+      redirect("/dashboard")
+    }
+
+    const { hospitalId } = session
+    const actors = await getAuditActors(hospitalId)
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Audit Trail</h1>
+
+          <AuditLogContent
+            actors={actors.map((actor) => ({ adminId: Number(actor.admin_id), username: String(actor.admin_username) }))}
+          />
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Audit page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return <DatabaseError message="Unable to load the audit trail. Database connection failed." />
+    }
+
+    // Return a simple error message for other errors
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
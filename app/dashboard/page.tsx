@@ -1,15 +1,11 @@
 import { requireAuth } from "@/lib/auth"
-import {
-  getBloodInventory,
-  getHospitalById,
-  getPlasmaInventory,
-  getPlateletsInventory,
-  getSurplusAlerts,
-} from "@/lib/db"
+import { getHospitalById, getInventoryByComponent, getSurplusAlerts } from "@/lib/db"
+import { BLOOD_COMPONENT_LIST } from "@/lib/blood-components"
 import Header from "@/components/header"
 import BloodInventoryChart from "@/components/blood-inventory-chart"
 import InventoryTable from "@/components/inventory-table"
 import SurplusAlerts from "@/components/surplus-alerts"
+import NetworkShortages from "@/components/network-shortages"
 import RealTimeInventoryWarnings from "@/components/real-time-inventory-warnings"
 import { Suspense } from "react"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -18,10 +14,20 @@ import { AppError, ErrorType } from "@/lib/error-handling"
 import Link from "next/link"
 import { PlusCircle } from "lucide-react"
 import { isPreviewMode } from "@/lib/environment-detection"
+import { hasPermission } from "@/lib/permissions"
+import { getShortageBroadcasts } from "@/lib/shortage-broadcasts"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { getStockLevels } from "@/lib/stock-level-settings"
+import { DEFAULT_STOCK_LEVELS } from "@/lib/stock-levels"
 
 // Force dynamic rendering since we're using cookies
 export const dynamic = "force-dynamic"
 
+// Total a numeric column of grouped inventory, using Number() to ensure proper conversion
+function sumInventory(items: { count: number; total_amount: number }[], column: "count" | "total_amount") {
+  return items.reduce((sum, item) => sum + Number(item[column] || 0), 0)
+}
+
 export default async function DashboardPage() {
   // If in preview mode, we can skip authentication
   if (isPreviewMode()) {
@@ -30,19 +36,9 @@ export default async function DashboardPage() {
 
     try {
       // Fetch data for preview mode
-      const redBlood = await getBloodInventory(hospitalId)
-      const plasma = await getPlasmaInventory(hospitalId)
-      const platelets = await getPlateletsInventory(hospitalId)
+      const inventory = await getInventoryByComponent(hospitalId)
       const alerts = await getSurplusAlerts(hospitalId)
 
-      // Calculate totals
-      const redBloodUnits = redBlood.reduce((sum, item) => sum + Number(item.count || 0), 0)
-      const redBloodAmount = redBlood.reduce((sum, item) => sum + Number(item.total_amount || 0), 0)
-      const plasmaUnits = plasma.reduce((sum, item) => sum + Number(item.count || 0), 0)
-      const plasmaAmount = plasma.reduce((sum, item) => sum + Number(item.total_amount || 0), 0)
-      const plateletsUnits = platelets.reduce((sum, item) => sum + Number(item.count || 0), 0)
-      const plateletsAmount = platelets.reduce((sum, item) => sum + Number(item.total_amount || 0), 0)
-
       // Render the dashboard with preview data
       return (
         <div className="min-h-screen flex flex-col">
@@ -64,10 +60,9 @@ export default async function DashboardPage() {
               {/* Blood Inventory Chart with thresholds */}
               <Suspense fallback={<Skeleton className="w-full h-96 rounded-lg" />}>
                 <BloodInventoryChart
-                  redBlood={redBlood}
-                  plasma={plasma}
-                  platelets={platelets}
+                  inventory={inventory}
                   showThresholds={true}
+                  stockLevels={DEFAULT_STOCK_LEVELS}
                   className="h-full"
                 />
               </Suspense>
@@ -76,10 +71,9 @@ export default async function DashboardPage() {
               <Suspense fallback={<Skeleton className="w-full h-96 rounded-lg" />}>
                 <div className="relative h-full">
                   <RealTimeInventoryWarnings
-                    initialRedBlood={redBlood}
-                    initialPlasma={plasma}
-                    initialPlatelets={platelets}
+                    initialInventory={inventory}
                     hospitalId={hospitalId}
+                    stockLevels={DEFAULT_STOCK_LEVELS}
                     refreshInterval={30000} // Refresh every 30 seconds
                     className="h-full"
                   />
@@ -88,23 +82,17 @@ export default async function DashboardPage() {
             </div>
 
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mb-8">
-              <div className="bg-white p-6 rounded-lg shadow">
-                <h2 className="text-lg font-medium mb-2">Red Blood Cells</h2>
-                <div className="text-3xl font-bold text-red-600">{redBloodUnits} units</div>
-                <p className="text-muted-foreground">{redBloodAmount.toLocaleString()} ml total</p>
-              </div>
-
-              <div className="bg-white p-6 rounded-lg shadow">
-                <h2 className="text-lg font-medium mb-2">Plasma</h2>
-                <div className="text-3xl font-bold text-amber-600">{plasmaUnits} units</div>
-                <p className="text-muted-foreground">{plasmaAmount.toLocaleString()} ml total</p>
-              </div>
-
-              <div className="bg-white p-6 rounded-lg shadow">
-                <h2 className="text-lg font-medium mb-2">Platelets</h2>
-                <div className="text-3xl font-bold text-blue-600">{plateletsUnits} units</div>
-                <p className="text-muted-foreground">{plateletsAmount.toLocaleString()} ml total</p>
-              </div>
+              {BLOOD_COMPONENT_LIST.map((component) => (
+                <div key={component.key} className="bg-white p-6 rounded-lg shadow">
+                  <h2 className="text-lg font-medium mb-2">{component.label}</h2>
+                  <div className={`text-3xl font-bold ${component.color.text}`}>
+                    {sumInventory(inventory[component.key], "count")} units
+                  </div>
+                  <p className="text-muted-foreground">
+                    {sumInventory(inventory[component.key], "total_amount").toLocaleString()} ml total
+                  </p>
+                </div>
+              ))}
             </div>
 
             <div className="mb-8">
@@ -114,17 +102,15 @@ export default async function DashboardPage() {
             </div>
 
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              <Suspense fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
-                <InventoryTable title="Red Blood Cell Inventory" inventory={redBlood} showRh={true} />
-              </Suspense>
-
-              <Suspense fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
-                <InventoryTable title="Plasma Inventory" inventory={plasma} />
-              </Suspense>
-
-              <Suspense fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
-                <InventoryTable title="Platelets Inventory" inventory={platelets} showRh={true} />
-              </Suspense>
+              {BLOOD_COMPONENT_LIST.map((component) => (
+                <Suspense key={component.key} fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
+                  <InventoryTable
+                    title={`${component.label} Inventory`}
+                    inventory={inventory[component.key]}
+                    showRh={component.hasRh}
+                  />
+                </Suspense>
+              ))}
             </div>
           </main>
         </div>
@@ -147,32 +133,18 @@ export default async function DashboardPage() {
     const hospitalPromise = getHospitalById(hospitalId)
 
     // Parallel data fetching for better performance
-    const [hospital, redBlood, plasma, platelets, alerts] = await Promise.all([
+    const [hospital, inventory, alerts, shortages, timeZone, stockLevels] = await Promise.all([
       hospitalPromise,
-      getBloodInventory(hospitalId),
-      getPlasmaInventory(hospitalId),
-      getPlateletsInventory(hospitalId),
+      getInventoryByComponent(hospitalId),
       getSurplusAlerts(hospitalId),
+      getShortageBroadcasts(hospitalId),
+      getHospitalTimeZone(hospitalId),
+      getStockLevels(hospitalId),
     ])
 
-    console.log("Dashboard - Red Blood Cell data:", JSON.stringify(redBlood, null, 2))
-
-    // Calculate accurate totals using Number() to ensure proper conversion
-    const redBloodUnits = redBlood.reduce((sum, item) => sum + Number(item.count || 0), 0)
-    const redBloodAmount = redBlood.reduce((sum, item) => sum + Number(item.total_amount || 0), 0)
-
-    console.log("Dashboard - Red Blood Cell totals:", { units: redBloodUnits, amount: redBloodAmount })
-
-    // Calculate accurate totals using Number() to ensure proper conversion
-    const plasmaUnits = plasma.reduce((sum, item) => sum + Number(item.count || 0), 0)
-    const plasmaAmount = plasma.reduce((sum, item) => sum + Number(item.total_amount || 0), 0)
-
-    const plateletsUnits = platelets.reduce((sum, item) => sum + Number(item.count || 0), 0)
-    const plateletsAmount = platelets.reduce((sum, item) => sum + Number(item.total_amount || 0), 0)
-
     return (
       <div className="min-h-screen flex flex-col">
-        <Header hospitalId={hospitalId} />
+        <Header hospitalId={hospitalId} role={session.role} />
 
         <main className="flex-1 container py-6 px-4 md:py-8">
           <div className="flex justify-between items-center mb-6">
@@ -185,15 +157,26 @@ export default async function DashboardPage() {
             </div>
           </div>
 
+          {/* Urgent needs from other hospitals come before anything else */}
+          {shortages.network.length > 0 && (
+            <div className="mb-8">
+              <NetworkShortages
+                broadcasts={shortages.network}
+                hospitalId={hospitalId}
+                canRespond={hasPermission(session.role, "transfers:manage")}
+                timeZone={timeZone}
+              />
+            </div>
+          )}
+
           {/* Top section: Chart and Warnings side by side */}
           <div className="grid gap-6 lg:grid-cols-2 mb-8">
             {/* Blood Inventory Chart with thresholds */}
             <Suspense fallback={<Skeleton className="w-full h-96 rounded-lg" />}>
               <BloodInventoryChart
-                redBlood={redBlood}
-                plasma={plasma}
-                platelets={platelets}
+                inventory={inventory}
                 showThresholds={true}
+                stockLevels={stockLevels}
                 className="h-full"
               />
             </Suspense>
@@ -202,10 +185,9 @@ export default async function DashboardPage() {
             <Suspense fallback={<Skeleton className="w-full h-96 rounded-lg" />}>
               <div className="relative h-full">
                 <RealTimeInventoryWarnings
-                  initialRedBlood={redBlood}
-                  initialPlasma={plasma}
-                  initialPlatelets={platelets}
+                  initialInventory={inventory}
                   hospitalId={hospitalId}
+                  stockLevels={stockLevels}
                   refreshInterval={30000} // Refresh every 30 seconds
                   className="h-full"
                 />
@@ -214,43 +196,38 @@ export default async function DashboardPage() {
           </div>
 
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mb-8">
-            <div className="bg-white p-6 rounded-lg shadow">
-              <h2 className="text-lg font-medium mb-2">Red Blood Cells</h2>
-              <div className="text-3xl font-bold text-red-600">{redBloodUnits} units</div>
-              <p className="text-muted-foreground">{redBloodAmount.toLocaleString()} ml total</p>
-            </div>
-
-            <div className="bg-white p-6 rounded-lg shadow">
-              <h2 className="text-lg font-medium mb-2">Plasma</h2>
-              <div className="text-3xl font-bold text-amber-600">{plasmaUnits} units</div>
-              <p className="text-muted-foreground">{plasmaAmount.toLocaleString()} ml total</p>
-            </div>
-
-            <div className="bg-white p-6 rounded-lg shadow">
-              <h2 className="text-lg font-medium mb-2">Platelets</h2>
-              <div className="text-3xl font-bold text-blue-600">{plateletsUnits} units</div>
-              <p className="text-muted-foreground">{plateletsAmount.toLocaleString()} ml total</p>
-            </div>
+            {BLOOD_COMPONENT_LIST.map((component) => (
+              <div key={component.key} className="bg-white p-6 rounded-lg shadow">
+                <h2 className="text-lg font-medium mb-2">{component.label}</h2>
+                <div className={`text-3xl font-bold ${component.color.text}`}>
+                  {sumInventory(inventory[component.key], "count")} units
+                </div>
+                <p className="text-muted-foreground">
+                  {sumInventory(inventory[component.key], "total_amount").toLocaleString()} ml total
+                </p>
+              </div>
+            ))}
           </div>
 
           <div className="mb-8">
             <Suspense fallback={<Skeleton className="w-full h-96 rounded-lg" />}>
-              <SurplusAlerts alerts={alerts} />
+              <SurplusAlerts
+                alerts={alerts}
+                canRequestTransfer={hasPermission(session.role, "transfers:manage")}
+              />
             </Suspense>
           </div>
 
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            <Suspense fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
-              <InventoryTable title="Red Blood Cell Inventory" inventory={redBlood} showRh={true} />
-            </Suspense>
-
-            <Suspense fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
-              <InventoryTable title="Plasma Inventory" inventory={plasma} />
-            </Suspense>
-
-            <Suspense fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
-              <InventoryTable title="Platelets Inventory" inventory={platelets} showRh={true} />
-            </Suspense>
+            {BLOOD_COMPONENT_LIST.map((component) => (
+              <Suspense key={component.key} fallback={<Skeleton className="w-full h-64 rounded-lg" />}>
+                <InventoryTable
+                  title={`${component.label} Inventory`}
+                  inventory={inventory[component.key]}
+                  showRh={component.hasRh}
+                />
+              </Suspense>
+            ))}
           </div>
         </main>
       </div>
@@ -4,6 +4,7 @@ import DataAnalysisContent from "@/components/data-analysis-content"
 import { redirect } from "next/navigation"
 import { AppError, ErrorType } from "@/lib/error-handling"
 import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
 
 // Force dynamic rendering since we're using cookies
 export const dynamic = "force-dynamic"
@@ -21,13 +22,15 @@ export default async function DataAnalysisPage() {
 
     return (
       <div className="min-h-screen flex flex-col">
-        <Header hospitalId={hospitalId} />
+        <Header hospitalId={hospitalId} role={session.role} />
 
         <main className="flex-1 container py-6 px-4 md:py-8">
           <h1 className="text-2xl font-bold mb-6">Data Analysis</h1>
 
           <div className="max-w-6xl mx-auto">
-            <DataAnalysisContent />
+            <DataAnalysisContent
+              canViewAllHospitals={hasPermission(session.role, "inventory:view-all-hospitals")}
+            />
           </div>
         </main>
       </div>
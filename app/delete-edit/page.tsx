@@ -4,6 +4,8 @@ import DeleteEditContent from "@/components/delete-edit-content"
 import { redirect } from "next/navigation"
 import { AppError, ErrorType } from "@/lib/error-handling"
 import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
 
 // Force dynamic rendering since we're using cookies
 export const dynamic = "force-dynamic"
@@ -18,16 +20,27 @@ export default async function DeleteEditPage() {
     }
 
     const { hospitalId } = session
+    const timeZone = await getHospitalTimeZone(hospitalId)
 
     return (
       <div className="min-h-screen flex flex-col">
-        <Header hospitalId={hospitalId} />
+        <Header hospitalId={hospitalId} role={session.role} />
 
         <main className="flex-1 container py-6 px-4 md:py-8">
           <h1 className="text-2xl font-bold mb-6">Delete/Edit Inventory</h1>
 
           <div className="max-w-6xl mx-auto">
-            <DeleteEditContent />
+            <DeleteEditContent
+              permissions={{
+                canEdit: hasPermission(session.role, "inventory:edit"),
+                canDelete: hasPermission(session.role, "inventory:delete"),
+                canRestore: hasPermission(session.role, "inventory:restore"),
+                canUpdateStatus: hasPermission(session.role, "inventory:update-status"),
+                canRelease: hasPermission(session.role, "inventory:release"),
+                canViewAllHospitals: hasPermission(session.role, "inventory:view-all-hospitals"),
+              }}
+              timeZone={timeZone}
+            />
           </div>
         </main>
       </div>
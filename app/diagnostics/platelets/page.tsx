@@ -5,13 +5,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { getRawPlateletsInventory, getPlateletsInventory } from "@/lib/platelets-service"
 import AddTestEntryButton from "./add-test-entry-button"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+import { formatDate } from "@/lib/utils"
+import { DEFAULT_TIME_ZONE } from "@/lib/expiry"
 
 export const dynamic = "force-dynamic"
 
 export default async function PlateletsDiagnosticsPage() {
   // Handle preview mode
   if (isPreviewMode()) {
-    const rawData = await getRawPlateletsInventory(1)
+    const rawData = await getRawPlateletsInventory({ hospitalId: 1 })
     const groupedData = await getPlateletsInventory(1)
 
     return (
@@ -30,21 +33,30 @@ export default async function PlateletsDiagnosticsPage() {
   const { hospitalId } = session
 
   // Get diagnostic data
-  const rawData = await getRawPlateletsInventory(hospitalId)
+  const rawData = await getRawPlateletsInventory({ hospitalId })
   const groupedData = await getPlateletsInventory(hospitalId)
+  const timeZone = await getHospitalTimeZone(hospitalId)
 
   return (
     <div className="min-h-screen flex flex-col">
-      <Header hospitalId={hospitalId} />
+      <Header hospitalId={hospitalId} role={session.role} />
       <main className="flex-1 container py-6 px-4 md:py-8">
         <h1 className="text-2xl font-bold mb-6">Platelets Inventory Diagnostics</h1>
-        <DiagnosticsContent rawData={rawData.data} groupedData={groupedData} />
+        <DiagnosticsContent rawData={rawData.data} groupedData={groupedData} timeZone={timeZone} />
       </main>
     </div>
   )
 }
 
-function DiagnosticsContent({ rawData, groupedData }: { rawData: any; groupedData: any }) {
+function DiagnosticsContent({
+  rawData,
+  groupedData,
+  timeZone = DEFAULT_TIME_ZONE,
+}: {
+  rawData: any
+  groupedData: any
+  timeZone?: string
+}) {
   return (
     <div className="space-y-8">
       <div className="flex justify-between items-center">
@@ -121,7 +133,7 @@ function DiagnosticsContent({ rawData, groupedData }: { rawData: any; groupedDat
                       <TableCell>{item.blood_type}</TableCell>
                       <TableCell>{item.rh}</TableCell>
                       <TableCell>{item.amount}</TableCell>
-                      <TableCell>{new Date(item.expiration_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{formatDate(item.expiration_date, timeZone)}</TableCell>
                       <TableCell>{item.active ? "Yes" : "No"}</TableCell>
                     </TableRow>
                   ))
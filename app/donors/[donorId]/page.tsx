@@ -0,0 +1,150 @@
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import DatabaseError from "@/components/database-error"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import { getDonor, getDonorUnits } from "@/lib/donors"
+import { BLOOD_COMPONENTS } from "@/lib/blood-components"
+import { isUnitStatus, UNIT_STATUS_LABELS } from "@/lib/unit-lifecycle"
+import { formatDin } from "@/lib/isbt128"
+import { formatBloodType, formatDate } from "@/lib/utils"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+type DonorPageProps = {
+  params: Promise<{ donorId: string }>
+}
+
+export default async function DonorPage({ params }: DonorPageProps) {
+  const { donorId } = await params
+
+  if (!/^\d+$/.test(donorId)) {
+    notFound()
+  }
+
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    const donor = await getDonor(Number(donorId))
+    const units = await getDonorUnits(donor.donor_id)
+    const timeZone = await getHospitalTimeZone(session.hospitalId)
+
+    // Components split from one donation share a DIN; units without one count as their own donation
+    const donationCount = new Set(units.map((unit) => unit.isbt_din ?? `${unit.component}:${unit.bag_id}`)).size
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={session.hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <div className="mb-6">
+            <Link href="/donors" className="text-sm text-muted-foreground underline">
+              Donor Registry
+            </Link>
+            <h1 className="text-2xl font-bold">
+              {donor.full_name} <span className="text-muted-foreground font-normal">#{donor.donor_id}</span>
+            </h1>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                  <dt className="text-muted-foreground">Blood group</dt>
+                  <dd>{formatBloodType(donor.blood_type, donor.rh ?? undefined)}</dd>
+                  <dt className="text-muted-foreground">Date of birth</dt>
+                  <dd>{new Date(donor.date_of_birth).toLocaleDateString()}</dd>
+                  <dt className="text-muted-foreground">Phone</dt>
+                  <dd>{donor.phone || "—"}</dd>
+                  <dt className="text-muted-foreground">Email</dt>
+                  <dd>{donor.email || "—"}</dd>
+                  <dt className="text-muted-foreground">Address</dt>
+                  <dd>{donor.address || "—"}</dd>
+                  <dt className="text-muted-foreground">Registered</dt>
+                  <dd>{new Date(donor.created_at).toLocaleDateString()}</dd>
+                  <dt className="text-muted-foreground">Donations</dt>
+                  <dd>{donationCount}</dd>
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Units</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {units.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No units are linked to this donor yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Component</TableHead>
+                        <TableHead>Bag ID</TableHead>
+                        <TableHead>DIN</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Expiration</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Hospital</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {units.map((unit) => (
+                        <TableRow key={`${unit.component}-${unit.bag_id}`}>
+                          <TableCell>{BLOOD_COMPONENTS[unit.component]?.label ?? unit.component}</TableCell>
+                          <TableCell>{unit.bag_id}</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {unit.isbt_din ? formatDin(unit.isbt_din) : "—"}
+                          </TableCell>
+                          <TableCell>{unit.amount} ml</TableCell>
+                          <TableCell>{formatDate(unit.expiration_date, timeZone)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {isUnitStatus(unit.status) ? UNIT_STATUS_LABELS[unit.status] : unit.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{unit.hospital_name}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Donor page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError) {
+      if (error.type === ErrorType.NOT_FOUND) {
+        notFound()
+      } else if (error.type === ErrorType.DATABASE_CONNECTION) {
+        return <DatabaseError message="Unable to load the donor. Database connection failed." />
+      }
+    }
+
+    return <DatabaseError message="There was an error loading this donor." showHomeLink={true} />
+  }
+}
@@ -2,15 +2,16 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { AlertCircle, Loader2 } from "lucide-react"
+import { AlertCircle, Clock, Loader2 } from "lucide-react"
 import { ErrorType } from "@/lib/error-handling"
+import TwoFactorForm, { type TwoFactorChallenge } from "./two-factor-form"
 
 interface LoginFormProps {
   returnTo?: string
@@ -23,6 +24,45 @@ export default function LoginForm({ returnTo }: LoginFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
   const [errorType, setErrorType] = useState<ErrorType | null>(null)
+  // Seconds left on a lockout after too many failed attempts
+  const [lockoutRemaining, setLockoutRemaining] = useState(0)
+  // Set when the password was accepted and a 2FA code is still needed
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null)
+
+  // Count the lockout down once a second
+  useEffect(() => {
+    if (lockoutRemaining <= 0) {
+      return
+    }
+
+    const timer = setTimeout(() => {
+      setLockoutRemaining((seconds) => seconds - 1)
+    }, 1000)
+
+    return () => clearTimeout(timer)
+  }, [lockoutRemaining])
+
+  const formatLockout = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60)
+    return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+  }
+
+  const isLockedOut = lockoutRemaining > 0
+
+  const navigateAfterLogin = () => {
+    // If login is successful and we have a returnTo URL, navigate there
+    if (returnTo) {
+      const decodedReturnTo = decodeURIComponent(returnTo)
+      // Validate the returnTo URL to prevent open redirect vulnerabilities
+      if (decodedReturnTo.startsWith("/") && !decodedReturnTo.includes("//")) {
+        router.push(decodedReturnTo)
+        return
+      }
+    }
+
+    // Otherwise go to dashboard
+    router.push("/dashboard")
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -41,6 +81,14 @@ export default function LoginForm({ returnTo }: LoginFormProps) {
 
       const data = await response.json()
 
+      if (data.type === ErrorType.RATE_LIMIT && data.retryAfterSeconds) {
+        setLockoutRemaining(data.retryAfterSeconds)
+        setError(data.error)
+        setErrorType(ErrorType.RATE_LIMIT)
+        setIsLoading(false)
+        return
+      }
+
       if (!response.ok || !data.success) {
         setError(data.error || "Login failed. Please check your credentials.")
         setErrorType(data.type || ErrorType.AUTHENTICATION)
@@ -48,18 +96,15 @@ export default function LoginForm({ returnTo }: LoginFormProps) {
         return
       }
 
-      // If login is successful and we have a returnTo URL, navigate there
-      if (returnTo) {
-        const decodedReturnTo = decodeURIComponent(returnTo)
-        // Validate the returnTo URL to prevent open redirect vulnerabilities
-        if (decodedReturnTo.startsWith("/") && !decodedReturnTo.includes("//")) {
-          router.push(decodedReturnTo)
-          return
-        }
+      // Password accepted, but the account needs a second factor
+      if (data.twoFactor) {
+        setTwoFactorChallenge(data.twoFactor)
+        setPassword("")
+        setIsLoading(false)
+        return
       }
 
-      // Otherwise go to dashboard
-      router.push("/dashboard")
+      navigateAfterLogin()
     } catch (err) {
       console.error("Login error:", err)
       setError("An unexpected error occurred. Please try again.")
@@ -68,14 +113,35 @@ export default function LoginForm({ returnTo }: LoginFormProps) {
     }
   }
 
+  if (twoFactorChallenge) {
+    return (
+      <TwoFactorForm
+        challenge={twoFactorChallenge}
+        onComplete={navigateAfterLogin}
+        onCancel={() => setTwoFactorChallenge(null)}
+      />
+    )
+  }
+
   return (
     <Card>
       <CardContent className="pt-6">
-        {error && (
-          <Alert variant={errorType === ErrorType.DATABASE_CONNECTION ? "warning" : "destructive"} className="mb-4">
-            <AlertCircle className="h-4 w-4" />
-            <AlertDescription>{error}</AlertDescription>
+        {isLockedOut ? (
+          <Alert variant="destructive" className="mb-4">
+            <Clock className="h-4 w-4" />
+            <AlertDescription>
+              Too many failed login attempts. You can try again in{" "}
+              <span className="font-mono font-medium">{formatLockout(lockoutRemaining)}</span>.
+            </AlertDescription>
           </Alert>
+        ) : (
+          error &&
+          errorType !== ErrorType.RATE_LIMIT && (
+            <Alert variant={errorType === ErrorType.DATABASE_CONNECTION ? "warning" : "destructive"} className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )
         )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -107,7 +173,7 @@ export default function LoginForm({ returnTo }: LoginFormProps) {
             />
           </div>
 
-          <Button type="submit" className="w-full" disabled={isLoading}>
+          <Button type="submit" className="w-full" disabled={isLoading || isLockedOut}>
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Logging in...
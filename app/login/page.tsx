@@ -13,7 +13,7 @@ export const dynamic = "force-dynamic"
 export default async function LoginPage({
   searchParams,
 }: {
-  searchParams: { registered?: string; reason?: string; returnTo?: string }
+  searchParams: { registered?: string; reset?: string; reason?: string; returnTo?: string }
 }) {
   const session = await getSession()
 
@@ -30,6 +30,7 @@ export default async function LoginPage({
   }
 
   const justRegistered = searchParams.registered === "true"
+  const justReset = searchParams.reset === "true"
   const redirectReason = searchParams.reason
   const returnTo = searchParams.returnTo
 
@@ -47,6 +48,11 @@ export default async function LoginPage({
               Registration successful! Please log in with your new credentials.
             </div>
           )}
+          {justReset && (
+            <div className="mt-4 p-2 bg-green-50 text-green-700 rounded-md">
+              Your password has been reset. Please log in with your new password.
+            </div>
+          )}
           {redirectReason === "session-timeout" && (
             <div className="mt-4 p-3 bg-amber-50 text-amber-700 rounded-md border border-amber-200">
               <p className="font-medium">Your session has expired</p>
@@ -0,0 +1,193 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import QrCode from "@/components/qr-code"
+import RecoveryCodesList from "@/components/recovery-codes-list"
+import { AlertCircle, Loader2 } from "lucide-react"
+
+export type TwoFactorChallenge = {
+  purpose: "verify" | "enroll"
+  challengeToken: string
+  // Present when the hospital requires 2FA and this account has not enrolled yet
+  enrollment: { secret: string; otpauthUrl: string } | null
+}
+
+interface TwoFactorFormProps {
+  challenge: TwoFactorChallenge
+  onComplete: () => void
+  onCancel: () => void
+}
+
+export default function TwoFactorForm({ challenge, onComplete, onCancel }: TwoFactorFormProps) {
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const isEnrollment = challenge.purpose === "enroll"
+
+  const submitCode = async (value: string) => {
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/login/two-factor", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ challengeToken: challenge.challengeToken, code: value }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setError(data.error || "Verification failed. Please try again.")
+        setCode("")
+        setIsLoading(false)
+        return
+      }
+
+      // A completed enrollment returns recovery codes that must be shown before continuing
+      if (data.recoveryCodes?.length) {
+        setRecoveryCodes(data.recoveryCodes)
+        setIsLoading(false)
+        return
+      }
+
+      onComplete()
+    } catch (err) {
+      console.error("Two-factor login error:", err)
+      setError("An unexpected error occurred. Please try again.")
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    submitCode(code)
+  }
+
+  if (recoveryCodes) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-factor authentication enabled</CardTitle>
+          <CardDescription>Save your recovery codes before continuing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RecoveryCodesList codes={recoveryCodes} />
+          <Button className="w-full" onClick={onComplete}>
+            Continue
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isEnrollment ? "Set up two-factor authentication" : "Two-factor authentication"}</CardTitle>
+        <CardDescription>
+          {isEnrollment
+            ? "Your hospital requires two-factor authentication. Scan the code with an authenticator app, then enter the 6-digit code it shows."
+            : "Enter the 6-digit code from your authenticator app."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isEnrollment && challenge.enrollment && (
+          <div className="flex flex-col items-center gap-2 mb-6">
+            <QrCode value={challenge.enrollment.otpauthUrl} />
+            <p className="text-xs text-muted-foreground">Can't scan it? Enter this key manually:</p>
+            <code className="text-sm font-mono break-all text-center">{challenge.enrollment.secret}</code>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="recoveryCode">Recovery code</Label>
+              <Input
+                id="recoveryCode"
+                type="text"
+                placeholder="xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="off"
+                disabled={isLoading}
+                required
+              />
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={(value: string) => submitCode(value)}
+                autoComplete="one-time-code"
+                inputMode="numeric"
+                disabled={isLoading}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isLoading || !code}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Verifying...
+              </>
+            ) : (
+              "Verify"
+            )}
+          </Button>
+        </form>
+
+        <div className="mt-4 flex items-center justify-between text-sm">
+          {!isEnrollment ? (
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode)
+                setCode("")
+                setError("")
+              }}
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button type="button" className="text-muted-foreground hover:underline" onClick={onCancel}>
+            Back to login
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
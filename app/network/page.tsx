@@ -0,0 +1,56 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import NetworkDashboardContent from "@/components/network-dashboard-content"
+import { redirect } from "next/navigation"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function NetworkPage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    // Only network coordinators see stock across every hospital
+    if (!hasPermission(session.role, "inventory:view-all-hospitals")) {
+      redirect("/dashboard")
+    }
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={session.hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Network Dashboard</h1>
+
+          <NetworkDashboardContent />
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Network page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return <DatabaseError message="Unable to load the network dashboard. Database connection failed." />
+    }
+
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
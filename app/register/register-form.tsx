@@ -9,8 +9,9 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { AlertCircle } from "lucide-react"
+import { AlertCircle, Clock } from "lucide-react"
 import Link from "next/link"
+import { getPasswordPolicyViolations, PASSWORD_POLICY_DESCRIPTION } from "@/lib/password-policy"
 
 export default function RegisterForm() {
   const router = useRouter()
@@ -18,7 +19,9 @@ export default function RegisterForm() {
   const [password, setPassword] = useState("")
   const [confirmPassword, setConfirmPassword] = useState("")
   const [hospitalId, setHospitalId] = useState("")
+  const [inviteCode, setInviteCode] = useState("")
   const [error, setError] = useState("")
+  const [isPending, setIsPending] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
   async function handleSubmit(e: React.FormEvent) {
@@ -31,6 +34,12 @@ export default function RegisterForm() {
       return
     }
 
+    const violations = getPasswordPolicyViolations(password, username)
+    if (violations.length > 0) {
+      setError(violations[0])
+      return
+    }
+
     setIsLoading(true)
 
     try {
@@ -42,13 +51,17 @@ export default function RegisterForm() {
         body: JSON.stringify({
           username,
           password,
-          hospitalId: Number.parseInt(hospitalId, 10),
+          hospitalId: inviteCode ? undefined : Number.parseInt(hospitalId, 10),
+          inviteCode: inviteCode.trim() || undefined,
         }),
       })
 
       const data = await response.json()
 
-      if (data.success) {
+      if (data.success && data.status === "pending") {
+        // Registered without an invite: the account needs approval before login
+        setIsPending(true)
+      } else if (data.success) {
         router.push("/login?registered=true")
       } else {
         setError(data.error || "Registration failed. Please try again.")
@@ -61,6 +74,31 @@ export default function RegisterForm() {
     }
   }
 
+  if (isPending) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Registration Pending</CardTitle>
+          <CardDescription>Your account has been created</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertDescription>
+              A hospital admin must approve your account before you can log in. Ask them to review it on the
+              Accounts page, or register with an invite code to skip this step.
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link href="/login" className="text-sm text-primary hover:underline">
+            Back to login
+          </Link>
+        </CardFooter>
+      </Card>
+    )
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -88,6 +126,7 @@ export default function RegisterForm() {
               onChange={(e) => setPassword(e.target.value)}
               required
             />
+            <p className="text-xs text-muted-foreground">{PASSWORD_POLICY_DESCRIPTION}</p>
           </div>
           <div className="space-y-2">
             <Label htmlFor="confirmPassword">Confirm Password</Label>
@@ -100,15 +139,31 @@ export default function RegisterForm() {
             />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="hospitalId">Hospital ID</Label>
+            <Label htmlFor="inviteCode">Invite Code</Label>
             <Input
-              id="hospitalId"
-              type="number"
-              value={hospitalId}
-              onChange={(e) => setHospitalId(e.target.value)}
-              required
+              id="inviteCode"
+              type="text"
+              placeholder="XXXX-XXXX-XXXX"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              autoComplete="off"
             />
+            <p className="text-xs text-muted-foreground">
+              Provided by your hospital admin. Without a code, your account must be approved before you can log in.
+            </p>
           </div>
+          {!inviteCode && (
+            <div className="space-y-2">
+              <Label htmlFor="hospitalId">Hospital ID</Label>
+              <Input
+                id="hospitalId"
+                type="number"
+                value={hospitalId}
+                onChange={(e) => setHospitalId(e.target.value)}
+                required
+              />
+            </div>
+          )}
           <Button type="submit" className="w-full" disabled={isLoading}>
             {isLoading ? "Registering..." : "Register"}
           </Button>
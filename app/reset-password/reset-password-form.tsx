@@ -0,0 +1,124 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle } from "lucide-react"
+import Link from "next/link"
+import { getPasswordPolicyViolations, PASSWORD_POLICY_DESCRIPTION } from "@/lib/password-policy"
+
+export default function ResetPasswordForm({ token }: { token: string }) {
+  const router = useRouter()
+  const [newPassword, setNewPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    const violations = getPasswordPolicyViolations(newPassword)
+    if (violations.length > 0) {
+      setError(violations[0])
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const response = await fetch("/api/password-reset", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, newPassword }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        router.push("/login?reset=true")
+      } else {
+        setError(data.error || "Password reset failed. Please try again.")
+      }
+    } catch (err) {
+      console.error("Password reset error:", err)
+      setError("Connection error. Please try again later.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset Password</CardTitle>
+        <CardDescription>Choose a new password for your account</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!token ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              This reset link is incomplete. Ask your hospital admin for a new password reset link.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">{PASSWORD_POLICY_DESCRIPTION}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Resetting..." : "Reset Password"}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-center">
+        <Link href="/login" className="text-sm text-primary hover:underline">
+          Back to login
+        </Link>
+      </CardFooter>
+    </Card>
+  )
+}
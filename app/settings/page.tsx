@@ -0,0 +1,92 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import ShelfLifeSettings from "@/components/shelf-life-settings"
+import HospitalProfileForm from "@/components/hospital-profile-form"
+import StockLevelSettings from "@/components/stock-level-settings"
+import { redirect } from "next/navigation"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+import { getShelfLifeRules } from "@/lib/shelf-life-rules"
+import { getHospitalProfile } from "@/lib/hospital-settings"
+import { getStockLevels } from "@/lib/stock-level-settings"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function SettingsPage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    // Only hospital administrators change hospital-wide settings
+    if (!hasPermission(session.role, "hospital:settings")) {
+      redirect("/dashboard")
+    }
+
+    const { hospitalId } = session
+    const shelfLifeRules = await getShelfLifeRules(hospitalId)
+    const profile = await getHospitalProfile(hospitalId)
+    const stockLevels = await getStockLevels(hospitalId)
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Hospital Settings</h1>
+
+          <div className="max-w-3xl mx-auto space-y-4">
+            <HospitalProfileForm initialProfile={profile} />
+
+            <div className="pt-4">
+              <h2 className="text-lg font-semibold">Shelf Life</h2>
+              <p className="text-sm text-muted-foreground">
+                New units are dated from their collection date using these rules, and expiration dates beyond them are
+                rejected.
+              </p>
+            </div>
+            <ShelfLifeSettings initialRules={shelfLifeRules} />
+
+            <div className="pt-4">
+              <h2 className="text-lg font-semibold">Stock Levels</h2>
+              <p className="text-sm text-muted-foreground">
+                Dashboard warnings, chart lines and surplus alerts compare your stock of each blood group against these
+                levels.
+              </p>
+            </div>
+            <StockLevelSettings initialLevels={stockLevels} />
+
+            {hasPermission(session.role, "hospitals:create") && (
+              <div className="pt-4">
+                <HospitalProfileForm initialProfile={null} />
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Settings page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return <DatabaseError message="Unable to load settings. Database connection failed." />
+    }
+
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
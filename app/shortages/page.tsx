@@ -0,0 +1,60 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import ShortagesContent from "@/components/shortages-content"
+import { redirect } from "next/navigation"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function ShortagesPage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    const timeZone = await getHospitalTimeZone(session.hospitalId)
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={session.hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Shortages</h1>
+
+          <div className="max-w-4xl mx-auto">
+            <ShortagesContent
+              hospitalId={session.hospitalId}
+              canManage={hasPermission(session.role, "transfers:manage")}
+              timeZone={timeZone}
+            />
+          </div>
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Shortages page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return <DatabaseError message="Unable to load shortage broadcasts. Database connection failed." />
+    }
+
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
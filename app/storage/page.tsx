@@ -0,0 +1,46 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import StorageContent from "@/components/storage-content"
+import { redirect } from "next/navigation"
+import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function StoragePage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={session.hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Storage</h1>
+
+          <StorageContent canManage={hasPermission(session.role, "hospital:settings")} />
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Storage page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import TemperatureContent from "@/components/temperature-content"
+import { redirect } from "next/navigation"
+import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function TemperaturePage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={session.hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Temperature Monitoring</h1>
+
+          <TemperatureContent
+            canRecord={hasPermission(session.role, "inventory:update-status")}
+            canReview={hasPermission(session.role, "inventory:release")}
+          />
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Temperature page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { requireAuth } from "@/lib/auth"
+import Header from "@/components/header"
+import TransfersContent from "@/components/transfers-content"
+import { redirect } from "next/navigation"
+import { AppError, ErrorType } from "@/lib/error-handling"
+import DatabaseError from "@/components/database-error"
+import { hasPermission } from "@/lib/permissions"
+import { getHospitalTimeZone } from "@/lib/hospital-settings"
+
+// Force dynamic rendering since we're using cookies
+export const dynamic = "force-dynamic"
+
+export default async function TransfersPage() {
+  try {
+    const session = await requireAuth()
+
+    // If no session, redirect to login
+    if (!session) {
+      redirect("/login?reason=no-session")
+    }
+
+    const timeZone = await getHospitalTimeZone(session.hospitalId)
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header hospitalId={session.hospitalId} role={session.role} />
+
+        <main className="flex-1 container py-6 px-4 md:py-8">
+          <h1 className="text-2xl font-bold mb-6">Transfers</h1>
+
+          <div className="max-w-4xl mx-auto">
+            <TransfersContent
+              canManage={hasPermission(session.role, "transfers:manage")}
+              canHandle={hasPermission(session.role, "inventory:update-status")}
+              timeZone={timeZone}
+            />
+          </div>
+        </main>
+      </div>
+    )
+  } catch (error) {
+    console.error("Transfers page error:", error)
+
+    // If the error is a redirect, let it happen
+    if (error instanceof Error && error.message.includes("NEXT_REDIRECT")) {
+      throw error
+    }
+
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      return <DatabaseError message="Unable to load transfers. Database connection failed." />
+    }
+
+    return (
+      <DatabaseError
+        message="There was an error loading your session. Please try logging in again."
+        showHomeLink={false}
+      />
+    )
+  }
+}
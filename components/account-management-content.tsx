@@ -0,0 +1,573 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { formatDate } from "@/lib/utils"
+import { ROLE_LABELS, type AdminRole } from "@/lib/permissions"
+import { AlertCircle, CheckCircle2, Copy, RefreshCw, X } from "lucide-react"
+
+type PendingAccount = {
+  admin_id: number
+  admin_username: string
+  created_at: string
+}
+
+type LockedAccount = {
+  admin_id: number
+  admin_username: string
+  failed_count: number
+  locked_until: string
+}
+
+type Invite = {
+  invite_id: number
+  role: AdminRole
+  created_at: string
+  expires_at: string
+  created_by_username: string
+}
+
+type Colleague = {
+  admin_id: number
+  admin_username: string
+  role: AdminRole
+  password_changed_at: string | null
+}
+
+type TwoFactorPolicy = {
+  required: boolean
+  unenrolledCount: number
+}
+
+type AccountManagementContentProps = {
+  // Roles the signed-in admin may hand out (never above their own)
+  assignableRoles: AdminRole[]
+}
+
+export default function AccountManagementContent({ assignableRoles }: AccountManagementContentProps) {
+  const [pendingAccounts, setPendingAccounts] = useState<PendingAccount[]>([])
+  const [invites, setInvites] = useState<Invite[]>([])
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([])
+  const [twoFactorPolicy, setTwoFactorPolicy] = useState<TwoFactorPolicy | null>(null)
+  const [colleagues, setColleagues] = useState<Colleague[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Role chosen per pending account before approval
+  const [approvalRoles, setApprovalRoles] = useState<Record<number, AdminRole>>({})
+
+  // State for new invites
+  const [inviteRole, setInviteRole] = useState<AdminRole>("viewer")
+  const [newInviteCode, setNewInviteCode] = useState<{ code: string; expiresAt: string } | null>(null)
+
+  // State for password resets
+  const [resetAdminId, setResetAdminId] = useState("")
+  const [newResetLink, setNewResetLink] = useState<{ username: string; url: string; expiresAt: string } | null>(null)
+
+  // State for action messages
+  const [actionMessage, setActionMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  // Load pending accounts, locked accounts, open invites, the 2FA policy and colleagues
+  const fetchData = async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const responses = await Promise.all([
+        fetch("/api/admin/pending"),
+        fetch("/api/admin/invites"),
+        fetch("/api/admin/lockouts"),
+        fetch("/api/admin/two-factor-policy"),
+        fetch("/api/admin/password-resets"),
+      ])
+      const [pendingResponse, invitesResponse, lockedResponse, policyResponse, colleaguesResponse] = responses
+
+      if (responses.some((response) => !response.ok)) {
+        throw new Error("Failed to fetch account data")
+      }
+
+      const pendingData = await pendingResponse.json()
+      const invitesData = await invitesResponse.json()
+      const lockedData = await lockedResponse.json()
+      const policyData = await policyResponse.json()
+      const colleaguesData = await colleaguesResponse.json()
+      setPendingAccounts(pendingData.data || [])
+      setInvites(invitesData.data || [])
+      setLockedAccounts(lockedData.data || [])
+      setTwoFactorPolicy(policyData.data || null)
+      setColleagues(colleaguesData.data || [])
+    } catch (err) {
+      console.error("Error fetching account data:", err)
+      setError("Failed to load accounts. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  // Approve or reject a pending account
+  const handleReview = async (account: PendingAccount, decision: "approve" | "reject") => {
+    try {
+      const response = await fetch("/api/admin/pending", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          adminId: account.admin_id,
+          decision,
+          role: approvalRoles[account.admin_id] || "viewer",
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setActionMessage({
+          type: "success",
+          text: `${account.admin_username} was ${decision === "approve" ? "approved" : "rejected"}`,
+        })
+        fetchData()
+      } else {
+        setActionMessage({ type: "error", text: data.error || "Failed to review account" })
+      }
+    } catch (err) {
+      console.error("Error reviewing account:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
+  // Lift a login lockout
+  const handleUnlock = async (account: LockedAccount) => {
+    try {
+      const response = await fetch("/api/admin/lockouts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ adminId: account.admin_id }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setActionMessage({ type: "success", text: `${account.admin_username} was unlocked` })
+        fetchData()
+      } else {
+        setActionMessage({ type: "error", text: data.error || "Failed to unlock account" })
+      }
+    } catch (err) {
+      console.error("Error unlocking account:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
+  // Require or stop requiring two-factor authentication hospital-wide
+  const handleTwoFactorPolicyChange = async (required: boolean) => {
+    try {
+      const response = await fetch("/api/admin/two-factor-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ required }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setTwoFactorPolicy({ required, unenrolledCount: data.unenrolledCount })
+        setActionMessage({
+          type: "success",
+          text: required
+            ? "Two-factor authentication is now required for all accounts"
+            : "Two-factor authentication is no longer required",
+        })
+      } else {
+        setActionMessage({ type: "error", text: data.error || "Failed to update two-factor policy" })
+      }
+    } catch (err) {
+      console.error("Error updating two-factor policy:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
+  // Issue a password reset link for a colleague
+  const handleCreateReset = async () => {
+    try {
+      const response = await fetch("/api/admin/password-resets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ adminId: Number(resetAdminId) }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setNewResetLink({
+          username: data.data.username,
+          url: `${window.location.origin}/reset-password?token=${encodeURIComponent(data.data.token)}`,
+          expiresAt: data.data.expiresAt,
+        })
+        setResetAdminId("")
+      } else {
+        setActionMessage({ type: "error", text: data.error || "Failed to create password reset" })
+      }
+    } catch (err) {
+      console.error("Error creating password reset:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
+  // Create a new invite code
+  const handleCreateInvite = async () => {
+    try {
+      const response = await fetch("/api/admin/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role: inviteRole }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setNewInviteCode({ code: data.data.code, expiresAt: data.data.expiresAt })
+        fetchData()
+      } else {
+        setActionMessage({ type: "error", text: data.error || "Failed to create invite" })
+      }
+    } catch (err) {
+      console.error("Error creating invite:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
+  // Revoke an unused invite
+  const handleRevokeInvite = async (invite: Invite) => {
+    try {
+      const response = await fetch("/api/admin/invites", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inviteId: invite.invite_id }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setActionMessage({ type: "success", text: "Invite revoked" })
+        fetchData()
+      } else {
+        setActionMessage({ type: "error", text: data.error || "Failed to revoke invite" })
+      }
+    } catch (err) {
+      console.error("Error revoking invite:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
+  // Clear action message after 5 seconds
+  useEffect(() => {
+    if (actionMessage) {
+      const timer = setTimeout(() => {
+        setActionMessage(null)
+      }, 5000)
+
+      return () => clearTimeout(timer)
+    }
+  }, [actionMessage])
+
+  return (
+    <div className="space-y-6">
+      {/* Action Message */}
+      {actionMessage && (
+        <div
+          className={`p-4 rounded-md ${
+            actionMessage.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+          } flex items-center justify-between`}
+        >
+          <div className="flex items-center">
+            {actionMessage.type === "success" ? (
+              <CheckCircle2 className="h-5 w-5 mr-2" />
+            ) : (
+              <AlertCircle className="h-5 w-5 mr-2" />
+            )}
+            <span>{actionMessage.text}</span>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 rounded-full" onClick={() => setActionMessage(null)}>
+            <span className="sr-only">Dismiss</span>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 rounded-md bg-red-50 text-red-800 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Pending Accounts</CardTitle>
+            <CardDescription>Accounts registered without an invite code need approval before they can log in</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchData} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {pendingAccounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No accounts are waiting for approval."}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Registered</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingAccounts.map((account) => (
+                  <TableRow key={account.admin_id}>
+                    <TableCell className="font-medium">{account.admin_username}</TableCell>
+                    <TableCell>{formatDate(account.created_at)}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={approvalRoles[account.admin_id] || "viewer"}
+                        onValueChange={(value) =>
+                          setApprovalRoles((prev) => ({ ...prev, [account.admin_id]: value as AdminRole }))
+                        }
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button size="sm" onClick={() => handleReview(account, "approve")}>
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleReview(account, "reject")}>
+                        Reject
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            When required, accounts without an authenticator app must set one up at their next login
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {twoFactorPolicy ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="requireTwoFactor"
+                  checked={twoFactorPolicy.required}
+                  onCheckedChange={handleTwoFactorPolicyChange}
+                />
+                <Label htmlFor="requireTwoFactor">Require two-factor authentication for all accounts</Label>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {twoFactorPolicy.unenrolledCount === 0
+                  ? "Every active account has two-factor authentication enabled."
+                  : `${twoFactorPolicy.unenrolledCount} active account${
+                      twoFactorPolicy.unenrolledCount === 1 ? " has" : "s have"
+                    } not enabled two-factor authentication.`}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "Policy unavailable."}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Locked Accounts</CardTitle>
+          <CardDescription>Accounts temporarily locked after repeated failed login attempts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lockedAccounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No accounts are locked."}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Failed Attempts</TableHead>
+                  <TableHead>Locked Until</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockedAccounts.map((account) => (
+                  <TableRow key={account.admin_id}>
+                    <TableCell className="font-medium">{account.admin_username}</TableCell>
+                    <TableCell>{account.failed_count}</TableCell>
+                    <TableCell>{new Date(account.locked_until).toLocaleTimeString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => handleUnlock(account)}>
+                        Unlock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Password Resets</CardTitle>
+          <CardDescription>
+            Issue a single-use link that lets a colleague choose a new password. It signs them out everywhere.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="resetAdmin">Account</Label>
+              <Select value={resetAdminId} onValueChange={setResetAdminId}>
+                <SelectTrigger id="resetAdmin" className="w-56">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {colleagues.map((colleague) => (
+                    <SelectItem key={colleague.admin_id} value={String(colleague.admin_id)}>
+                      {colleague.admin_username} ({ROLE_LABELS[colleague.role] || colleague.role})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreateReset} disabled={!resetAdminId}>
+              Create Reset Link
+            </Button>
+          </div>
+
+          {newResetLink && (
+            <div className="p-4 rounded-md bg-blue-50 text-blue-900 space-y-1">
+              <p className="text-sm">
+                Send this link to {newResetLink.username} directly. It will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="text-sm font-mono break-all">{newResetLink.url}</code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 shrink-0"
+                  onClick={() => navigator.clipboard?.writeText(newResetLink.url)}
+                >
+                  <span className="sr-only">Copy</span>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs">Expires {formatDate(newResetLink.expiresAt)}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invite Codes</CardTitle>
+          <CardDescription>
+            Single-use codes that register an account at your hospital with a set role, without approval
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="inviteRole">Role</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as AdminRole)}>
+                <SelectTrigger id="inviteRole" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreateInvite}>Create Invite</Button>
+          </div>
+
+          {newInviteCode && (
+            <div className="p-4 rounded-md bg-blue-50 text-blue-900 space-y-1">
+              <p className="text-sm">Share this code now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="text-lg font-mono font-semibold">{newInviteCode.code}</code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => navigator.clipboard?.writeText(newInviteCode.code)}
+                >
+                  <span className="sr-only">Copy</span>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs">Expires {formatDate(newInviteCode.expiresAt)}</p>
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Created By</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map((invite) => (
+                  <TableRow key={invite.invite_id}>
+                    <TableCell>{ROLE_LABELS[invite.role] || invite.role}</TableCell>
+                    <TableCell>{invite.created_by_username}</TableCell>
+                    <TableCell>{formatDate(invite.expires_at)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => handleRevokeInvite(invite)}>
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+"use client"
+
+import { Fragment, useState, useEffect } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { DatePicker } from "@/components/ui/date-picker"
+import { AlertCircle, ChevronDown, ChevronRight, RefreshCw } from "lucide-react"
+import { BLOOD_COMPONENT_LIST, BLOOD_COMPONENTS, isBloodComponentKey } from "@/lib/blood-components"
+
+type AuditEntry = {
+  audit_id: number
+  created_at: string
+  admin_id: number | null
+  admin_username: string | null
+  // Null for hospital profile changes
+  bag_id: number | null
+  component_type: string
+  action: "create" | "update" | "delete" | "restore" | "status" | "move" | "transfer"
+  before_data: Record<string, unknown> | null
+  after_data: Record<string, unknown> | null
+}
+
+type AuditLogContentProps = {
+  actors: { adminId: number; username: string }[]
+}
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  status: "Status changed",
+  move: "Moved",
+  transfer: "Transferred",
+}
+
+const EMPTY_FILTERS = {
+  bagId: "",
+  adminId: "all",
+  action: "all",
+  componentType: "all",
+  startDate: "",
+  endDate: "",
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—"
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+// Fields whose value differs between the before and after snapshots
+function getChangedFields(entry: AuditEntry) {
+  const before = entry.before_data || {}
+  const after = entry.after_data || {}
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return keys.filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+}
+
+export default function AuditLogContent({ actors }: AuditLogContentProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [filters, setFilters] = useState(EMPTY_FILTERS)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = async (activeFilters = filters) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams()
+      for (const [key, value] of Object.entries(activeFilters)) {
+        if (value && value !== "all") {
+          params.set(key, value)
+        }
+      }
+
+      const response = await fetch(`/api/audit?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || "Failed to fetch audit log")
+      }
+
+      setEntries(data.data || [])
+    } catch (err) {
+      console.error("Error fetching audit log:", err)
+      setError(err instanceof Error ? err.message : "Failed to load the audit trail. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEntries()
+  }, [])
+
+  const handleDateChange = (name: "startDate" | "endDate", date: Date | undefined) => {
+    setFilters((prev) => ({ ...prev, [name]: date ? format(date, "yyyy-MM-dd") : "" }))
+  }
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS)
+    fetchEntries(EMPTY_FILTERS)
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Every addition, edit, move, deletion and restore of inventory at your hospital</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="bagId">Bag ID</Label>
+              <Input
+                id="bagId"
+                type="number"
+                min={1}
+                value={filters.bagId}
+                onChange={(e) => setFilters((prev) => ({ ...prev, bagId: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="componentType">Component</Label>
+              <Select
+                value={filters.componentType}
+                onValueChange={(value) => setFilters((prev) => ({ ...prev, componentType: value }))}
+              >
+                <SelectTrigger id="componentType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All components</SelectItem>
+                  {BLOOD_COMPONENT_LIST.map((component) => (
+                    <SelectItem key={component.key} value={component.key}>
+                      {component.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="actor">Admin</Label>
+              <Select value={filters.adminId} onValueChange={(value) => setFilters((prev) => ({ ...prev, adminId: value }))}>
+                <SelectTrigger id="actor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All admins</SelectItem>
+                  {actors.map((actor) => (
+                    <SelectItem key={actor.adminId} value={String(actor.adminId)}>
+                      {actor.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="action">Action</Label>
+              <Select value={filters.action} onValueChange={(value) => setFilters((prev) => ({ ...prev, action: value }))}>
+                <SelectTrigger id="action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <DatePicker
+                key={`start-${filters.startDate === ""}`}
+                placeholder="Start Date"
+                onChange={(date) => handleDateChange("startDate", date)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <DatePicker
+                key={`end-${filters.endDate === ""}`}
+                placeholder="End Date"
+                onChange={(date) => handleDateChange("endDate", date)}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <Button onClick={() => fetchEntries()} disabled={isLoading}>
+              Apply Filters
+            </Button>
+            <Button variant="outline" onClick={handleReset} disabled={isLoading}>
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="p-4 rounded-md bg-red-50 text-red-800 flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Audit Entries</CardTitle>
+            <CardDescription>Newest first. Entries cannot be edited or removed.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fetchEntries()} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? "Loading..." : "No audit entries match these filters."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Bag ID</TableHead>
+                  <TableHead>Changed Fields</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const changedFields = getChangedFields(entry)
+                  const isExpanded = expandedId === entry.audit_id
+
+                  return (
+                    <Fragment key={entry.audit_id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.audit_id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell>{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{entry.admin_username || (entry.admin_id ? `#${entry.admin_id}` : "System")}</TableCell>
+                        <TableCell>
+                          <Badge variant={entry.action === "delete" ? "destructive" : "outline"}>
+                            {ACTION_LABELS[entry.action] || entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {isBloodComponentKey(entry.component_type)
+                            ? BLOOD_COMPONENTS[entry.component_type].label
+                            : entry.component_type === "hospital"
+                              ? "Hospital Profile"
+                              : entry.component_type}
+                        </TableCell>
+                        <TableCell>{entry.bag_id ?? "—"}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {entry.action === "create" ? "—" : changedFields.join(", ")}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={6}>
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Field</TableHead>
+                                  <TableHead>Before</TableHead>
+                                  <TableHead>After</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {Object.keys({ ...entry.before_data, ...entry.after_data }).map((field) => (
+                                  <TableRow
+                                    key={field}
+                                    className={changedFields.includes(field) ? "bg-amber-50" : undefined}
+                                  >
+                                    <TableCell className="font-mono text-xs">{field}</TableCell>
+                                    <TableCell className="text-xs">{formatValue(entry.before_data?.[field])}</TableCell>
+                                    <TableCell className="text-xs">{formatValue(entry.after_data?.[field])}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { Suspense } from "react"
 import { Skeleton } from "@/components/ui/skeleton"
 import dynamic from "next/dynamic"
+import type { BloodComponentKey } from "@/lib/blood-components"
+import { DEFAULT_STOCK_LEVELS, type StockLevels } from "@/lib/stock-levels"
 
 // Dynamically import the chart component
 const DynamicChart = dynamic(() => import("./dynamic-chart"), {
@@ -18,24 +20,23 @@ type InventoryItem = {
 }
 
 type BloodInventoryChartProps = {
-  redBlood: InventoryItem[]
-  plasma: InventoryItem[]
-  platelets: InventoryItem[]
+  inventory: Record<BloodComponentKey, InventoryItem[]>
   showThresholds?: boolean
+  // The hospital's levels, drawn as threshold lines
+  stockLevels?: StockLevels
   className?: string
 }
 
 export default function BloodInventoryChart({
-  redBlood,
-  plasma,
-  platelets,
+  inventory,
   showThresholds = true,
+  stockLevels = DEFAULT_STOCK_LEVELS,
   className = "",
 }: BloodInventoryChartProps) {
   return (
     <div className={`w-full h-96 bg-white p-4 rounded-lg shadow ${className}`}>
       <Suspense fallback={<Skeleton className="w-full h-96" />}>
-        <DynamicChart redBlood={redBlood} plasma={plasma} platelets={platelets} showThresholds={showThresholds} />
+        <DynamicChart inventory={inventory} showThresholds={showThresholds} stockLevels={stockLevels} />
       </Suspense>
     </div>
   )
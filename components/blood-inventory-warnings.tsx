@@ -1,4 +1,6 @@
 import { AlertCircle, AlertTriangle, Check } from "lucide-react"
+import { BLOOD_COMPONENT_LIST, BLOOD_COMPONENTS, type BloodComponentKey } from "@/lib/blood-components"
+import { formatStockAmount, getStockStatus, type StockLevels } from "@/lib/stock-levels"
 
 type InventoryItem = {
   blood_type: string
@@ -8,96 +10,50 @@ type InventoryItem = {
 }
 
 type BloodInventoryWarningsProps = {
-  redBlood: InventoryItem[]
-  plasma: InventoryItem[]
-  platelets: InventoryItem[]
+  inventory: Record<BloodComponentKey, InventoryItem[]>
+  // The hospital's minimum and target levels for every blood group
+  stockLevels: StockLevels
   className?: string
 }
 
 type WarningItem = {
-  type: "redblood" | "plasma" | "platelets"
+  type: BloodComponentKey
   blood_type: string
   rh?: string
   count: number
   total_amount: number
+  // Target level, in the units or ml it is set in
+  target: string
   status: "critical" | "low"
 }
 
 export default function BloodInventoryWarnings({
-  redBlood,
-  plasma,
-  platelets,
+  inventory,
+  stockLevels,
   className = "",
 }: BloodInventoryWarningsProps) {
-  // Process all inventory items to find warnings
+  // Check every blood group against its levels; a group with no stock counts as empty
   const warnings: WarningItem[] = []
 
-  // Check red blood cells
-  redBlood.forEach((item) => {
-    if (item.total_amount < 500) {
-      warnings.push({
-        type: "redblood",
-        blood_type: item.blood_type,
-        rh: item.rh,
-        count: item.count,
-        total_amount: item.total_amount,
-        status: "critical",
-      })
-    } else if (item.total_amount < 1500) {
-      warnings.push({
-        type: "redblood",
-        blood_type: item.blood_type,
-        rh: item.rh,
-        count: item.count,
-        total_amount: item.total_amount,
-        status: "low",
-      })
-    }
-  })
-
-  // Check plasma
-  plasma.forEach((item) => {
-    if (item.total_amount < 500) {
-      warnings.push({
-        type: "plasma",
-        blood_type: item.blood_type,
-        count: item.count,
-        total_amount: item.total_amount,
-        status: "critical",
-      })
-    } else if (item.total_amount < 1500) {
-      warnings.push({
-        type: "plasma",
-        blood_type: item.blood_type,
-        count: item.count,
-        total_amount: item.total_amount,
-        status: "low",
-      })
-    }
-  })
+  for (const { key, hasRh } of BLOOD_COMPONENT_LIST) {
+    for (const level of stockLevels[key]) {
+      const item = (inventory[key] || []).find(
+        (item) => item.blood_type === level.blood_type && (!hasRh || item.rh === level.rh),
+      )
+      const stock = { count: Number(item?.count ?? 0), total_amount: Number(item?.total_amount ?? 0) }
+      const status = getStockStatus(level, stock)
+      if (status !== "critical" && status !== "low") continue
 
-  // Check platelets
-  platelets.forEach((item) => {
-    if (item.total_amount < 500) {
-      warnings.push({
-        type: "platelets",
-        blood_type: item.blood_type,
-        rh: item.rh,
-        count: item.count,
-        total_amount: item.total_amount,
-        status: "critical",
-      })
-    } else if (item.total_amount < 1500) {
       warnings.push({
-        type: "platelets",
-        blood_type: item.blood_type,
-        rh: item.rh,
-        count: item.count,
-        total_amount: item.total_amount,
-        status: "low",
+        type: key,
+        blood_type: level.blood_type,
+        rh: hasRh ? level.rh : undefined,
+        ...stock,
+        target: formatStockAmount(level.target, level.measure),
+        status,
       })
     }
-  })
+  }
 
   // Sort warnings by status (critical first) and then by blood type
   warnings.sort((a, b) => {
@@ -106,20 +62,6 @@ export default function BloodInventoryWarnings({
     return `${a.blood_type}${a.rh || ""}`.localeCompare(`${b.blood_type}${b.rh || ""}`)
   })
 
-  // Helper function to get type label
-  const getTypeLabel = (type: string) => {
-    switch (type) {
-      case "redblood":
-        return "Red Blood Cells"
-      case "plasma":
-        return "Plasma"
-      case "platelets":
-        return "Platelets"
-      default:
-        return type
-    }
-  }
-
   // Helper function to get blood type badge color
   const getBloodTypeColor = (bloodType: string) => {
     switch (bloodType) {
@@ -170,12 +112,14 @@ export default function BloodInventoryWarnings({
                     {warning.blood_type}
                     {warning.rh !== undefined ? warning.rh : ""}
                   </span>
-                  <span className="font-medium">{getTypeLabel(warning.type)}</span>
+                  <span className="font-medium">{BLOOD_COMPONENTS[warning.type].label}</span>
                 </div>
                 <div className="text-sm mt-1">
                   <span className="font-bold">{warning.total_amount.toLocaleString()} ml</span>
                   <span className="mx-1">•</span>
                   <span>{warning.count} units</span>
+                  <span className="mx-1">•</span>
+                  <span>par {warning.target}</span>
                   <span className="ml-2 text-xs uppercase font-semibold">
                     {warning.status === "critical" ? "CRITICAL" : "LOW"}
                   </span>
@@ -0,0 +1,131 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertCircle, CheckCircle2 } from "lucide-react"
+import { getPasswordPolicyViolations, PASSWORD_POLICY_DESCRIPTION } from "@/lib/password-policy"
+
+export default function ChangePasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+
+    if (newPassword !== confirmPassword) {
+      setMessage({ type: "error", text: "New passwords do not match" })
+      return
+    }
+
+    const violations = getPasswordPolicyViolations(newPassword)
+    if (violations.length > 0) {
+      setMessage({ type: "error", text: violations[0] })
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch("/api/account/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setCurrentPassword("")
+        setNewPassword("")
+        setConfirmPassword("")
+        setMessage({
+          type: "success",
+          text:
+            data.revokedSessions > 0
+              ? `Password changed. ${data.revokedSessions} other session${data.revokedSessions === 1 ? " was" : "s were"} signed out.`
+              : "Password changed.",
+        })
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to change password" })
+      }
+    } catch (err) {
+      console.error("Change password error:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Change Password</CardTitle>
+        <CardDescription>Changing your password signs you out on every other device</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <div
+            className={`p-4 rounded-md flex items-center ${
+              message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+            }`}
+          >
+            {message.type === "success" ? (
+              <CheckCircle2 className="h-5 w-5 mr-2" />
+            ) : (
+              <AlertCircle className="h-5 w-5 mr-2" />
+            )}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4 max-w-sm">
+          <div className="space-y-2">
+            <Label htmlFor="currentPassword">Current Password</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">New Password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+            <p className="text-xs text-muted-foreground">{PASSWORD_POLICY_DESCRIPTION}</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmNewPassword">Confirm New Password</Label>
+            <Input
+              id="confirmNewPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Change Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
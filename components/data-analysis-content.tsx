@@ -10,10 +10,16 @@ import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
 import { formatBloodType, getBloodTypeColor } from "@/lib/utils"
+import { BLOOD_COMPONENT_LIST } from "@/lib/blood-components"
 import { BarChart3, PieChart, RefreshCw } from "lucide-react"
 import { DatePicker } from "@/components/ui/date-picker"
 
-export default function DataAnalysisContent() {
+type DataAnalysisContentProps = {
+  // Whether the admin's role may compare inventory across hospitals
+  canViewAllHospitals?: boolean
+}
+
+export default function DataAnalysisContent({ canViewAllHospitals = false }: DataAnalysisContentProps) {
   // State for inventory data
   const [analysisData, setAnalysisData] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -27,7 +33,7 @@ export default function DataAnalysisContent() {
     showAllHospitals: false,
     startDate: "",
     endDate: "",
-    inventoryType: "all", // "all", "redblood", "plasma", "platelets"
+    inventoryType: "all", // "all" or a blood component key
   })
 
   // Load inventory data
@@ -118,9 +124,11 @@ export default function DataAnalysisContent() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Types</SelectItem>
-                      <SelectItem value="redblood">Red Blood Cells</SelectItem>
-                      <SelectItem value="plasma">Plasma</SelectItem>
-                      <SelectItem value="platelets">Platelets</SelectItem>
+                      {BLOOD_COMPONENT_LIST.map((component) => (
+                        <SelectItem key={component.key} value={component.key}>
+                          {component.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -185,16 +193,18 @@ export default function DataAnalysisContent() {
                   </div>
                 </div>
 
-                <div className="flex items-end">
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="showAllHospitals"
-                      checked={filters.showAllHospitals}
-                      onCheckedChange={(checked) => handleFilterChange("showAllHospitals", checked === true)}
-                    />
-                    <Label htmlFor="showAllHospitals">Show all hospitals</Label>
+                {canViewAllHospitals && (
+                  <div className="flex items-end">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="showAllHospitals"
+                        checked={filters.showAllHospitals}
+                        onCheckedChange={(checked) => handleFilterChange("showAllHospitals", checked === true)}
+                      />
+                      <Label htmlFor="showAllHospitals">Show all hospitals</Label>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
 
               <div className="mt-4 flex justify-end">
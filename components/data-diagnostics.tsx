@@ -10,10 +10,12 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
-import { formatBloodType, getBloodTypeColor } from "@/lib/utils"
+import { formatBloodType, formatDate, getBloodTypeColor } from "@/lib/utils"
 import { EditEntryDialog } from "./edit-entry-dialog"
 import { ConfirmationDialog } from "./confirmation-dialog"
 import { AlertCircle, CheckCircle2, RefreshCw, Trash2, Undo2 } from "lucide-react"
+import { BLOOD_COMPONENTS, getComponentByEntryType, type BloodEntryType } from "@/lib/blood-components"
+import { DEFAULT_TIME_ZONE, isExpired as isExpiredAt } from "@/lib/expiry"
 
 type BloodEntry = {
   bag_id: number
@@ -23,14 +25,19 @@ type BloodEntry = {
   amount: number
   expiration_date: string
   hospital_name: string
-  type: "RedBlood" | "Plasma" | "Platelets"
+  type: BloodEntryType
 }
 
 type DeletedEntry = BloodEntry & {
   deleted_at: string
 }
 
-export default function DataDiagnostics() {
+type DataDiagnosticsProps = {
+  // The hospital's time zone, which expiry times are shown in
+  timeZone?: string
+}
+
+export default function DataDiagnostics({ timeZone = DEFAULT_TIME_ZONE }: DataDiagnosticsProps) {
   // State for inventory data
   const [redBloodData, setRedBloodData] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -78,7 +85,7 @@ export default function DataDiagnostics() {
       if (filters.minAmount) params.append("minAmount", filters.minAmount)
       if (filters.maxAmount) params.append("maxAmount", filters.maxAmount)
 
-      const response = await fetch(`/api/diagnostics/redblood?${params.toString()}`)
+      const response = await fetch(`/api/diagnostics/inventory/redblood?${params.toString()}`)
 
       if (!response.ok) {
         throw new Error("Failed to fetch inventory data")
@@ -441,7 +448,7 @@ export default function DataDiagnostics() {
                       </TableHeader>
                       <TableBody>
                         {redBloodData?.rawInventory?.map((entry: any) => {
-                          const isExpired = new Date(entry.expiration_date) <= new Date()
+                          const isExpired = isExpiredAt(entry.expiration_date)
 
                           return (
                             <TableRow key={entry.bag_id}>
@@ -455,7 +462,7 @@ export default function DataDiagnostics() {
                               <TableCell>{entry.amount} ml</TableCell>
                               <TableCell>
                                 <span className={isExpired ? "text-red-600" : ""}>
-                                  {new Date(entry.expiration_date).toLocaleDateString()}
+                                  {formatDate(entry.expiration_date, timeZone)}
                                   {isExpired && " (Expired)"}
                                 </span>
                               </TableCell>
@@ -467,7 +474,7 @@ export default function DataDiagnostics() {
                                   onClick={() =>
                                     handleEditEntry({
                                       ...entry,
-                                      type: "RedBlood",
+                                      type: BLOOD_COMPONENTS.redblood.entryType,
                                     })
                                   }
                                 >
@@ -480,7 +487,7 @@ export default function DataDiagnostics() {
                                   onClick={() =>
                                     handleDeleteEntry({
                                       ...entry,
-                                      type: "RedBlood",
+                                      type: BLOOD_COMPONENTS.redblood.entryType,
                                     })
                                   }
                                 >
@@ -530,7 +537,7 @@ export default function DataDiagnostics() {
                           {deletedEntries.map((entry) => (
                             <TableRow key={`${entry.type}-${entry.bag_id}`}>
                               <TableCell>{entry.bag_id}</TableCell>
-                              <TableCell>{entry.type}</TableCell>
+                              <TableCell>{getComponentByEntryType(entry.type)?.label ?? entry.type}</TableCell>
                               <TableCell>
                                 <Badge className={getBloodTypeColor(entry.blood_type, entry.rh)}>
                                   {formatBloodType(entry.blood_type, entry.rh)}
@@ -567,6 +574,7 @@ export default function DataDiagnostics() {
         entry={selectedEntry}
         open={isEditDialogOpen}
         onOpenChange={setIsEditDialogOpen}
+        timeZone={timeZone}
         onSave={handleSaveEntry}
       />
 
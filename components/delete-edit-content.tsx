@@ -10,10 +10,28 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
-import { formatBloodType, getBloodTypeColor } from "@/lib/utils"
+import { formatBloodType, formatDate, getBloodTypeColor } from "@/lib/utils"
 import { EditEntryDialog } from "./edit-entry-dialog"
 import { ConfirmationDialog } from "./confirmation-dialog"
-import { AlertCircle, CheckCircle2, RefreshCw, Trash2, Undo2, X } from "lucide-react"
+import { MoveUnitDialog } from "./move-unit-dialog"
+import { AlertCircle, CheckCircle2, MapPin, RefreshCw, Trash2, Undo2, X } from "lucide-react"
+import {
+  BLOOD_COMPONENT_LIST,
+  BLOOD_COMPONENTS,
+  getComponentByEntryType,
+  isBloodComponentKey,
+  type BloodComponentKey,
+  type BloodEntryType,
+} from "@/lib/blood-components"
+import {
+  getTransitionPermission,
+  isUnitStatus,
+  UNIT_STATUS_LABELS,
+  UNIT_STATUS_TRANSITIONS,
+  type UnitStatus,
+} from "@/lib/unit-lifecycle"
+import { formatLocation, type StorageUnit } from "@/lib/storage-unit-types"
+import { DEFAULT_TIME_ZONE, formatCountdown, isExpired as isExpiredAt } from "@/lib/expiry"
 
 type BloodEntry = {
   bag_id: number
@@ -23,16 +41,40 @@ type BloodEntry = {
   amount: number
   expiration_date: string
   hospital_name: string
-  type: "RedBlood" | "Plasma" | "Platelets"
+  // Admin who added the bag; null for bags added before this was recorded
+  created_by_username?: string | null
+  status?: UnitStatus
+  storage_unit_id?: number | null
+  storage_unit_name?: string | null
+  storage_position?: string | null
+  // Why the unit is quarantined, e.g. a temperature excursion
+  quarantine_reason?: string | null
+  type: BloodEntryType
 }
 
 type DeletedEntry = BloodEntry & {
   deleted_at: string
 }
 
-export default function DeleteEditContent() {
-  // State for inventory data
-  const [redBloodData, setRedBloodData] = useState<any>(null)
+type DeleteEditPermissions = {
+  canEdit: boolean
+  canDelete: boolean
+  canRestore: boolean
+  canUpdateStatus: boolean
+  canRelease: boolean
+  canViewAllHospitals: boolean
+}
+
+type DeleteEditContentProps = {
+  permissions: DeleteEditPermissions
+  // The hospital's time zone, which expiry times are shown in
+  timeZone?: string
+}
+
+export default function DeleteEditContent({ permissions, timeZone = DEFAULT_TIME_ZONE }: DeleteEditContentProps) {
+  // State for inventory data of the chosen component
+  const [component, setComponent] = useState<BloodComponentKey>("redblood")
+  const [inventoryData, setInventoryData] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -45,12 +87,19 @@ export default function DeleteEditContent() {
     donorName: "",
     minAmount: "",
     maxAmount: "",
+    storageUnitId: "",
+    storagePosition: "",
   })
 
   // State for edit dialog
   const [selectedEntry, setSelectedEntry] = useState<BloodEntry | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
 
+  // State for the move dialog and the storage units bags can be moved to
+  const [entryToMove, setEntryToMove] = useState<BloodEntry | null>(null)
+  const [isMoveDialogOpen, setIsMoveDialogOpen] = useState(false)
+  const [storageUnits, setStorageUnits] = useState<StorageUnit[]>([])
+
   // State for delete confirmation
   const [entryToDelete, setEntryToDelete] = useState<BloodEntry | null>(null)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
@@ -77,15 +126,17 @@ export default function DeleteEditContent() {
       if (filters.donorName) params.append("donorName", filters.donorName)
       if (filters.minAmount) params.append("minAmount", filters.minAmount)
       if (filters.maxAmount) params.append("maxAmount", filters.maxAmount)
+      if (filters.storageUnitId) params.append("storageUnitId", filters.storageUnitId)
+      if (filters.storagePosition) params.append("storagePosition", filters.storagePosition)
 
-      const response = await fetch(`/api/diagnostics/redblood?${params.toString()}`)
+      const response = await fetch(`/api/diagnostics/inventory/${component}?${params.toString()}`)
 
       if (!response.ok) {
         throw new Error("Failed to fetch inventory data")
       }
 
       const data = await response.json()
-      setRedBloodData(data.data)
+      setInventoryData(data.data)
     } catch (err) {
       console.error("Error fetching inventory data:", err)
       setError("Failed to load inventory data. Please try again.")
@@ -110,16 +161,33 @@ export default function DeleteEditContent() {
     }
   }
 
+  // Load storage units with their usage
+  const fetchStorageUnits = async () => {
+    try {
+      const response = await fetch("/api/storage-units")
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch storage units")
+      }
+
+      const data = await response.json()
+      setStorageUnits(data.data || [])
+    } catch (err) {
+      console.error("Error fetching storage units:", err)
+    }
+  }
+
   // Initial data load
   useEffect(() => {
     fetchInventoryData()
     fetchDeletedEntries()
+    fetchStorageUnits()
   }, [])
 
-  // Refresh data when filters change
+  // Refresh data when filters or the component change
   useEffect(() => {
     fetchInventoryData()
-  }, [filters])
+  }, [filters, component])
 
   // Handle filter changes
   const handleFilterChange = (name: string, value: string | boolean) => {
@@ -221,6 +289,42 @@ export default function DeleteEditContent() {
     }
   }
 
+  // Statuses the signed-in admin may move a unit to from its current status
+  const getStatusOptions = (status: UnitStatus) =>
+    permissions.canUpdateStatus
+      ? UNIT_STATUS_TRANSITIONS[status].filter(
+          (next) => permissions.canRelease || getTransitionPermission(status, next) !== "inventory:release",
+        )
+      : []
+
+  // Handle status change
+  const handleStatusChange = async (entry: BloodEntry, status: UnitStatus) => {
+    const component = getComponentByEntryType(entry.type)
+    if (!component) return
+
+    try {
+      const response = await fetch(`/api/inventory/${component.key}/${entry.bag_id}/status`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setActionMessage({ type: "success", text: result.message || "Status updated" })
+        fetchInventoryData() // Refresh data
+      } else {
+        setActionMessage({ type: "error", text: result.error || "Failed to update status" })
+      }
+    } catch (err) {
+      console.error("Error changing unit status:", err)
+      setActionMessage({ type: "error", text: "An unexpected error occurred" })
+    }
+  }
+
   // Handle restore entry
   const handleRestoreEntry = async (entry: DeletedEntry) => {
     try {
@@ -261,6 +365,9 @@ export default function DeleteEditContent() {
     }
   }, [actionMessage])
 
+  // Entry type of the component the shown rows were loaded for, which lags the selector while loading
+  const entryType = BLOOD_COMPONENTS[(inventoryData?.component as BloodComponentKey | undefined) ?? component].entryType
+
   return (
     <div className="space-y-6">
       {/* Action Message */}
@@ -312,6 +419,25 @@ export default function DeleteEditContent() {
               <div className="bg-slate-50 p-4 rounded-md mb-6">
                 <h3 className="font-medium mb-3">Filters</h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="component">Component</Label>
+                    <Select
+                      value={component}
+                      onValueChange={(value) => isBloodComponentKey(value) && setComponent(value)}
+                    >
+                      <SelectTrigger id="component">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BLOOD_COMPONENT_LIST.map((item) => (
+                          <SelectItem key={item.key} value={item.key}>
+                            {item.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div>
                     <Label htmlFor="bloodType">Blood Type</Label>
                     <Select value={filters.bloodType} onValueChange={(value) => handleFilterChange("bloodType", value)}>
@@ -328,19 +454,21 @@ export default function DeleteEditContent() {
                     </Select>
                   </div>
 
-                  <div>
-                    <Label htmlFor="rhFactor">Rh Factor</Label>
-                    <Select value={filters.rhFactor} onValueChange={(value) => handleFilterChange("rhFactor", value)}>
-                      <SelectTrigger id="rhFactor">
-                        <SelectValue placeholder="All Rh Factors" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">All Rh Factors</SelectItem>
-                        <SelectItem value="+">Positive (+)</SelectItem>
-                        <SelectItem value="-">Negative (-)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {BLOOD_COMPONENTS[component].hasRh && (
+                    <div>
+                      <Label htmlFor="rhFactor">Rh Factor</Label>
+                      <Select value={filters.rhFactor} onValueChange={(value) => handleFilterChange("rhFactor", value)}>
+                        <SelectTrigger id="rhFactor">
+                          <SelectValue placeholder="All Rh Factors" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Rh Factors</SelectItem>
+                          <SelectItem value="+">Positive (+)</SelectItem>
+                          <SelectItem value="-">Negative (-)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
 
                   <div>
                     <Label htmlFor="expirationStatus">Expiration Status</Label>
@@ -391,16 +519,49 @@ export default function DeleteEditContent() {
                     </div>
                   </div>
 
-                  <div className="flex items-end">
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="showAllHospitals"
-                        checked={filters.showAllHospitals}
-                        onCheckedChange={(checked) => handleFilterChange("showAllHospitals", checked === true)}
-                      />
-                      <Label htmlFor="showAllHospitals">Show all hospitals</Label>
-                    </div>
+                  <div>
+                    <Label htmlFor="storageUnitId">Storage Unit</Label>
+                    <Select
+                      value={filters.storageUnitId}
+                      onValueChange={(value) => handleFilterChange("storageUnitId", value)}
+                    >
+                      <SelectTrigger id="storageUnitId">
+                        <SelectValue placeholder="All Locations" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Locations</SelectItem>
+                        <SelectItem value="none">Unassigned</SelectItem>
+                        {storageUnits.map((unit) => (
+                          <SelectItem key={unit.storage_unit_id} value={String(unit.storage_unit_id)}>
+                            {unit.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
+
+                  <div>
+                    <Label htmlFor="storagePosition">Shelf / Slot</Label>
+                    <Input
+                      id="storagePosition"
+                      value={filters.storagePosition}
+                      onChange={(e) => handleFilterChange("storagePosition", e.target.value)}
+                      placeholder="Search by shelf or slot"
+                    />
+                  </div>
+
+                  {permissions.canViewAllHospitals && (
+                    <div className="flex items-end">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="showAllHospitals"
+                          checked={filters.showAllHospitals}
+                          onCheckedChange={(checked) => handleFilterChange("showAllHospitals", checked === true)}
+                        />
+                        <Label htmlFor="showAllHospitals">Show all hospitals</Label>
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="mt-4 flex justify-end">
@@ -415,6 +576,8 @@ export default function DeleteEditContent() {
                         donorName: "",
                         minAmount: "",
                         maxAmount: "",
+                        storageUnitId: "",
+                        storagePosition: "",
                       })
                     }}
                     className="mr-2"
@@ -439,7 +602,7 @@ export default function DeleteEditContent() {
                   <p className="font-medium">Error</p>
                   <p>{error}</p>
                 </div>
-              ) : redBloodData?.rawInventory?.length === 0 ? (
+              ) : inventoryData?.rawInventory?.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   <p>No inventory data found matching your filters.</p>
                 </div>
@@ -447,8 +610,8 @@ export default function DeleteEditContent() {
                 <div>
                   <div className="mb-4">
                     <p className="text-sm text-gray-500">
-                      Showing {redBloodData?.rawInventory?.length || 0} entries
-                      {redBloodData?.totalCounts && <span> of {redBloodData.totalCounts.total_count} total</span>}
+                      Showing {inventoryData?.rawInventory?.length || 0} entries
+                      {inventoryData?.totalCounts && <span> of {inventoryData.totalCounts.total_count} total</span>}
                     </p>
                   </div>
 
@@ -461,13 +624,20 @@ export default function DeleteEditContent() {
                           <TableHead>Donor</TableHead>
                           <TableHead>Amount</TableHead>
                           <TableHead>Expiration</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Location</TableHead>
                           <TableHead>Hospital</TableHead>
+                          <TableHead>Added By</TableHead>
                           <TableHead className="text-right">Actions</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {redBloodData?.rawInventory?.map((entry: any) => {
-                          const isExpired = new Date(entry.expiration_date) <= new Date()
+                        {inventoryData?.rawInventory?.map((row: any) => {
+                          const entry: BloodEntry = { ...row, type: entryType }
+                          const isExpired = isExpiredAt(entry.expiration_date)
+                          const countdown = formatCountdown(entry.expiration_date)
+                          const status: UnitStatus = isUnitStatus(entry.status) ? entry.status : "available"
+                          const statusOptions = getStatusOptions(status)
 
                           return (
                             <TableRow key={entry.bag_id}>
@@ -481,38 +651,81 @@ export default function DeleteEditContent() {
                               <TableCell>{entry.amount} ml</TableCell>
                               <TableCell>
                                 <span className={isExpired ? "text-red-600" : ""}>
-                                  {new Date(entry.expiration_date).toLocaleDateString()}
+                                  {formatDate(entry.expiration_date, timeZone)}
                                   {isExpired && " (Expired)"}
                                 </span>
+                                {countdown && (
+                                  <Badge variant="outline" className="ml-2 border-orange-300 text-orange-700">
+                                    {countdown} left
+                                  </Badge>
+                                )}
                               </TableCell>
-                              <TableCell>{entry.hospital_name}</TableCell>
-                              <TableCell className="text-right">
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() =>
-                                    handleEditEntry({
-                                      ...entry,
-                                      type: "RedBlood",
-                                    })
-                                  }
-                                >
-                                  Edit
-                                </Button>
+                              <TableCell>
+                                {statusOptions.length > 0 ? (
+                                  <Select
+                                    value={status}
+                                    onValueChange={(value) =>
+                                      handleStatusChange(entry, value as UnitStatus)
+                                    }
+                                  >
+                                    <SelectTrigger className="h-8 w-36">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={status} disabled>
+                                        {UNIT_STATUS_LABELS[status]}
+                                      </SelectItem>
+                                      {statusOptions.map((option) => (
+                                        <SelectItem key={option} value={option}>
+                                          {UNIT_STATUS_LABELS[option]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Badge variant="outline">{UNIT_STATUS_LABELS[status]}</Badge>
+                                )}
+                                {status === "quarantined" && entry.quarantine_reason && (
+                                  <p className="text-xs text-amber-700 mt-1 max-w-xs">{entry.quarantine_reason}</p>
+                                )}
+                              </TableCell>
+                              <TableCell>
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  className="text-red-600 hover:text-red-800 hover:bg-red-100"
-                                  onClick={() =>
-                                    handleDeleteEntry({
-                                      ...entry,
-                                      type: "RedBlood",
-                                    })
-                                  }
+                                  className="h-8 px-2 font-normal"
+                                  onClick={() => {
+                                    setEntryToMove(entry)
+                                    setIsMoveDialogOpen(true)
+                                  }}
                                 >
-                                  <Trash2 className="h-4 w-4" />
+                                  <MapPin className="h-3 w-3 mr-1" />
+                                  {formatLocation(entry.storage_unit_name, entry.storage_position)}
                                 </Button>
                               </TableCell>
+                              <TableCell>{entry.hospital_name}</TableCell>
+                              <TableCell>{entry.created_by_username || "—"}</TableCell>
+                              <TableCell className="text-right">
+                                {permissions.canEdit && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleEditEntry(entry)}
+                                  >
+                                    Edit
+                                  </Button>
+                                )}
+                                {permissions.canDelete && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-red-600 hover:text-red-800 hover:bg-red-100"
+                                    onClick={() => handleDeleteEntry(entry)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </TableCell>
                             </TableRow>
                           )
                         })}
@@ -548,6 +761,7 @@ export default function DeleteEditContent() {
                             <TableHead>Type</TableHead>
                             <TableHead>Blood Type</TableHead>
                             <TableHead>Donor</TableHead>
+                            <TableHead>Added By</TableHead>
                             <TableHead>Deleted At</TableHead>
                             <TableHead className="text-right">Actions</TableHead>
                           </TableRow>
@@ -556,24 +770,27 @@ export default function DeleteEditContent() {
                           {deletedEntries.map((entry) => (
                             <TableRow key={`${entry.type}-${entry.bag_id}`}>
                               <TableCell>{entry.bag_id}</TableCell>
-                              <TableCell>{entry.type}</TableCell>
+                              <TableCell>{getComponentByEntryType(entry.type)?.label ?? entry.type}</TableCell>
                               <TableCell>
                                 <Badge className={getBloodTypeColor(entry.blood_type, entry.rh)}>
                                   {formatBloodType(entry.blood_type, entry.rh)}
                                 </Badge>
                               </TableCell>
                               <TableCell>{entry.donor_name}</TableCell>
+                              <TableCell>{entry.created_by_username || "—"}</TableCell>
                               <TableCell>{new Date(entry.deleted_at).toLocaleString()}</TableCell>
                               <TableCell className="text-right">
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  className="text-green-600 hover:text-green-800 hover:bg-green-100"
-                                  onClick={() => handleRestoreEntry(entry)}
-                                >
-                                  <Undo2 className="h-4 w-4 mr-1" />
-                                  Restore
-                                </Button>
+                                {permissions.canRestore && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-green-600 hover:text-green-800 hover:bg-green-100"
+                                    onClick={() => handleRestoreEntry(entry)}
+                                  >
+                                    <Undo2 className="h-4 w-4 mr-1" />
+                                    Restore
+                                  </Button>
+                                )}
                               </TableCell>
                             </TableRow>
                           ))}
@@ -594,6 +811,22 @@ export default function DeleteEditContent() {
         open={isEditDialogOpen}
         onOpenChange={setIsEditDialogOpen}
         onSave={handleSaveEntry}
+        timeZone={timeZone}
+      />
+
+      {/* Move Dialog */}
+      <MoveUnitDialog
+        entry={entryToMove}
+        component={(entryToMove && getComponentByEntryType(entryToMove.type)?.key) || "redblood"}
+        storageUnits={storageUnits}
+        canMove={permissions.canEdit}
+        open={isMoveDialogOpen}
+        onOpenChange={setIsMoveDialogOpen}
+        onMoved={() => {
+          setActionMessage({ type: "success", text: "Unit moved" })
+          fetchInventoryData()
+          fetchStorageUnits()
+        }}
       />
 
       {/* Delete Confirmation Dialog */}
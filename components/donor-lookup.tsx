@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { formatBloodType } from "@/lib/utils"
+
+export type DonorSummary = {
+  donor_id: number
+  full_name: string
+  date_of_birth: string
+  blood_type: string
+  rh: string | null
+}
+
+type DonorLookupProps = {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  // Registered donor the entry is linked to, if any
+  donor: DonorSummary | null
+  onSelect: (donor: DonorSummary | null) => void
+  className?: string
+}
+
+// Free-text donor name with autocomplete from the donor registry
+export default function DonorLookup({ id, value, onChange, donor, onSelect, className = "" }: DonorLookupProps) {
+  const [suggestions, setSuggestions] = useState<DonorSummary[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+
+  // Look up donors once typing pauses
+  useEffect(() => {
+    if (donor || value.trim().length < 2) {
+      setSuggestions([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/donors?q=${encodeURIComponent(value.trim())}`, {
+          signal: controller.signal,
+        })
+        const result = await response.json()
+        setSuggestions(result.success ? result.data : [])
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Error looking up donors:", err)
+        }
+      }
+    }, 250)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [value, donor])
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        name="donorName"
+        value={value}
+        onChange={(e) => {
+          // Editing the name unlinks the registered donor
+          if (donor) onSelect(null)
+          onChange(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        className={className}
+        autoComplete="off"
+        required
+      />
+
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full rounded-md border bg-white shadow-md max-h-60 overflow-auto">
+          {suggestions.map((suggestion) => (
+            <li key={suggestion.donor_id}>
+              <button
+                type="button"
+                className="w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onSelect(suggestion)
+                  setIsOpen(false)
+                }}
+              >
+                <span className="font-medium">{suggestion.full_name}</span>
+                <span className="ml-2 text-muted-foreground">
+                  #{suggestion.donor_id} · born {suggestion.date_of_birth.slice(0, 10)} ·{" "}
+                  {formatBloodType(suggestion.blood_type, suggestion.rh ?? undefined)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {donor ? (
+        <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Linked to{" "}
+            <Link href={`/donors/${donor.donor_id}`} className="underline" target="_blank">
+              donor #{donor.donor_id}
+            </Link>{" "}
+            · {formatBloodType(donor.blood_type, donor.rh ?? undefined)}
+          </span>
+          <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={() => onSelect(null)}>
+            Unlink
+          </Button>
+        </div>
+      ) : (
+        <p className="mt-1 text-xs text-muted-foreground">
+          Start typing to find a registered donor, or{" "}
+          <Link href="/donors" className="underline" target="_blank">
+            register a new donor
+          </Link>
+        </p>
+      )}
+    </div>
+  )
+}
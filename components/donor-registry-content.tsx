@@ -0,0 +1,243 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle } from "lucide-react"
+import { formatBloodType } from "@/lib/utils"
+import type { DonorSummary } from "@/components/donor-lookup"
+
+type DonorRegistryContentProps = {
+  canRegister: boolean
+}
+
+const EMPTY_DONOR = {
+  fullName: "",
+  dateOfBirth: "",
+  bloodType: "",
+  rh: "",
+  phone: "",
+  email: "",
+  address: "",
+}
+
+export default function DonorRegistryContent({ canRegister }: DonorRegistryContentProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState("")
+  const [donors, setDonors] = useState<DonorSummary[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [form, setForm] = useState(EMPTY_DONOR)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<{ message: string; details?: string } | null>(null)
+
+  // Search the registry once typing pauses
+  useEffect(() => {
+    if (query.trim().length < 2 && !/^\d+$/.test(query.trim())) {
+      setDonors([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const response = await fetch(`/api/donors?q=${encodeURIComponent(query.trim())}`)
+        const result = await response.json()
+        setDonors(result.success ? result.data : [])
+      } catch (err) {
+        console.error("Error searching donors:", err)
+      } finally {
+        setIsSearching(false)
+      }
+    }, 250)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch("/api/donors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        router.push(`/donors/${result.data.donor_id}`)
+      } else {
+        setError({ message: result.error || "Failed to register donor", details: result.details })
+      }
+    } catch (err) {
+      console.error("Error registering donor:", err)
+      setError({ message: "An unexpected error occurred" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateField = (name: keyof typeof EMPTY_DONOR, value: string) => {
+    setForm((prev) => ({ ...prev, [name]: value }))
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Find a Donor</CardTitle>
+          <CardDescription>Search by name or donor ID</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Name or donor ID" />
+
+          {isSearching ? (
+            <p className="text-sm text-muted-foreground">Searching...</p>
+          ) : donors.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Donor ID</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Date of Birth</TableHead>
+                  <TableHead>Blood Group</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {donors.map((donor) => (
+                  <TableRow key={donor.donor_id}>
+                    <TableCell>
+                      <Link href={`/donors/${donor.donor_id}`} className="underline">
+                        #{donor.donor_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{donor.full_name}</TableCell>
+                    <TableCell>{donor.date_of_birth.slice(0, 10)}</TableCell>
+                    <TableCell>{formatBloodType(donor.blood_type, donor.rh ?? undefined)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            query.trim() && <p className="text-sm text-muted-foreground">No donors found.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {canRegister && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Register a Donor</CardTitle>
+            <CardDescription>Registered donors can be linked to bags when they are added</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <div className="font-medium">{error.message}</div>
+                  {error.details && <div className="text-sm mt-1">{error.details}</div>}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={handleRegister} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="donor-fullName">Full Name</Label>
+                <Input
+                  id="donor-fullName"
+                  value={form.fullName}
+                  onChange={(e) => updateField("fullName", e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="donor-dateOfBirth">Date of Birth</Label>
+                  <Input
+                    id="donor-dateOfBirth"
+                    type="date"
+                    value={form.dateOfBirth}
+                    onChange={(e) => updateField("dateOfBirth", e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="donor-bloodType">Blood Type</Label>
+                  <Select value={form.bloodType} onValueChange={(value) => updateField("bloodType", value)}>
+                    <SelectTrigger id="donor-bloodType">
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="A">A</SelectItem>
+                      <SelectItem value="B">B</SelectItem>
+                      <SelectItem value="AB">AB</SelectItem>
+                      <SelectItem value="O">O</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="donor-rh">Rh Factor</Label>
+                  <Select
+                    value={form.rh || "unknown"}
+                    onValueChange={(value) => updateField("rh", value === "unknown" ? "" : value)}
+                  >
+                    <SelectTrigger id="donor-rh">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unknown">Unknown</SelectItem>
+                      <SelectItem value="+">Positive (+)</SelectItem>
+                      <SelectItem value="-">Negative (-)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="donor-phone">Phone</Label>
+                  <Input id="donor-phone" value={form.phone} onChange={(e) => updateField("phone", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="donor-email">Email</Label>
+                  <Input
+                    id="donor-email"
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => updateField("email", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="donor-address">Address</Label>
+                <Input
+                  id="donor-address"
+                  value={form.address}
+                  onChange={(e) => updateField("address", e.target.value)}
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isSaving || !form.bloodType}>
+                {isSaving ? "Registering..." : "Register Donor"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
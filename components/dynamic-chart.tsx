@@ -2,6 +2,8 @@
 
 import { useEffect, useRef } from "react"
 import { Chart, type ChartConfiguration, type ChartData, type ChartOptions } from "chart.js/auto"
+import { BLOOD_COMPONENT_LIST, type BloodComponentKey } from "@/lib/blood-components"
+import { DEFAULT_STOCK_LEVELS, findStockLevel, type StockLevels } from "@/lib/stock-levels"
 
 type InventoryItem = {
   blood_type: string
@@ -11,13 +13,19 @@ type InventoryItem = {
 }
 
 type DynamicChartProps = {
-  redBlood: InventoryItem[]
-  plasma: InventoryItem[]
-  platelets: InventoryItem[]
+  inventory: Record<BloodComponentKey, InventoryItem[]>
   showThresholds?: boolean
+  stockLevels?: StockLevels
 }
 
-export default function DynamicChart({ redBlood, plasma, platelets, showThresholds = true }: DynamicChartProps) {
+// Chart label for a blood group; components without Rh have no rh value
+const groupLabel = (item: InventoryItem) => `${item.blood_type}${item.rh ? item.rh : ""}`
+
+export default function DynamicChart({
+  inventory,
+  showThresholds = true,
+  stockLevels = DEFAULT_STOCK_LEVELS,
+}: DynamicChartProps) {
   const chartRef = useRef<HTMLCanvasElement>(null)
   const chartInstance = useRef<Chart | null>(null)
 
@@ -26,80 +34,61 @@ export default function DynamicChart({ redBlood, plasma, platelets, showThreshol
 
     // Process data for the chart
     const bloodTypes = Array.from(
-      new Set([
-        ...redBlood.map((item) => `${item.blood_type}${item.rh ? item.rh : ""}`),
-        ...plasma.map((item) => item.blood_type),
-        ...platelets.map((item) => `${item.blood_type}${item.rh ? item.rh : ""}`),
-      ]),
+      new Set(BLOOD_COMPONENT_LIST.flatMap((component) => (inventory[component.key] || []).map(groupLabel))),
     ).sort()
 
-    // Prepare datasets
-    const datasets = [
-      {
-        label: "Red Blood Cells",
-        data: bloodTypes.map((type) => {
-          const item = redBlood.find((item) => `${item.blood_type}${item.rh ? item.rh : ""}` === type)
-          return item ? item.total_amount : 0
-        }),
-        backgroundColor: "rgba(220, 38, 38, 0.5)",
-        borderColor: "rgba(220, 38, 38, 1)",
-        borderWidth: 1,
-      },
-      {
-        label: "Plasma",
-        data: bloodTypes.map((type) => {
-          const item = plasma.find((item) => item.blood_type === type)
-          return item ? item.total_amount : 0
-        }),
-        backgroundColor: "rgba(245, 158, 11, 0.5)",
-        borderColor: "rgba(245, 158, 11, 1)",
-        borderWidth: 1,
-      },
-      {
-        label: "Platelets",
-        data: bloodTypes.map((type) => {
-          const item = platelets.find((item) => `${item.blood_type}${item.rh ? item.rh : ""}` === type)
-          return item ? item.total_amount : 0
-        }),
-        backgroundColor: "rgba(59, 130, 246, 0.5)",
-        borderColor: "rgba(59, 130, 246, 1)",
-        borderWidth: 1,
-      },
-    ]
-
-    // Add threshold annotations if enabled
+    // Prepare one dataset per component
+    const datasets = BLOOD_COMPONENT_LIST.map((component) => ({
+      label: component.label,
+      data: bloodTypes.map((type) => {
+        const item = (inventory[component.key] || []).find((item) => groupLabel(item) === type)
+        return item ? item.total_amount : 0
+      }),
+      backgroundColor: `rgba(${component.color.rgb}, 0.5)`,
+      borderColor: `rgba(${component.color.rgb}, 1)`,
+      borderWidth: 1,
+    }))
+
+    // Add threshold annotations if enabled: a minimum and a target line over each
+    // bar, since every blood group of every component has its own levels
     const annotations: any = {}
 
     if (showThresholds) {
-      annotations.lowThreshold = {
-        type: "line",
-        yMin: 1500,
-        yMax: 1500,
-        borderColor: "rgba(245, 158, 11, 0.7)",
-        borderWidth: 2,
-        borderDash: [6, 6],
-        label: {
-          content: "Low (1500ml)",
-          enabled: true,
-          position: "end",
-          backgroundColor: "rgba(245, 158, 11, 0.7)",
-        },
-      }
-
-      annotations.criticalThreshold = {
-        type: "line",
-        yMin: 500,
-        yMax: 500,
-        borderColor: "rgba(220, 38, 38, 0.7)",
-        borderWidth: 2,
-        borderDash: [6, 6],
-        label: {
-          content: "Critical (500ml)",
-          enabled: true,
-          position: "end",
-          backgroundColor: "rgba(220, 38, 38, 0.7)",
-        },
-      }
+      BLOOD_COMPONENT_LIST.forEach((component, componentIndex) => {
+        const barWidth = 0.8 / BLOOD_COMPONENT_LIST.length
+        const items = inventory[component.key] || []
+
+        bloodTypes.forEach((type, typeIndex) => {
+          const rh = type.endsWith("+") || type.endsWith("-") ? type.slice(-1) : ""
+          if (component.hasRh !== Boolean(rh)) return
+
+          const level = findStockLevel(stockLevels, component.key, rh ? type.slice(0, -1) : type, rh)
+          // Levels set in units are drawn at the group's average bag volume, or the middle of
+          // the component's accepted volumes when the group has no stock
+          const item = items.find((item) => groupLabel(item) === type)
+          const { min, max } = component.volumeRange
+          const bagVolume = item && item.count > 0 ? item.total_amount / item.count : (min + max) / 2
+          const toMl = (value: number) => (level.measure === "ml" ? value : value * bagVolume)
+
+          const xMin = typeIndex - 0.4 + componentIndex * barWidth
+          const line = { type: "line", xMin, xMax: xMin + barWidth, borderWidth: 2, borderDash: [4, 4] }
+          const target = toMl(level.target)
+          const minimum = toMl(level.minimum)
+
+          annotations[`${component.key}-${type}-target`] = {
+            ...line,
+            yMin: target,
+            yMax: target,
+            borderColor: "rgba(245, 158, 11, 0.9)",
+          }
+          annotations[`${component.key}-${type}-minimum`] = {
+            ...line,
+            yMin: minimum,
+            yMax: minimum,
+            borderColor: "rgba(220, 38, 38, 0.9)",
+          }
+        })
+      })
     }
 
     const options: ChartOptions = {
@@ -163,7 +152,7 @@ export default function DynamicChart({ redBlood, plasma, platelets, showThreshol
         chartInstance.current.destroy()
       }
     }
-  }, [redBlood, plasma, platelets, showThresholds])
+  }, [inventory, showThresholds, stockLevels])
 
   return <canvas ref={chartRef} />
 }
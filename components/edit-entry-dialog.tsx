@@ -15,6 +15,8 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { formatBloodType } from "@/lib/utils"
+import type { BloodEntryType } from "@/lib/blood-components"
+import { DEFAULT_TIME_ZONE, toZonedInputValue } from "@/lib/expiry"
 
 interface BloodEntry {
   bag_id: number
@@ -23,7 +25,7 @@ interface BloodEntry {
   rh: string
   amount: number
   expiration_date: string
-  type: "RedBlood" | "Plasma" | "Platelets"
+  type: BloodEntryType
 }
 
 interface EditEntryDialogProps {
@@ -31,17 +33,30 @@ interface EditEntryDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onSave: (updatedEntry: BloodEntry) => Promise<{ success: boolean; message?: string }>
+  // The hospital's time zone, which the expiry time is edited in
+  timeZone?: string
 }
 
-export function EditEntryDialog({ entry, open, onOpenChange, onSave }: EditEntryDialogProps) {
+// The entry as edited, with its expiry as a local time in the hospital's time zone
+function toFormData(entry: BloodEntry | null, timeZone: string) {
+  return entry && { ...entry, expiration_date: toZonedInputValue(entry.expiration_date, timeZone) }
+}
+
+export function EditEntryDialog({
+  entry,
+  open,
+  onOpenChange,
+  onSave,
+  timeZone = DEFAULT_TIME_ZONE,
+}: EditEntryDialogProps) {
   const [isLoading, setIsLoading] = useState(false)
-  const [formData, setFormData] = useState<BloodEntry | null>(entry)
+  const [formData, setFormData] = useState<BloodEntry | null>(() => toFormData(entry, timeZone))
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
 
   // Update form data when entry changes
   useEffect(() => {
-    setFormData(entry)
-  }, [entry])
+    setFormData(toFormData(entry, timeZone))
+  }, [entry, timeZone])
 
   if (!entry || !formData) return null
 
@@ -126,8 +141,8 @@ export function EditEntryDialog({ entry, open, onOpenChange, onSave }: EditEntry
               <Input
                 id="expiration_date"
                 name="expiration_date"
-                type="date"
-                value={formData.expiration_date.split("T")[0]}
+                type="datetime-local"
+                value={formData.expiration_date}
                 onChange={handleChange}
                 className="col-span-3"
                 required
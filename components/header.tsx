@@ -4,13 +4,22 @@ import LogoutButton from "@/components/logout-button"
 import NavLink from "@/components/nav-link"
 import FallbackModeIndicator from "@/components/fallback-mode-indicator"
 import DbConnectionStatus from "@/components/db-connection-status"
+import { hasPermission, type AdminRole } from "@/lib/permissions"
 
 interface HeaderProps {
   hospitalId: number
+  // Role of the signed-in admin; omitted in preview mode, where every link is shown
+  role?: AdminRole
 }
 
-export default async function Header({ hospitalId }: HeaderProps) {
+export default async function Header({ hospitalId, role }: HeaderProps) {
   let hospitalName = "Unknown Hospital"
+  const canAdd = !role || hasPermission(role, "inventory:add")
+  const canEdit = !role || hasPermission(role, "inventory:edit") || hasPermission(role, "inventory:delete")
+  const canManageAdmins = !role || hasPermission(role, "admins:manage")
+  const canViewAudit = !role || hasPermission(role, "audit:view")
+  const canChangeSettings = !role || hasPermission(role, "hospital:settings")
+  const canViewNetwork = !role || hasPermission(role, "inventory:view-all-hospitals")
 
   try {
     const hospital = await getHospitalById(hospitalId)
@@ -30,15 +39,57 @@ export default async function Header({ hospitalId }: HeaderProps) {
             <NavLink href="/dashboard" activeClassName="text-red-600 font-medium">
               Dashboard
             </NavLink>
-            <NavLink href="/add-entry" activeClassName="text-red-600 font-medium">
-              Add Entry
+            {canAdd && (
+              <NavLink href="/add-entry" activeClassName="text-red-600 font-medium">
+                Add Entry
+              </NavLink>
+            )}
+            {canEdit && (
+              <NavLink href="/delete-edit" activeClassName="text-red-600 font-medium">
+                Delete/Edit
+              </NavLink>
+            )}
+            <NavLink href="/donors" activeClassName="text-red-600 font-medium">
+              Donors
             </NavLink>
-            <NavLink href="/delete-edit" activeClassName="text-red-600 font-medium">
-              Delete/Edit
+            <NavLink href="/storage" activeClassName="text-red-600 font-medium">
+              Storage
+            </NavLink>
+            <NavLink href="/temperature" activeClassName="text-red-600 font-medium">
+              Temperature
+            </NavLink>
+            <NavLink href="/transfers" activeClassName="text-red-600 font-medium">
+              Transfers
+            </NavLink>
+            <NavLink href="/shortages" activeClassName="text-red-600 font-medium">
+              Shortages
             </NavLink>
             <NavLink href="/data-analysis" activeClassName="text-red-600 font-medium">
               Data Analysis
             </NavLink>
+            {canViewNetwork && (
+              <NavLink href="/network" activeClassName="text-red-600 font-medium">
+                Network
+              </NavLink>
+            )}
+            {canViewAudit && (
+              <NavLink href="/audit" activeClassName="text-red-600 font-medium">
+                Audit
+              </NavLink>
+            )}
+            {canManageAdmins && (
+              <NavLink href="/accounts" activeClassName="text-red-600 font-medium">
+                Accounts
+              </NavLink>
+            )}
+            {canChangeSettings && (
+              <NavLink href="/settings" activeClassName="text-red-600 font-medium">
+                Settings
+              </NavLink>
+            )}
+            <NavLink href="/security" activeClassName="text-red-600 font-medium">
+              Security
+            </NavLink>
           </nav>
         </div>
 
@@ -0,0 +1,250 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2 } from "lucide-react"
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/expiry"
+import type { HospitalProfile } from "@/lib/hospital-profile-types"
+import { formatDate } from "@/lib/utils"
+
+type HospitalProfileFormProps = {
+  // The signed-in admin's hospital to edit, or null to add a new hospital
+  initialProfile: HospitalProfile | null
+}
+
+// Fields as typed; coordinates stay strings until saved
+type ProfileForm = {
+  name: string
+  contactPhone: string
+  contactEmail: string
+  address: string
+  latitude: string
+  longitude: string
+  timeZone: string
+  afterHoursContactName: string
+  afterHoursContactPhone: string
+}
+
+const toForm = (profile: HospitalProfile | null): ProfileForm => ({
+  name: profile?.hospital_name ?? "",
+  contactPhone: profile?.hospital_contact_phone ?? "",
+  contactEmail: profile?.hospital_contact_mail ?? "",
+  address: profile?.address ?? "",
+  latitude: profile?.latitude != null ? String(profile.latitude) : "",
+  longitude: profile?.longitude != null ? String(profile.longitude) : "",
+  timeZone: profile?.time_zone ?? DEFAULT_TIME_ZONE,
+  afterHoursContactName: profile?.after_hours_contact_name ?? "",
+  afterHoursContactPhone: profile?.after_hours_contact_phone ?? "",
+})
+
+// Edit the hospital's profile, or add a hospital to the network
+export default function HospitalProfileForm({ initialProfile }: HospitalProfileFormProps) {
+  const router = useRouter()
+  const isNew = initialProfile === null
+  const [form, setForm] = useState(() => toForm(initialProfile))
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string; details?: string } | null>(null)
+
+  // Zones the browser knows, offered as suggestions where the browser can list them
+  const suggestions = useMemo<string[]>(() => {
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] }
+    return intl.supportedValuesOf?.("timeZone") ?? []
+  }, [])
+  const isValidZone = isValidTimeZone(form.timeZone)
+  const idPrefix = isNew ? "new-hospital" : "hospital"
+
+  const update = (changes: Partial<ProfileForm>) => setForm((prev) => ({ ...prev, ...changes }))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(isNew ? "/api/hospitals" : "/api/hospital-settings/profile", {
+        method: isNew ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          latitude: form.latitude.trim() === "" ? null : Number(form.latitude),
+          longitude: form.longitude.trim() === "" ? null : Number(form.longitude),
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        if (isNew) {
+          setForm(toForm(null))
+          setMessage({
+            type: "success",
+            text: `${result.data.hospital_name} added with hospital ID ${result.data.hospital_id}`,
+          })
+        } else {
+          setForm(toForm(result.data))
+          setMessage({ type: "success", text: "Hospital profile saved" })
+          // The header shows the hospital's name
+          router.refresh()
+        }
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to save hospital", details: result.details })
+      }
+    } catch (err) {
+      console.error("Error saving hospital profile:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isNew ? "Add Hospital" : "Hospital Profile"}</CardTitle>
+        <CardDescription>
+          {isNew
+            ? "Create a hospital in the network. Its admins register with the hospital ID shown once it is added."
+            : "Other hospitals see these details on surplus alerts, transfers and shortage broadcasts."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {message && (
+          <Alert
+            variant={message.type === "error" ? "destructive" : undefined}
+            className={`mb-4 ${message.type === "success" ? "border-green-500 text-green-700 bg-green-50" : ""}`}
+          >
+            {message.type === "error" ? <AlertCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+            <AlertDescription>
+              <div className="font-medium">{message.text}</div>
+              {message.details && <div className="text-sm mt-1">{message.details}</div>}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor={`${idPrefix}-name`}>Hospital Name</Label>
+            <Input
+              id={`${idPrefix}-name`}
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+              maxLength={200}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-contactPhone`}>Contact Phone</Label>
+            <Input
+              id={`${idPrefix}-contactPhone`}
+              type="tel"
+              value={form.contactPhone}
+              onChange={(e) => update({ contactPhone: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-contactEmail`}>Contact Email</Label>
+            <Input
+              id={`${idPrefix}-contactEmail`}
+              type="email"
+              value={form.contactEmail}
+              onChange={(e) => update({ contactEmail: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor={`${idPrefix}-address`}>Address</Label>
+            <Textarea
+              id={`${idPrefix}-address`}
+              value={form.address}
+              onChange={(e) => update({ address: e.target.value })}
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-latitude`}>Latitude</Label>
+            <Input
+              id={`${idPrefix}-latitude`}
+              type="number"
+              step="any"
+              min={-90}
+              max={90}
+              value={form.latitude}
+              onChange={(e) => update({ latitude: e.target.value })}
+              placeholder="e.g. 10.7546"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-longitude`}>Longitude</Label>
+            <Input
+              id={`${idPrefix}-longitude`}
+              type="number"
+              step="any"
+              min={-180}
+              max={180}
+              value={form.longitude}
+              onChange={(e) => update({ longitude: e.target.value })}
+              placeholder="e.g. 106.6650"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor={`${idPrefix}-timeZone`}>IANA Time Zone</Label>
+            <Input
+              id={`${idPrefix}-timeZone`}
+              list={`${idPrefix}-time-zone-suggestions`}
+              value={form.timeZone}
+              onChange={(e) => update({ timeZone: e.target.value.trim() })}
+              placeholder="e.g. Asia/Ho_Chi_Minh"
+              required
+            />
+            <datalist id={`${idPrefix}-time-zone-suggestions`}>
+              {suggestions.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+            <p className={`text-xs ${isValidZone ? "text-muted-foreground" : "text-destructive"}`}>
+              {isValidZone
+                ? `Expiry times are entered and shown in this zone. Local time now: ${formatDate(
+                    new Date().toISOString(),
+                    form.timeZone,
+                  )}`
+                : "Unknown time zone"}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-afterHoursName`}>After-Hours Transfusion Contact</Label>
+            <Input
+              id={`${idPrefix}-afterHoursName`}
+              value={form.afterHoursContactName}
+              onChange={(e) => update({ afterHoursContactName: e.target.value })}
+              placeholder="e.g. On-call blood bank technologist"
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-afterHoursPhone`}>After-Hours Phone</Label>
+            <Input
+              id={`${idPrefix}-afterHoursPhone`}
+              type="tel"
+              value={form.afterHoursContactPhone}
+              onChange={(e) => update({ afterHoursContactPhone: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={isSaving || !isValidZone}>
+              {isSaving ? "Saving..." : isNew ? "Add Hospital" : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BLOOD_COMPONENTS, type BloodComponentKey } from "@/lib/blood-components"
+import { formatLocation, type StorageUnit } from "@/lib/storage-unit-types"
+
+type LocationHistoryEntry = {
+  audit_id: number
+  created_at: string
+  action: "create" | "move"
+  admin_username: string | null
+  from_storage_unit_name: string | null
+  from_position: string | null
+  to_storage_unit_name: string | null
+  to_position: string | null
+}
+
+interface MoveUnitDialogProps {
+  // The bag being moved, with its current location
+  entry: { bag_id: number; storage_unit_id?: number | null; storage_position?: string | null } | null
+  component: BloodComponentKey
+  storageUnits: StorageUnit[]
+  // Whether the signed-in admin may move bags, or only see where they have been
+  canMove: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onMoved: () => void
+}
+
+export function MoveUnitDialog({
+  entry,
+  component,
+  storageUnits,
+  canMove,
+  open,
+  onOpenChange,
+  onMoved,
+}: MoveUnitDialogProps) {
+  const [storageUnitId, setStorageUnitId] = useState("none")
+  const [position, setPosition] = useState("")
+  const [history, setHistory] = useState<LocationHistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const { storageType } = BLOOD_COMPONENTS[component]
+  const suitableUnits = storageUnits.filter((unit) => unit.unit_type === storageType)
+
+  // Start from the bag's current location and load where it has been
+  useEffect(() => {
+    if (!entry || !open) return
+
+    setStorageUnitId(entry.storage_unit_id ? String(entry.storage_unit_id) : "none")
+    setPosition(entry.storage_position || "")
+    setErrorMessage(null)
+
+    fetch(`/api/inventory/${component}/${entry.bag_id}/location`)
+      .then((response) => response.json())
+      .then((result) => setHistory(result.success ? result.data : []))
+      .catch((err) => console.error("Error fetching location history:", err))
+  }, [entry, component, open])
+
+  if (!entry) return null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsLoading(true)
+      setErrorMessage(null)
+
+      const response = await fetch(`/api/inventory/${component}/${entry.bag_id}/location`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          storageUnitId: storageUnitId === "none" ? null : Number(storageUnitId),
+          position: position.trim() || null,
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        onOpenChange(false)
+        onMoved()
+      } else {
+        setErrorMessage(result.error || "Failed to move the unit. Please try again.")
+      }
+    } catch (error) {
+      console.error("Error moving unit:", error)
+      setErrorMessage("An unexpected error occurred. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Location of Bag #{entry.bag_id}</DialogTitle>
+            <DialogDescription>
+              {canMove ? "Move the bag to another storage unit or shelf." : "Where the bag has been stored."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {canMove && (
+            <div className="grid gap-4 py-4">
+              {errorMessage && <div className="bg-red-50 text-red-800 p-3 rounded-md text-sm">{errorMessage}</div>}
+
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="move-storageUnit" className="text-right">
+                  Storage Unit
+                </Label>
+                <Select value={storageUnitId} onValueChange={setStorageUnitId}>
+                  <SelectTrigger id="move-storageUnit" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {suitableUnits.map((unit) => (
+                      <SelectItem
+                        key={unit.storage_unit_id}
+                        value={String(unit.storage_unit_id)}
+                        disabled={unit.bag_count >= unit.capacity && unit.storage_unit_id !== entry.storage_unit_id}
+                      >
+                        {unit.name} ({unit.bag_count}/{unit.capacity})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="move-position" className="text-right">
+                  Shelf / Slot
+                </Label>
+                <Input
+                  id="move-position"
+                  value={position}
+                  onChange={(e) => setPosition(e.target.value)}
+                  className="col-span-3"
+                  maxLength={50}
+                  disabled={storageUnitId === "none"}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2 pb-4">
+            <h4 className="text-sm font-medium">History</h4>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No recorded moves.</p>
+            ) : (
+              <ul className="space-y-1 text-sm max-h-48 overflow-auto">
+                {history.map((item) => (
+                  <li key={item.audit_id} className="flex justify-between gap-4">
+                    <span>
+                      {item.action === "create"
+                        ? `Put away in ${formatLocation(item.to_storage_unit_name, item.to_position)}`
+                        : `${formatLocation(item.from_storage_unit_name, item.from_position)} → ${formatLocation(
+                            item.to_storage_unit_name,
+                            item.to_position,
+                          )}`}
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {new Date(item.created_at).toLocaleString()}
+                      {item.admin_username && ` · ${item.admin_username}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {canMove ? "Cancel" : "Close"}
+            </Button>
+            {canMove && (
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "Moving..." : "Move"}
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
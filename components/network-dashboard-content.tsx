@@ -0,0 +1,298 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, ArrowRight, RefreshCw } from "lucide-react"
+import { BLOOD_COMPONENTS } from "@/lib/blood-components"
+import { EXPIRING_SOON_DAYS } from "@/lib/expiry"
+import { formatStockAmount, getStockGroups, measureStock, type StockStatus } from "@/lib/stock-levels"
+import {
+  USAGE_WINDOW_DAYS,
+  type NetworkComponentOverview,
+  type NetworkDashboard,
+} from "@/lib/network-dashboard-types"
+import { formatBloodType, getBloodTypeColor } from "@/lib/utils"
+
+const STATUS_CELL_CLASSES: Record<StockStatus, string> = {
+  critical: "bg-red-100 text-red-800",
+  low: "bg-amber-100 text-amber-800",
+  adequate: "bg-green-50 text-green-800",
+  surplus: "bg-blue-100 text-blue-800",
+}
+
+const STATUS_LABELS: Record<StockStatus, string> = {
+  critical: "Below minimum",
+  low: "Below target",
+  adequate: "Adequate",
+  surplus: "Above maximum",
+}
+
+// Days of supply under which a hospital is flagged
+const SHORT_SUPPLY_DAYS = 3
+
+type ComponentOverviewProps = {
+  overview: NetworkComponentOverview
+  dashboard: NetworkDashboard
+}
+
+// Matrix, days of supply, expiring units and suggested moves for one component
+function ComponentOverview({ overview, dashboard }: ComponentOverviewProps) {
+  const groups = getStockGroups(overview.component)
+  const expiringTotal = overview.expiring.reduce((sum, item) => sum + item.count, 0)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock by Hospital and Blood Type</CardTitle>
+          <CardDescription>
+            Available units at each hospital, coloured against that hospital's own stock levels.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="rounded-md border overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hospital</TableHead>
+                  {groups.map((group) => (
+                    <TableHead key={`${group.blood_type}${group.rh}`} className="text-center">
+                      {formatBloodType(group.blood_type, group.rh)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dashboard.hospitals.map((hospital) => (
+                  <TableRow key={hospital.hospital_id}>
+                    <TableCell className="font-medium">{hospital.hospital_name}</TableCell>
+                    {groups.map((group) => {
+                      const cell = overview.stock.find(
+                        (item) =>
+                          item.hospital_id === hospital.hospital_id &&
+                          item.blood_type === group.blood_type &&
+                          item.rh === group.rh,
+                      )
+                      if (!cell) {
+                        return <TableCell key={`${group.blood_type}${group.rh}`} />
+                      }
+
+                      const { measure, minimum, target, maximum } = cell.level
+                      return (
+                        <TableCell
+                          key={`${group.blood_type}${group.rh}`}
+                          className={`text-center ${STATUS_CELL_CLASSES[cell.status]}`}
+                          title={`${STATUS_LABELS[cell.status]}: ${formatStockAmount(
+                            measureStock(cell.level, cell),
+                            measure,
+                          )} (minimum ${minimum}, target ${target}, maximum ${maximum} ${measure})`}
+                        >
+                          <div className="font-medium">{cell.count}</div>
+                          <div className="text-xs">{formatStockAmount(cell.total_amount, "ml")}</div>
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs">
+            {(Object.keys(STATUS_LABELS) as StockStatus[]).map((status) => (
+              <span key={status} className={`px-2 py-1 rounded ${STATUS_CELL_CLASSES[status]}`}>
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Days of Supply</CardTitle>
+            <CardDescription>
+              Available units divided by the average daily use over the last {USAGE_WINDOW_DAYS} days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Hospital</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                    <TableHead className="text-right">Used</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overview.supply.map((supply) => {
+                    const hospital = dashboard.hospitals.find((item) => item.hospital_id === supply.hospital_id)
+                    const isShort = supply.days_of_supply !== null && supply.days_of_supply < SHORT_SUPPLY_DAYS
+
+                    return (
+                      <TableRow key={supply.hospital_id}>
+                        <TableCell className="font-medium">{hospital?.hospital_name}</TableCell>
+                        <TableCell className="text-right">{supply.available}</TableCell>
+                        <TableCell className="text-right">{supply.used}</TableCell>
+                        <TableCell className={`text-right ${isShort ? "text-red-600 font-medium" : ""}`}>
+                          {supply.days_of_supply === null ? "No recent use" : supply.days_of_supply}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Expiring Soon</CardTitle>
+            <CardDescription>
+              {expiringTotal} available unit{expiringTotal === 1 ? "" : "s"} across the network expire within{" "}
+              {EXPIRING_SOON_DAYS} days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {overview.expiring.map((item) => (
+                <div
+                  key={`${item.blood_type}${item.rh}`}
+                  className={`rounded-md border p-3 text-center ${
+                    item.count > 0 ? "border-amber-300 bg-amber-50" : ""
+                  }`}
+                >
+                  <Badge className={getBloodTypeColor(item.blood_type, item.rh)}>
+                    {formatBloodType(item.blood_type, item.rh)}
+                  </Badge>
+                  <div className="text-2xl font-bold mt-2">{item.count}</div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Suggested Rebalancing</CardTitle>
+          <CardDescription>
+            Moves from hospitals above their maximum to hospitals below their target. Suppliers keep enough to stay
+            at their own target.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overview.moves.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No moves suggested for {BLOOD_COMPONENTS[overview.component].label.toLowerCase()}.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {overview.moves.map((move, index) => (
+                <li key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm">
+                  <Badge className={getBloodTypeColor(move.blood_type, move.rh)}>
+                    {formatBloodType(move.blood_type, move.rh)}
+                  </Badge>
+                  <span className="font-medium">
+                    {move.units} unit{move.units === 1 ? "" : "s"}
+                  </span>
+                  <span>{move.from_hospital_name}</span>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <span>{move.to_hospital_name}</span>
+                  {move.to_status === "critical" && (
+                    <Badge variant="destructive" className="ml-auto">
+                      Critical
+                    </Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Stock across every hospital in the network, for network coordinators
+export default function NetworkDashboardContent() {
+  const [dashboard, setDashboard] = useState<NetworkDashboard | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<{ text: string; details?: string } | null>(null)
+
+  const fetchDashboard = async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await fetch("/api/network-dashboard")
+      const result = await response.json()
+
+      if (result.success) {
+        setDashboard(result.data)
+      } else {
+        setError({ text: result.error || "Failed to load the network dashboard", details: result.details })
+      }
+    } catch (err) {
+      console.error("Error fetching network dashboard:", err)
+      setError({ text: "An unexpected error occurred" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDashboard()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={fetchDashboard} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="font-medium">{error.text}</div>
+            {error.details && <div className="text-sm mt-1">{error.details}</div>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && !dashboard && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">Loading network stock...</CardContent>
+        </Card>
+      )}
+
+      {dashboard && (
+        <Tabs defaultValue={dashboard.components[0]?.component}>
+          <TabsList className="mb-4 flex-wrap h-auto">
+            {dashboard.components.map((overview) => (
+              <TabsTrigger key={overview.component} value={overview.component}>
+                {BLOOD_COMPONENTS[overview.component].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {dashboard.components.map((overview) => (
+            <TabsContent key={overview.component} value={overview.component}>
+              <ComponentOverview overview={overview} dashboard={dashboard} />
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Siren } from "lucide-react"
+import { BLOOD_COMPONENTS, isBloodComponentKey } from "@/lib/blood-components"
+import { formatCountdown, isExpired } from "@/lib/expiry"
+import type { ShortageBroadcast } from "@/lib/shortage-broadcast-types"
+import { formatBloodType, formatDate, getBloodTypeColor } from "@/lib/utils"
+
+type NetworkShortagesProps = {
+  // Open needs posted by other hospitals
+  broadcasts: ShortageBroadcast[]
+  // The signed-in admin's hospital
+  hospitalId: number
+  // Whether the signed-in admin may offer units
+  canRespond: boolean
+  // The hospital's time zone, which deadlines are shown in
+  timeZone: string
+  // Called after an offer is sent; refreshes the page by default
+  onResponded?: () => void
+}
+
+const getComponentLabel = (key: string) => (isBloodComponentKey(key) ? BLOOD_COMPONENTS[key].label : key)
+
+// Urgent needs from the rest of the network, highlighting the ones this hospital's stock could fill
+export default function NetworkShortages({
+  broadcasts,
+  hospitalId,
+  canRespond,
+  timeZone,
+  onResponded,
+}: NetworkShortagesProps) {
+  const router = useRouter()
+  const [responding, setResponding] = useState<ShortageBroadcast | null>(null)
+  const [quantity, setQuantity] = useState("1")
+  const [message, setMessage] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  if (broadcasts.length === 0) return null
+
+  const openResponse = (broadcast: ShortageBroadcast) => {
+    const previous = broadcast.responses.find((response) => response.hospital_id === hospitalId)
+    const stock = broadcast.stockholders.find((holder) => holder.hospital_id === hospitalId)
+
+    setResponding(broadcast)
+    setQuantity(String(previous?.quantity ?? Math.max(1, Math.min(stock?.count ?? 1, broadcast.quantity))))
+    setMessage(previous?.message ?? "")
+    setErrorMessage(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!responding) return
+
+    try {
+      setIsLoading(true)
+      setErrorMessage(null)
+
+      const response = await fetch(`/api/shortage-broadcasts/${responding.broadcast_id}/responses`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quantity: Number(quantity), message: message.trim() || undefined }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setResponding(null)
+        if (onResponded) {
+          onResponded()
+        } else {
+          router.refresh()
+        }
+      } else {
+        setErrorMessage(result.details || result.error || "Failed to send the response. Please try again.")
+      }
+    } catch (error) {
+      console.error("Error responding to shortage broadcast:", error)
+      setErrorMessage("An unexpected error occurred. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="border-red-300">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2 text-red-700">
+          <Siren className="h-5 w-5" />
+          Urgent Needs in the Network
+        </CardTitle>
+        <CardDescription>
+          Other hospitals are short of these units. Highlighted needs are ones your stock could fill.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {broadcasts.map((broadcast) => {
+          const stock = broadcast.stockholders.find((holder) => holder.hospital_id === hospitalId)
+          const ownResponse = broadcast.responses.find((response) => response.hospital_id === hospitalId)
+          const countdown = formatCountdown(broadcast.needed_by)
+          const overdue = isExpired(broadcast.needed_by)
+          const capable = broadcast.stockholders.filter((holder) => holder.can_fill)
+
+          return (
+            <div
+              key={broadcast.broadcast_id}
+              className={`p-3 border rounded-lg ${stock?.can_fill ? "bg-green-50 border-green-400" : "bg-red-50"}`}
+            >
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <div className="font-medium">
+                  {broadcast.hospital_name} needs <span className="font-bold">{broadcast.quantity} units</span> of{" "}
+                  <Badge className={getBloodTypeColor(broadcast.blood_type, broadcast.rh)}>
+                    {formatBloodType(broadcast.blood_type, broadcast.rh)}
+                  </Badge>{" "}
+                  {getComponentLabel(broadcast.component_type)}
+                </div>
+                <Badge variant={overdue ? "destructive" : "outline"}>
+                  {overdue ? "Past deadline" : countdown ? `${countdown} left` : "Needed by"}{" "}
+                  {formatDate(broadcast.needed_by, timeZone)}
+                </Badge>
+              </div>
+              <p className="text-sm mt-1">{broadcast.reason}</p>
+              <div className="text-sm text-muted-foreground mt-1">
+                {!stock
+                  ? "You have no matching units available."
+                  : stock.can_fill
+                    ? `You have ${stock.count} matching units available, enough to fill this need.`
+                    : `You have ${stock.count} matching units available.`}
+                {capable.length > 0 &&
+                  ` Could fill it: ${capable.map((holder) => `${holder.hospital_name} (${holder.count})`).join(", ")}.`}
+              </div>
+              {(broadcast.contact_phone || broadcast.contact_email) && (
+                <div className="mt-1 text-xs text-muted-foreground">
+                  Contact: {broadcast.contact_phone && <span className="mr-2">{broadcast.contact_phone}</span>}
+                  {broadcast.contact_email && <span>{broadcast.contact_email}</span>}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-3 mt-2">
+                {ownResponse && (
+                  <span className="text-sm text-green-700">You offered {ownResponse.quantity} units</span>
+                )}
+                {broadcast.responses.length > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {broadcast.responses.length === 1
+                      ? "1 hospital has responded"
+                      : `${broadcast.responses.length} hospitals have responded`}
+                  </span>
+                )}
+                {canRespond && (
+                  <Button size="sm" variant="outline" onClick={() => openResponse(broadcast)}>
+                    {ownResponse ? "Change Offer" : "Offer Units"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+
+      <Dialog open={responding !== null} onOpenChange={(open) => !open && setResponding(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Offer Units</DialogTitle>
+              <DialogDescription>
+                {responding &&
+                  `${responding.hospital_name} will see your offer and can request a transfer from you.`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              {errorMessage && <div className="bg-red-50 text-red-800 p-3 rounded-md text-sm">{errorMessage}</div>}
+
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="shortage-quantity" className="text-right">
+                  Units
+                </Label>
+                <Input
+                  id="shortage-quantity"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="col-span-3"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-4 items-start gap-4">
+                <Label htmlFor="shortage-message" className="text-right pt-2">
+                  Message
+                </Label>
+                <Textarea
+                  id="shortage-message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="When the units could leave, who to call"
+                  maxLength={500}
+                  className="col-span-3"
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setResponding(null)} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "Sending..." : "Send Offer"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useMemo } from "react"
+import { encodeQrCode } from "@/lib/qr-code"
+
+interface QrCodeProps {
+  value: string
+  size?: number
+  className?: string
+}
+
+// Modules of light border required around a QR code
+const QUIET_ZONE = 4
+
+export default function QrCode({ value, size = 192, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value)
+    // One unit-square subpath per dark module
+    let d = ""
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          d += `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`
+        }
+      })
+    })
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 }
+  }, [value])
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code for your authenticator app"
+      className={className}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
@@ -3,6 +3,8 @@
 import { useEffect, useState, useCallback } from "react"
 import BloodInventoryWarnings from "./blood-inventory-warnings"
 import { isPreviewMode } from "@/lib/environment-detection"
+import { BLOOD_COMPONENT_KEYS, type BloodComponentKey } from "@/lib/blood-components"
+import type { StockLevels } from "@/lib/stock-levels"
 
 type InventoryItem = {
   blood_type: string
@@ -11,11 +13,7 @@ type InventoryItem = {
   total_amount: number
 }
 
-type InventoryData = {
-  redBlood: InventoryItem[]
-  plasma: InventoryItem[]
-  platelets: InventoryItem[]
-}
+type InventoryData = Record<BloodComponentKey, InventoryItem[]>
 
 type FetchStatus = {
   loading: boolean
@@ -25,28 +23,22 @@ type FetchStatus = {
 }
 
 type RealTimeInventoryWarningsProps = {
-  initialRedBlood: InventoryItem[]
-  initialPlasma: InventoryItem[]
-  initialPlatelets: InventoryItem[]
+  initialInventory: InventoryData
   hospitalId: number | string
+  stockLevels: StockLevels
   refreshInterval?: number // in milliseconds
   className?: string
 }
 
 export default function RealTimeInventoryWarnings({
-  initialRedBlood,
-  initialPlasma,
-  initialPlatelets,
+  initialInventory,
   hospitalId,
+  stockLevels,
   refreshInterval = 60000, // Default to 1 minute
   className = "",
 }: RealTimeInventoryWarningsProps) {
   // State for inventory data
-  const [inventoryData, setInventoryData] = useState<InventoryData>({
-    redBlood: initialRedBlood,
-    plasma: initialPlasma,
-    platelets: initialPlatelets,
-  })
+  const [inventoryData, setInventoryData] = useState<InventoryData>(initialInventory)
 
   // State for fetch status
   const [fetchStatus, setFetchStatus] = useState<FetchStatus>({
@@ -78,48 +70,32 @@ export default function RealTimeInventoryWarnings({
         const controller = new AbortController()
         const timeoutId = setTimeout(() => controller.abort(), 8000) // 8 second timeout
 
-        // Fetch all inventory data in parallel
-        const [redBloodRes, plasmaRes, plateletsRes] = await Promise.all([
-          fetch(`/api/inventory/redblood?hospitalId=${hospitalId}`, {
-            credentials: "include",
-            headers: {
-              "Cache-Control": "no-cache, no-store, must-revalidate",
-              Pragma: "no-cache",
-              Expires: "0",
-            },
-            signal: controller.signal,
-          }),
-          fetch(`/api/inventory/plasma?hospitalId=${hospitalId}`, {
-            credentials: "include",
-            headers: {
-              "Cache-Control": "no-cache, no-store, must-revalidate",
-              Pragma: "no-cache",
-              Expires: "0",
-            },
-            signal: controller.signal,
-          }),
-          fetch(`/api/inventory/platelets?hospitalId=${hospitalId}`, {
-            credentials: "include",
-            headers: {
-              "Cache-Control": "no-cache, no-store, must-revalidate",
-              Pragma: "no-cache",
-              Expires: "0",
-            },
-            signal: controller.signal,
-          }),
-        ])
+        // Fetch every component's inventory in parallel
+        const responses = await Promise.all(
+          BLOOD_COMPONENT_KEYS.map((component) =>
+            fetch(`/api/inventory/${component}?hospitalId=${hospitalId}`, {
+              credentials: "include",
+              headers: {
+                "Cache-Control": "no-cache, no-store, must-revalidate",
+                Pragma: "no-cache",
+                Expires: "0",
+              },
+              signal: controller.signal,
+            }),
+          ),
+        )
 
         // Clear timeout
         clearTimeout(timeoutId)
 
         // Handle authentication errors
-        if (redBloodRes.status === 401 || plasmaRes.status === 401 || plateletsRes.status === 401) {
+        if (responses.some((res) => res.status === 401)) {
           throw new Error("Authentication required")
         }
 
         // Handle other error responses
-        if (!redBloodRes.ok || !plasmaRes.ok || !plateletsRes.ok) {
-          const errorRes = !redBloodRes.ok ? redBloodRes : !plasmaRes.ok ? plasmaRes : plateletsRes
+        const errorRes = responses.find((res) => !res.ok)
+        if (errorRes) {
           const errorData = await errorRes.json().catch(() => ({}))
 
           throw new Error(
@@ -128,18 +104,12 @@ export default function RealTimeInventoryWarnings({
         }
 
         // Parse response data
-        const [redBloodData, plasmaData, plateletsData] = await Promise.all([
-          redBloodRes.json(),
-          plasmaRes.json(),
-          plateletsRes.json(),
-        ])
+        const data = await Promise.all(responses.map((res) => res.json()))
 
         // Update state with new data
-        setInventoryData({
-          redBlood: redBloodData,
-          plasma: plasmaData,
-          platelets: plateletsData,
-        })
+        setInventoryData(
+          Object.fromEntries(BLOOD_COMPONENT_KEYS.map((component, index) => [component, data[index]])) as InventoryData,
+        )
 
         // Reset error state and update last updated time
         setFetchStatus({
@@ -219,11 +189,7 @@ export default function RealTimeInventoryWarnings({
       )}
 
       {/* Inventory warnings */}
-      <BloodInventoryWarnings
-        redBlood={inventoryData.redBlood}
-        plasma={inventoryData.plasma}
-        platelets={inventoryData.platelets}
-      />
+      <BloodInventoryWarnings inventory={inventoryData} stockLevels={stockLevels} />
     </div>
   )
 }
@@ -0,0 +1,41 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Check, Copy } from "lucide-react"
+
+interface RecoveryCodesListProps {
+  codes: string[]
+}
+
+// Shows freshly issued recovery codes; they can't be retrieved again later
+export default function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"))
+      setCopied(true)
+    } catch (err) {
+      console.error("Error copying recovery codes:", err)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these recovery codes somewhere safe. Each can be used once to sign in if you lose access to your
+        authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+        {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+        {copied ? "Copied" : "Copy codes"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Truck } from "lucide-react"
+import { BLOOD_COMPONENTS, type BloodComponentKey } from "@/lib/blood-components"
+import { formatBloodType } from "@/lib/utils"
+
+type RequestTransferButtonProps = {
+  // The hospital with surplus units and what it has
+  supplyingHospitalId: number
+  supplyingHospitalName: string
+  component: BloodComponentKey
+  bloodType: string
+  rh: string
+  availableCount: number
+}
+
+// Ask a hospital with surplus units to send some over
+export default function RequestTransferButton({
+  supplyingHospitalId,
+  supplyingHospitalName,
+  component,
+  bloodType,
+  rh,
+  availableCount,
+}: RequestTransferButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [quantity, setQuantity] = useState("1")
+  const [notes, setNotes] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [sent, setSent] = useState(false)
+
+  const maxQuantity = Math.min(Number(availableCount), 100)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    if (isOpen) {
+      setQuantity("1")
+      setNotes("")
+      setErrorMessage(null)
+      setSent(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsLoading(true)
+      setErrorMessage(null)
+
+      const response = await fetch("/api/transfers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          supplyingHospitalId,
+          component,
+          bloodType,
+          rh,
+          quantity: Number(quantity),
+          notes: notes.trim() || undefined,
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setSent(true)
+      } else {
+        setErrorMessage(result.details || result.error || "Failed to send the request. Please try again.")
+      }
+    } catch (error) {
+      console.error("Error requesting transfer:", error)
+      setErrorMessage("An unexpected error occurred. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="mt-2" onClick={() => handleOpenChange(true)}>
+        <Truck className="h-4 w-4 mr-2" />
+        Request Transfer
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-[450px]">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Request Transfer</DialogTitle>
+              <DialogDescription>
+                Ask {supplyingHospitalName} for {formatBloodType(bloodType, rh)} {BLOOD_COMPONENTS[component].label}.
+                They have {availableCount} units available.
+              </DialogDescription>
+            </DialogHeader>
+
+            {sent ? (
+              <div className="py-4 text-sm">
+                Request sent. Follow its progress on the{" "}
+                <Link href="/transfers" className="underline">
+                  Transfers
+                </Link>{" "}
+                page.
+              </div>
+            ) : (
+              <div className="grid gap-4 py-4">
+                {errorMessage && <div className="bg-red-50 text-red-800 p-3 rounded-md text-sm">{errorMessage}</div>}
+
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="transfer-quantity" className="text-right">
+                    Units
+                  </Label>
+                  <Input
+                    id="transfer-quantity"
+                    type="number"
+                    min="1"
+                    max={maxQuantity}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    className="col-span-3"
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-start gap-4">
+                  <Label htmlFor="transfer-notes" className="text-right pt-2">
+                    Notes
+                  </Label>
+                  <Textarea
+                    id="transfer-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Urgency, patient need or delivery instructions"
+                    maxLength={500}
+                    className="col-span-3"
+                  />
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              {sent ? (
+                <Button type="button" onClick={() => handleOpenChange(false)}>
+                  Close
+                </Button>
+              ) : (
+                <>
+                  <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isLoading}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? "Sending..." : "Send Request"}
+                  </Button>
+                </>
+              )}
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, Plus, Trash2 } from "lucide-react"
+import { BLOOD_COMPONENT_LIST, type BloodComponentKey } from "@/lib/blood-components"
+import { DEFAULT_SHELF_LIFE_RULES, type ShelfLifeRules } from "@/lib/shelf-life"
+
+type ShelfLifeSettingsProps = {
+  initialRules: ShelfLifeRules
+}
+
+// Rules being edited; days stay as typed until saved
+type DraftRule = { name: string; days: string }
+
+const toDrafts = (rules: ShelfLifeRules) =>
+  Object.fromEntries(
+    Object.entries(rules).map(([key, list]) => [key, list.map((rule) => ({ name: rule.name, days: String(rule.days) }))]),
+  ) as Record<BloodComponentKey, DraftRule[]>
+
+// Edit the shelf-life rules used to date new units, one component at a time
+export default function ShelfLifeSettings({ initialRules }: ShelfLifeSettingsProps) {
+  const [drafts, setDrafts] = useState(() => toDrafts(initialRules))
+  const [savingComponent, setSavingComponent] = useState<BloodComponentKey | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string; details?: string } | null>(null)
+
+  const updateRule = (component: BloodComponentKey, index: number, changes: Partial<DraftRule>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [component]: prev[component].map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }))
+  }
+
+  const saveRules = async (component: BloodComponentKey, rules: DraftRule[]) => {
+    setSavingComponent(component)
+    setMessage(null)
+
+    try {
+      const response = await fetch("/api/shelf-life-rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          component,
+          rules: rules.map((rule) => ({ name: rule.name, days: Number(rule.days) })),
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setDrafts((prev) => ({ ...prev, [component]: toDrafts(result.data)[component] }))
+        setMessage({ type: "success", text: "Shelf-life rules saved" })
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to save shelf-life rules", details: result.details })
+      }
+    } catch (err) {
+      console.error("Error saving shelf-life rules:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setSavingComponent(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert
+          variant={message.type === "error" ? "destructive" : undefined}
+          className={message.type === "success" ? "border-green-500 text-green-700 bg-green-50" : ""}
+        >
+          {message.type === "error" ? <AlertCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+          <AlertDescription>
+            <div className="font-medium">{message.text}</div>
+            {message.details && <div className="text-sm mt-1">{message.details}</div>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {BLOOD_COMPONENT_LIST.map(({ key, label }) => {
+        const rules = drafts[key]
+
+        return (
+          <Card key={key}>
+            <CardHeader>
+              <CardTitle>{label}</CardTitle>
+              <CardDescription>
+                Days from collection to expiry. The first rule is preselected when adding a unit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rules.map((rule, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    aria-label="Rule name"
+                    value={rule.name}
+                    onChange={(e) => updateRule(key, index, { name: e.target.value })}
+                    placeholder="e.g. Additive solution"
+                  />
+                  <Input
+                    aria-label="Shelf life in days"
+                    type="number"
+                    min={1}
+                    value={rule.days}
+                    onChange={(e) => updateRule(key, index, { days: e.target.value })}
+                    className="w-28"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove rule"
+                    disabled={rules.length === 1}
+                    onClick={() => setDrafts((prev) => ({ ...prev, [key]: prev[key].filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDrafts((prev) => ({ ...prev, [key]: [...prev[key], { name: "", days: "" }] }))}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Rule
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={savingComponent !== null}
+                  onClick={() => saveRules(key, [])}
+                >
+                  Restore Defaults ({DEFAULT_SHELF_LIFE_RULES[key].map((rule) => `${rule.days}d`).join(", ")})
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="ml-auto"
+                  disabled={savingComponent !== null}
+                  onClick={() => saveRules(key, rules)}
+                >
+                  {savingComponent === key ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,407 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, CheckCircle2, Siren } from "lucide-react"
+import NetworkShortages from "@/components/network-shortages"
+import RequestTransferButton from "@/components/request-transfer-button"
+import {
+  BLOOD_COMPONENT_LIST,
+  BLOOD_COMPONENTS,
+  isBloodComponentKey,
+  type BloodComponentKey,
+} from "@/lib/blood-components"
+import { formatCountdown, isExpired, zonedTimeToIso, zonedToday } from "@/lib/expiry"
+import { SHORTAGE_BROADCAST_STATUS_LABELS, type ShortageBroadcast } from "@/lib/shortage-broadcast-types"
+import { formatBloodType, formatDate, getBloodTypeColor } from "@/lib/utils"
+
+type ShortagesContentProps = {
+  // The signed-in admin's hospital
+  hospitalId: number
+  // Whether the signed-in admin may post, answer and close broadcasts
+  canManage: boolean
+  // The hospital's time zone, which deadlines are entered and shown in
+  timeZone: string
+}
+
+type Message = { type: "success" | "error"; text: string; details?: string }
+
+const getComponentLabel = (key: string) => (isBloodComponentKey(key) ? BLOOD_COMPONENTS[key].label : key)
+
+const STATUS_BADGE_CLASSES: Record<ShortageBroadcast["status"], string> = {
+  open: "bg-red-100 text-red-800",
+  fulfilled: "bg-green-100 text-green-800",
+  cancelled: "",
+}
+
+export default function ShortagesContent({ hospitalId, canManage, timeZone }: ShortagesContentProps) {
+  const [own, setOwn] = useState<ShortageBroadcast[]>([])
+  const [network, setNetwork] = useState<ShortageBroadcast[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [message, setMessage] = useState<Message | null>(null)
+
+  const [component, setComponent] = useState<BloodComponentKey>("redblood")
+  const [bloodType, setBloodType] = useState("")
+  const [rh, setRh] = useState("")
+  const [quantity, setQuantity] = useState("1")
+  const [neededBy, setNeededBy] = useState("")
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Broadcast being closed
+  const [closingId, setClosingId] = useState<number | null>(null)
+
+  const fetchBroadcasts = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch("/api/shortage-broadcasts")
+      const result = await response.json()
+
+      setOwn(result.success ? result.data.own : [])
+      setNetwork(result.success ? result.data.network : [])
+    } catch (err) {
+      console.error("Error fetching shortage broadcasts:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchBroadcasts()
+  }, [])
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+
+    if (!bloodType || (BLOOD_COMPONENTS[component].hasRh && !rh) || !neededBy) {
+      setMessage({ type: "error", text: "Choose the blood type and deadline" })
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch("/api/shortage-broadcasts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          component,
+          bloodType,
+          rh: BLOOD_COMPONENTS[component].hasRh ? rh : "",
+          quantity: Number(quantity),
+          neededBy: zonedTimeToIso(neededBy, timeZone),
+          reason: reason.trim(),
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: "Need broadcast to the network" })
+        setQuantity("1")
+        setNeededBy("")
+        setReason("")
+        await fetchBroadcasts()
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to post the need", details: result.details })
+      }
+    } catch (err) {
+      console.error("Error posting shortage broadcast:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleClose = async (broadcast: ShortageBroadcast, status: "fulfilled" | "cancelled") => {
+    setClosingId(broadcast.broadcast_id)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/shortage-broadcasts/${broadcast.broadcast_id}/close`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: status === "fulfilled" ? "Need marked fulfilled" : "Broadcast cancelled" })
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to close the broadcast", details: result.details })
+      }
+      await fetchBroadcasts()
+    } catch (err) {
+      console.error("Error closing shortage broadcast:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setClosingId(null)
+    }
+  }
+
+  const renderBroadcast = (broadcast: ShortageBroadcast) => {
+    const isOpen = broadcast.status === "open"
+    const countdown = formatCountdown(broadcast.needed_by)
+    const component = isBloodComponentKey(broadcast.component_type) ? broadcast.component_type : null
+    // Hospitals worth asking: those that offered units, then those whose stock matches
+    const suppliers = [
+      ...broadcast.responses.map((response) => ({ ...response, count: response.quantity })),
+      ...broadcast.stockholders.filter(
+        (holder) => !broadcast.responses.some((response) => response.hospital_id === holder.hospital_id),
+      ),
+    ]
+
+    return (
+      <Card key={broadcast.broadcast_id}>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                {broadcast.quantity} ×{" "}
+                <Badge className={getBloodTypeColor(broadcast.blood_type, broadcast.rh)}>
+                  {formatBloodType(broadcast.blood_type, broadcast.rh)}
+                </Badge>{" "}
+                {getComponentLabel(broadcast.component_type)}
+              </CardTitle>
+              <CardDescription>
+                Needed by {formatDate(broadcast.needed_by, timeZone)}
+                {isOpen &&
+                  (isExpired(broadcast.needed_by) ? " · past deadline" : countdown && ` · ${countdown} left`)}
+                {" · "}posted {new Date(broadcast.created_at).toLocaleString()}
+                {broadcast.created_by_username && ` by ${broadcast.created_by_username}`}
+              </CardDescription>
+            </div>
+            <Badge variant="outline" className={STATUS_BADGE_CLASSES[broadcast.status]}>
+              {SHORTAGE_BROADCAST_STATUS_LABELS[broadcast.status]}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm">{broadcast.reason}</p>
+          {!isOpen && broadcast.closed_at && (
+            <p className="text-sm text-muted-foreground">
+              {SHORTAGE_BROADCAST_STATUS_LABELS[broadcast.status]} {new Date(broadcast.closed_at).toLocaleString()}
+              {broadcast.closed_by_username && ` by ${broadcast.closed_by_username}`}
+            </p>
+          )}
+
+          {isOpen && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">
+                {suppliers.length > 0
+                  ? "Hospitals that could help"
+                  : "No responses yet and no hospital holds matching units"}
+              </div>
+              {suppliers.map((supplier) => {
+                const response = broadcast.responses.find((r) => r.hospital_id === supplier.hospital_id)
+                const stock = broadcast.stockholders.find((holder) => holder.hospital_id === supplier.hospital_id)
+
+                return (
+                  <div
+                    key={supplier.hospital_id}
+                    className={`flex flex-wrap justify-between items-center gap-2 p-3 border rounded-lg ${
+                      response ? "bg-green-50" : stock?.can_fill ? "bg-blue-50" : ""
+                    }`}
+                  >
+                    <div className="text-sm">
+                      <span className="font-medium">{supplier.hospital_name}</span>
+                      {response ? (
+                        <>
+                          {" "}
+                          offered {response.quantity} units
+                          {response.responded_by_username && ` (${response.responded_by_username})`}
+                          {response.message && <div className="text-muted-foreground">{response.message}</div>}
+                        </>
+                      ) : (
+                        ` has ${stock?.count ?? 0} matching units${stock?.can_fill ? ", enough to fill this need" : ""}`
+                      )}
+                    </div>
+                    {canManage && component && (
+                      <RequestTransferButton
+                        supplyingHospitalId={supplier.hospital_id}
+                        supplyingHospitalName={supplier.hospital_name}
+                        component={component}
+                        bloodType={broadcast.blood_type}
+                        rh={broadcast.rh}
+                        availableCount={Math.max(stock?.count ?? 0, response?.quantity ?? 0)}
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {isOpen && canManage && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                disabled={closingId === broadcast.broadcast_id}
+                onClick={() => handleClose(broadcast, "fulfilled")}
+              >
+                Mark Fulfilled
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-600 hover:text-red-800 hover:bg-red-100"
+                disabled={closingId === broadcast.broadcast_id}
+                onClick={() => handleClose(broadcast, "cancelled")}
+              >
+                Cancel Broadcast
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert
+          variant={message.type === "error" ? "destructive" : undefined}
+          className={message.type === "success" ? "border-green-500 text-green-700 bg-green-50" : ""}
+        >
+          {message.type === "error" ? <AlertCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+          <AlertDescription>
+            <div className="font-medium">{message.text}</div>
+            {message.details && <div className="text-sm mt-1">{message.details}</div>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <NetworkShortages
+        broadcasts={network}
+        hospitalId={hospitalId}
+        canRespond={canManage}
+        timeZone={timeZone}
+        onResponded={fetchBroadcasts}
+      />
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Siren className="h-5 w-5" />
+              Broadcast a Need
+            </CardTitle>
+            <CardDescription>
+              The need appears at the top of every other hospital's dashboard until you mark it fulfilled or cancel it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handlePost} className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="shortage-component">Component</Label>
+                <Select value={component} onValueChange={(value) => setComponent(value as BloodComponentKey)}>
+                  <SelectTrigger id="shortage-component">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_COMPONENT_LIST.map((definition) => (
+                      <SelectItem key={definition.key} value={definition.key}>
+                        {definition.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-4">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="shortage-bloodType">Blood Type</Label>
+                  <Select value={bloodType} onValueChange={setBloodType}>
+                    <SelectTrigger id="shortage-bloodType">
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {["A", "B", "AB", "O"].map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {BLOOD_COMPONENTS[component].hasRh && (
+                  <div className="space-y-2 flex-1">
+                    <Label htmlFor="shortage-rh">Rh Factor</Label>
+                    <Select value={rh} onValueChange={setRh}>
+                      <SelectTrigger id="shortage-rh">
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="+">Positive (+)</SelectItem>
+                        <SelectItem value="-">Negative (-)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shortage-quantity-needed">Units Needed</Label>
+                <Input
+                  id="shortage-quantity-needed"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shortage-neededBy">Needed By</Label>
+                <Input
+                  id="shortage-neededBy"
+                  type="datetime-local"
+                  min={`${zonedToday(timeZone)}T00:00`}
+                  value={neededBy}
+                  onChange={(e) => setNeededBy(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="shortage-reason">Reason</Label>
+                <Textarea
+                  id="shortage-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Major trauma, massive transfusion protocol activated"
+                  maxLength={500}
+                  required
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Broadcasting..." : "Broadcast Need"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Your Broadcasts</h2>
+        {!isLoading && own.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Your hospital hasn't broadcast any needs in the last 90 days.
+            </CardContent>
+          </Card>
+        ) : (
+          own.map(renderBroadcast)
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, CheckCircle2 } from "lucide-react"
+import { BLOOD_COMPONENT_LIST, type BloodComponentKey } from "@/lib/blood-components"
+import { formatStockAmount, type StockLevels, type StockMeasure } from "@/lib/stock-levels"
+import { formatBloodType } from "@/lib/utils"
+
+type StockLevelSettingsProps = {
+  initialLevels: StockLevels
+}
+
+// Levels being edited; numbers stay as typed until saved
+type DraftLevel = { blood_type: string; rh: string; minimum: string; target: string; maximum: string }
+type DraftComponent = { measure: StockMeasure; levels: DraftLevel[] }
+
+const toDrafts = (levels: StockLevels) =>
+  Object.fromEntries(
+    Object.entries(levels).map(([key, list]) => [
+      key,
+      {
+        // Levels are edited in one measure per component
+        measure: list[0]?.measure ?? "ml",
+        levels: list.map((level) => ({
+          blood_type: level.blood_type,
+          rh: level.rh,
+          minimum: String(level.minimum),
+          target: String(level.target),
+          maximum: String(level.maximum),
+        })),
+      },
+    ]),
+  ) as Record<BloodComponentKey, DraftComponent>
+
+// Edit the minimum, target and maximum stock kept of each component and blood group
+export default function StockLevelSettings({ initialLevels }: StockLevelSettingsProps) {
+  const [drafts, setDrafts] = useState(() => toDrafts(initialLevels))
+  const [savingComponent, setSavingComponent] = useState<BloodComponentKey | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string; details?: string } | null>(null)
+
+  const updateLevel = (component: BloodComponentKey, index: number, changes: Partial<DraftLevel>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [component]: {
+        ...prev[component],
+        levels: prev[component].levels.map((level, i) => (i === index ? { ...level, ...changes } : level)),
+      },
+    }))
+  }
+
+  const saveLevels = async (component: BloodComponentKey, draft: DraftComponent | null) => {
+    setSavingComponent(component)
+    setMessage(null)
+
+    try {
+      const response = await fetch("/api/stock-levels", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          component,
+          measure: draft?.measure ?? "ml",
+          levels: (draft?.levels ?? []).map((level) => ({
+            bloodType: level.blood_type,
+            rh: level.rh,
+            minimum: Number(level.minimum),
+            target: Number(level.target),
+            maximum: Number(level.maximum),
+          })),
+        }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setDrafts((prev) => ({ ...prev, [component]: toDrafts(result.data)[component] }))
+        setMessage({ type: "success", text: "Stock levels saved" })
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to save stock levels", details: result.details })
+      }
+    } catch (err) {
+      console.error("Error saving stock levels:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setSavingComponent(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert
+          variant={message.type === "error" ? "destructive" : undefined}
+          className={message.type === "success" ? "border-green-500 text-green-700 bg-green-50" : ""}
+        >
+          {message.type === "error" ? <AlertCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+          <AlertDescription>
+            <div className="font-medium">{message.text}</div>
+            {message.details && <div className="text-sm mt-1">{message.details}</div>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {BLOOD_COMPONENT_LIST.map(({ key, label, stockLevels: defaults }) => {
+        const draft = drafts[key]
+
+        return (
+          <Card key={key}>
+            <CardHeader>
+              <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                  <CardTitle>{label}</CardTitle>
+                  <CardDescription>
+                    Below the minimum stock is critical, below the target it is low, and above the maximum other
+                    hospitals are told you have surplus.
+                  </CardDescription>
+                </div>
+                <div className="space-y-1 w-36">
+                  <Label htmlFor={`measure-${key}`}>Measured in</Label>
+                  <Select
+                    value={draft.measure}
+                    onValueChange={(value) =>
+                      setDrafts((prev) => ({ ...prev, [key]: { ...prev[key], measure: value as StockMeasure } }))
+                    }
+                  >
+                    <SelectTrigger id={`measure-${key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="units">Units</SelectItem>
+                      <SelectItem value="ml">Millilitres</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="rounded-md border overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Blood Type</TableHead>
+                      <TableHead>Minimum</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead>Maximum</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {draft.levels.map((level, index) => {
+                      const group = formatBloodType(level.blood_type, level.rh)
+
+                      return (
+                        <TableRow key={group}>
+                          <TableCell className="font-medium">{group}</TableCell>
+                          {(["minimum", "target", "maximum"] as const).map((field) => (
+                            <TableCell key={field}>
+                              <Input
+                                aria-label={`${group} ${field}`}
+                                type="number"
+                                min={0}
+                                value={level[field]}
+                                onChange={(e) => updateLevel(key, index, { [field]: e.target.value })}
+                                className="w-28"
+                              />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={savingComponent !== null}
+                  onClick={() => saveLevels(key, null)}
+                >
+                  Restore Defaults ({[defaults.minimum, defaults.target, defaults.maximum]
+                    .map((value) => formatStockAmount(value, "ml"))
+                    .join(" / ")})
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="ml-auto"
+                  disabled={savingComponent !== null}
+                  onClick={() => saveLevels(key, draft)}
+                >
+                  {savingComponent === key ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,336 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, RefreshCw } from "lucide-react"
+import {
+  DEFAULT_TEMPERATURE_RANGES,
+  STORAGE_UNIT_TYPE_LABELS,
+  STORAGE_UNIT_TYPES,
+  type StorageUnit,
+  type StorageUnitType,
+} from "@/lib/storage-unit-types"
+
+type StorageContentProps = {
+  // Whether the signed-in admin may add, edit and retire storage units
+  canManage: boolean
+}
+
+type StorageUnitForm = {
+  name: string
+  unitType: StorageUnitType
+  minTempC: string
+  maxTempC: string
+  capacity: string
+}
+
+const EMPTY_UNIT: StorageUnitForm = {
+  name: "",
+  unitType: "refrigerator",
+  minTempC: String(DEFAULT_TEMPERATURE_RANGES.refrigerator.min),
+  maxTempC: String(DEFAULT_TEMPERATURE_RANGES.refrigerator.max),
+  capacity: "",
+}
+
+const toForm = (unit: StorageUnit): StorageUnitForm => ({
+  name: unit.name,
+  unitType: unit.unit_type,
+  minTempC: String(unit.min_temp_c),
+  maxTempC: String(unit.max_temp_c),
+  capacity: String(unit.capacity),
+})
+
+// Share of a unit's capacity in use, in percent
+const getUsage = (unit: StorageUnit) => Math.min(100, Math.round((unit.bag_count / unit.capacity) * 100))
+
+export default function StorageContent({ canManage }: StorageContentProps) {
+  const [units, setUnits] = useState<StorageUnit[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState<StorageUnitForm>(EMPTY_UNIT)
+  // Unit being edited, or null when the form adds a new one
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<{ message: string; details?: string } | null>(null)
+
+  const fetchUnits = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/storage-units${canManage ? "?includeInactive=true" : ""}`)
+      const result = await response.json()
+      setUnits(result.success ? result.data : [])
+    } catch (err) {
+      console.error("Error fetching storage units:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchUnits()
+  }, [])
+
+  const updateField = (name: keyof StorageUnitForm, value: string) => {
+    setForm((prev) => {
+      const next = { ...prev, [name]: value }
+
+      // Changing the kind of unit suggests its usual temperature range
+      if (name === "unitType") {
+        const range = DEFAULT_TEMPERATURE_RANGES[value as StorageUnitType]
+        next.minTempC = String(range.min)
+        next.maxTempC = String(range.max)
+      }
+
+      return next
+    })
+  }
+
+  const saveUnit = async (body: Record<string, unknown>, storageUnitId: number | null) => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(storageUnitId ? `/api/storage-units/${storageUnitId}` : "/api/storage-units", {
+        method: storageUnitId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError({ message: result.error || "Failed to save storage unit", details: result.details })
+        return false
+      }
+
+      await fetchUnits()
+      return true
+    } catch (err) {
+      console.error("Error saving storage unit:", err)
+      setError({ message: "An unexpected error occurred" })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const editing = units.find((unit) => unit.storage_unit_id === editingId)
+    const saved = await saveUnit(
+      {
+        name: form.name,
+        unitType: form.unitType,
+        minTempC: Number(form.minTempC),
+        maxTempC: Number(form.maxTempC),
+        capacity: Number(form.capacity),
+        active: editing?.active ?? true,
+      },
+      editingId,
+    )
+
+    if (saved) {
+      setForm(EMPTY_UNIT)
+      setEditingId(null)
+    }
+  }
+
+  // Take a unit out of service or return it to service
+  const toggleActive = (unit: StorageUnit) =>
+    saveUnit(
+      {
+        name: unit.name,
+        unitType: unit.unit_type,
+        minTempC: unit.min_temp_c,
+        maxTempC: unit.max_temp_c,
+        capacity: unit.capacity,
+        active: !unit.active,
+      },
+      unit.storage_unit_id,
+    )
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="lg:col-span-2 space-y-4">
+        <div className="flex justify-between items-center">
+          <p className="text-sm text-muted-foreground">
+            Bags counted are those still held by the blood bank, including quarantined and expired units.
+          </p>
+          <Button variant="outline" size="sm" onClick={fetchUnits} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {!isLoading && units.length === 0 && (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">No storage units yet.</CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {units.map((unit) => {
+            const usage = getUsage(unit)
+
+            return (
+              <Card key={unit.storage_unit_id} className={unit.active ? "" : "opacity-60"}>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <CardTitle className="text-lg">{unit.name}</CardTitle>
+                    {!unit.active && <Badge variant="outline">Out of service</Badge>}
+                  </div>
+                  <CardDescription>
+                    {STORAGE_UNIT_TYPE_LABELS[unit.unit_type]} · {unit.min_temp_c} °C to {unit.max_temp_c} °C
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>
+                      {unit.bag_count} of {unit.capacity} bags
+                    </span>
+                    <span className={usage >= 90 ? "text-red-600 font-medium" : "text-muted-foreground"}>
+                      {usage}%
+                    </span>
+                  </div>
+                  <Progress value={usage} className="h-2" />
+
+                  {canManage && (
+                    <div className="flex gap-2 pt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingId(unit.storage_unit_id)
+                          setForm(toForm(unit))
+                          setError(null)
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => toggleActive(unit)}>
+                        {unit.active ? "Take Out of Service" : "Return to Service"}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      </div>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? "Edit Storage Unit" : "Add Storage Unit"}</CardTitle>
+            <CardDescription>Refrigerators, freezers and platelet agitators</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <div className="font-medium">{error.message}</div>
+                  {error.details && <div className="text-sm mt-1">{error.details}</div>}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="storage-name">Name</Label>
+                <Input
+                  id="storage-name"
+                  value={form.name}
+                  onChange={(e) => updateField("name", e.target.value)}
+                  placeholder="e.g. Blood Bank Fridge 2"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="storage-unitType">Type</Label>
+                <Select value={form.unitType} onValueChange={(value) => updateField("unitType", value)}>
+                  <SelectTrigger id="storage-unitType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STORAGE_UNIT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {STORAGE_UNIT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="storage-minTempC">Min °C</Label>
+                  <Input
+                    id="storage-minTempC"
+                    type="number"
+                    step="0.1"
+                    value={form.minTempC}
+                    onChange={(e) => updateField("minTempC", e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="storage-maxTempC">Max °C</Label>
+                  <Input
+                    id="storage-maxTempC"
+                    type="number"
+                    step="0.1"
+                    value={form.maxTempC}
+                    onChange={(e) => updateField("maxTempC", e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="storage-capacity">Capacity (bags)</Label>
+                <Input
+                  id="storage-capacity"
+                  type="number"
+                  min={1}
+                  value={form.capacity}
+                  onChange={(e) => updateField("capacity", e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="flex gap-2">
+                {editingId && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingId(null)
+                      setForm(EMPTY_UNIT)
+                      setError(null)
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" className="flex-1" disabled={isSaving}>
+                  {isSaving ? "Saving..." : editingId ? "Save Changes" : "Add Storage Unit"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,8 @@ import { formatBloodType, getBloodTypeColor } from "@/lib/utils"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { AlertTriangle } from "lucide-react"
+import { getComponentByEntryType } from "@/lib/blood-components"
+import RequestTransferButton from "@/components/request-transfer-button"
 
 type SurplusAlert = {
   type: string
@@ -17,9 +19,11 @@ type SurplusAlert = {
 
 type SurplusAlertsProps = {
   alerts: SurplusAlert[]
+  // Whether the signed-in admin may ask the hospitals for a transfer
+  canRequestTransfer?: boolean
 }
 
-export default function SurplusAlerts({ alerts }: SurplusAlertsProps) {
+export default function SurplusAlerts({ alerts, canRequestTransfer = false }: SurplusAlertsProps) {
   if (alerts.length === 0) {
     return (
       <Card>
@@ -44,27 +48,41 @@ export default function SurplusAlerts({ alerts }: SurplusAlertsProps) {
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {alerts.map((alert, index) => (
-            <div key={index} className="flex items-start gap-3 p-3 border rounded-lg bg-amber-50">
-              <AlertTriangle className="h-5 w-5 text-amber-500 mt-0.5" />
-              <div>
-                <div className="font-medium">
-                  {alert.hospitalName} has <span className="font-bold">{alert.count} units</span> of{" "}
-                  <Badge className={getBloodTypeColor(alert.bloodType, alert.rh)}>
-                    {formatBloodType(alert.bloodType, alert.rh)}
-                  </Badge>{" "}
-                  {alert.type}
-                </div>
-                <div className="text-sm text-muted-foreground">You currently have {alert.yourCount} units</div>
-                {(alert.contactPhone || alert.contactEmail) && (
-                  <div className="mt-1 text-xs text-muted-foreground">
-                    Contact: {alert.contactPhone && <span className="mr-2">{alert.contactPhone}</span>}
-                    {alert.contactEmail && <span>{alert.contactEmail}</span>}
+          {alerts.map((alert, index) => {
+            const component = getComponentByEntryType(alert.type)
+
+            return (
+              <div key={index} className="flex items-start gap-3 p-3 border rounded-lg bg-amber-50">
+                <AlertTriangle className="h-5 w-5 text-amber-500 mt-0.5" />
+                <div>
+                  <div className="font-medium">
+                    {alert.hospitalName} has <span className="font-bold">{alert.count} units</span> of{" "}
+                    <Badge className={getBloodTypeColor(alert.bloodType, alert.rh)}>
+                      {formatBloodType(alert.bloodType, alert.rh)}
+                    </Badge>{" "}
+                    {component?.label ?? alert.type}
                   </div>
-                )}
+                  <div className="text-sm text-muted-foreground">You currently have {alert.yourCount} units</div>
+                  {(alert.contactPhone || alert.contactEmail) && (
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      Contact: {alert.contactPhone && <span className="mr-2">{alert.contactPhone}</span>}
+                      {alert.contactEmail && <span>{alert.contactEmail}</span>}
+                    </div>
+                  )}
+                  {canRequestTransfer && component && (
+                    <RequestTransferButton
+                      supplyingHospitalId={alert.hospitalId}
+                      supplyingHospitalName={alert.hospitalName}
+                      component={component.key}
+                      bloodType={alert.bloodType}
+                      rh={alert.rh}
+                      availableCount={alert.count}
+                    />
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,426 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, CheckCircle2, RefreshCw, Thermometer } from "lucide-react"
+import { BLOOD_COMPONENTS, isBloodComponentKey } from "@/lib/blood-components"
+import { isUnitStatus, UNIT_STATUS_LABELS } from "@/lib/unit-lifecycle"
+import type { StorageUnit } from "@/lib/storage-unit-types"
+
+type TemperatureContentProps = {
+  // Whether the signed-in admin may enter readings by hand
+  canRecord: boolean
+  // Whether the signed-in admin may release or discard quarantined bags
+  canReview: boolean
+}
+
+type TemperatureReading = {
+  reading_id: number
+  storage_unit_id: number
+  storage_unit_name: string
+  temperature_c: number
+  recorded_at: string
+  source: "manual" | "monitor"
+  recorded_by_username: string | null
+  out_of_range: boolean
+}
+
+type ExcursionBag = {
+  component_type: string
+  bag_id: number
+  previous_status: string
+  outcome: "released" | "discarded" | null
+  reviewed_at: string | null
+  reviewed_by_username: string | null
+}
+
+type TemperatureExcursion = {
+  excursion_id: number
+  storage_unit_name: string
+  temperature_c: number
+  min_temp_c: number
+  max_temp_c: number
+  detected_at: string
+  resolved_at: string | null
+  resolved_by_username: string | null
+  bags: ExcursionBag[]
+}
+
+type Decision = { component: string; bagId: number; outcome: "released" | "discarded" }
+
+const getComponentLabel = (key: string) => (isBloodComponentKey(key) ? BLOOD_COMPONENTS[key].label : key)
+
+const getStatusLabel = (status: string) => (isUnitStatus(status) ? UNIT_STATUS_LABELS[status] : status)
+
+export default function TemperatureContent({ canRecord, canReview }: TemperatureContentProps) {
+  const [storageUnits, setStorageUnits] = useState<StorageUnit[]>([])
+  const [readings, setReadings] = useState<TemperatureReading[]>([])
+  const [excursions, setExcursions] = useState<TemperatureExcursion[]>([])
+  const [includeResolved, setIncludeResolved] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [storageUnitId, setStorageUnitId] = useState("")
+  const [temperature, setTemperature] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  // Excursion whose review is being saved
+  const [reviewingId, setReviewingId] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string; details?: string } | null>(null)
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true)
+      const [unitsResponse, readingsResponse, excursionsResponse] = await Promise.all([
+        fetch("/api/storage-units"),
+        fetch("/api/temperature-readings"),
+        fetch(`/api/temperature-excursions${includeResolved ? "?includeResolved=true" : ""}`),
+      ])
+      const [unitsResult, readingsResult, excursionsResult] = await Promise.all([
+        unitsResponse.json(),
+        readingsResponse.json(),
+        excursionsResponse.json(),
+      ])
+
+      setStorageUnits(unitsResult.success ? unitsResult.data : [])
+      setReadings(readingsResult.success ? readingsResult.data : [])
+      setExcursions(excursionsResult.success ? excursionsResult.data : [])
+    } catch (err) {
+      console.error("Error fetching temperature data:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [includeResolved])
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch("/api/temperature-readings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ storageUnitId: Number(storageUnitId), temperatureC: Number(temperature) }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setMessage({ type: "error", text: result.error || "Failed to record reading", details: result.details })
+        return
+      }
+
+      const [excursion] = result.data.excursions
+      setMessage(
+        excursion
+          ? {
+              type: "error",
+              text: "Temperature out of range",
+              details: `${excursion.quarantined} bag(s) were quarantined and are awaiting review.`,
+            }
+          : { type: "success", text: "Reading recorded" },
+      )
+      setTemperature("")
+      await fetchData()
+    } catch (err) {
+      console.error("Error recording temperature reading:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const submitReview = async (excursionId: number, decisions: Decision[]) => {
+    setReviewingId(excursionId)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/temperature-excursions/${excursionId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decisions }),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: result.data.closed ? "Excursion closed" : "Review saved" })
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to save review", details: result.details })
+      }
+      await fetchData()
+    } catch (err) {
+      console.error("Error reviewing excursion:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  // Apply one outcome to every bag of an excursion still awaiting review
+  const reviewAll = (excursion: TemperatureExcursion, outcome: Decision["outcome"]) =>
+    submitReview(
+      excursion.excursion_id,
+      excursion.bags
+        .filter((bag) => !bag.outcome)
+        .map((bag) => ({ component: bag.component_type, bagId: bag.bag_id, outcome })),
+    )
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert
+          variant={message.type === "error" ? "destructive" : undefined}
+          className={message.type === "success" ? "border-green-500 text-green-700 bg-green-50" : ""}
+        >
+          {message.type === "error" ? <AlertCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+          <AlertDescription>
+            <div className="font-medium">{message.text}</div>
+            {message.details && <div className="text-sm mt-1">{message.details}</div>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {canRecord && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Record Reading</CardTitle>
+            <CardDescription>
+              Readings outside a unit's range quarantine every bag stored in it until reviewed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleRecord} className="flex flex-col md:flex-row gap-4 md:items-end">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="reading-storageUnit">Storage Unit</Label>
+                <Select value={storageUnitId} onValueChange={setStorageUnitId}>
+                  <SelectTrigger id="reading-storageUnit">
+                    <SelectValue placeholder="Select a storage unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {storageUnits.map((unit) => (
+                      <SelectItem key={unit.storage_unit_id} value={String(unit.storage_unit_id)}>
+                        {unit.name} ({unit.min_temp_c} to {unit.max_temp_c} °C)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:w-40">
+                <Label htmlFor="reading-temperature">Temperature °C</Label>
+                <Input
+                  id="reading-temperature"
+                  type="number"
+                  step="0.1"
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={isSaving || !storageUnitId || temperature === ""}>
+                <Thermometer className="h-4 w-4 mr-2" />
+                {isSaving ? "Recording..." : "Record"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-xl font-semibold">Excursions</h2>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="include-resolved" checked={includeResolved} onCheckedChange={setIncludeResolved} />
+            <Label htmlFor="include-resolved">Show closed</Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchData} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {!isLoading && excursions.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {includeResolved ? "No excursions recorded." : "No open excursions."}
+          </CardContent>
+        </Card>
+      )}
+
+      {excursions.map((excursion) => {
+        const pendingCount = excursion.bags.filter((bag) => !bag.outcome).length
+        const isReviewing = reviewingId === excursion.excursion_id
+        const isOpen = !excursion.resolved_at
+
+        return (
+          <Card key={excursion.excursion_id} className={isOpen ? "border-red-300" : ""}>
+            <CardHeader>
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                  <CardTitle className="text-lg">
+                    {excursion.storage_unit_name}: {excursion.temperature_c} °C
+                  </CardTitle>
+                  <CardDescription>
+                    Allowed {excursion.min_temp_c} to {excursion.max_temp_c} °C · detected{" "}
+                    {new Date(excursion.detected_at).toLocaleString()}
+                  </CardDescription>
+                </div>
+                {isOpen ? (
+                  <Badge variant="destructive">{pendingCount} awaiting review</Badge>
+                ) : (
+                  <Badge variant="outline">
+                    Closed {new Date(excursion.resolved_at!).toLocaleString()}
+                    {excursion.resolved_by_username && ` · ${excursion.resolved_by_username}`}
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {excursion.bags.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No bags were stored in the unit.</p>
+              ) : (
+                <div className="rounded-md border overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Component</TableHead>
+                        <TableHead>Bag ID</TableHead>
+                        <TableHead>Status Before</TableHead>
+                        <TableHead>Outcome</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {excursion.bags.map((bag) => (
+                        <TableRow key={`${bag.component_type}-${bag.bag_id}`}>
+                          <TableCell>{getComponentLabel(bag.component_type)}</TableCell>
+                          <TableCell>{bag.bag_id}</TableCell>
+                          <TableCell>{getStatusLabel(bag.previous_status)}</TableCell>
+                          <TableCell>
+                            {bag.outcome ? (
+                              <span className={bag.outcome === "discarded" ? "text-red-600" : "text-green-700"}>
+                                {bag.outcome === "released" ? "Released" : "Discarded"}
+                                {bag.reviewed_by_username && ` by ${bag.reviewed_by_username}`}
+                              </span>
+                            ) : canReview && isOpen ? (
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={isReviewing}
+                                  onClick={() =>
+                                    submitReview(excursion.excursion_id, [
+                                      { component: bag.component_type, bagId: bag.bag_id, outcome: "released" },
+                                    ])
+                                  }
+                                >
+                                  Release
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  disabled={isReviewing}
+                                  onClick={() =>
+                                    submitReview(excursion.excursion_id, [
+                                      { component: bag.component_type, bagId: bag.bag_id, outcome: "discarded" },
+                                    ])
+                                  }
+                                >
+                                  Discard
+                                </Button>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">Awaiting review</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {canReview && isOpen && (
+                <div className="flex flex-wrap gap-2">
+                  {pendingCount > 0 ? (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isReviewing}
+                        onClick={() => reviewAll(excursion, "released")}
+                      >
+                        Release All
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isReviewing}
+                        onClick={() => reviewAll(excursion, "discarded")}
+                      >
+                        Discard All
+                      </Button>
+                    </>
+                  ) : (
+                    <Button size="sm" disabled={isReviewing} onClick={() => submitReview(excursion.excursion_id, [])}>
+                      Close Excursion
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Readings</CardTitle>
+          <CardDescription>The latest 100 readings across all storage units</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {readings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No readings recorded yet.</p>
+          ) : (
+            <div className="rounded-md border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recorded</TableHead>
+                    <TableHead>Storage Unit</TableHead>
+                    <TableHead>Temperature</TableHead>
+                    <TableHead>Source</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {readings.map((reading) => (
+                    <TableRow key={reading.reading_id}>
+                      <TableCell>{new Date(reading.recorded_at).toLocaleString()}</TableCell>
+                      <TableCell>{reading.storage_unit_name}</TableCell>
+                      <TableCell className={reading.out_of_range ? "text-red-600 font-medium" : ""}>
+                        {reading.temperature_c} °C
+                      </TableCell>
+                      <TableCell>
+                        {reading.source === "monitor" ? "Monitor" : `Manual · ${reading.recorded_by_username ?? "unknown"}`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
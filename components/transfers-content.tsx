@@ -0,0 +1,450 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertCircle, CheckCircle2, PackageCheck, RefreshCw, Truck } from "lucide-react"
+import { BLOOD_COMPONENTS, isBloodComponentKey } from "@/lib/blood-components"
+import { formatLocation } from "@/lib/storage-unit-types"
+import {
+  CANCELLABLE_TRANSFER_STATUSES,
+  FILLED_TRANSFER_STATUSES,
+  TRANSFER_STATUS_LABELS,
+  type Transfer,
+} from "@/lib/transfer-types"
+import { formatBloodType, formatDate, getBloodTypeColor } from "@/lib/utils"
+
+type TransfersContentProps = {
+  // Whether the signed-in admin may request, answer and cancel transfers
+  canManage: boolean
+  // Whether the signed-in admin may ship and receive bags
+  canHandle: boolean
+  // The hospital's time zone, which expiry times are shown in
+  timeZone: string
+}
+
+type CandidateBag = {
+  bag_id: number
+  amount: number
+  expiration_date: string
+  storage_unit_name: string | null
+  storage_position: string | null
+}
+
+type Message = { type: "success" | "error"; text: string; details?: string }
+
+const getComponentLabel = (key: string) => (isBloodComponentKey(key) ? BLOOD_COMPONENTS[key].label : key)
+
+const STATUS_BADGE_CLASSES: Partial<Record<Transfer["status"], string>> = {
+  requested: "bg-amber-100 text-amber-800",
+  accepted: "bg-blue-100 text-blue-800",
+  partially_filled: "bg-blue-100 text-blue-800",
+  in_transit: "bg-purple-100 text-purple-800",
+  received: "bg-green-100 text-green-800",
+}
+
+export default function TransfersContent({ canManage, canHandle, timeZone }: TransfersContentProps) {
+  const [incoming, setIncoming] = useState<Transfer[]>([])
+  const [outgoing, setOutgoing] = useState<Transfer[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  // Transfer whose action is being saved
+  const [actingId, setActingId] = useState<number | null>(null)
+  const [message, setMessage] = useState<Message | null>(null)
+
+  // Request being filled, with the bags that could fill it
+  const [filling, setFilling] = useState<Transfer | null>(null)
+  const [candidates, setCandidates] = useState<CandidateBag[]>([])
+  const [selectedBagIds, setSelectedBagIds] = useState<number[]>([])
+
+  // Request being shipped, declined or cancelled, with the text asked for
+  const [pending, setPending] = useState<{ transfer: Transfer; action: "ship" | "decline" | "cancel" } | null>(null)
+  const [note, setNote] = useState("")
+
+  const fetchTransfers = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch("/api/transfers")
+      const result = await response.json()
+
+      setIncoming(result.success ? result.data.incoming : [])
+      setOutgoing(result.success ? result.data.outgoing : [])
+    } catch (err) {
+      console.error("Error fetching transfers:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTransfers()
+  }, [])
+
+  const submit = async (transferId: number, action: string, body: object, successText: string) => {
+    setActingId(transferId)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/transfers/${transferId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setMessage({ type: "success", text: successText })
+      } else {
+        setMessage({ type: "error", text: result.error || "Failed to update transfer", details: result.details })
+      }
+      await fetchTransfers()
+      return result.success as boolean
+    } catch (err) {
+      console.error("Error updating transfer:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+      return false
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  const openFill = async (transfer: Transfer) => {
+    setFilling(transfer)
+    setCandidates([])
+    setSelectedBagIds([])
+
+    try {
+      const response = await fetch(`/api/transfers/${transfer.transfer_id}/candidate-bags`)
+      const result = await response.json()
+      const bags: CandidateBag[] = result.success ? result.data : []
+
+      setCandidates(bags)
+      // Preselect the bags expiring soonest, which the list starts with
+      setSelectedBagIds(bags.slice(0, transfer.quantity).map((bag) => bag.bag_id))
+    } catch (err) {
+      console.error("Error fetching candidate bags:", err)
+    }
+  }
+
+  const toggleBag = (bagId: number, checked: boolean) =>
+    setSelectedBagIds((prev) => (checked ? [...prev, bagId] : prev.filter((id) => id !== bagId)))
+
+  const handleFill = async () => {
+    if (!filling) return
+    const partial = selectedBagIds.length < filling.quantity
+    const done = await submit(
+      filling.transfer_id,
+      "respond",
+      { decision: "accept", bagIds: selectedBagIds },
+      partial ? "Request partially filled" : "Request accepted",
+    )
+    if (done) setFilling(null)
+  }
+
+  const handlePending = async () => {
+    if (!pending) return
+    const { transfer, action } = pending
+    const text = note.trim() || undefined
+
+    const done =
+      action === "ship"
+        ? await submit(transfer.transfer_id, "ship", { courier: text }, "Transfer shipped")
+        : action === "decline"
+          ? await submit(transfer.transfer_id, "respond", { decision: "decline", reason: text }, "Request declined")
+          : await submit(transfer.transfer_id, "cancel", { reason: text }, "Transfer cancelled")
+    if (done) setPending(null)
+  }
+
+  const openPending = (transfer: Transfer, action: "ship" | "decline" | "cancel") => {
+    setPending({ transfer, action })
+    setNote("")
+  }
+
+  const renderTransfer = (transfer: Transfer, side: "incoming" | "outgoing") => {
+    const isActing = actingId === transfer.transfer_id
+    const otherHospital = side === "incoming" ? transfer.requesting_hospital_name : transfer.supplying_hospital_name
+    const canCancel = canManage && CANCELLABLE_TRANSFER_STATUSES.includes(transfer.status)
+
+    return (
+      <Card key={transfer.transfer_id}>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                {transfer.quantity} ×{" "}
+                <Badge className={getBloodTypeColor(transfer.blood_type, transfer.rh)}>
+                  {formatBloodType(transfer.blood_type, transfer.rh)}
+                </Badge>{" "}
+                {getComponentLabel(transfer.component_type)}
+              </CardTitle>
+              <CardDescription>
+                {side === "incoming" ? "Requested by" : "Requested from"} {otherHospital} ·{" "}
+                {new Date(transfer.requested_at).toLocaleString()}
+                {transfer.requested_by_username && ` by ${transfer.requested_by_username}`}
+              </CardDescription>
+            </div>
+            <Badge variant="outline" className={STATUS_BADGE_CLASSES[transfer.status] ?? ""}>
+              {TRANSFER_STATUS_LABELS[transfer.status]}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {transfer.notes && <p className="text-sm">Notes: {transfer.notes}</p>}
+          {transfer.status_note && (
+            <p className="text-sm text-muted-foreground">
+              {transfer.status === "declined" ? "Declined" : "Cancelled"}: {transfer.status_note}
+            </p>
+          )}
+          {transfer.bag_ids.length > 0 && (
+            <p className="text-sm">
+              Bags: {transfer.bag_ids.map((bagId) => `#${bagId}`).join(", ")}
+              {transfer.bag_ids.length < transfer.quantity && ` (${transfer.bag_ids.length} of ${transfer.quantity})`}
+            </p>
+          )}
+
+          {transfer.custody.length > 0 && (
+            <div className="rounded-md border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bag ID</TableHead>
+                    <TableHead>Hand-off</TableHead>
+                    <TableHead>Hospital</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>When</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfer.custody.map((event) => (
+                    <TableRow key={event.custody_event_id}>
+                      <TableCell>{event.bag_id}</TableCell>
+                      <TableCell>
+                        {event.event === "shipped" ? "Shipped" : "Received"}
+                        {event.courier && ` via ${event.courier}`}
+                      </TableCell>
+                      <TableCell>{event.hospital_name}</TableCell>
+                      <TableCell>{event.admin_username ?? "—"}</TableCell>
+                      <TableCell>{new Date(event.occurred_at).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {side === "incoming" && transfer.status === "requested" && canManage && (
+              <>
+                <Button size="sm" disabled={isActing} onClick={() => openFill(transfer)}>
+                  Choose Bags
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isActing}
+                  onClick={() => openPending(transfer, "decline")}
+                >
+                  Decline
+                </Button>
+              </>
+            )}
+            {side === "incoming" && FILLED_TRANSFER_STATUSES.includes(transfer.status) && canHandle && (
+              <Button size="sm" disabled={isActing} onClick={() => openPending(transfer, "ship")}>
+                <Truck className="h-4 w-4 mr-2" />
+                Ship
+              </Button>
+            )}
+            {side === "outgoing" && transfer.status === "in_transit" && canHandle && (
+              <Button
+                size="sm"
+                disabled={isActing}
+                onClick={() => submit(transfer.transfer_id, "receive", {}, "Transfer received into your inventory")}
+              >
+                <PackageCheck className="h-4 w-4 mr-2" />
+                Receive
+              </Button>
+            )}
+            {canCancel && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-600 hover:text-red-800 hover:bg-red-100"
+                disabled={isActing}
+                onClick={() => openPending(transfer, "cancel")}
+              >
+                Cancel Transfer
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderList = (transfers: Transfer[], side: "incoming" | "outgoing") => {
+    if (!isLoading && transfers.length === 0) {
+      return (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {side === "incoming"
+              ? "No other hospital has asked you for units."
+              : "You haven't requested units. Use a surplus alert on the dashboard to ask another hospital."}
+          </CardContent>
+        </Card>
+      )
+    }
+
+    return <div className="space-y-4">{transfers.map((transfer) => renderTransfer(transfer, side))}</div>
+  }
+
+  const pendingTitles = { ship: "Ship Transfer", decline: "Decline Request", cancel: "Cancel Transfer" }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <Alert
+          variant={message.type === "error" ? "destructive" : undefined}
+          className={message.type === "success" ? "border-green-500 text-green-700 bg-green-50" : ""}
+        >
+          {message.type === "error" ? <AlertCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+          <AlertDescription>
+            <div className="font-medium">{message.text}</div>
+            {message.details && <div className="text-sm mt-1">{message.details}</div>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="incoming">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <TabsList>
+            <TabsTrigger value="incoming">Requests to You ({incoming.length})</TabsTrigger>
+            <TabsTrigger value="outgoing">Your Requests ({outgoing.length})</TabsTrigger>
+          </TabsList>
+          <Button variant="outline" size="sm" onClick={fetchTransfers} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <TabsContent value="incoming">{renderList(incoming, "incoming")}</TabsContent>
+        <TabsContent value="outgoing">{renderList(outgoing, "outgoing")}</TabsContent>
+      </Tabs>
+
+      <Dialog open={filling !== null} onOpenChange={(open) => !open && setFilling(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Choose Bags</DialogTitle>
+            <DialogDescription>
+              {filling &&
+                `${filling.requesting_hospital_name} asked for ${filling.quantity} units. Fewer bags fill the request partially; the bags are reserved until shipped.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {candidates.length === 0 ? (
+            <p className="py-4 text-sm text-muted-foreground">No available, unexpired bags of this type.</p>
+          ) : (
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Bag ID</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Location</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.map((bag) => {
+                    const checked = selectedBagIds.includes(bag.bag_id)
+                    return (
+                      <TableRow key={bag.bag_id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={checked}
+                            disabled={!checked && filling !== null && selectedBagIds.length >= filling.quantity}
+                            onCheckedChange={(value) => toggleBag(bag.bag_id, value === true)}
+                            aria-label={`Send bag ${bag.bag_id}`}
+                          />
+                        </TableCell>
+                        <TableCell>{bag.bag_id}</TableCell>
+                        <TableCell>{bag.amount} ml</TableCell>
+                        <TableCell>{formatDate(bag.expiration_date, timeZone)}</TableCell>
+                        <TableCell>{formatLocation(bag.storage_unit_name, bag.storage_position)}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setFilling(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleFill}
+              disabled={selectedBagIds.length === 0 || (filling !== null && actingId === filling.transfer_id)}
+            >
+              Send {selectedBagIds.length} {selectedBagIds.length === 1 ? "Bag" : "Bags"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{pending && pendingTitles[pending.action]}</DialogTitle>
+            <DialogDescription>
+              {pending?.action === "ship"
+                ? "The bags leave your storage and stay in transit until the requesting hospital receives them."
+                : pending?.action === "decline"
+                  ? "The requesting hospital will see the request as declined."
+                  : "Bags reserved for the transfer go back into the supplier's stock."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="transfer-note">{pending?.action === "ship" ? "Courier" : "Reason"}</Label>
+            <Input
+              id="transfer-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              maxLength={pending?.action === "ship" ? 100 : 500}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPending(null)}>
+              Back
+            </Button>
+            <Button
+              variant={pending?.action === "ship" ? "default" : "destructive"}
+              onClick={handlePending}
+              disabled={pending !== null && actingId === pending.transfer.transfer_id}
+            >
+              {pending && pendingTitles[pending.action]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
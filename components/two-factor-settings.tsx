@@ -0,0 +1,236 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import QrCode from "@/components/qr-code"
+import RecoveryCodesList from "@/components/recovery-codes-list"
+import { AlertCircle, CheckCircle2, Loader2, ShieldCheck } from "lucide-react"
+
+type TwoFactorStatus = {
+  enabled: boolean
+  requiredByHospital: boolean
+  recoveryCodesRemaining: number
+}
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  // Enrollment in progress: the secret is shown until the first code is confirmed
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const fetchStatus = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch("/api/account/two-factor")
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch two-factor status")
+      }
+
+      const data = await response.json()
+      setStatus(data.data)
+    } catch (err) {
+      console.error("Error fetching two-factor status:", err)
+      setMessage({ type: "error", text: "Failed to load two-factor settings. Please try again." })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatus()
+  }, [])
+
+  // Send a request and show its error, returning the response data on success
+  const submit = async (url: string, method: string, body?: Record<string, unknown>) => {
+    setIsSubmitting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        setMessage({ type: "error", text: data.error || "Request failed" })
+        return null
+      }
+      return data
+    } catch (err) {
+      console.error("Two-factor settings error:", err)
+      setMessage({ type: "error", text: "An unexpected error occurred" })
+      return null
+    } finally {
+      setIsSubmitting(false)
+      setCode("")
+    }
+  }
+
+  const handleStartEnrollment = async () => {
+    const data = await submit("/api/account/two-factor/setup", "POST")
+    if (data) {
+      setEnrollment(data.data)
+    }
+  }
+
+  const handleConfirmEnrollment = async () => {
+    const data = await submit("/api/account/two-factor/confirm", "POST", { code })
+    if (data) {
+      setEnrollment(null)
+      setRecoveryCodes(data.data.recoveryCodes)
+      setMessage({ type: "success", text: "Two-factor authentication is now enabled" })
+      fetchStatus()
+    }
+  }
+
+  const handleRegenerateCodes = async () => {
+    const data = await submit("/api/account/two-factor/recovery-codes", "POST", { code })
+    if (data) {
+      setRecoveryCodes(data.data.recoveryCodes)
+      setMessage({ type: "success", text: "New recovery codes issued. The old codes no longer work." })
+      fetchStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    const data = await submit("/api/account/two-factor", "DELETE", { code })
+    if (data) {
+      setRecoveryCodes(null)
+      setMessage({ type: "success", text: "Two-factor authentication has been turned off" })
+      fetchStatus()
+    }
+  }
+
+  const otpInput = (
+    <InputOTP maxLength={6} value={code} onChange={setCode} inputMode="numeric" disabled={isSubmitting}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>Require a code from an authenticator app in addition to your password</CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "outline"}>{status.enabled ? "Enabled" : "Disabled"}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && (
+          <div
+            className={`p-4 rounded-md flex items-center ${
+              message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+            }`}
+          >
+            {message.type === "success" ? (
+              <CheckCircle2 className="h-5 w-5 mr-2" />
+            ) : (
+              <AlertCircle className="h-5 w-5 mr-2" />
+            )}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        {isLoading && !status && (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading...
+          </div>
+        )}
+
+        {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+        {status && !status.enabled && !enrollment && (
+          <div className="space-y-3">
+            {status.requiredByHospital && (
+              <p className="text-sm text-amber-700">
+                Your hospital requires two-factor authentication. You'll be asked to set it up at your next login if
+                you don't do it now.
+              </p>
+            )}
+            <Button onClick={handleStartEnrollment} disabled={isSubmitting}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Set up authenticator app
+            </Button>
+          </div>
+        )}
+
+        {enrollment && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows to finish setup.
+            </p>
+            <div className="flex flex-col items-center gap-2">
+              <QrCode value={enrollment.otpauthUrl} />
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key manually:</p>
+              <code className="text-sm font-mono break-all">{enrollment.secret}</code>
+            </div>
+            <div className="flex flex-col items-center gap-3">
+              {otpInput}
+              <div className="flex gap-2">
+                <Button onClick={handleConfirmEnrollment} disabled={isSubmitting || code.length !== 6}>
+                  Confirm
+                </Button>
+                <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"}{" "}
+              remaining.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="currentCode">Current code or recovery code</Label>
+              <Input
+                id="currentCode"
+                className="max-w-xs"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-muted-foreground">Required to regenerate recovery codes or turn 2FA off.</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRegenerateCodes} disabled={isSubmitting || !code}>
+                Regenerate recovery codes
+              </Button>
+              {!status.requiredByHospital && (
+                <Button variant="destructive" onClick={handleDisable} disabled={isSubmitting || !code}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
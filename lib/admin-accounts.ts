@@ -0,0 +1,420 @@
+import { createHash, randomBytes } from "crypto"
+import { executeQuery } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { hashPassword, isPasswordHash, verifyLegacyPassword, verifyPasswordHash } from "./password"
+import { getPasswordPolicyViolations } from "./password-policy"
+import { canAssignRole, isAdminRole, type AdminRole } from "./permissions"
+import { revokeAdminSessions } from "./session-store"
+import { assertLoginAllowed, clearFailedLogins, LoginThrottleError, recordFailedLogin } from "./login-throttle"
+
+export const DEFAULT_INVITE_TTL_HOURS = 72
+export const MAX_INVITE_TTL_HOURS = 14 * 24
+export const PASSWORD_RESET_TTL_HOURS = 24
+
+// Unambiguous characters for invite codes (no 0/O, 1/I/L)
+const INVITE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789"
+const INVITE_CODE_LENGTH = 12
+
+export type AccountStatus = "pending" | "active" | "rejected"
+
+// Generate a human-friendly invite code such as "K7QM-2XRD-9HTP"
+function generateInviteCode(): string {
+  const bytes = randomBytes(INVITE_CODE_LENGTH)
+  let code = ""
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_ALPHABET[bytes[i] % INVITE_ALPHABET.length]
+  }
+  return code.match(/.{1,4}/g)!.join("-")
+}
+
+// Normalize user input (case, spaces, dashes) and hash it for lookup
+function hashInviteCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "")
+  return createHash("sha256").update(normalized).digest("hex")
+}
+
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token.trim()).digest("hex")
+}
+
+// Reject passwords that break the policy, reporting the first broken rule
+function assertPasswordPolicy(password: string, username?: string | null) {
+  const violations = getPasswordPolicyViolations(password, username)
+  if (violations.length > 0) {
+    throw new AppError(ErrorType.VALIDATION, violations[0])
+  }
+}
+
+// Store a new password hash for an admin
+async function setAdminPassword(adminId: number, password: string) {
+  const passwordHash = await hashPassword(password)
+  await executeQuery(
+    (sql) => sql`
+      UPDATE admin SET admin_password = ${passwordHash}, password_changed_at = NOW()
+      WHERE admin_id = ${adminId}
+    `,
+  )
+}
+
+// Create a single-use invite for a hospital and role; the code is only returned here
+export async function createInvite(
+  hospitalId: number,
+  role: AdminRole,
+  createdBy: number,
+  ttlHours = DEFAULT_INVITE_TTL_HOURS,
+) {
+  try {
+    if (!isAdminRole(role)) {
+      throw new AppError(ErrorType.VALIDATION, "Invalid role")
+    }
+
+    const hours = Math.min(Math.max(1, Math.floor(ttlHours)), MAX_INVITE_TTL_HOURS)
+    const code = generateInviteCode()
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000)
+
+    const result = await executeQuery<{ invite_id: number }[]>(
+      (sql) => sql`
+        INSERT INTO admin_invites (code_hash, hospital_id, role, created_by, expires_at)
+        VALUES (${hashInviteCode(code)}, ${hospitalId}, ${role}, ${createdBy}, ${expiresAt.toISOString()})
+        RETURNING invite_id
+      `,
+    )
+
+    return { inviteId: result[0].invite_id, code, role, expiresAt: expiresAt.toISOString() }
+  } catch (error) {
+    throw logError(error, "Create Invite")
+  }
+}
+
+// List invites for a hospital that can still be used
+export async function getActiveInvites(hospitalId: number) {
+  try {
+    return await executeQuery<Record<string, unknown>[]>(
+      (sql) => sql`
+        SELECT i.invite_id, i.role, i.created_at, i.expires_at, a.admin_username as created_by_username
+        FROM admin_invites i
+        JOIN admin a ON i.created_by = a.admin_id
+        WHERE i.hospital_id = ${hospitalId}
+          AND i.used_at IS NULL
+          AND i.revoked_at IS NULL
+          AND i.expires_at > NOW()
+        ORDER BY i.created_at DESC
+      `,
+    )
+  } catch (error) {
+    throw logError(error, "Get Active Invites")
+  }
+}
+
+// Revoke an unused invite
+export async function revokeInvite(inviteId: number, hospitalId: number) {
+  try {
+    const result = await executeQuery<{ invite_id: number }[]>(
+      (sql) => sql`
+        UPDATE admin_invites SET revoked_at = NOW()
+        WHERE invite_id = ${inviteId} AND hospital_id = ${hospitalId} AND used_at IS NULL AND revoked_at IS NULL
+        RETURNING invite_id
+      `,
+    )
+    return { success: result.length > 0 }
+  } catch (error) {
+    throw logError(error, "Revoke Invite")
+  }
+}
+
+// Register a new admin. With a valid invite the account is active immediately with the
+// invite's hospital and role; without one it is created as a pending viewer.
+export async function registerAdmin(
+  username: string,
+  password: string,
+  hospitalId: number | null,
+  inviteCode?: string | null,
+): Promise<{ success: boolean; status: AccountStatus }> {
+  try {
+    // Check if username already exists
+    const usernameCheck = await executeQuery<{ admin_id: number }[]>(
+      (sql) => sql`SELECT admin_id FROM admin WHERE admin_username = ${username}`,
+    )
+
+    if (usernameCheck.length > 0) {
+      throw new AppError(ErrorType.VALIDATION, "Username already exists")
+    }
+
+    assertPasswordPolicy(password, username)
+
+    const passwordHash = await hashPassword(password)
+
+    if (inviteCode) {
+      const codeHash = hashInviteCode(inviteCode)
+
+      // Claim the invite and create the account in one transaction, so a failed insert
+      // leaves the invite unused and the invite cannot be used twice
+      const [created] = await executeQuery<{ admin_id: number }[][]>(
+        (sql) =>
+          sql.transaction([
+            sql`
+              WITH claimed AS (
+                UPDATE admin_invites SET used_at = NOW()
+                WHERE code_hash = ${codeHash}
+                  AND used_at IS NULL
+                  AND revoked_at IS NULL
+                  AND expires_at > NOW()
+                RETURNING hospital_id, role
+              )
+              INSERT INTO admin (admin_username, admin_password, hospital_id, role, status)
+              SELECT ${username}, ${passwordHash}, hospital_id, role, 'active' FROM claimed
+              RETURNING admin_id
+            `,
+            sql`
+              UPDATE admin_invites
+              SET used_by = (SELECT MAX(admin_id) FROM admin WHERE admin_username = ${username})
+              WHERE code_hash = ${codeHash} AND used_at IS NOT NULL AND used_by IS NULL
+            `,
+          ]),
+        { retryConfig: { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0, backoffFactor: 1 } },
+      )
+
+      if (created.length === 0) {
+        throw new AppError(ErrorType.VALIDATION, "Invite code is invalid, expired or already used")
+      }
+
+      return { success: true, status: "active" }
+    }
+
+    if (!hospitalId) {
+      throw new AppError(ErrorType.VALIDATION, "Hospital ID is required without an invite code")
+    }
+
+    // First check if the hospital exists
+    const hospitalCheck = await executeQuery<{ hospital_id: number }[]>(
+      (sql) => sql`SELECT hospital_id FROM hospital WHERE hospital_id = ${hospitalId}`,
+    )
+
+    if (hospitalCheck.length === 0) {
+      throw new AppError(ErrorType.VALIDATION, "Hospital not found")
+    }
+
+    await executeQuery(
+      (sql) => sql`
+        INSERT INTO admin (admin_username, admin_password, hospital_id, role, status)
+        VALUES (${username}, ${passwordHash}, ${hospitalId}, 'viewer', 'pending')
+      `,
+    )
+
+    queryCache.invalidate(`pending-admins:${hospitalId}`)
+    return { success: true, status: "pending" }
+  } catch (error) {
+    throw logError(error, "Register Admin")
+  }
+}
+
+// List accounts waiting for approval at a hospital
+export async function getPendingAdmins(hospitalId: number) {
+  try {
+    return await executeQuery<Record<string, unknown>[]>(
+      (sql) => sql`
+        SELECT admin_id, admin_username, created_at
+        FROM admin
+        WHERE hospital_id = ${hospitalId} AND status = 'pending'
+        ORDER BY created_at
+      `,
+      { cacheKey: `pending-admins:${hospitalId}` },
+    )
+  } catch (error) {
+    throw logError(error, "Get Pending Admins")
+  }
+}
+
+// Approve a pending account with a role, or reject it
+export async function reviewPendingAdmin(
+  adminId: number,
+  hospitalId: number,
+  reviewerId: number,
+  decision: "approve" | "reject",
+  role: AdminRole = "viewer",
+) {
+  try {
+    const status: AccountStatus = decision === "approve" ? "active" : "rejected"
+
+    const result = await executeQuery<{ admin_id: number }[]>(
+      (sql) => sql`
+        UPDATE admin
+        SET status = ${status}, role = ${role}, approved_by = ${reviewerId}, approved_at = NOW()
+        WHERE admin_id = ${adminId} AND hospital_id = ${hospitalId} AND status = 'pending'
+        RETURNING admin_id
+      `,
+    )
+
+    queryCache.invalidate(`pending-admins:${hospitalId}`)
+
+    if (result.length === 0) {
+      return { success: false, error: "Pending account not found" }
+    }
+    return { success: true }
+  } catch (error) {
+    throw logError(error, "Review Pending Admin")
+  }
+}
+
+// Change an admin's own password after checking the current one. Every other session
+// the admin holds is revoked; the session making the change stays signed in.
+export async function changeAdminPassword(
+  adminId: number,
+  currentPassword: string,
+  newPassword: string,
+  currentSessionId?: string,
+) {
+  try {
+    const rows = await executeQuery<{ admin_username: string; admin_password: string | null }[]>(
+      (sql) => sql`SELECT admin_username, admin_password FROM admin WHERE admin_id = ${adminId}`,
+    )
+
+    const admin = rows[0]
+    if (!admin) {
+      throw new AppError(ErrorType.NOT_FOUND, "Account not found")
+    }
+
+    // Wrong current passwords count towards the same lockout as failed logins, so a
+    // stolen session can't be used to guess the password
+    await assertLoginAllowed(admin.admin_username)
+
+    const stored = String(admin.admin_password ?? "")
+    const valid = isPasswordHash(stored)
+      ? await verifyPasswordHash(currentPassword, stored)
+      : verifyLegacyPassword(currentPassword, stored)
+
+    if (!valid) {
+      const lockoutSeconds = await recordFailedLogin(admin.admin_username)
+      if (lockoutSeconds > 0) {
+        throw new LoginThrottleError(lockoutSeconds)
+      }
+      throw new AppError(ErrorType.VALIDATION, "Current password is incorrect")
+    }
+    await clearFailedLogins(admin.admin_username)
+
+    if (newPassword === currentPassword) {
+      throw new AppError(ErrorType.VALIDATION, "New password must be different from the current password")
+    }
+    assertPasswordPolicy(newPassword, admin.admin_username)
+
+    await setAdminPassword(adminId, newPassword)
+    const revokedSessions = await revokeAdminSessions(adminId, currentSessionId)
+
+    return { success: true, revokedSessions }
+  } catch (error) {
+    throw logError(error, "Change Admin Password")
+  }
+}
+
+// Active colleagues at a hospital, for choosing whose password to reset
+export async function getHospitalColleagues(hospitalId: number, excludeAdminId: number) {
+  try {
+    return await executeQuery<Record<string, unknown>[]>(
+      (sql) => sql`
+        SELECT admin_id, admin_username, role, password_changed_at
+        FROM admin
+        WHERE hospital_id = ${hospitalId} AND status = 'active' AND admin_id <> ${excludeAdminId}
+        ORDER BY admin_username
+      `,
+    )
+  } catch (error) {
+    throw logError(error, "Get Hospital Colleagues")
+  }
+}
+
+// Issue a single-use reset token for a colleague at the same hospital. Issuers cannot
+// reset accounts whose role is above their own. Older unused tokens stop working.
+export async function createPasswordResetToken(
+  adminId: number,
+  hospitalId: number,
+  issuedBy: number,
+  issuerRole: AdminRole,
+) {
+  try {
+    if (adminId === issuedBy) {
+      throw new AppError(ErrorType.VALIDATION, "Use Change Password to update your own password")
+    }
+
+    const targets = await executeQuery<{ admin_username: string; role: string }[]>(
+      (sql) => sql`
+        SELECT admin_username, role FROM admin
+        WHERE admin_id = ${adminId} AND hospital_id = ${hospitalId} AND status = 'active'
+      `,
+    )
+
+    const target = targets[0]
+    if (!target) {
+      throw new AppError(ErrorType.NOT_FOUND, "Account not found")
+    }
+    if (!isAdminRole(target.role) || !canAssignRole(issuerRole, target.role)) {
+      throw new AppError(ErrorType.FORBIDDEN, "You cannot reset the password of this account")
+    }
+
+    const token = randomBytes(32).toString("base64url")
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_HOURS * 60 * 60 * 1000)
+
+    await executeQuery(async (sql) => {
+      await sql`
+        UPDATE password_reset_tokens SET revoked_at = NOW()
+        WHERE admin_id = ${adminId} AND used_at IS NULL AND revoked_at IS NULL
+      `
+      await sql`
+        INSERT INTO password_reset_tokens (token_hash, admin_id, issued_by, expires_at)
+        VALUES (${hashResetToken(token)}, ${adminId}, ${issuedBy}, ${expiresAt.toISOString()})
+      `
+    })
+
+    return { token, username: String(target.admin_username), expiresAt: expiresAt.toISOString() }
+  } catch (error) {
+    throw logError(error, "Create Password Reset Token")
+  }
+}
+
+// Set a new password with a reset token, then sign the admin out everywhere
+export async function resetPasswordWithToken(token: string, newPassword: string) {
+  try {
+    const rows = await executeQuery<{ token_id: number; admin_id: number; admin_username: string }[]>(
+      (sql) => sql`
+        SELECT t.token_id, t.admin_id, a.admin_username
+        FROM password_reset_tokens t
+        JOIN admin a ON t.admin_id = a.admin_id
+        WHERE t.token_hash = ${hashResetToken(token)}
+          AND t.used_at IS NULL
+          AND t.revoked_at IS NULL
+          AND t.expires_at > NOW()
+      `,
+    )
+
+    const reset = rows[0]
+    if (!reset) {
+      throw new AppError(ErrorType.VALIDATION, "This reset link is invalid, expired or already used")
+    }
+
+    // Check the policy before claiming the token so a rejected password doesn't use it up
+    assertPasswordPolicy(newPassword, reset.admin_username)
+
+    // Claim the token atomically so it cannot be used twice
+    const claimed = await executeQuery<{ token_id: number }[]>(
+      (sql) => sql`
+        UPDATE password_reset_tokens SET used_at = NOW()
+        WHERE token_id = ${reset.token_id} AND used_at IS NULL AND revoked_at IS NULL
+        RETURNING token_id
+      `,
+      { retryConfig: { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0, backoffFactor: 1 } },
+    )
+
+    if (claimed.length === 0) {
+      throw new AppError(ErrorType.VALIDATION, "This reset link is invalid, expired or already used")
+    }
+
+    await setAdminPassword(reset.admin_id, newPassword)
+    await revokeAdminSessions(reset.admin_id)
+    // A reset is often the answer to a lockout, so start the new password with a clean slate
+    await clearFailedLogins(reset.admin_username)
+
+    return { success: true }
+  } catch (error) {
+    throw logError(error, "Reset Password With Token")
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { AppError, ErrorType } from "./error-handling"
+
+// HTTP status for an application error that reaches an API route
+export function getErrorStatus(error: AppError) {
+  switch (error.type) {
+    case ErrorType.AUTHENTICATION:
+      return 401
+    case ErrorType.FORBIDDEN:
+      return 403
+    case ErrorType.NOT_FOUND:
+      return 404
+    case ErrorType.CONFLICT:
+      return 409
+    case ErrorType.RATE_LIMIT:
+      return 429
+    case ErrorType.DATABASE_CONNECTION:
+      return 503
+    default:
+      return 400
+  }
+}
+
+// JSON error response for API routes; unexpected errors become a 500 with a generic message.
+// Only validation errors pass their details on, since other details can describe internals.
+export function apiErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        type: error.type,
+        ...(error.type === ErrorType.VALIDATION && error.details ? { details: error.details } : {}),
+      },
+      { status: getErrorStatus(error) },
+    )
+  }
+
+  return NextResponse.json({ success: false, error: fallbackMessage }, { status: 500 })
+}
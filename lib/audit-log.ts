@@ -0,0 +1,222 @@
+import { z } from "zod"
+import { dbClient } from "./db"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { BLOOD_COMPONENT_KEYS, BLOOD_COMPONENTS, type BloodComponentKey } from "./blood-components"
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore", "status", "move", "transfer"] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+// The signed-in admin making a change, taken from the session. A null admin marks
+// an automatic change, such as a quarantine triggered by the temperature monitor.
+export type AuditActor = {
+  adminId: number | null
+  hospitalId: number
+}
+
+export type AuditLogFilters = {
+  bagId?: number
+  adminId?: number
+  action?: AuditAction
+  componentType?: BloodComponentKey
+  startDate?: string
+  endDate?: string
+  limit?: number
+}
+
+function requireDbClient() {
+  if (!dbClient) {
+    throw new AppError(
+      ErrorType.DATABASE_CONNECTION,
+      "Database client not initialized",
+      "Database URL environment variable may be missing or invalid",
+    )
+  }
+  return dbClient
+}
+
+/**
+ * Insert an inventory row and its audit entry in a single statement, so the
+ * bag can't be stored without a matching audit row. Returns the new row.
+ */
+export async function insertWithAudit(table: BloodComponentKey, actor: AuditActor, values: Record<string, unknown>) {
+  const { tableName } = BLOOD_COMPONENTS[table]
+  const columns = Object.keys(values)
+  const params: unknown[] = [actor.adminId, table, ...Object.values(values)]
+  const placeholders = columns.map((_, index) => `$${index + 3}`)
+
+  const rows = await requireDbClient().query(
+    `
+      WITH changed AS (
+        INSERT INTO ${tableName} (${columns.join(", ")})
+        VALUES (${placeholders.join(", ")})
+        RETURNING *
+      ), audit AS (
+        INSERT INTO audit_log (admin_id, hospital_id, bag_id, component_type, action, before_data, after_data)
+        SELECT $1, changed.hospital_id, changed.bag_id, $2, 'create', NULL, to_jsonb(changed)
+        FROM changed
+      )
+      SELECT * FROM changed
+    `,
+    params,
+  )
+
+  return (rows[0] as Record<string, unknown>) ?? null
+}
+
+/**
+ * Update a bag at the actor's hospital and record its before and after state in
+ * the same statement. `expected` limits the update to rows whose columns still
+ * hold the given values. The entry goes to the log of the hospital holding the
+ * bag afterwards, which differs only when a transfer moves it to another hospital.
+ * Returns the updated row, or null if no row matched.
+ */
+export async function updateWithAudit(
+  table: BloodComponentKey,
+  action: AuditAction,
+  actor: AuditActor,
+  bagId: number,
+  changes: Record<string, unknown>,
+  { onlyActive = false, expected = {} }: { onlyActive?: boolean; expected?: Record<string, unknown> } = {},
+) {
+  const { tableName } = BLOOD_COMPONENTS[table]
+  const params: unknown[] = [bagId, actor.hospitalId, actor.adminId, table, action]
+  const assignments = Object.entries(changes).map(([column, value]) => {
+    params.push(value)
+    return `${column} = $${params.length}`
+  })
+  const conditions = Object.entries(expected).map(([column, value]) => {
+    params.push(value)
+    return `AND ${column} = $${params.length}`
+  })
+  const activeCondition = [onlyActive ? "AND active = true" : "", ...conditions].join(" ")
+
+  const rows = await requireDbClient().query(
+    `
+      WITH previous AS (
+        SELECT * FROM ${tableName}
+        WHERE bag_id = $1 AND hospital_id = $2 ${activeCondition}
+        FOR UPDATE
+      ), changed AS (
+        UPDATE ${tableName} SET ${assignments.join(", ")}
+        WHERE bag_id = $1 AND hospital_id = $2 ${activeCondition}
+        RETURNING *
+      ), audit AS (
+        INSERT INTO audit_log (admin_id, hospital_id, bag_id, component_type, action, before_data, after_data)
+        SELECT $3, changed.hospital_id, changed.bag_id, $4, $5, to_jsonb(previous), to_jsonb(changed)
+        FROM changed JOIN previous ON previous.bag_id = changed.bag_id
+      )
+      SELECT * FROM changed
+    `,
+    params,
+  )
+
+  return (rows[0] as Record<string, unknown>) ?? null
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+
+// Empty query-string values and "all" are treated as absent
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" || value === null || value === "all" ? undefined : value), schema.optional())
+
+export const auditLogQuerySchema = z.object({
+  bagId: optional(z.coerce.number().int().positive()),
+  adminId: optional(z.coerce.number().int().positive()),
+  action: optional(z.enum(AUDIT_ACTIONS)),
+  componentType: optional(z.enum(BLOOD_COMPONENT_KEYS)),
+  startDate: optional(isoDate),
+  endDate: optional(isoDate),
+  limit: optional(z.coerce.number().int().min(1).max(1000)),
+})
+
+// Parse and validate audit log filters from a URL's query string
+export function parseAuditLogQuery(searchParams: URLSearchParams): AuditLogFilters {
+  const result = auditLogQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid filter parameters", details)
+  }
+
+  return result.data
+}
+
+// Audit entries for a hospital, newest first
+export async function getAuditLog(hospitalId: number, filters: AuditLogFilters = {}) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const conditions = ["l.hospital_id = $1"]
+    const params: unknown[] = [hospitalId]
+
+    const param = (value: unknown) => {
+      params.push(value)
+      return `$${params.length}`
+    }
+
+    if (filters.bagId) {
+      conditions.push(`l.bag_id = ${param(filters.bagId)}`)
+    }
+    if (filters.adminId) {
+      conditions.push(`l.admin_id = ${param(filters.adminId)}`)
+    }
+    if (filters.action) {
+      conditions.push(`l.action = ${param(filters.action)}`)
+    }
+    if (filters.componentType) {
+      conditions.push(`l.component_type = ${param(filters.componentType)}`)
+    }
+    // Dates are inclusive calendar days
+    if (filters.startDate) {
+      conditions.push(`l.created_at >= ${param(filters.startDate)}::date`)
+    }
+    if (filters.endDate) {
+      conditions.push(`l.created_at < ${param(filters.endDate)}::date + INTERVAL '1 day'`)
+    }
+
+    const rows = await requireDbClient().query(
+      `
+        SELECT l.audit_id, l.created_at, l.admin_id, a.admin_username, l.bag_id, l.component_type, l.action,
+          l.before_data, l.after_data
+        FROM audit_log l
+        LEFT JOIN admin a ON l.admin_id = a.admin_id
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY l.created_at DESC, l.audit_id DESC
+        LIMIT ${param(filters.limit ?? 200)}
+      `,
+      params,
+    )
+
+    return rows as Record<string, unknown>[]
+  } catch (error) {
+    throw logError(error, "Get Audit Log")
+  }
+}
+
+// Admins who appear in a hospital's audit log, for filtering by actor
+export async function getAuditActors(hospitalId: number) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const rows = await requireDbClient().query(
+      `
+        SELECT DISTINCT a.admin_id, a.admin_username
+        FROM audit_log l
+        JOIN admin a ON l.admin_id = a.admin_id
+        WHERE l.hospital_id = $1
+        ORDER BY a.admin_username
+      `,
+      [hospitalId],
+    )
+
+    return rows as Record<string, unknown>[]
+  } catch (error) {
+    throw logError(error, "Get Audit Actors")
+  }
+}
@@ -1,19 +1,48 @@
-import { cookies } from "next/headers"
-import { verifyAdminCredentials, registerAdmin } from "./db"
+import { cookies, headers } from "next/headers"
+import { getAdminAccountStatus, verifyAdminCredentials } from "./db"
+import { registerAdmin } from "./admin-accounts"
 import { AppError, ErrorType, logError } from "./error-handling"
+import { createSessionRecord, findActiveSession, revokeSessionByToken } from "./session-store"
+import { SESSION_COOKIE_NAME, SESSION_TTL_MS } from "./session-token"
+import { hasPermission, type Permission } from "./permissions"
+import { assertLoginAllowed, clearFailedLogins, LoginThrottleError, recordFailedLogin } from "./login-throttle"
+import {
+  completeLoginChallenge,
+  confirmTwoFactorEnrollment,
+  createLoginChallenge,
+  getLoginChallengePurpose,
+  startTwoFactorEnrollment,
+  claimLoginChallengeAttempt,
+  verifyTwoFactorCode,
+} from "./two-factor"
+
+// Read the client IP and user agent for the session record
+async function getRequestMetadata() {
+  try {
+    const headerList = await headers()
+    const forwardedFor = headerList.get("x-forwarded-for")
+    return {
+      ipAddress: forwardedFor ? forwardedFor.split(",")[0].trim() : headerList.get("x-real-ip"),
+      userAgent: headerList.get("user-agent"),
+    }
+  } catch {
+    return {}
+  }
+}
 
 // Session management
-export async function createSession(adminId: number, hospitalId: number, username?: string, password?: string) {
+export async function createSession(adminId: number, hospitalId: number) {
   try {
-    const oneDay = 24 * 60 * 60 * 1000
-    cookies().set("adminId", adminId.toString(), { httpOnly: true, maxAge: oneDay })
-    cookies().set("hospitalId", hospitalId.toString(), { httpOnly: true, maxAge: oneDay })
+    const { token } = await createSessionRecord(adminId, hospitalId, await getRequestMetadata())
 
-    // Store credentials for API calls if provided
-    if (username && password) {
-      cookies().set("adminUsername", username, { httpOnly: true, maxAge: oneDay })
-      cookies().set("adminPassword", password, { httpOnly: true, maxAge: oneDay })
-    }
+    const cookieStore = await cookies()
+    cookieStore.set(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: Math.floor(SESSION_TTL_MS / 1000),
+    })
 
     return true
   } catch (error) {
@@ -23,16 +52,23 @@ export async function createSession(adminId: number, hospitalId: number, usernam
 
 export async function getSession() {
   try {
-    const adminId = cookies().get("adminId")?.value
-    const hospitalId = cookies().get("hospitalId")?.value
+    const cookieStore = await cookies()
+    const token = cookieStore.get(SESSION_COOKIE_NAME)?.value
 
-    if (!adminId || !hospitalId) {
+    if (!token) {
+      return null
+    }
+
+    const session = await findActiveSession(token)
+    if (!session) {
       return null
     }
 
     return {
-      adminId: Number(adminId),
-      hospitalId: Number(hospitalId),
+      adminId: session.adminId,
+      hospitalId: session.hospitalId,
+      role: session.role,
+      sessionId: session.sessionId,
     }
   } catch (error) {
     throw logError(error, "Get Session")
@@ -51,16 +87,26 @@ export async function clearSession() {
       sameSite: "strict" as const,
     }
 
+    const cookieStore = await cookies()
+
+    // Revoke the server-side session so the token cannot be reused
+    try {
+      await revokeSessionByToken(cookieStore.get(SESSION_COOKIE_NAME)?.value)
+    } catch (error) {
+      // Still clear the cookies even if the database is unreachable
+      logError(error, "Revoke Session")
+    }
+
     // Get all cookies to ensure we don't miss any
-    const allCookies = cookies().getAll()
+    const allCookies = cookieStore.getAll()
 
-    // Clear all authentication cookies
-    cookies().set("adminId", "", cookieOptions)
-    cookies().set("hospitalId", "", cookieOptions)
-    cookies().set("adminUsername", "", cookieOptions)
-    cookies().set("adminPassword", "", cookieOptions)
-    cookies().set("fallbackMode", "", cookieOptions)
-    cookies().set("sessionToken", "", cookieOptions)
+    // Clear all authentication cookies, including ones left by older versions
+    cookieStore.set(SESSION_COOKIE_NAME, "", cookieOptions)
+    cookieStore.set("adminId", "", cookieOptions)
+    cookieStore.set("hospitalId", "", cookieOptions)
+    cookieStore.set("adminUsername", "", cookieOptions)
+    cookieStore.set("adminPassword", "", cookieOptions)
+    cookieStore.set("fallbackMode", "", cookieOptions)
 
     // Clear any other session-related cookies that might exist
     for (const cookie of allCookies) {
@@ -69,7 +115,7 @@ export async function clearSession() {
         cookie.name.toLowerCase().includes("token") ||
         cookie.name.toLowerCase().includes("auth")
       ) {
-        cookies().set(cookie.name, "", cookieOptions)
+        cookieStore.set(cookie.name, "", cookieOptions)
       }
     }
 
@@ -99,16 +145,57 @@ export async function requireAuth() {
   }
 }
 
+// Authorization middleware: requires a session whose role grants the permission
+export async function requirePermission(permission: Permission) {
+  const session = await requireAuth()
+  if (!hasPermission(session.role, permission)) {
+    throw new AppError(ErrorType.FORBIDDEN, undefined, `Role "${session.role}" lacks permission "${permission}"`)
+  }
+  return session
+}
+
+// Accounts registered without an invite need approval before they can sign in
+function assertAccountActive(status: string | null | undefined) {
+  if (status === "pending") {
+    throw new AppError(ErrorType.AUTHENTICATION, "Your account is awaiting approval by a hospital admin")
+  }
+  if (status && status !== "active") {
+    throw new AppError(ErrorType.AUTHENTICATION, "This account is not active")
+  }
+}
+
 // Login function
 export async function login(username: string, password: string) {
   try {
+    const { ipAddress } = await getRequestMetadata()
+
+    // Refuse locked-out usernames and IPs before checking the password
+    await assertLoginAllowed(username, ipAddress)
+
     const admin = await verifyAdminCredentials(username, password)
 
     if (!admin) {
+      const lockoutSeconds = await recordFailedLogin(username, ipAddress)
+      if (lockoutSeconds > 0) {
+        throw new LoginThrottleError(lockoutSeconds)
+      }
       throw new AppError(ErrorType.AUTHENTICATION, "Invalid credentials")
     }
 
-    const sessionCreated = await createSession(admin.admin_id, admin.hospital_id, username, password)
+    assertAccountActive(admin.status)
+
+    // Enrolled accounts, and accounts at hospitals that require 2FA, need a second step
+    const purpose = await getLoginChallengePurpose(admin.admin_id)
+    if (purpose) {
+      const { challengeToken } = await createLoginChallenge(admin.admin_id, purpose)
+      const enrollment = purpose === "enroll" ? await startTwoFactorEnrollment(admin.admin_id) : null
+      return { success: true, twoFactor: { purpose, challengeToken, enrollment } }
+    }
+
+    // Failures are only forgotten once the login fully succeeds, so fresh challenges don't reset the count
+    await clearFailedLogins(username)
+
+    const sessionCreated = await createSession(admin.admin_id, admin.hospital_id)
 
     if (!sessionCreated) {
       throw new AppError(ErrorType.SERVER, "Failed to create session")
@@ -126,16 +213,75 @@ export async function login(username: string, password: string) {
   }
 }
 
+// Second login step: check the authenticator or recovery code, then create the session
+export async function completeTwoFactorLogin(challengeToken: string, code: string) {
+  try {
+    const challenge = await claimLoginChallengeAttempt(challengeToken)
+    const { ipAddress } = await getRequestMetadata()
+
+    await assertLoginAllowed(challenge.username, ipAddress)
+
+    let verified = false
+    let recoveryCodes: string[] | undefined
+
+    if (challenge.purpose === "enroll") {
+      // First code from a newly scanned authenticator app completes enrollment
+      try {
+        recoveryCodes = await confirmTwoFactorEnrollment(challenge.adminId, code)
+        verified = true
+      } catch (error) {
+        if (!(error instanceof AppError && error.type === ErrorType.VALIDATION)) {
+          throw error
+        }
+      }
+    } else {
+      verified = await verifyTwoFactorCode(challenge.adminId, code)
+    }
+
+    if (!verified) {
+      const lockoutSeconds = await recordFailedLogin(challenge.username, ipAddress)
+      if (lockoutSeconds > 0) {
+        throw new LoginThrottleError(lockoutSeconds)
+      }
+      throw new AppError(ErrorType.AUTHENTICATION, "Invalid authentication code")
+    }
+
+    // The account may have been deactivated or moved since the first step
+    const admin = await getAdminAccountStatus(challenge.adminId)
+    if (!admin) {
+      throw new AppError(ErrorType.AUTHENTICATION, "Invalid credentials")
+    }
+    assertAccountActive(admin.status)
+
+    await clearFailedLogins(challenge.username)
+    await completeLoginChallenge(challenge.challengeId)
+    await createSession(admin.admin_id, admin.hospital_id)
+
+    return { success: true, recoveryCodes }
+  } catch (error) {
+    if (error instanceof AppError && error.type === ErrorType.DATABASE_CONNECTION) {
+      throw error
+    }
+
+    throw logError(error, "Two-Factor Login")
+  }
+}
+
 // Register function
-export async function register(username: string, password: string, hospitalId: number) {
+export async function register(
+  username: string,
+  password: string,
+  hospitalId: number | null,
+  inviteCode?: string | null,
+) {
   try {
-    const result = await registerAdmin(username, password, hospitalId)
+    const result = await registerAdmin(username, password, hospitalId, inviteCode)
 
     if (!result.success) {
       throw new AppError(ErrorType.VALIDATION, "Registration failed")
     }
 
-    return { success: true }
+    return { success: true, status: result.status }
   } catch (error) {
     throw logError(error, "Register")
   }
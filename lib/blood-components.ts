@@ -0,0 +1,149 @@
+// Blood components stocked by the inventory. Repositories, API routes and UI
+// tabs are driven by this registry, so adding a component means adding an
+// entry here and creating its inventory table.
+//
+// This module is imported by client components and must stay free of server code.
+import type { StorageUnitType } from "./storage-unit-types"
+
+// Shelf life from collection for one way of storing or preserving a component
+export type ShelfLifeRule = {
+  name: string
+  days: number
+}
+
+export type BloodComponent = {
+  // Route segment, audit log component_type and cache key prefix
+  key: string
+  // Type name sent by the edit, delete and restore endpoints and shown in search results
+  entryType: string
+  label: string
+  bagLabel: string
+  tableName: string
+  // Whether bags record an Rh factor in addition to the ABO group
+  hasRh: boolean
+  // Default shelf-life rules, first one preselected; a hospital can replace them in its settings
+  shelfLifeRules: readonly ShelfLifeRule[]
+  // Kind of storage unit bags must be kept in
+  storageType: StorageUnitType
+  // Accepted bag volume in ml
+  volumeRange: { min: number; max: number }
+  // Default stock levels in ml per blood group; a hospital can replace them in its settings
+  stockLevels: { minimum: number; target: number; maximum: number }
+  // Tailwind text class for totals and the RGB triple used by charts
+  color: { text: string; rgb: string }
+  // ISBT 128 product description codes on the labels we receive that identify this
+  // component when a bag is scanned; extend from the ICCBBA product database as needed
+  isbtProductCodes: readonly string[]
+}
+
+export const BLOOD_COMPONENTS = {
+  redblood: {
+    key: "redblood",
+    entryType: "RedBlood",
+    label: "Red Blood Cells",
+    bagLabel: "Red blood cell bag",
+    tableName: "redblood_inventory",
+    hasRh: true,
+    shelfLifeRules: [
+      { name: "Additive solution (SAGM, AS-1)", days: 42 },
+      { name: "CPDA-1", days: 35 },
+      { name: "CPD / ACD", days: 21 },
+    ],
+    storageType: "refrigerator",
+    volumeRange: { min: 100, max: 500 },
+    stockLevels: { minimum: 500, target: 1500, maximum: 5000 },
+    color: { text: "text-red-600", rgb: "220, 38, 38" },
+    isbtProductCodes: ["E0224", "E0336", "E0382"],
+  },
+  plasma: {
+    key: "plasma",
+    entryType: "Plasma",
+    label: "Plasma",
+    bagLabel: "Plasma bag",
+    tableName: "plasma_inventory",
+    hasRh: false,
+    shelfLifeRules: [
+      { name: "Frozen at -25 °C or colder", days: 365 },
+      { name: "Frozen at -18 °C to -25 °C", days: 90 },
+    ],
+    storageType: "freezer",
+    volumeRange: { min: 100, max: 500 },
+    stockLevels: { minimum: 500, target: 1500, maximum: 5000 },
+    color: { text: "text-amber-600", rgb: "245, 158, 11" },
+    isbtProductCodes: ["E0701", "E0707", "E2555"],
+  },
+  platelets: {
+    key: "platelets",
+    entryType: "Platelets",
+    label: "Platelets",
+    bagLabel: "Platelets bag",
+    tableName: "platelets_inventory",
+    hasRh: true,
+    shelfLifeRules: [
+      { name: "Standard", days: 5 },
+      { name: "Bacterial tested or pathogen reduced", days: 7 },
+    ],
+    storageType: "platelet_agitator",
+    volumeRange: { min: 100, max: 500 },
+    stockLevels: { minimum: 500, target: 1500, maximum: 5000 },
+    color: { text: "text-blue-600", rgb: "59, 130, 246" },
+    isbtProductCodes: ["E3046", "E3084"],
+  },
+  cryo: {
+    key: "cryo",
+    entryType: "Cryoprecipitate",
+    label: "Cryoprecipitate",
+    bagLabel: "Cryoprecipitate bag",
+    tableName: "cryo_inventory",
+    hasRh: false,
+    shelfLifeRules: [{ name: "Frozen at -25 °C or colder", days: 365 }],
+    storageType: "freezer",
+    // Single units are small, so stock levels are much lower than for other components
+    volumeRange: { min: 10, max: 50 },
+    stockLevels: { minimum: 100, target: 300, maximum: 1000 },
+    color: { text: "text-cyan-600", rgb: "8, 145, 178" },
+    isbtProductCodes: ["E5155", "E5165"],
+  },
+  wholeblood: {
+    key: "wholeblood",
+    entryType: "WholeBlood",
+    label: "Whole Blood",
+    bagLabel: "Whole blood bag",
+    tableName: "wholeblood_inventory",
+    hasRh: true,
+    shelfLifeRules: [
+      { name: "CPDA-1", days: 35 },
+      { name: "CPD", days: 21 },
+    ],
+    storageType: "refrigerator",
+    volumeRange: { min: 350, max: 550 },
+    stockLevels: { minimum: 500, target: 1500, maximum: 5000 },
+    color: { text: "text-rose-800", rgb: "159, 18, 57" },
+    isbtProductCodes: ["E0001", "E0003"],
+  },
+} as const satisfies Record<string, BloodComponent>
+
+export type BloodComponentKey = keyof typeof BLOOD_COMPONENTS
+
+export type BloodComponentDefinition = (typeof BLOOD_COMPONENTS)[BloodComponentKey]
+
+export type BloodEntryType = BloodComponentDefinition["entryType"]
+
+// Registry keys in display order, typed as a non-empty tuple for z.enum
+export const BLOOD_COMPONENT_KEYS = Object.keys(BLOOD_COMPONENTS) as [BloodComponentKey, ...BloodComponentKey[]]
+
+export const BLOOD_COMPONENT_LIST: BloodComponentDefinition[] = BLOOD_COMPONENT_KEYS.map((key) => BLOOD_COMPONENTS[key])
+
+export function isBloodComponentKey(value: string): value is BloodComponentKey {
+  return Object.prototype.hasOwnProperty.call(BLOOD_COMPONENTS, value)
+}
+
+// Look up a component by the entry type sent from the edit, delete and restore UI
+export function getComponentByEntryType(entryType: string) {
+  return BLOOD_COMPONENT_LIST.find((component) => component.entryType === entryType)
+}
+
+// Cache key for a hospital's grouped inventory of a component
+export function getInventoryCacheKey(component: BloodComponentKey, hospitalId: number | string) {
+  return `${component}:${hospitalId}`
+}
@@ -1,23 +1,31 @@
 import { neon } from "@neondatabase/serverless"
 import { logError } from "./error-handling"
-import { dbClient } from "./db"
+import { dbClient, executeQuery, verifyEntryOwnership } from "./db"
 import { queryCache } from "./cache"
 import { isPreviewMode } from "./environment-detection"
-
-type DiagnosticFilters = {
+import { buildInventoryWhereClause, type InventoryFilters } from "./inventory-filters"
+import {
+  BLOOD_COMPONENTS,
+  getComponentByEntryType,
+  getInventoryCacheKey,
+  type BloodComponentKey,
+} from "./blood-components"
+import { updateWithAudit } from "./audit-log"
+import { getShelfLifeRules } from "./shelf-life-rules"
+import { checkShelfLife, resolveShelfLifeRule } from "./shelf-life"
+import { parseExpirationTime, toZonedInputValue } from "./expiry"
+import { getHospitalTimeZone } from "./hospital-settings"
+
+type DiagnosticFilters = InventoryFilters & {
   hospitalId: number
-  showAllHospitals?: boolean
-  bloodType?: string
-  rhFactor?: string
-  expirationStatus?: "all" | "valid" | "expired"
   limit?: number
 }
 
 /**
- * Utility function to directly query the red blood cell inventory
+ * Utility function to directly query one component's inventory
  * for diagnostic purposes with filtering capabilities
  */
-export async function diagnoseRedBloodInventory(filters: DiagnosticFilters) {
+export async function diagnoseComponentInventory(component: BloodComponentKey, filters: DiagnosticFilters) {
   try {
     if (!process.env.DATABASE_URL) {
       return {
@@ -28,106 +36,80 @@ export async function diagnoseRedBloodInventory(filters: DiagnosticFilters) {
     }
 
     const dbClient = neon(process.env.DATABASE_URL)
-    const { hospitalId, showAllHospitals, bloodType, rhFactor, expirationStatus = "all", limit = 100 } = filters
-
-    // Build the WHERE clause based on filters with proper table aliases
-    const conditions = []
-
-    // Always filter for active=true
-    conditions.push(`rb.active = true`)
-
-    if (!showAllHospitals) {
-      conditions.push(`rb.hospital_id = ${hospitalId}`)
-    }
-
-    if (bloodType) {
-      conditions.push(`rb.blood_type = '${bloodType}'`)
-    }
-
-    if (rhFactor) {
-      conditions.push(`rb.rh = '${rhFactor}'`)
-    }
+    const { tableName, hasRh } = BLOOD_COMPONENTS[component]
+    const { expirationStatus = "all", limit = 100, ...baseFilters } = filters
+    const { hospitalId, showAllHospitals, bloodType, rhFactor } = baseFilters
 
-    if (expirationStatus === "valid") {
-      conditions.push("rb.expiration_date > CURRENT_DATE")
-    } else if (expirationStatus === "expired") {
-      conditions.push("rb.expiration_date <= CURRENT_DATE")
-    }
+    // Components without an Rh factor are grouped by ABO type alone
+    const groupColumns = hasRh ? "inv.blood_type, inv.rh" : "inv.blood_type"
+    const groupSelect = hasRh ? groupColumns : "inv.blood_type, '' as rh"
 
-    // Construct the WHERE clause
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+    // Build the parameterized WHERE clause with the inv alias
+    const where = buildInventoryWhereClause(component, { ...baseFilters, expirationStatus }, { alias: "inv" })
 
     // Get raw inventory data with filters
     const rawInventoryQuery = `
-      SELECT rb.*, h.hospital_name
-      FROM redblood_inventory rb
-      JOIN hospital h ON rb.hospital_id = h.hospital_id
-      ${whereClause}
-      ORDER BY rb.expiration_date DESC
-      LIMIT ${limit}
+      SELECT inv.*, h.hospital_name, cb.admin_username as created_by_username, su.name as storage_unit_name
+      FROM ${tableName} inv
+      JOIN hospital h ON inv.hospital_id = h.hospital_id
+      LEFT JOIN admin cb ON inv.created_by = cb.admin_id
+      LEFT JOIN storage_units su ON inv.storage_unit_id = su.storage_unit_id
+      ${where.clause}
+      ORDER BY inv.expiration_date DESC
+      LIMIT $${where.params.length + 1}
     `
-    const rawInventory = await dbClient.query(rawInventoryQuery)
-
-    // For the aggregated and expired data queries, we need to add table aliases
-    // Create conditions for these queries with proper table aliases
-    const rbConditions = conditions.map((c) => {
-      // If the condition already has rb. prefix, keep it as is
-      if (c.startsWith("rb.")) return c
-      // Otherwise, add rb. prefix to column names
-      return c.replace(/blood_type|rh|expiration_date|hospital_id|active/g, (match) => `rb.${match}`)
-    })
-
-    // Get aggregated data with filters for non-expired blood
-    const validConditions = [...rbConditions]
-    if (expirationStatus !== "expired") {
-      // If we're not already filtering for expired only, add the valid condition
-      if (!validConditions.some((c) => c.includes("expiration_date"))) {
-        validConditions.push("rb.expiration_date > CURRENT_DATE")
-      }
-    }
-    const validWhereClause = validConditions.length > 0 ? `WHERE ${validConditions.join(" AND ")}` : ""
+    const rawInventory = await dbClient.query(rawInventoryQuery, [...where.params, limit])
+
+    // Get aggregated data for non-expired blood, unless only expired blood was requested
+    const validWhere = buildInventoryWhereClause(
+      component,
+      { ...baseFilters, expirationStatus: expirationStatus === "expired" ? "expired" : "valid" },
+      { alias: "inv" },
+    )
 
     const aggregatedDataQuery = `
-      SELECT rb.blood_type, rb.rh, COUNT(*) as count, SUM(rb.amount) as total_amount
-      FROM redblood_inventory rb
-      ${validWhereClause}
-      GROUP BY rb.blood_type, rb.rh
-      ORDER BY rb.blood_type, rb.rh
+      SELECT ${groupSelect}, COUNT(*) as count, SUM(inv.amount) as total_amount
+      FROM ${tableName} inv
+      ${validWhere.clause}
+      GROUP BY ${groupColumns}
+      ORDER BY ${groupColumns}
     `
-    const aggregatedData = await dbClient.query(aggregatedDataQuery)
+    const aggregatedData = await dbClient.query(aggregatedDataQuery, validWhere.params)
 
     // Get expired data with filters
-    const expiredConditions = [...rbConditions.filter((c) => !c.includes("expiration_date"))]
-    expiredConditions.push("rb.expiration_date <= CURRENT_DATE")
-    const expiredWhereClause = expiredConditions.length > 0 ? `WHERE ${expiredConditions.join(" AND ")}` : ""
+    const expiredWhere = buildInventoryWhereClause(
+      component,
+      { ...baseFilters, expirationStatus: "expired" },
+      { alias: "inv" },
+    )
 
     const expiredDataQuery = `
-      SELECT rb.blood_type, rb.rh, COUNT(*) as count, SUM(rb.amount) as total_amount
-      FROM redblood_inventory rb
-      ${expiredWhereClause}
-      GROUP BY rb.blood_type, rb.rh
-      ORDER BY rb.blood_type, rb.rh
+      SELECT ${groupSelect}, COUNT(*) as count, SUM(inv.amount) as total_amount
+      FROM ${tableName} inv
+      ${expiredWhere.clause}
+      GROUP BY ${groupColumns}
+      ORDER BY ${groupColumns}
     `
-    const expiredData = await dbClient.query(expiredDataQuery)
+    const expiredData = await dbClient.query(expiredDataQuery, expiredWhere.params)
 
     // Get total counts with filters
     const totalCountsQuery = `
       SELECT 
         COUNT(*) as total_count,
-        SUM(rb.amount) as total_amount,
-        COUNT(*) FILTER (WHERE rb.expiration_date > CURRENT_DATE) as valid_count,
-        SUM(rb.amount) FILTER (WHERE rb.expiration_date > CURRENT_DATE) as valid_amount
-      FROM redblood_inventory rb
-      ${whereClause}
+        SUM(inv.amount) as total_amount,
+        COUNT(*) FILTER (WHERE inv.expiration_date > NOW()) as valid_count,
+        SUM(inv.amount) FILTER (WHERE inv.expiration_date > NOW()) as valid_amount
+      FROM ${tableName} inv
+      ${where.clause}
     `
-    const totalCounts = await dbClient.query(totalCountsQuery)
+    const totalCounts = await dbClient.query(totalCountsQuery, where.params)
 
     // Get available hospitals for the filter dropdown
     const hospitalsQuery = `
       SELECT DISTINCT h.hospital_id, h.hospital_name
-      FROM redblood_inventory rb
-      JOIN hospital h ON rb.hospital_id = h.hospital_id
-      WHERE rb.active = true
+      FROM ${tableName} inv
+      JOIN hospital h ON inv.hospital_id = h.hospital_id
+      WHERE inv.active = true
       ORDER BY h.hospital_name
     `
     const hospitals = await dbClient.query(hospitalsQuery)
@@ -135,6 +117,7 @@ export async function diagnoseRedBloodInventory(filters: DiagnosticFilters) {
     return {
       success: true,
       data: {
+        component,
         rawInventory,
         aggregatedData,
         expiredData,
@@ -144,14 +127,14 @@ export async function diagnoseRedBloodInventory(filters: DiagnosticFilters) {
         appliedFilters: {
           hospitalId: showAllHospitals ? null : hospitalId,
           bloodType,
-          rhFactor,
+          rhFactor: hasRh ? rhFactor : undefined,
           expirationStatus,
         },
       },
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
-    logError(error, "Diagnose Red Blood Inventory")
+    logError(error, `Diagnose ${BLOOD_COMPONENTS[component].label} Inventory`)
 
     return {
       success: false,
@@ -168,6 +151,8 @@ interface UpdateBloodEntryParams {
   amount: number
   expirationDate: string
   hospitalId: number
+  // Admin making the change, recorded in the audit log
+  adminId: number
 }
 
 export async function updateBloodEntry({
@@ -177,6 +162,7 @@ export async function updateBloodEntry({
   amount,
   expirationDate,
   hospitalId,
+  adminId,
 }: UpdateBloodEntryParams) {
   try {
     // Input validation
@@ -214,57 +200,57 @@ export async function updateBloodEntry({
       return ownershipCheck
     }
 
-    // Format the expiration date
-    let formattedDate
-    try {
-      formattedDate = new Date(expirationDate).toISOString().split("T")[0]
-    } catch (e) {
+    // The expiry is a wall-clock time in the hospital's time zone, or a timestamp with an offset
+    const timeZone = await getHospitalTimeZone(hospitalId)
+    const expiresAt = parseExpirationTime(expirationDate, timeZone)
+    if (!expiresAt) {
       return {
         success: false,
         error: "Invalid expiration date format",
       }
     }
 
-    // Update the entry based on its type
-    let result
-    if (entryType === "RedBlood") {
-      result = await dbClient`
-        UPDATE redblood_inventory
-        SET donor_name = ${donorName}, amount = ${amount}, expiration_date = ${formattedDate}::date
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId} AND active = true
-        RETURNING bag_id, donor_name, amount, expiration_date
-      `
-      // Invalidate cache
-      queryCache.invalidate(`redblood:${hospitalId}`)
-    } else if (entryType === "Plasma") {
-      result = await dbClient`
-        UPDATE plasma_inventory
-        SET donor_name = ${donorName}, amount = ${amount}, expiration_date = ${formattedDate}::date
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId} AND active = true
-        RETURNING bag_id, donor_name, amount, expiration_date
-      `
-      // Invalidate cache
-      queryCache.invalidate(`plasma:${hospitalId}`)
-    } else if (entryType === "Platelets") {
-      result = await dbClient`
-        UPDATE platelets_inventory
-        SET donor_name = ${donorName}, amount = ${amount}, expiration_date = ${formattedDate}::date
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId} AND active = true
-        RETURNING bag_id, donor_name, amount, expiration_date
-      `
-      // Invalidate cache
-      queryCache.invalidate(`platelets:${hospitalId}`)
-    } else {
+    // verifyEntryOwnership has already rejected unknown entry types
+    const { key: table, tableName } = getComponentByEntryType(entryType)!
+
+    // Hold the new expiry to the shelf-life rule the unit was dated under
+    const [unit] = await executeQuery<{ collection_date: string | null; shelf_life_rule: string | null }[]>((sql) =>
+      sql.query(`SELECT collection_date::text, shelf_life_rule FROM ${tableName} WHERE bag_id = $1`, [bagId]),
+    )
+    const rules = (await getShelfLifeRules(hospitalId))[table]
+    const shelfLifeProblem = checkShelfLife(
+      toZonedInputValue(expiresAt, timeZone),
+      unit?.collection_date,
+      resolveShelfLifeRule(rules, unit?.shelf_life_rule),
+      timeZone,
+    )
+    if (shelfLifeProblem) {
       return {
         success: false,
-        error: "Invalid entry type",
+        error: shelfLifeProblem,
       }
     }
 
-    if (result && result.length > 0) {
+    // Update the entry, recording its before and after state in the audit log
+    const updated = await updateWithAudit(
+      table,
+      "update",
+      { adminId, hospitalId },
+      bagId,
+      { donor_name: donorName, amount, expiration_date: expiresAt },
+      { onlyActive: true },
+    )
+    queryCache.invalidate(getInventoryCacheKey(table, hospitalId))
+
+    if (updated) {
       return {
         success: true,
-        updatedEntry: result[0],
+        updatedEntry: {
+          bag_id: updated.bag_id,
+          donor_name: updated.donor_name,
+          amount: updated.amount,
+          expiration_date: updated.expiration_date,
+        },
       }
     } else {
       return {
@@ -283,7 +269,7 @@ export async function updateBloodEntry({
   }
 }
 
-export async function deleteBloodEntry(bagId: number, entryType: string, hospitalId: number) {
+export async function deleteBloodEntry(bagId: number, entryType: string, hospitalId: number, adminId: number) {
   try {
     // Verify that the entry belongs to the hospital
     const ownershipCheck = await verifyEntryOwnership(bagId, entryType, hospitalId)
@@ -291,43 +277,14 @@ export async function deleteBloodEntry(bagId: number, entryType: string, hospita
       return ownershipCheck
     }
 
-    // Soft-delete the entry based on its type by setting active = false
-    let result
-    if (entryType === "RedBlood") {
-      result = await dbClient`
-        UPDATE redblood_inventory
-        SET active = false
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId}
-        RETURNING bag_id
-      `
-      // Invalidate cache
-      queryCache.invalidate(`redblood:${hospitalId}`)
-    } else if (entryType === "Plasma") {
-      result = await dbClient`
-        UPDATE plasma_inventory
-        SET active = false
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId}
-        RETURNING bag_id
-      `
-      // Invalidate cache
-      queryCache.invalidate(`plasma:${hospitalId}`)
-    } else if (entryType === "Platelets") {
-      result = await dbClient`
-        UPDATE platelets_inventory
-        SET active = false
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId}
-        RETURNING bag_id
-      `
-      // Invalidate cache
-      queryCache.invalidate(`platelets:${hospitalId}`)
-    } else {
-      return {
-        success: false,
-        error: "Invalid entry type",
-      }
-    }
+    // verifyEntryOwnership has already rejected unknown entry types
+    const { key: table } = getComponentByEntryType(entryType)!
+
+    // Soft-delete the entry by setting active = false
+    const result = await updateWithAudit(table, "delete", { adminId, hospitalId }, bagId, { active: false })
+    queryCache.invalidate(getInventoryCacheKey(table, hospitalId))
 
-    if (result && result.length > 0) {
+    if (result) {
       return { success: true }
     } else {
       return {
@@ -346,54 +303,6 @@ export async function deleteBloodEntry(bagId: number, entryType: string, hospita
   }
 }
 
-async function verifyEntryOwnership(bagId: number, entryType: string, hospitalId: number) {
-  try {
-    let result
-    if (entryType === "RedBlood") {
-      result = await dbClient`
-        SELECT hospital_id FROM redblood_inventory WHERE bag_id = ${bagId} AND active = true
-      `
-    } else if (entryType === "Plasma") {
-      result = await dbClient`
-        SELECT hospital_id FROM plasma_inventory WHERE bag_id = ${bagId} AND active = true
-      `
-    } else if (entryType === "Platelets") {
-      result = await dbClient`
-        SELECT hospital_id FROM platelets_inventory WHERE bag_id = ${bagId} AND active = true
-      `
-    } else {
-      return {
-        success: false,
-        error: "Invalid entry type",
-      }
-    }
-
-    if (!result || result.length === 0) {
-      return {
-        success: false,
-        error: "Entry not found",
-      }
-    }
-
-    if (result[0].hospital_id !== hospitalId) {
-      return {
-        success: false,
-        error: "You don't have permission to modify this entry",
-      }
-    }
-
-    return { success: true }
-  } catch (error) {
-    console.error("Error verifying entry ownership:", error)
-    const appError = logError(error, "Verify Entry Ownership")
-    return {
-      success: false,
-      error: appError.message,
-      details: appError.details,
-    }
-  }
-}
-
 /**
  * Diagnostic function to directly query the platelets inventory
  * without any grouping or filtering to see all raw data
@@ -440,7 +349,7 @@ export async function diagnosePlateletsInventory(hospitalId: number) {
     const groupedDataQuery = `
       SELECT blood_type, rh, COUNT(*) as count, SUM(amount) as total_amount
       FROM platelets_inventory
-      WHERE hospital_id = $1 AND expiration_date > CURRENT_DATE AND active = true
+      WHERE hospital_id = $1 AND expiration_date > NOW() AND active = true
       GROUP BY blood_type, rh
       ORDER BY blood_type, rh
     `
@@ -460,7 +369,7 @@ export async function diagnosePlateletsInventory(hospitalId: number) {
     const expiredEntriesQuery = `
       SELECT blood_type, rh, COUNT(*) as count, SUM(amount) as total_amount
       FROM platelets_inventory
-      WHERE hospital_id = $1 AND expiration_date <= CURRENT_DATE AND active = true
+      WHERE hospital_id = $1 AND expiration_date <= NOW() AND active = true
       GROUP BY blood_type, rh
       ORDER BY blood_type, rh
     `
@@ -5,6 +5,18 @@ import { configureNeon, DB_CONFIG, getDatabaseUrl, isPreviewEnvironment } from "
 import { isPreviewMode } from "./environment-detection"
 import { withRetry, DEFAULT_RETRY_CONFIG } from "./retry-utils"
 import { checkDbHealth, startHealthChecks, getDbHealthStatus } from "./db-health"
+import { hashPassword, isPasswordHash, verifyLegacyPassword, verifyPasswordHash } from "./password"
+import { insertWithAudit, updateWithAudit } from "./audit-log"
+import { parseIsbtScan } from "./isbt128"
+import {
+  BLOOD_COMPONENT_KEYS,
+  BLOOD_COMPONENT_LIST,
+  BLOOD_COMPONENTS,
+  getComponentByEntryType,
+  getInventoryCacheKey,
+  type BloodComponentKey,
+} from "./blood-components"
+import { DEFAULT_STOCK_LEVELS, findStockLevel, getStockGroups, getStockStatus, type StockLevel } from "./stock-levels"
 
 // Configure Neon with optimal settings
 configureNeon()
@@ -134,12 +146,26 @@ export const MOCK_DATA = {
     { blood_type: "O", rh: "-", count: 4, total_amount: 2000 },
     { blood_type: "AB", rh: "-", count: 1, total_amount: 500 },
   ],
+  cryo: [
+    { blood_type: "A", count: 14, total_amount: 280 },
+    { blood_type: "B", count: 6, total_amount: 120 },
+    { blood_type: "O", count: 20, total_amount: 400 },
+    { blood_type: "AB", count: 4, total_amount: 80 },
+  ],
+  wholeblood: [
+    { blood_type: "A", rh: "+", count: 4, total_amount: 1800 },
+    { blood_type: "B", rh: "+", count: 2, total_amount: 900 },
+    { blood_type: "O", rh: "+", count: 6, total_amount: 2700 },
+    { blood_type: "AB", rh: "+", count: 1, total_amount: 450 },
+    { blood_type: "A", rh: "-", count: 1, total_amount: 450 },
+    { blood_type: "O", rh: "-", count: 2, total_amount: 900 },
+  ],
   hospitals: [
     { hospital_id: 1, hospital_name: "Central Hospital" },
     { hospital_id: 2, hospital_name: "Memorial Medical Center" },
     { hospital_id: 3, hospital_name: "University Hospital" },
   ],
-  admins: [{ admin_id: 1, hospital_id: 1, admin_username: "admin", admin_password: "password" }],
+  admins: [{ admin_id: 1, hospital_id: 1, admin_username: "admin", admin_password: "password", status: "active" }],
   surplus_alerts: [
     {
       type: "RedBlood",
@@ -358,7 +384,7 @@ export async function verifyAdminCredentials(username: string, password: string)
       return MOCK_DATA.admins[0]
     }
     // In preview mode, accept any credentials
-    return { admin_id: 1, hospital_id: 1 }
+    return { admin_id: 1, hospital_id: 1, status: "active" }
   }
 
   try {
@@ -368,11 +394,39 @@ export async function verifyAdminCredentials(username: string, password: string)
     }
 
     const result = await dbClient`
-      SELECT admin_id, hospital_id FROM admin 
-      WHERE admin_username = ${username} AND admin_password = ${password}
+      SELECT admin_id, hospital_id, admin_password, status FROM admin 
+      WHERE admin_username = ${username}
     `
 
-    return result[0] || null
+    const admin = result[0]
+    if (!admin) {
+      return null
+    }
+
+    // Hashed passwords are verified directly
+    if (isPasswordHash(admin.admin_password)) {
+      const valid = await verifyPasswordHash(password, admin.admin_password)
+      return valid ? { admin_id: admin.admin_id, hospital_id: admin.hospital_id, status: admin.status } : null
+    }
+
+    // Legacy plaintext row: verify, then upgrade it to a hash
+    if (!verifyLegacyPassword(password, String(admin.admin_password ?? ""))) {
+      return null
+    }
+
+    try {
+      const hashed = await hashPassword(password)
+      await dbClient`
+        UPDATE admin SET admin_password = ${hashed}
+        WHERE admin_id = ${admin.admin_id} AND admin_password = ${admin.admin_password}
+      `
+      console.log(`Upgraded legacy password for admin ${admin.admin_id}`)
+    } catch (upgradeError) {
+      // The login itself is still valid; the upgrade is retried on the next login
+      logError(upgradeError, "Upgrade Legacy Password")
+    }
+
+    return { admin_id: admin.admin_id, hospital_id: admin.hospital_id, status: admin.status }
   } catch (error) {
     // Log the error but don't expose it to the caller
     logError(error, "Verify Admin Credentials")
@@ -380,177 +434,83 @@ export async function verifyAdminCredentials(username: string, password: string)
   }
 }
 
-// Helper function to get blood inventory for a hospital with enhanced error handling
-export async function getBloodInventory(hospitalId: number) {
-  // In preview mode, return mock data
+// Helper function to load an admin's current hospital and account status
+export async function getAdminAccountStatus(adminId: number) {
   if (isPreviewMode()) {
-    return MOCK_DATA.redblood
+    return { admin_id: adminId, hospital_id: 1, status: "active" }
   }
 
   try {
-    const cacheKey = `redblood:${hospitalId}`
-
-    return await executeQuery(
-      async (sql) => {
-        const redBlood = await sql`
-          SELECT blood_type, rh, COUNT(*) as count, SUM(amount) as total_amount
-          FROM redblood_inventory
-          WHERE hospital_id = ${hospitalId} AND expiration_date > CURRENT_DATE AND active = true
-          GROUP BY blood_type, rh
-          ORDER BY blood_type, rh
-        `
-
-        console.log("Retrieved red blood cell data from DB:", redBlood)
-
-        // Ensure numeric values are properly parsed
-        return redBlood.map((item) => ({
-          ...item,
-          count: Number(item.count),
-          total_amount: Number(item.total_amount),
-        }))
-      },
-      { cacheKey },
+    const result = await executeQuery<{ admin_id: number; hospital_id: number; status: string | null }[]>(
+      (sql) => sql`SELECT admin_id, hospital_id, status FROM admin WHERE admin_id = ${adminId}`,
     )
+
+    return result[0] ?? null
   } catch (error) {
-    if (process.env.NODE_ENV === "production" || isPreviewMode()) {
-      console.warn("Error getting blood inventory, using mock data:", error)
-      return MOCK_DATA.redblood
-    }
-    throw logError(error, "Get Blood Inventory")
+    throw logError(error, "Get Admin Account Status")
   }
 }
 
-// Helper function to get plasma inventory for a hospital
-export async function getPlasmaInventory(hospitalId: number) {
-  // Add this at the beginning of the getPlasmaInventory function
-  console.log(`getPlasmaInventory called for hospital ${hospitalId}`)
+// COUNT and SUM come back from Postgres as strings; rh is absent for components without an Rh factor
+type ComponentInventoryRow = {
+  blood_type: string
+  rh?: string
+  count: string | number
+  total_amount: string | number | null
+}
+
+// Helper function to get a hospital's unexpired inventory of one component, grouped by blood type
+export async function getComponentInventory(component: BloodComponentKey, hospitalId: number) {
   // In preview mode, return mock data
   if (isPreviewMode()) {
-    return MOCK_DATA.plasma
+    return MOCK_DATA[component]
   }
 
-  try {
-    const cacheKey = `plasma:${hospitalId}`
-    const cached = queryCache.get<any[]>(cacheKey)
-
-    if (cached) {
-      return cached
-    }
+  const { tableName, hasRh } = BLOOD_COMPONENTS[component]
+  // Components without an Rh factor are grouped by ABO type alone
+  const groupColumns = hasRh ? "blood_type, rh" : "blood_type"
 
-    if (!dbClient) {
-      throw new AppError(
-        ErrorType.DATABASE_CONNECTION,
-        "Database client not initialized",
-        "Database URL environment variable may be missing or invalid",
-      )
-    }
-
-    // Replace the existing SQL query with this more detailed one
-    const plasma = await dbClient`
-      SELECT 
-        blood_type, 
-        COUNT(*)::integer as count, 
-        SUM(amount)::integer as total_amount,
-        COUNT(DISTINCT blood_type) as distinct_types
-      FROM plasma_inventory
-      WHERE 
-        hospital_id = ${hospitalId} 
-        AND expiration_date > CURRENT_DATE 
-        AND active = true
-      GROUP BY blood_type
-      ORDER BY blood_type
-    `
-
-    // Add this after the SQL query
-    console.log(`Raw plasma data from database:`, JSON.stringify(plasma, null, 2))
-
-    // Add this after the query
-    console.log(`Distinct blood types in plasma: ${plasma[0]?.distinct_types || 0}`)
-
-    // Add a diagnostic query to check all plasma entries without grouping:
-    const allPlasmaEntries = await dbClient`
-      SELECT 
-        blood_type, 
-        amount,
-        expiration_date,
-        active
-      FROM plasma_inventory
-      WHERE hospital_id = ${hospitalId}
-      ORDER BY blood_type, expiration_date
-    `
-    console.log(`All plasma entries (ungrouped): ${allPlasmaEntries.length}`)
-    console.log(`Sample entries:`, JSON.stringify(allPlasmaEntries.slice(0, 3), null, 2))
+  try {
+    return await executeQuery(
+      async (sql) => {
+        const inventory = (await sql.query(
+          `
+            SELECT ${groupColumns}, COUNT(*) as count, SUM(amount) as total_amount
+            FROM ${tableName}
+            WHERE hospital_id = $1 AND expiration_date > NOW() AND active = true AND status = 'available'
+            GROUP BY ${groupColumns}
+            ORDER BY ${groupColumns}
+          `,
+          [hospitalId],
+        )) as ComponentInventoryRow[]
 
-    queryCache.set(cacheKey, plasma)
-    return plasma
+        // Ensure numeric values are properly parsed
+        return inventory.map((item) => ({
+          ...item,
+          count: Number(item.count),
+          total_amount: Number(item.total_amount),
+        }))
+      },
+      { cacheKey: getInventoryCacheKey(component, hospitalId) },
+    )
   } catch (error) {
     if (process.env.NODE_ENV === "production" || isPreviewMode()) {
-      console.warn("Error getting plasma inventory, using mock data:", error)
-      return MOCK_DATA.plasma
+      console.warn(`Error getting ${component} inventory, using mock data:`, error)
+      return MOCK_DATA[component]
     }
-    throw logError(error, "Get Plasma Inventory")
+    throw logError(error, "Get Component Inventory")
   }
 }
 
-// Helper function to get platelets inventory for a hospital with fixed query
-export async function getPlateletsInventory(hospitalId: number) {
-  // In preview mode, return mock data
-  if (isPreviewMode()) {
-    return MOCK_DATA.platelets
-  }
-
-  try {
-    const cacheKey = `platelets:${hospitalId}`
-    const cached = queryCache.get<any[]>(cacheKey)
+// Helper function to get a hospital's inventory of every component, keyed by component
+export async function getInventoryByComponent(hospitalId: number) {
+  const inventories = await Promise.all(
+    BLOOD_COMPONENT_KEYS.map((component) => getComponentInventory(component, hospitalId)),
+  )
 
-    if (cached) {
-      return cached
-    }
-
-    if (!dbClient) {
-      throw new AppError(
-        ErrorType.DATABASE_CONNECTION,
-        "Database client not initialized",
-        "Database URL environment variable may be missing or invalid",
-      )
-    }
-
-    // Fixed query - removed potential issues with the GROUP BY clause
-    // and ensured proper type conversion for numeric values
-    const platelets = await dbClient`
-      SELECT 
-        blood_type, 
-        rh, 
-        COUNT(*)::integer as count, 
-        SUM(amount)::integer as total_amount
-      FROM platelets_inventory
-      WHERE 
-        hospital_id = ${hospitalId} 
-        AND expiration_date > CURRENT_DATE 
-        AND active = true
-      GROUP BY blood_type, rh
-      ORDER BY blood_type, rh
-    `
-
-    // Log the retrieved data for debugging
-    console.log(`Retrieved platelets data for hospital ${hospitalId}:`, JSON.stringify(platelets, null, 2))
-
-    // Ensure numeric values are properly parsed
-    const processedData = platelets.map((item) => ({
-      ...item,
-      count: Number(item.count),
-      total_amount: Number(item.total_amount),
-    }))
-
-    queryCache.set(cacheKey, processedData)
-    return processedData
-  } catch (error) {
-    if (process.env.NODE_ENV === "production" || isPreviewMode()) {
-      console.warn("Error getting platelets inventory, using mock data:", error)
-      return MOCK_DATA.platelets
-    }
-    throw logError(error, "Get Platelets Inventory")
-  }
+  return Object.fromEntries(
+    BLOOD_COMPONENT_KEYS.map((component, index) => [component, inventories[index]]),
+  ) as Record<BloodComponentKey, any[]>
 }
 
 // Helper function to get surplus alerts
@@ -561,94 +521,75 @@ export async function getSurplusAlerts(hospitalId: number) {
   }
 
   try {
-    // Get current hospital's inventory
-    const currentHospitalInventory = await dbClient`
-      SELECT 'RedBlood' as type, blood_type, rh, COUNT(*) as count
-      FROM redblood_inventory
-      WHERE hospital_id = ${hospitalId} AND expiration_date > CURRENT_DATE AND active = true
-      GROUP BY blood_type, rh
-      UNION ALL
-      SELECT 'Plasma' as type, blood_type, '' as rh, COUNT(*) as count
-      FROM plasma_inventory
-      WHERE hospital_id = ${hospitalId} AND expiration_date > CURRENT_DATE AND active = true
-      GROUP BY blood_type
-      UNION ALL
-      SELECT 'Platelets' as type, blood_type, rh, COUNT(*) as count
-      FROM platelets_inventory
-      WHERE hospital_id = ${hospitalId} AND expiration_date > CURRENT_DATE AND active = true
-      GROUP BY blood_type, rh
-    `
-
-    // Get other hospitals with surplus
     const alerts = []
 
-    for (const item of currentHospitalInventory) {
-      const { type, blood_type, rh, count } = item
-
-      // If current hospital has low stock (less than 5 units)
-      if (Number(count) < 5) {
-        let surplusHospitals
-
-        if (type === "RedBlood") {
-          surplusHospitals = await dbClient`
-            SELECT h.hospital_id, h.hospital_name, COUNT(*) as count, 
-                   h.hospital_contact_phone, h.hospital_contact_mail
-            FROM redblood_inventory rb
-            JOIN hospital h ON rb.hospital_id = h.hospital_id
-            WHERE rb.hospital_id != ${hospitalId}
-              AND rb.blood_type = ${blood_type}
-              AND rb.rh = ${rh}
-              AND rb.expiration_date > CURRENT_DATE
-              AND rb.active = true
-            GROUP BY h.hospital_id, h.hospital_name, h.hospital_contact_phone, h.hospital_contact_mail
-            HAVING COUNT(*) > 10
-            ORDER BY count DESC
-          `
-        } else if (type === "Plasma") {
-          surplusHospitals = await dbClient`
-            SELECT h.hospital_id, h.hospital_name, COUNT(*) as count,
-                   h.hospital_contact_phone, h.hospital_contact_mail
-            FROM plasma_inventory p
-            JOIN hospital h ON p.hospital_id = h.hospital_id
-            WHERE p.hospital_id != ${hospitalId}
-              AND p.blood_type = ${blood_type}
-              AND p.expiration_date > CURRENT_DATE
-              AND p.active = true
-            GROUP BY h.hospital_id, h.hospital_name, h.hospital_contact_phone, h.hospital_contact_mail
-            HAVING COUNT(*) > 10
-            ORDER BY count DESC
-          `
-        } else if (type === "Platelets") {
-          surplusHospitals = await dbClient`
-            SELECT h.hospital_id, h.hospital_name, COUNT(*) as count,
-                   h.hospital_contact_phone, h.hospital_contact_mail
-            FROM platelets_inventory p
-            JOIN hospital h ON p.hospital_id = h.hospital_id
-            WHERE p.hospital_id != ${hospitalId}
-              AND p.blood_type = ${blood_type}
-              AND p.rh = ${rh}
-              AND p.expiration_date > CURRENT_DATE
-              AND p.active = true
-            GROUP BY h.hospital_id, h.hospital_name, h.hospital_contact_phone, h.hospital_contact_mail
-            HAVING COUNT(*) > 10
-            ORDER BY count DESC
-          `
+    for (const component of BLOOD_COMPONENT_LIST) {
+      const { key, tableName, hasRh, entryType } = component
+      const groupColumns = hasRh ? "inv.blood_type, inv.rh" : "inv.blood_type"
+
+      // Every hospital's available stock of this component, by blood group
+      const rows = await dbClient.query(
+        `
+          SELECT inv.hospital_id, h.hospital_name, h.hospital_contact_phone, h.hospital_contact_mail,
+                 inv.blood_type, ${hasRh ? "inv.rh" : "'' as rh"}, COUNT(*) as count, SUM(inv.amount) as total_amount
+          FROM ${tableName} inv
+          JOIN hospital h ON inv.hospital_id = h.hospital_id
+          WHERE inv.expiration_date > NOW() AND inv.active = true AND inv.status = 'available'
+          GROUP BY inv.hospital_id, h.hospital_name, h.hospital_contact_phone, h.hospital_contact_mail, ${groupColumns}
+        `,
+      )
+      const stock = rows.map((row) => ({
+        hospital_id: row.hospital_id as number,
+        hospital_name: row.hospital_name as string,
+        hospital_contact_phone: row.hospital_contact_phone as string,
+        hospital_contact_mail: row.hospital_contact_mail as string,
+        blood_type: row.blood_type as string,
+        rh: row.rh as string,
+        count: Number(row.count),
+        total_amount: Number(row.total_amount),
+      }))
+
+      // Each hospital's own levels for this component; groups without a row use the defaults
+      const levels = await dbClient.query(
+        `SELECT hospital_id, blood_type, rh, measure, minimum, target, maximum FROM stock_levels WHERE component = $1`,
+        [key],
+      )
+      const getLevel = (levelHospitalId: number, bloodType: string, rh: string): StockLevel =>
+        (levels.find(
+          (level) => level.hospital_id === levelHospitalId && level.blood_type === bloodType && level.rh === rh,
+        ) as StockLevel | undefined) ?? findStockLevel(DEFAULT_STOCK_LEVELS, key, bloodType, rh)
+
+      for (const { blood_type, rh } of getStockGroups(key)) {
+        const groupStock = stock.filter((item) => item.blood_type === blood_type && item.rh === rh)
+        const yours = groupStock.find((item) => item.hospital_id === hospitalId) ?? { count: 0, total_amount: 0 }
+
+        // Only groups below this hospital's target need a supplier
+        const status = getStockStatus(getLevel(hospitalId, blood_type, rh), yours)
+        if (status !== "critical" && status !== "low") {
+          continue
         }
 
-        if (surplusHospitals && surplusHospitals.length > 0) {
-          for (const hospital of surplusHospitals) {
-            alerts.push({
-              type,
-              bloodType: blood_type,
-              rh: rh || "",
-              hospitalName: hospital.hospital_name,
-              hospitalId: hospital.hospital_id,
-              count: hospital.count,
-              yourCount: count,
-              contactPhone: hospital.hospital_contact_phone,
-              contactEmail: hospital.hospital_contact_mail,
-            })
-          }
+        // Hospitals holding more than their own maximum have surplus to share
+        const surplusHospitals = groupStock
+          .filter(
+            (item) =>
+              item.hospital_id !== hospitalId &&
+              getStockStatus(getLevel(item.hospital_id, blood_type, rh), item) === "surplus",
+          )
+          .sort((a, b) => b.count - a.count)
+
+        for (const hospital of surplusHospitals) {
+          alerts.push({
+            type: entryType,
+            bloodType: blood_type,
+            rh,
+            hospitalName: hospital.hospital_name,
+            hospitalId: hospital.hospital_id,
+            count: hospital.count,
+            yourCount: yours.count,
+            contactPhone: hospital.hospital_contact_phone,
+            contactEmail: hospital.hospital_contact_mail,
+          })
         }
       }
     }
@@ -663,6 +604,15 @@ export async function getSurplusAlerts(hospitalId: number) {
   }
 }
 
+// DIN from a search query, or null if the query isn't an ISBT 128 DIN
+function parseSearchDin(query: string) {
+  try {
+    return parseIsbtScan(query).donationId?.din ?? null
+  } catch {
+    return null
+  }
+}
+
 // Helper function to search for donors
 export async function searchDonors(query: string) {
   // In preview mode, return mock data
@@ -678,65 +628,37 @@ export async function searchDonors(query: string) {
   if (!query || query.trim() === "") return []
 
   try {
-    const searchTerm = `%${query}%`
-
-    // Search by bag ID if the query is a number
-    if (!isNaN(Number(query))) {
-      const bagId = Number(query)
-
-      const redBloodResults = await dbClient`
-        SELECT 'RedBlood' as type, rb.bag_id, rb.donor_name, rb.blood_type, rb.rh, 
-               rb.amount, rb.expiration_date, h.hospital_name, h.hospital_contact_phone
-        FROM redblood_inventory rb
-        JOIN hospital h ON rb.hospital_id = h.hospital_id
-        WHERE rb.bag_id = ${bagId} AND rb.active = true
-      `
-
-      const plasmaResults = await dbClient`
-        SELECT 'Plasma' as type, p.bag_id, p.donor_name, p.blood_type, '' as rh, 
-               p.amount, p.expiration_date, h.hospital_name, h.hospital_contact_phone
-        FROM plasma_inventory p
-        JOIN hospital h ON p.hospital_id = h.hospital_id
-        WHERE p.bag_id = ${bagId} AND p.active = true
-      `
-
-      const plateletsResults = await dbClient`
-        SELECT 'Platelets' as type, p.bag_id, p.donor_name, p.blood_type, p.rh, 
-               p.amount, p.expiration_date, h.hospital_name, h.hospital_contact_phone
-        FROM platelets_inventory p
-        JOIN hospital h ON p.hospital_id = h.hospital_id
-        WHERE p.bag_id = ${bagId} AND p.active = true
-      `
-
-      return [...redBloodResults, ...plasmaResults, ...plateletsResults]
+    // Search by ISBT 128 DIN if the query is a scanned or typed DIN, by bag ID if
+    // it is a number, otherwise by donor name
+    const din = parseSearchDin(query)
+    const byBagId = !din && !isNaN(Number(query))
+    const condition = din
+      ? "inv.isbt_din = $1"
+      : byBagId
+        ? "inv.bag_id = $1"
+        : "(inv.donor_name ILIKE $1 OR d.full_name ILIKE $1)"
+    const param = din ?? (byBagId ? Number(query) : `%${query}%`)
+
+    const results = []
+
+    for (const { tableName, hasRh, entryType } of BLOOD_COMPONENT_LIST) {
+      const rows = await dbClient.query(
+        `
+          SELECT '${entryType}' as type, inv.bag_id, COALESCE(d.full_name, inv.donor_name) as donor_name, inv.donor_id,
+                 inv.blood_type, ${hasRh ? "inv.rh" : "'' as rh"},
+                 inv.amount, inv.expiration_date, inv.isbt_din, inv.isbt_product_code,
+                 h.hospital_name, h.hospital_contact_phone
+          FROM ${tableName} inv
+          JOIN hospital h ON inv.hospital_id = h.hospital_id
+          LEFT JOIN donors d ON inv.donor_id = d.donor_id
+          WHERE ${condition} AND inv.active = true
+        `,
+        [param],
+      )
+      results.push(...rows)
     }
 
-    // Search by donor name
-    const redBloodResults = await dbClient`
-      SELECT 'RedBlood' as type, rb.bag_id, rb.donor_name, rb.blood_type, rb.rh, 
-             rb.amount, rb.expiration_date, h.hospital_name, h.hospital_contact_phone
-      FROM redblood_inventory rb
-      JOIN hospital h ON rb.hospital_id = h.hospital_id
-      WHERE rb.donor_name ILIKE ${searchTerm} AND rb.active = true
-    `
-
-    const plasmaResults = await dbClient`
-      SELECT 'Plasma' as type, p.bag_id, p.donor_name, p.blood_type, '' as rh, 
-             p.amount, p.expiration_date, h.hospital_name, h.hospital_contact_phone
-      FROM plasma_inventory p
-      JOIN hospital h ON p.hospital_id = h.hospital_id
-      WHERE p.donor_name ILIKE ${searchTerm} AND p.active = true
-    `
-
-    const plateletsResults = await dbClient`
-      SELECT 'Platelets' as type, p.bag_id, p.donor_name, p.blood_type, p.rh, 
-             p.amount, p.expiration_date, h.hospital_name, h.hospital_contact_phone
-      FROM platelets_inventory p
-      JOIN hospital h ON p.hospital_id = h.hospital_id
-      WHERE p.donor_name ILIKE ${searchTerm} AND p.active = true
-    `
-
-    return [...redBloodResults, ...plasmaResults, ...plateletsResults]
+    return results
   } catch (error) {
     if (process.env.NODE_ENV === "production" || isPreviewMode()) {
       console.warn("Error searching donors, using mock data:", error)
@@ -746,44 +668,6 @@ export async function searchDonors(query: string) {
   }
 }
 
-// Add this function to the existing db.ts file
-export async function registerAdmin(username: string, password: string, hospitalId: number) {
-  try {
-    // First check if the hospital exists
-    const hospitalCheck = await dbClient`
-      SELECT hospital_id FROM hospital WHERE hospital_id = ${hospitalId}
-    `
-
-    if (hospitalCheck.length === 0) {
-      throw new AppError(ErrorType.VALIDATION, "Hospital not found")
-    }
-
-    // Check if username already exists
-    const usernameCheck = await dbClient`
-      SELECT admin_id FROM admin WHERE admin_username = ${username}
-    `
-
-    if (usernameCheck.length > 0) {
-      throw new AppError(ErrorType.VALIDATION, "Username already exists")
-    }
-
-    // Insert new admin
-    const result = await dbClient`
-      INSERT INTO admin (admin_username, admin_password, hospital_id)
-      VALUES (${username}, ${password}, ${hospitalId})
-      RETURNING admin_id
-    `
-
-    if (result.length > 0) {
-      return { success: true }
-    } else {
-      throw new AppError(ErrorType.SERVER, "Failed to create admin account")
-    }
-  } catch (error) {
-    throw logError(error, "Register Admin")
-  }
-}
-
 // Function to get all hospitals for dropdown lists
 export async function getAllHospitals() {
   try {
@@ -807,8 +691,8 @@ export async function getAllHospitals() {
   }
 }
 
-// New function to soft-delete a blood inventory entry
-export async function softDeleteBloodEntry(bagId: number, entryType: string, hospitalId: number) {
+// Soft-delete a blood inventory entry, recording who deleted it in the audit log
+export async function softDeleteBloodEntry(bagId: number, entryType: string, hospitalId: number, adminId: number) {
   try {
     // Verify that the entry belongs to the hospital
     const ownershipCheck = await verifyEntryOwnership(bagId, entryType, hospitalId)
@@ -816,43 +700,14 @@ export async function softDeleteBloodEntry(bagId: number, entryType: string, hos
       return ownershipCheck
     }
 
-    // Soft-delete the entry based on its type by setting active = false
-    let result
-    if (entryType === "RedBlood") {
-      result = await dbClient`
-        UPDATE redblood_inventory
-        SET active = false
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId}
-        RETURNING bag_id
-      `
-      // Invalidate cache
-      queryCache.invalidate(`redblood:${hospitalId}`)
-    } else if (entryType === "Plasma") {
-      result = await dbClient`
-        UPDATE plasma_inventory
-        SET active = false
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId}
-        RETURNING bag_id
-      `
-      // Invalidate cache
-      queryCache.invalidate(`plasma:${hospitalId}`)
-    } else if (entryType === "Platelets") {
-      result = await dbClient`
-        UPDATE platelets_inventory
-        SET active = false
-        WHERE bag_id = ${bagId} AND hospital_id = ${hospitalId}
-        RETURNING bag_id
-      `
-      // Invalidate cache
-      queryCache.invalidate(`platelets:${hospitalId}`)
-    } else {
-      return {
-        success: false,
-        error: "Invalid entry type",
-      }
-    }
+    // verifyEntryOwnership has already rejected unknown entry types
+    const { key } = getComponentByEntryType(entryType)!
+
+    // Soft-delete the entry by setting active = false
+    const result = await updateWithAudit(key, "delete", { adminId, hospitalId }, bagId, { active: false })
+    queryCache.invalidate(getInventoryCacheKey(key, hospitalId))
 
-    if (result && result.length > 0) {
+    if (result) {
       return { success: true }
     } else {
       return {
@@ -871,29 +726,28 @@ export async function softDeleteBloodEntry(bagId: number, entryType: string, hos
   }
 }
 
-// Helper function to verify entry ownership
-async function verifyEntryOwnership(bagId: number, entryType: string, hospitalId: number) {
+// Verify that a bag exists and belongs to the hospital before it is modified.
+// Restores pass onlyActive: false so soft-deleted bags can be found.
+export async function verifyEntryOwnership(
+  bagId: number,
+  entryType: string,
+  hospitalId: number,
+  { onlyActive = true }: { onlyActive?: boolean } = {},
+) {
   try {
-    let result
-    if (entryType === "RedBlood") {
-      result = await dbClient`
-        SELECT hospital_id FROM redblood_inventory WHERE bag_id = ${bagId} AND active = true
-      `
-    } else if (entryType === "Plasma") {
-      result = await dbClient`
-        SELECT hospital_id FROM plasma_inventory WHERE bag_id = ${bagId} AND active = true
-      `
-    } else if (entryType === "Platelets") {
-      result = await dbClient`
-        SELECT hospital_id FROM platelets_inventory WHERE bag_id = ${bagId} AND active = true
-      `
-    } else {
+    const component = getComponentByEntryType(entryType)
+    if (!component) {
       return {
         success: false,
         error: "Invalid entry type",
       }
     }
 
+    const result = await dbClient.query(
+      `SELECT hospital_id FROM ${component.tableName} WHERE bag_id = $1 ${onlyActive ? "AND active = true" : ""}`,
+      [bagId],
+    )
+
     if (!result || result.length === 0) {
       return {
         success: false,
@@ -920,142 +774,68 @@ async function verifyEntryOwnership(bagId: number, entryType: string, hospitalId
   }
 }
 
-// Add new red blood cell bag
-export async function addNewRedBloodBag(
-  donorName: string,
-  amount: number,
-  hospitalId: number,
-  expirationDate: string,
-  bloodType: string,
-  rh: string,
-  adminUsername?: string,
-  adminPassword?: string,
-) {
-  try {
-    if (!dbClient) {
-      throw new AppError(
-        ErrorType.DATABASE_CONNECTION,
-        "Database client not initialized",
-        "Database URL environment variable may be missing or invalid",
-      )
-    }
-
-    // Validate admin credentials if provided
-    if (adminUsername && adminPassword) {
-      const admin = await verifyAdminCredentials(adminUsername, adminPassword)
-      if (!admin) {
-        return {
-          success: false,
-          error: "Invalid admin credentials",
-          type: ErrorType.AUTHENTICATION,
-          retryable: false,
-        }
-      }
-    }
-
-    // Insert new red blood cell bag
-    const result = await dbClient`
-      INSERT INTO redblood_inventory (donor_name, amount, hospital_id, expiration_date, blood_type, rh)
-      VALUES (${donorName}, ${amount}, ${hospitalId}, ${expirationDate}, ${bloodType}, ${rh})
-      RETURNING bag_id
-    `
+type DinUnitRow = {
+  bag_id: number
+  hospital_id: number
+  isbt_product_code: string | null
+  hospital_name: string
+}
 
-    if (result.length > 0) {
-      return { success: true }
-    } else {
-      return {
-        success: false,
-        error: "Failed to add red blood cell bag",
-        type: ErrorType.SERVER,
-        retryable: true,
-      }
-    }
-  } catch (error) {
-    console.error("Add red blood cell error:", error)
-    const appError = logError(error, "Add Red Blood Cell")
-    return {
-      success: false,
-      error: appError.message,
-      type: appError.type,
-      details: appError.details,
-      retryable: true,
-    }
+// Find active units anywhere in the network carrying an ISBT 128 DIN. Components
+// split from one donation share the DIN, so several units may match.
+export async function findUnitsByDin(din: string) {
+  if (!dbClient) {
+    throw new AppError(ErrorType.DATABASE_CONNECTION, "Database client not initialized")
   }
-}
 
-// Add new plasma bag
-export async function addNewPlasmaBag(
-  donorName: string,
-  amount: number,
-  hospitalId: number,
-  expirationDate: string,
-  bloodType: string,
-  adminUsername?: string,
-  adminPassword?: string,
-) {
-  try {
-    if (!dbClient) {
-      throw new AppError(
-        ErrorType.DATABASE_CONNECTION,
-        "Database client not initialized",
-        "Database URL environment variable may be missing or invalid",
-      )
-    }
+  const units: (DinUnitRow & { component: BloodComponentKey })[] = []
 
-    // Validate admin credentials if provided
-    if (adminUsername && adminPassword) {
-      const admin = await verifyAdminCredentials(adminUsername, adminPassword)
-      if (!admin) {
-        return {
-          success: false,
-          error: "Invalid admin credentials",
-          type: ErrorType.AUTHENTICATION,
-          retryable: false,
-        }
-      }
-    }
+  for (const { key, tableName } of BLOOD_COMPONENT_LIST) {
+    const rows = (await dbClient.query(
+      `
+        SELECT inv.bag_id, inv.hospital_id, inv.isbt_product_code, h.hospital_name
+        FROM ${tableName} inv
+        JOIN hospital h ON inv.hospital_id = h.hospital_id
+        WHERE inv.isbt_din = $1 AND inv.active = true
+      `,
+      [din],
+    )) as DinUnitRow[]
+    units.push(...rows.map((row) => ({ ...row, component: key })))
+  }
 
-    // Insert new plasma bag
-    const result = await dbClient`
-      INSERT INTO plasma_inventory (donor_name, amount, hospital_id, expiration_date, blood_type)
-      VALUES (${donorName}, ${amount}, ${hospitalId}, ${expirationDate}, ${bloodType})
-      RETURNING bag_id
-    `
+  return units
+}
 
-    if (result.length > 0) {
-      return { success: true }
-    } else {
-      return {
-        success: false,
-        error: "Failed to add plasma bag",
-        type: ErrorType.SERVER,
-        retryable: true,
-      }
-    }
-  } catch (error) {
-    console.error("Add plasma error:", error)
-    const appError = logError(error, "Add Plasma")
-    return {
-      success: false,
-      error: appError.message,
-      type: appError.type,
-      details: appError.details,
-      retryable: true,
-    }
-  }
+export type NewBloodBag = {
+  donorName: string
+  amount: number
+  expirationDate: string
+  // Collection or processing date, and the shelf-life rule the expiry was checked against
+  collectionDate?: string
+  shelfLifeRule?: string
+  bloodType: string
+  // Ignored for components without an Rh factor
+  rh?: string
+  // Registered donor the bag came from; bags without one keep only donorName
+  donorId?: number
+  // ISBT 128 identifiers from the bag's label, when scanned or entered
+  isbtDin?: string
+  isbtProductCode?: string
+  // Storage unit and shelf or slot the bag is put away in
+  storageUnitId?: number
+  storagePosition?: string
 }
 
-// Add new platelets bag
-export async function addNewPlateletsBag(
-  donorName: string,
-  amount: number,
+// Add a new bag of a blood component
+export async function addBloodBag(
+  component: BloodComponentKey,
   hospitalId: number,
-  expirationDate: string,
-  bloodType: string,
-  rh: string,
-  adminUsername?: string,
-  adminPassword?: string,
+  bag: NewBloodBag,
+  // Admin adding the bag, from the server-side session; stored as created_by
+  adminId: number,
 ) {
+  const { hasRh, bagLabel } = BLOOD_COMPONENTS[component]
+
   try {
     if (!dbClient) {
       throw new AppError(
@@ -1065,39 +845,35 @@ export async function addNewPlateletsBag(
       )
     }
 
-    // Validate admin credentials if provided
-    if (adminUsername && adminPassword) {
-      const admin = await verifyAdminCredentials(adminUsername, adminPassword)
-      if (!admin) {
-        return {
-          success: false,
-          error: "Invalid admin credentials",
-          type: ErrorType.AUTHENTICATION,
-          retryable: false,
-        }
-      }
-    }
-
-    // Insert new platelets bag
-    const result = await dbClient`
-      INSERT INTO platelets_inventory (donor_name, amount, hospital_id, expiration_date, blood_type, rh)
-      VALUES (${donorName}, ${amount}, ${hospitalId}, ${expirationDate}, ${bloodType}, ${rh})
-      RETURNING bag_id
-    `
+    // Insert the new bag, with its audit entry
+    const result = await insertWithAudit(component, { adminId, hospitalId }, {
+      donor_name: bag.donorName,
+      amount: bag.amount,
+      hospital_id: hospitalId,
+      created_by: adminId,
+      expiration_date: bag.expirationDate,
+      collection_date: bag.collectionDate ?? null,
+      shelf_life_rule: bag.shelfLifeRule ?? null,
+      blood_type: bag.bloodType,
+      ...(hasRh ? { rh: bag.rh } : {}),
+      ...(bag.donorId ? { donor_id: bag.donorId } : {}),
+      ...(bag.isbtDin ? { isbt_din: bag.isbtDin, isbt_product_code: bag.isbtProductCode || null } : {}),
+      ...(bag.storageUnitId ? { storage_unit_id: bag.storageUnitId, storage_position: bag.storagePosition || null } : {}),
+    })
 
-    if (result.length > 0) {
+    if (result) {
       return { success: true }
     } else {
       return {
         success: false,
-        error: "Failed to add platelets bag",
+        error: `Failed to add ${bagLabel.toLowerCase()}`,
         type: ErrorType.SERVER,
         retryable: true,
       }
     }
   } catch (error) {
-    console.error("Add platelets error:", error)
-    const appError = logError(error, "Add Platelets")
+    console.error(`Add ${component} error:`, error)
+    const appError = logError(error, "Add Blood Bag")
     return {
       success: false,
       error: appError.message,
@@ -0,0 +1,148 @@
+import { z } from "zod"
+import { executeQuery } from "./db"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { BLOOD_COMPONENT_LIST, type BloodComponentKey } from "./blood-components"
+
+export type Donor = {
+  donor_id: number
+  full_name: string
+  date_of_birth: string
+  blood_type: string
+  rh: string | null
+  phone: string | null
+  email: string | null
+  address: string | null
+  registered_hospital_id: number
+  created_at: string
+}
+
+export type DonorUnit = {
+  component: BloodComponentKey
+  bag_id: number
+  amount: number
+  expiration_date: string
+  status: string
+  isbt_din: string | null
+  hospital_name: string
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+
+// Empty form fields are treated as absent
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (typeof value === "string" && value.trim() === "" ? undefined : value), schema.optional())
+
+export const donorInputSchema = z.object({
+  fullName: z.string().trim().min(2, "Full name must be at least 2 characters"),
+  dateOfBirth: isoDate.refine((value) => new Date(value) < new Date(), "Date of birth must be in the past"),
+  bloodType: z.enum(["A", "B", "AB", "O"]),
+  rh: optional(z.enum(["+", "-"])),
+  phone: optional(z.string().trim().max(40)),
+  email: optional(z.string().trim().email("Invalid email address")),
+  address: optional(z.string().trim().max(500)),
+})
+
+export type DonorInput = z.infer<typeof donorInputSchema>
+
+// Parse and validate a donor registration from a request body
+export function parseDonorInput(body: unknown): DonorInput {
+  const result = donorInputSchema.safeParse(body)
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid donor details", details)
+  }
+
+  return result.data
+}
+
+// Register a donor; the registering hospital and admin come from the session
+export async function createDonor(input: DonorInput, actor: { adminId: number; hospitalId: number }) {
+  try {
+    const rows = await executeQuery<Donor[]>(
+      (sql) => sql`
+        INSERT INTO donors (full_name, date_of_birth, blood_type, rh, phone, email, address, registered_hospital_id, created_by)
+        VALUES (
+          ${input.fullName}, ${input.dateOfBirth}, ${input.bloodType}, ${input.rh ?? null},
+          ${input.phone ?? null}, ${input.email ?? null}, ${input.address ?? null},
+          ${actor.hospitalId}, ${actor.adminId}
+        )
+        RETURNING *
+      `,
+    )
+    return rows[0]
+  } catch (error) {
+    throw logError(error, "Create Donor")
+  }
+}
+
+// Donors matching a name fragment or donor ID, for lookup and autocomplete
+export async function searchDonorRegistry(query: string, limit = 10) {
+  const term = query.trim()
+  if (!term || isPreviewMode()) {
+    return []
+  }
+
+  try {
+    if (/^\d+$/.test(term)) {
+      return await executeQuery<Donor[]>(
+        (sql) => sql`SELECT * FROM donors WHERE donor_id = ${Number(term)}`,
+      )
+    }
+
+    return await executeQuery<Donor[]>(
+      (sql) => sql`
+        SELECT * FROM donors
+        WHERE full_name ILIKE ${`%${term}%`}
+        ORDER BY full_name, date_of_birth
+        LIMIT ${limit}
+      `,
+    )
+  } catch (error) {
+    throw logError(error, "Search Donor Registry")
+  }
+}
+
+export async function getDonor(donorId: number) {
+  if (isPreviewMode()) {
+    throw new AppError(ErrorType.NOT_FOUND, "Donor not found")
+  }
+
+  let rows: Donor[]
+  try {
+    rows = await executeQuery<Donor[]>((sql) => sql`SELECT * FROM donors WHERE donor_id = ${donorId}`)
+  } catch (error) {
+    throw logError(error, "Get Donor")
+  }
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Donor not found")
+  }
+  return rows[0]
+}
+
+// Every unit derived from a donor across all components and hospitals, newest first
+export async function getDonorUnits(donorId: number) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const subqueries = BLOOD_COMPONENT_LIST.map(
+      ({ key, tableName }) => `
+        SELECT '${key}' as component, inv.bag_id, inv.amount, inv.expiration_date, inv.status, inv.isbt_din,
+               h.hospital_name
+        FROM ${tableName} inv
+        JOIN hospital h ON inv.hospital_id = h.hospital_id
+        WHERE inv.donor_id = $1 AND inv.active = true
+      `,
+    )
+
+    return await executeQuery<DonorUnit[]>((sql) =>
+      sql.query(`${subqueries.join(" UNION ALL ")} ORDER BY expiration_date DESC, bag_id DESC`, [donorId]),
+    )
+  } catch (error) {
+    throw logError(error, "Get Donor Units")
+  }
+}
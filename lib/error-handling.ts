@@ -2,6 +2,7 @@
 export enum ErrorType {
   DATABASE_CONNECTION = "DATABASE_CONNECTION",
   AUTHENTICATION = "AUTHENTICATION",
+  FORBIDDEN = "FORBIDDEN",
   NOT_FOUND = "NOT_FOUND",
   VALIDATION = "VALIDATION",
   SERVER = "SERVER",
@@ -15,6 +16,7 @@ export enum ErrorType {
 export const ErrorMessages = {
   [ErrorType.DATABASE_CONNECTION]: "Unable to connect to the database. Please try again later.",
   [ErrorType.AUTHENTICATION]: "Authentication failed. Please check your credentials and try again.",
+  [ErrorType.FORBIDDEN]: "You don't have permission to perform this action.",
   [ErrorType.NOT_FOUND]: "The requested resource was not found.",
   [ErrorType.VALIDATION]: "Please check your input and try again.",
   [ErrorType.SERVER]: "An unexpected error occurred. Please try again later.",
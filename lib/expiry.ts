@@ -0,0 +1,105 @@
+// Blood units expire at an exact time, stored as a timestamp. Staff enter and read
+// expiry times as wall-clock times in their hospital's time zone, so platelets
+// and thawed products can be dated to the hour.
+//
+// This module is imported by client components and must stay free of server code.
+
+export const DEFAULT_TIME_ZONE = "UTC"
+
+// Units expiring within this many days count as expiring soon
+export const EXPIRING_SOON_DAYS = 7
+
+// Units expiring within this many hours show a countdown
+export const COUNTDOWN_HOURS = 24
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Check whether a value is an IANA time zone name the runtime knows, e.g. "Asia/Ho_Chi_Minh"
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value === "") return false
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value)
+
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"))
+  return wallClock - (date.getTime() - date.getUTCMilliseconds())
+}
+
+// A "YYYY-MM-DDTHH:mm" wall-clock time in the time zone as an ISO timestamp
+export function zonedTimeToIso(local: string, timeZone: string) {
+  const [date, time = "00:00"] = local.split("T")
+  const wallClock = Date.parse(`${date}T${time.slice(0, 5)}:00Z`)
+
+  // Correct by the offset at the first guess, then again in case a DST change lies in between
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone)
+  return new Date(instant).toISOString()
+}
+
+// An instant as a "YYYY-MM-DDTHH:mm" wall-clock time in the time zone, as datetime-local inputs expect
+export function toZonedInputValue(value: string | Date, timeZone: string) {
+  const date = new Date(value)
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone)).toISOString().slice(0, 16)
+}
+
+// Today's date in the time zone as YYYY-MM-DD
+export function zonedToday(timeZone: string) {
+  return toZonedInputValue(new Date(), timeZone).slice(0, 10)
+}
+
+/**
+ * Parse an expiration time from a form or request: an ISO timestamp with an
+ * offset, a "YYYY-MM-DDTHH:mm" wall-clock time in the hospital's time zone, or
+ * a bare date meaning the start of that day. Returns an ISO timestamp, or null
+ * if the value isn't a valid time.
+ */
+export function parseExpirationTime(value: unknown, timeZone: string) {
+  if (typeof value !== "string") return null
+
+  if (/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/.test(value)) {
+    // Reject times such as 2026-02-30 or 25:00 that Date would roll over
+    const [date, time = "00:00"] = value.split("T")
+    const wallClock = `${date}T${time.slice(0, 5)}`
+    const parsed = Date.parse(`${wallClock}:00Z`)
+    if (Number.isNaN(parsed) || new Date(parsed).toISOString().slice(0, 16) !== wallClock) return null
+    return zonedTimeToIso(value, timeZone)
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? null : new Date(time).toISOString()
+  }
+
+  return null
+}
+
+export function isExpired(expiresAt: string | Date, now = Date.now()) {
+  return new Date(expiresAt).getTime() <= now
+}
+
+// Time left before a unit expires as "5h 12m", or null unless it expires within COUNTDOWN_HOURS
+export function formatCountdown(expiresAt: string | Date, now = Date.now()) {
+  const remaining = new Date(expiresAt).getTime() - now
+  if (remaining <= 0 || remaining > COUNTDOWN_HOURS * HOUR_MS) return null
+
+  const minutes = Math.floor(remaining / 60000)
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
@@ -0,0 +1,18 @@
+// A hospital's profile as other sites see it on dashboards, surplus alerts and
+// shortage broadcasts.
+//
+// This module is imported by client components and must stay free of server code.
+
+export type HospitalProfile = {
+  hospital_id: number
+  hospital_name: string
+  hospital_contact_phone: string | null
+  hospital_contact_mail: string | null
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  time_zone: string
+  // Who to call for transfusion services outside office hours
+  after_hours_contact_name: string | null
+  after_hours_contact_phone: string | null
+}
@@ -0,0 +1,210 @@
+import { z } from "zod"
+import { executeQuery, MOCK_DATA } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./expiry"
+import type { HospitalProfile } from "./hospital-profile-types"
+
+const phone = z
+  .string()
+  .trim()
+  .regex(/^\+?[0-9][0-9 ().-]{4,29}$/, "Expected a phone number such as +84 28 3855 4269")
+
+// Blank optional fields are stored as NULL
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+    schema.nullable().default(null),
+  )
+
+const profileSchema = z
+  .object({
+    name: z.string().trim().min(1, "Hospital name is required").max(200),
+    contactPhone: phone,
+    contactEmail: z.string().trim().email("Expected an email address").max(200),
+    address: optional(z.string().trim().max(500)),
+    latitude: optional(z.number().min(-90).max(90)),
+    longitude: optional(z.number().min(-180).max(180)),
+    timeZone: z.string().refine(isValidTimeZone, "Not a known IANA time zone"),
+    afterHoursContactName: optional(z.string().trim().max(200)),
+    afterHoursContactPhone: optional(phone),
+  })
+  .refine((input) => (input.latitude === null) === (input.longitude === null), {
+    message: "Enter both latitude and longitude, or neither",
+    path: ["longitude"],
+  })
+
+export type HospitalProfileInput = z.infer<typeof profileSchema>
+
+
+function getTimeZoneCacheKey(hospitalId: number) {
+  return `hospital-time-zone:${hospitalId}`
+}
+
+// The hospital's time zone, used to enter and show expiry times
+export async function getHospitalTimeZone(hospitalId: number): Promise<string> {
+  if (isPreviewMode()) {
+    return DEFAULT_TIME_ZONE
+  }
+
+  try {
+    const rows = await executeQuery<{ time_zone: string | null }[]>(
+      (sql) => sql`SELECT time_zone FROM hospital WHERE hospital_id = ${hospitalId}`,
+      { cacheKey: getTimeZoneCacheKey(hospitalId) },
+    )
+
+    // A zone the runtime doesn't know would break every date shown, so fall back to UTC
+    const timeZone = rows[0]?.time_zone
+    return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+  } catch (error) {
+    throw logError(error, "Get Hospital Time Zone")
+  }
+}
+
+// Parse and validate a hospital profile from a request body
+export function parseHospitalProfile(body: unknown): HospitalProfileInput {
+  const result = profileSchema.safeParse(body)
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid hospital profile", details)
+  }
+
+  return result.data
+}
+
+// A hospital row as selected; preview-mode mock rows carry only the ID and name
+type HospitalRow = Pick<HospitalProfile, "hospital_id" | "hospital_name"> & Partial<HospitalProfile>
+
+function toProfile(row: HospitalRow): HospitalProfile {
+  return {
+    hospital_id: row.hospital_id,
+    hospital_name: row.hospital_name,
+    hospital_contact_phone: row.hospital_contact_phone ?? null,
+    hospital_contact_mail: row.hospital_contact_mail ?? null,
+    address: row.address ?? null,
+    latitude: row.latitude ?? null,
+    longitude: row.longitude ?? null,
+    time_zone: row.time_zone ?? DEFAULT_TIME_ZONE,
+    after_hours_contact_name: row.after_hours_contact_name ?? null,
+    after_hours_contact_phone: row.after_hours_contact_phone ?? null,
+  }
+}
+
+// Hospital names are shown to other sites, so no two hospitals may share one
+async function assertUniqueName(name: string, exceptHospitalId: number | null) {
+  const rows = await executeQuery<unknown[]>(
+    (sql) => sql`
+      SELECT 1 FROM hospital
+      WHERE LOWER(hospital_name) = LOWER(${name}) AND hospital_id <> ${exceptHospitalId ?? -1}
+    `,
+  )
+
+  if (rows.length > 0) {
+    throw new AppError(ErrorType.CONFLICT, "Hospital name already in use", `Another hospital is named "${name}"`)
+  }
+}
+
+export async function getHospitalProfile(hospitalId: number): Promise<HospitalProfile> {
+  if (isPreviewMode()) {
+    return toProfile(MOCK_DATA.hospitals.find((h) => h.hospital_id === hospitalId) ?? MOCK_DATA.hospitals[0])
+  }
+
+  try {
+    const rows = await executeQuery<HospitalRow[]>(
+      (sql) => sql`
+        SELECT hospital_id, hospital_name, hospital_contact_phone, hospital_contact_mail, address, latitude,
+          longitude, time_zone, after_hours_contact_name, after_hours_contact_phone
+        FROM hospital WHERE hospital_id = ${hospitalId}
+      `,
+    )
+
+    if (rows.length === 0) {
+      throw new AppError(ErrorType.NOT_FOUND, "Hospital not found")
+    }
+
+    return toProfile(rows[0])
+  } catch (error) {
+    throw logError(error, "Get Hospital Profile")
+  }
+}
+
+/**
+ * Update a hospital's profile and record its before and after state in the
+ * audit log in the same statement. Returns the updated profile.
+ */
+export async function updateHospitalProfile(hospitalId: number, input: HospitalProfileInput, adminId: number) {
+  await assertUniqueName(input.name, hospitalId)
+
+  try {
+    const rows = await executeQuery<HospitalRow[]>(
+      (sql) => sql`
+        WITH previous AS (
+          SELECT * FROM hospital WHERE hospital_id = ${hospitalId} FOR UPDATE
+        ), changed AS (
+          UPDATE hospital SET
+            hospital_name = ${input.name},
+            hospital_contact_phone = ${input.contactPhone},
+            hospital_contact_mail = ${input.contactEmail},
+            address = ${input.address},
+            latitude = ${input.latitude},
+            longitude = ${input.longitude},
+            time_zone = ${input.timeZone},
+            after_hours_contact_name = ${input.afterHoursContactName},
+            after_hours_contact_phone = ${input.afterHoursContactPhone}
+          WHERE hospital_id = ${hospitalId}
+          RETURNING *
+        ), audit AS (
+          INSERT INTO audit_log (admin_id, hospital_id, bag_id, component_type, action, before_data, after_data)
+          SELECT ${adminId}, changed.hospital_id, NULL, 'hospital', 'update', to_jsonb(previous), to_jsonb(changed)
+          FROM changed JOIN previous ON previous.hospital_id = changed.hospital_id
+        )
+        SELECT * FROM changed
+      `,
+    )
+
+    if (rows.length === 0) {
+      throw new AppError(ErrorType.NOT_FOUND, "Hospital not found")
+    }
+
+    // The header and every page's dates read these through the cache
+    queryCache.invalidate(`hospital:${hospitalId}`)
+    queryCache.invalidate(getTimeZoneCacheKey(hospitalId))
+    return toProfile(rows[0])
+  } catch (error) {
+    throw logError(error, "Update Hospital Profile")
+  }
+}
+
+// Add a hospital to the network, audited in its own log. Returns the new profile.
+export async function createHospital(input: HospitalProfileInput, adminId: number) {
+  await assertUniqueName(input.name, null)
+
+  try {
+    const rows = await executeQuery<HospitalRow[]>(
+      (sql) => sql`
+        WITH changed AS (
+          INSERT INTO hospital (
+            hospital_name, hospital_contact_phone, hospital_contact_mail, address, latitude, longitude,
+            time_zone, after_hours_contact_name, after_hours_contact_phone
+          )
+          VALUES (
+            ${input.name}, ${input.contactPhone}, ${input.contactEmail}, ${input.address}, ${input.latitude},
+            ${input.longitude}, ${input.timeZone}, ${input.afterHoursContactName}, ${input.afterHoursContactPhone}
+          )
+          RETURNING *
+        ), audit AS (
+          INSERT INTO audit_log (admin_id, hospital_id, bag_id, component_type, action, before_data, after_data)
+          SELECT ${adminId}, changed.hospital_id, NULL, 'hospital', 'create', NULL, to_jsonb(changed)
+          FROM changed
+        )
+        SELECT * FROM changed
+      `,
+    )
+
+    return toProfile(rows[0])
+  } catch (error) {
+    throw logError(error, "Create Hospital")
+  }
+}
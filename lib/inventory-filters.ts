@@ -0,0 +1,153 @@
+import { z } from "zod"
+import { AppError, ErrorType } from "./error-handling"
+import { BLOOD_COMPONENT_KEYS, BLOOD_COMPONENTS, type BloodComponentKey } from "./blood-components"
+import { DEFAULT_TIME_ZONE, EXPIRING_SOON_DAYS } from "./expiry"
+
+export type ExpirationStatus = "all" | "valid" | "expired" | "expiring-soon"
+
+export type InventoryFilters = {
+  hospitalId?: number | null
+  showAllHospitals?: boolean
+  bloodType?: string
+  rhFactor?: string
+  expirationStatus?: ExpirationStatus
+  startDate?: string
+  endDate?: string
+  // Time zone the start and end dates are local to; defaults to UTC
+  timeZone?: string
+  donorName?: string
+  minAmount?: number
+  maxAmount?: number
+  // A storage unit's ID, or "none" for bags that haven't been put away
+  storageUnitId?: number | "none"
+  storagePosition?: string
+  // Defaults to true; deleted-entry views pass false
+  active?: boolean
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+
+// Empty query-string values are treated as absent
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" || value === null ? undefined : value), schema.optional())
+
+// Select inputs send "all" when a column is not filtered
+const optionalOrAll = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "all" ? undefined : value), optional(schema))
+
+// Query-string schema shared by the analysis and diagnostics endpoints
+export const inventoryFilterQuerySchema = z.object({
+  showAllHospitals: optional(z.enum(["true", "false"])).transform((value) => value === "true"),
+  bloodType: optionalOrAll(z.enum(["A", "B", "AB", "O"])),
+  rhFactor: optionalOrAll(z.enum(["+", "-"])),
+  expirationStatus: optional(z.enum(["all", "valid", "expired", "expiring-soon"])),
+  startDate: optional(isoDate),
+  endDate: optional(isoDate),
+  donorName: optional(z.string().trim().max(100)),
+  minAmount: optional(z.coerce.number().int().min(0)),
+  maxAmount: optional(z.coerce.number().int().min(0)),
+  storageUnitId: optionalOrAll(z.union([z.literal("none"), z.coerce.number().int().positive()])),
+  storagePosition: optional(z.string().trim().max(50)),
+  inventoryType: optional(z.enum(["all", ...BLOOD_COMPONENT_KEYS])),
+  limit: optional(z.coerce.number().int().min(1).max(1000)),
+})
+
+export type InventoryFilterQuery = z.infer<typeof inventoryFilterQuerySchema>
+
+// Parse and validate filter parameters from a URL's query string
+export function parseInventoryFilterQuery(searchParams: URLSearchParams): InventoryFilterQuery {
+  const result = inventoryFilterQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid filter parameters", details)
+  }
+
+  return result.data
+}
+
+type WhereClauseOptions = {
+  // Table alias used to qualify columns, e.g. "rb"
+  alias?: string
+  // Number of the first placeholder, for queries that already use $1..$n
+  startIndex?: number
+}
+
+/**
+ * Build a parameterized WHERE clause for an inventory table. Filters on columns
+ * the table doesn't have (such as rh on plasma) are skipped.
+ */
+export function buildInventoryWhereClause(
+  table: BloodComponentKey,
+  filters: InventoryFilters,
+  { alias, startIndex = 1 }: WhereClauseOptions = {},
+) {
+  const { hasRh } = BLOOD_COMPONENTS[table]
+  const column = (name: string) => (alias ? `${alias}.${name}` : name)
+  const conditions: string[] = []
+  const params: unknown[] = []
+
+  // Add a value to the parameter list and return its placeholder
+  const param = (value: unknown) => {
+    params.push(value)
+    return `$${startIndex + params.length - 1}`
+  }
+
+  conditions.push(`${column("active")} = ${param(filters.active ?? true)}`)
+
+  if (!filters.showAllHospitals && filters.hospitalId) {
+    conditions.push(`${column("hospital_id")} = ${param(filters.hospitalId)}`)
+  }
+
+  if (filters.bloodType) {
+    conditions.push(`${column("blood_type")} = ${param(filters.bloodType)}`)
+  }
+
+  if (filters.rhFactor && hasRh) {
+    conditions.push(`${column("rh")} = ${param(filters.rhFactor)}`)
+  }
+
+  const expirationDate = column("expiration_date")
+  if (filters.expirationStatus === "valid") {
+    conditions.push(`${expirationDate} > NOW()`)
+  } else if (filters.expirationStatus === "expired") {
+    conditions.push(`${expirationDate} <= NOW()`)
+  } else if (filters.expirationStatus === "expiring-soon") {
+    conditions.push(
+      `${expirationDate} > NOW() AND ${expirationDate} <= NOW() + INTERVAL '${EXPIRING_SOON_DAYS} days'`,
+    )
+  }
+
+  // The date range covers whole days in the hospital's time zone, end date included
+  if (filters.startDate || filters.endDate) {
+    const timeZone = param(filters.timeZone ?? DEFAULT_TIME_ZONE)
+    if (filters.startDate) {
+      conditions.push(`${expirationDate} >= ${param(filters.startDate)}::date::timestamp AT TIME ZONE ${timeZone}`)
+    }
+    if (filters.endDate) {
+      conditions.push(`${expirationDate} < (${param(filters.endDate)}::date + 1)::timestamp AT TIME ZONE ${timeZone}`)
+    }
+  }
+
+  if (filters.donorName) {
+    conditions.push(`${column("donor_name")} ILIKE ${param(`%${filters.donorName}%`)}`)
+  }
+
+  if (filters.minAmount !== undefined) {
+    conditions.push(`${column("amount")} >= ${param(filters.minAmount)}`)
+  }
+  if (filters.maxAmount !== undefined) {
+    conditions.push(`${column("amount")} <= ${param(filters.maxAmount)}`)
+  }
+
+  if (filters.storageUnitId === "none") {
+    conditions.push(`${column("storage_unit_id")} IS NULL`)
+  } else if (filters.storageUnitId !== undefined) {
+    conditions.push(`${column("storage_unit_id")} = ${param(filters.storageUnitId)}`)
+  }
+  if (filters.storagePosition) {
+    conditions.push(`${column("storage_position")} ILIKE ${param(`%${filters.storagePosition}%`)}`)
+  }
+
+  return { clause: `WHERE ${conditions.join(" AND ")}`, params }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { computeDinCheckCharacter, formatDin, parseDonationId, parseIsbtScan } from "./isbt128"
+
+// ISO/IEC 7064 Mod 37-2 check characters for sample DINs
+const CHECK_CHARACTERS = [
+  { din: "A999922123456", check: "N" },
+  { din: "G123498654321", check: "H" },
+  { din: "W000007123456", check: "D" },
+  { din: "A999925000001", check: "P" },
+]
+
+describe("computeDinCheckCharacter", () => {
+  it.each(CHECK_CHARACTERS)("computes $check for $din", ({ din, check }) => {
+    expect(computeDinCheckCharacter(din)).toBe(check)
+  })
+
+  it("changes when a single character changes", () => {
+    expect(computeDinCheckCharacter("A999922123457")).not.toBe(computeDinCheckCharacter("A999922123456"))
+  })
+})
+
+describe("formatDin", () => {
+  it("prints the DIN in eye-readable groups with its check character", () => {
+    expect(formatDin("A999922123456")).toBe("A9999 22 123456 N")
+  })
+})
+
+describe("parseDonationId", () => {
+  it("accepts a typed DIN with or without its check character", () => {
+    expect(parseDonationId("A9999 22 123456")).toEqual({ din: "A999922123456", checkCharacter: "N" })
+    expect(parseDonationId("a9999 22 123456 n")).toEqual({ din: "A999922123456", checkCharacter: "N" })
+  })
+
+  it("rejects a typed DIN whose check character doesn't match", () => {
+    expect(() => parseDonationId("A9999 22 123456 K")).toThrow(/check character/)
+  })
+
+  it("reads the flags from a scanned donation identification number", () => {
+    expect(parseDonationId("=A99992212345600")).toEqual({
+      din: "A999922123456",
+      flags: "00",
+      checkCharacter: "N",
+    })
+  })
+
+  it("rejects malformed DINs", () => {
+    expect(() => parseDonationId("A9999 22 12345")).toThrow()
+    // O is not used as a facility code character
+    expect(() => parseDonationId("O9999 22 123456")).toThrow()
+  })
+})
+
+describe("parseIsbtScan", () => {
+  it("splits concatenated data structures", () => {
+    const label = parseIsbtScan("=A99992212345600=%5100=<E0224V00&>0241852359")
+
+    expect(label.donationId?.din).toBe("A999922123456")
+    expect(label.bloodGroup).toEqual({ code: "51", bloodType: "O", rh: "-" })
+    expect(label.product?.code).toBe("E0224V00")
+    expect(label.expiry).toEqual({ date: "2024-07-03", time: "23:59" })
+  })
+})
@@ -0,0 +1,225 @@
+// Parsing and validation of ISBT 128 data structures printed as barcodes on
+// blood bag labels. A scanner may deliver several structures concatenated, e.g.
+// "=A99992212345600=%5100=<E0224V00&>0241852359".
+//
+// This module is imported by client components and must stay free of server code.
+import { AppError, ErrorType } from "./error-handling"
+import { BLOOD_COMPONENT_LIST, type BloodComponentKey } from "./blood-components"
+
+// Donation Identification Number: facility code (1 character + 4 digits),
+// 2-digit year and 6-digit sequence number
+const DIN_PATTERN = /^[A-NP-Z0-9]\d{4}\d{2}\d{6}$/
+
+// ISO/IEC 7064 Mod 37-2 character set used for the DIN check character
+const CHECK_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ*"
+
+// ABO/RhD blood group codes (first two characters of the blood groups data structure)
+const BLOOD_GROUP_CODES: Record<string, { bloodType: string; rh?: "+" | "-" }> = {
+  "51": { bloodType: "O", rh: "-" },
+  "62": { bloodType: "A", rh: "-" },
+  "73": { bloodType: "B", rh: "-" },
+  "84": { bloodType: "AB", rh: "-" },
+  "95": { bloodType: "O", rh: "+" },
+  "06": { bloodType: "A", rh: "+" },
+  "17": { bloodType: "B", rh: "+" },
+  "28": { bloodType: "AB", rh: "+" },
+  // ABO only, used for components where RhD is not labelled
+  "55": { bloodType: "O" },
+  "66": { bloodType: "A" },
+  "77": { bloodType: "B" },
+  "88": { bloodType: "AB" },
+}
+
+export type IsbtDonationId = {
+  // The 13-character DIN stored on each unit
+  din: string
+  checkCharacter: string
+  // Flag characters from the barcode, when scanned
+  flags?: string
+}
+
+export type IsbtBloodGroup = {
+  code: string
+  bloodType: string
+  rh?: "+" | "-"
+}
+
+export type IsbtProduct = {
+  // Full 8-character product code, e.g. E0224V00
+  code: string
+  // Product description code, e.g. E0224
+  descriptionCode: string
+  component?: BloodComponentKey
+}
+
+export type IsbtExpiry = {
+  // YYYY-MM-DD
+  date: string
+  // HH:MM, when the expiration date and time data structure was scanned
+  time?: string
+}
+
+export type IsbtLabel = {
+  donationId?: IsbtDonationId
+  bloodGroup?: IsbtBloodGroup
+  product?: IsbtProduct
+  expiry?: IsbtExpiry
+}
+
+function invalid(message: string): never {
+  throw new AppError(ErrorType.VALIDATION, message)
+}
+
+// Check character for a 13-character DIN (ISO/IEC 7064 Mod 37-2)
+export function computeDinCheckCharacter(din: string) {
+  let sum = 0
+  for (const char of din) {
+    sum = ((sum + CHECK_CHARACTERS.indexOf(char)) * 2) % 37
+  }
+  return CHECK_CHARACTERS[(38 - sum) % 37]
+}
+
+// DIN as printed in eye-readable form, e.g. "A9999 22 123456 N"
+export function formatDin(din: string) {
+  return `${din.slice(0, 5)} ${din.slice(5, 7)} ${din.slice(7)} ${computeDinCheckCharacter(din)}`
+}
+
+/**
+ * Parse a DIN entered by hand from the eye-readable text (13 characters,
+ * optionally followed by the check character) or scanned as the donation
+ * identification number data structure ("=" + 13 characters + 2 flags).
+ */
+export function parseDonationId(value: string): IsbtDonationId {
+  const normalized = value.replace(/\s+/g, "").toUpperCase()
+
+  if (normalized.startsWith("=")) {
+    const din = normalized.slice(1, 14)
+    const flags = normalized.slice(14)
+    if (!DIN_PATTERN.test(din) || !/^[0-9A-Z]{2}$/.test(flags)) {
+      invalid("Invalid ISBT 128 donation identification number")
+    }
+    return { din, flags, checkCharacter: computeDinCheckCharacter(din) }
+  }
+
+  const din = normalized.slice(0, 13)
+  if (!DIN_PATTERN.test(din) || normalized.length > 14) {
+    invalid("A donation identification number is 13 characters, e.g. A9999 22 123456")
+  }
+
+  const checkCharacter = computeDinCheckCharacter(din)
+  if (normalized.length === 14 && normalized[13] !== checkCharacter) {
+    invalid("The donation identification number's check character does not match")
+  }
+
+  return { din, checkCharacter }
+}
+
+// Blood groups [ABO and RhD] data structure: "=%" + ggre
+export function parseBloodGroup(value: string): IsbtBloodGroup {
+  const match = value.match(/^=%([0-9A-Z]{2})[0-9A-Z]{2}$/)
+  const group = match && BLOOD_GROUP_CODES[match[1]]
+  if (!match || !group) {
+    invalid("Unrecognised ISBT 128 blood group code")
+  }
+  return { code: match[1], ...group }
+}
+
+// Product code data structure: "=<" + αoooo (description code) + t (collection type) + ds (divisions)
+export function parseProductCode(value: string): IsbtProduct {
+  const match = value.match(/^(?:=<)?([A-Z]\d{4})([0-9A-Z])([0-9A-Z]{2})$/)
+  if (!match) {
+    invalid("Invalid ISBT 128 product code")
+  }
+
+  const descriptionCode = match[1]
+  const component = BLOOD_COMPONENT_LIST.find((candidate) =>
+    (candidate.isbtProductCodes as readonly string[]).includes(descriptionCode),
+  )
+
+  return { code: `${match[1]}${match[2]}${match[3]}`, descriptionCode, component: component?.key }
+}
+
+// Expiration date ("=>" + cyyjjj) or expiration date and time ("&>" + cyyjjjhhmm),
+// where c counts centuries from 2000 and jjj is the day of the year
+export function parseExpiry(value: string): IsbtExpiry {
+  const match = value.match(/^(?:=>(\d)(\d{2})(\d{3})|&>(\d)(\d{2})(\d{3})(\d{2})(\d{2}))$/)
+  if (!match) {
+    invalid("Invalid ISBT 128 expiration date")
+  }
+
+  const [century, year, dayOfYear, hours, minutes] = match[1]
+    ? [match[1], match[2], match[3]]
+    : [match[4], match[5], match[6], match[7], match[8]]
+  const fullYear = 2000 + Number(century) * 100 + Number(year)
+  const date = new Date(Date.UTC(fullYear, 0, Number(dayOfYear)))
+
+  if (Number(dayOfYear) < 1 || date.getUTCFullYear() !== fullYear) {
+    invalid("Invalid day of the year in ISBT 128 expiration date")
+  }
+
+  if (hours !== undefined && (Number(hours) > 23 || Number(minutes) > 59)) {
+    invalid("Invalid time in ISBT 128 expiration date")
+  }
+
+  return {
+    date: date.toISOString().slice(0, 10),
+    ...(hours !== undefined ? { time: `${hours}:${minutes}` } : {}),
+  }
+}
+
+// Length of the data structure starting at a data identifier
+function structureLength(identifier: string) {
+  switch (identifier) {
+    case "=%":
+      return 6
+    case "=<":
+      return 10
+    case "=>":
+      return 8
+    case "&>":
+      return 12
+    default:
+      // Donation identification number: "=" followed by the facility code
+      return identifier[0] === "=" && /[A-NP-Z0-9]/.test(identifier[1]) ? 16 : 0
+  }
+}
+
+/**
+ * Parse a scanned label: one or more concatenated data structures, or a DIN
+ * typed from the eye-readable text.
+ */
+export function parseIsbtScan(input: string): IsbtLabel {
+  const scan = input.trim().toUpperCase()
+  if (!scan) {
+    invalid("Scan or enter an ISBT 128 barcode")
+  }
+
+  if (!scan.startsWith("=") && !scan.startsWith("&")) {
+    return { donationId: parseDonationId(scan) }
+  }
+
+  const label: IsbtLabel = {}
+  let position = 0
+
+  while (position < scan.length) {
+    const identifier = scan.slice(position, position + 2)
+    const length = structureLength(identifier)
+    if (length === 0) {
+      invalid(`Unsupported ISBT 128 data structure "${identifier}"`)
+    }
+
+    const structure = scan.slice(position, position + length)
+    if (structure.length < length) {
+      invalid("Incomplete ISBT 128 barcode")
+    }
+
+    if (identifier === "=%") label.bloodGroup = parseBloodGroup(structure)
+    else if (identifier === "=<") label.product = parseProductCode(structure)
+    else if (identifier === "=>" || identifier === "&>") label.expiry = parseExpiry(structure)
+    else label.donationId = parseDonationId(structure)
+
+    position += length
+  }
+
+  return label
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest"
+import { lockoutSeconds, LoginThrottleError } from "./login-throttle"
+
+// The lockout maths needs no database
+vi.mock("./db", () => ({ executeQuery: vi.fn() }))
+
+describe("lockoutSeconds", () => {
+  it("allows the free attempts without a lockout", () => {
+    for (let failures = 0; failures <= 5; failures++) {
+      expect(lockoutSeconds("username", failures)).toBe(0)
+    }
+    expect(lockoutSeconds("ip", 20)).toBe(0)
+  })
+
+  it("starts at one minute on the first failure past the free attempts", () => {
+    expect(lockoutSeconds("username", 6)).toBe(60)
+    expect(lockoutSeconds("ip", 21)).toBe(60)
+  })
+
+  it("doubles with every further failure", () => {
+    expect(lockoutSeconds("username", 7)).toBe(120)
+    expect(lockoutSeconds("username", 8)).toBe(240)
+    expect(lockoutSeconds("username", 11)).toBe(1920)
+  })
+
+  it("caps the lockout at one hour", () => {
+    expect(lockoutSeconds("username", 12)).toBe(3600)
+    expect(lockoutSeconds("username", 100)).toBe(3600)
+    expect(lockoutSeconds("ip", 1000)).toBe(3600)
+  })
+})
+
+describe("LoginThrottleError", () => {
+  it("rounds the wait up to whole minutes", () => {
+    expect(new LoginThrottleError(60).message).toContain("Try again in 1 minute.")
+    expect(new LoginThrottleError(61).message).toContain("Try again in 2 minutes.")
+    expect(new LoginThrottleError(61).retryAfterSeconds).toBe(61)
+  })
+})
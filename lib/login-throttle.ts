@@ -0,0 +1,156 @@
+import { executeQuery } from "./db"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+
+// Failures allowed before a lockout starts, per scope
+const FREE_ATTEMPTS = { username: 5, ip: 20 } as const
+const BASE_LOCKOUT_SECONDS = 60
+const MAX_LOCKOUT_SECONDS = 60 * 60 // 1 hour
+// Failure counts reset once this long has passed without a new failure
+const FAILURE_WINDOW_HOURS = 24
+
+type ThrottleScope = keyof typeof FREE_ATTEMPTS
+
+// Raised when a username or IP is temporarily locked out
+export class LoginThrottleError extends AppError {
+  retryAfterSeconds: number
+
+  constructor(retryAfterSeconds: number) {
+    const minutes = Math.ceil(retryAfterSeconds / 60)
+    super(
+      ErrorType.RATE_LIMIT,
+      `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      undefined,
+      true,
+    )
+    this.retryAfterSeconds = retryAfterSeconds
+    this.name = "LoginThrottleError"
+  }
+}
+
+function throttleKeys(username: string, ipAddress?: string | null) {
+  const keys: { scope: ThrottleScope; key: string }[] = [{ scope: "username", key: username.trim().toLowerCase() }]
+  if (ipAddress) {
+    keys.push({ scope: "ip", key: ipAddress })
+  }
+  return keys
+}
+
+// Lockout doubles with every failure past the free attempts, up to the maximum
+export function lockoutSeconds(scope: ThrottleScope, failedCount: number) {
+  const excess = failedCount - FREE_ATTEMPTS[scope]
+  if (excess <= 0) {
+    return 0
+  }
+  return Math.min(BASE_LOCKOUT_SECONDS * 2 ** (excess - 1), MAX_LOCKOUT_SECONDS)
+}
+
+// Throw a LoginThrottleError if the username or IP is currently locked out
+export async function assertLoginAllowed(username: string, ipAddress?: string | null) {
+  if (isPreviewMode()) {
+    return
+  }
+
+  const keys = throttleKeys(username, ipAddress)
+  const rows = await executeQuery<{ retry_after: string | number | null }[]>(
+    (sql) => sql`
+      SELECT MAX(EXTRACT(EPOCH FROM (locked_until - NOW()))) as retry_after
+      FROM login_throttle
+      WHERE locked_until > NOW()
+        AND ((scope = 'username' AND throttle_key = ${keys[0].key})
+          OR (scope = 'ip' AND throttle_key = ${keys[1]?.key ?? null}))
+    `,
+  )
+
+  const retryAfter = Number(rows[0]?.retry_after || 0)
+  if (retryAfter > 0) {
+    throw new LoginThrottleError(Math.ceil(retryAfter))
+  }
+}
+
+// Record a failed attempt; returns the lockout in seconds if this failure triggered one
+export async function recordFailedLogin(username: string, ipAddress?: string | null) {
+  if (isPreviewMode()) {
+    return 0
+  }
+
+  let longestLockout = 0
+
+  for (const { scope, key } of throttleKeys(username, ipAddress)) {
+    const rows = await executeQuery<{ failed_count: number }[]>(
+      (sql) => sql`
+        INSERT INTO login_throttle (scope, throttle_key, failed_count, last_failed_at)
+        VALUES (${scope}, ${key}, 1, NOW())
+        ON CONFLICT (scope, throttle_key) DO UPDATE SET
+          failed_count = CASE
+            WHEN login_throttle.last_failed_at < NOW() - make_interval(hours => ${FAILURE_WINDOW_HOURS}) THEN 1
+            ELSE login_throttle.failed_count + 1
+          END,
+          last_failed_at = NOW()
+        RETURNING failed_count
+      `,
+    )
+
+    const seconds = lockoutSeconds(scope, Number(rows[0].failed_count))
+    if (seconds > 0) {
+      await executeQuery(
+        (sql) => sql`
+          UPDATE login_throttle SET locked_until = NOW() + make_interval(secs => ${seconds})
+          WHERE scope = ${scope} AND throttle_key = ${key}
+        `,
+      )
+      longestLockout = Math.max(longestLockout, seconds)
+    }
+  }
+
+  return longestLockout
+}
+
+// Clear the username's failure count after a successful login. The IP count is kept
+// so that one valid account can't be used to reset guessing against others.
+export async function clearFailedLogins(username: string) {
+  if (isPreviewMode()) {
+    return
+  }
+
+  const [{ key }] = throttleKeys(username)
+  await executeQuery((sql) => sql`DELETE FROM login_throttle WHERE scope = 'username' AND throttle_key = ${key}`)
+}
+
+// List accounts at a hospital that are currently locked out
+export async function getLockedAdmins(hospitalId: number) {
+  try {
+    return await executeQuery<Record<string, unknown>[]>(
+      (sql) => sql`
+        SELECT a.admin_id, a.admin_username, t.failed_count, t.last_failed_at, t.locked_until
+        FROM admin a
+        JOIN login_throttle t ON t.scope = 'username' AND t.throttle_key = LOWER(a.admin_username)
+        WHERE a.hospital_id = ${hospitalId} AND t.locked_until > NOW()
+        ORDER BY t.locked_until DESC
+      `,
+    )
+  } catch (error) {
+    throw logError(error, "Get Locked Admins")
+  }
+}
+
+// Lift the lockout on an account at the given hospital
+export async function unlockAdmin(adminId: number, hospitalId: number) {
+  try {
+    const result = await executeQuery<{ admin_id: number }[]>(
+      (sql) => sql`
+        DELETE FROM login_throttle t
+        USING admin a
+        WHERE t.scope = 'username'
+          AND t.throttle_key = LOWER(a.admin_username)
+          AND a.admin_id = ${adminId}
+          AND a.hospital_id = ${hospitalId}
+        RETURNING a.admin_id
+      `,
+    )
+
+    return { success: result.length > 0 }
+  } catch (error) {
+    throw logError(error, "Unlock Admin")
+  }
+}
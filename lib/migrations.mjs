@@ -0,0 +1,317 @@
+// Versioned schema migrations. Files in migrations/ are named NNN_description.sql
+// and hold an "-- migrate:up" section and an optional "-- migrate:down" section.
+// Applied versions are recorded in schema_migrations together with a checksum of
+// the file, and nothing is applied or rolled back while an applied file differs
+// from what was recorded.
+//
+// Plain JavaScript so that scripts/migrate.mjs can run it with node directly.
+import { createHash } from "node:crypto"
+import { readdir, readFile } from "node:fs/promises"
+import path from "node:path"
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), "migrations")
+
+const FILENAME_PATTERN = /^(\d+)_([\w-]+)\.sql$/
+const UP_MARKER = /^--\s*migrate:up\s*$/m
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m
+
+export class MigrationError extends Error {
+  /** @param {string} message */
+  constructor(message) {
+    super(message)
+    this.name = "MigrationError"
+  }
+}
+
+/**
+ * @typedef {{ version: number, name: string, filename: string, checksum: string, up: string[], down: string[] }} Migration
+ * @typedef {{ version: number, name: string, checksum: string, applied_at: string }} AppliedMigration
+ * @typedef {(text: string, params?: unknown[]) => Promise<any[]>} QueryFunction
+ * @typedef {{ query: QueryFunction, transaction: (queries: any[]) => Promise<unknown> }} MigrationClient
+ */
+
+/** @param {string} source */
+export function checksumOf(source) {
+  return createHash("sha256").update(source.replace(/\r\n/g, "\n")).digest("hex")
+}
+
+/**
+ * Split a script into statements on top-level semicolons, leaving quoted
+ * strings, comments and dollar-quoted function bodies intact.
+ * @param {string} script
+ * @returns {string[]}
+ */
+export function splitStatements(script) {
+  const statements = []
+  let current = ""
+  let i = 0
+
+  while (i < script.length) {
+    const char = script[i]
+    const rest = script.slice(i)
+
+    if (rest.startsWith("--")) {
+      const end = script.indexOf("\n", i)
+      i = end === -1 ? script.length : end + 1
+      continue
+    }
+
+    if (rest.startsWith("/*")) {
+      const end = script.indexOf("*/", i + 2)
+      i = end === -1 ? script.length : end + 2
+      continue
+    }
+
+    const dollarTag = rest.match(/^\$[A-Za-z_]*\$/)
+    if (dollarTag) {
+      const tag = dollarTag[0]
+      const end = script.indexOf(tag, i + tag.length)
+      const stop = end === -1 ? script.length : end + tag.length
+      current += script.slice(i, stop)
+      i = stop
+      continue
+    }
+
+    if (char === "'" || char === '"') {
+      let end = i + 1
+      while (end < script.length) {
+        if (script[end] === char && script[end + 1] === char) {
+          end += 2
+        } else if (script[end] === char) {
+          break
+        } else {
+          end++
+        }
+      }
+      current += script.slice(i, end + 1)
+      i = end + 1
+      continue
+    }
+
+    if (char === ";") {
+      if (current.trim()) statements.push(current.trim())
+      current = ""
+      i++
+      continue
+    }
+
+    current += char
+    i++
+  }
+
+  if (current.trim()) statements.push(current.trim())
+  return statements
+}
+
+/**
+ * @param {string} filename
+ * @param {string} source
+ * @returns {Migration}
+ */
+export function parseMigration(filename, source) {
+  const match = filename.match(FILENAME_PATTERN)
+  if (!match) {
+    throw new MigrationError(`${filename} is not named NNN_description.sql`)
+  }
+
+  const upMatch = source.match(UP_MARKER)
+  if (!upMatch || upMatch.index === undefined) {
+    throw new MigrationError(`${filename} has no "-- migrate:up" section`)
+  }
+
+  const upStart = upMatch.index + upMatch[0].length
+  const downMatch = source.match(DOWN_MARKER)
+  const hasDown = downMatch && downMatch.index !== undefined && downMatch.index > upMatch.index
+
+  return {
+    version: Number.parseInt(match[1], 10),
+    name: match[2],
+    filename,
+    checksum: checksumOf(source),
+    up: splitStatements(hasDown ? source.slice(upStart, downMatch.index) : source.slice(upStart)),
+    down: hasDown ? splitStatements(source.slice(downMatch.index + downMatch[0].length)) : [],
+  }
+}
+
+/**
+ * Read every migration file, ordered by version.
+ * @param {string} [dir]
+ * @returns {Promise<Migration[]>}
+ */
+export async function loadMigrations(dir = MIGRATIONS_DIR) {
+  const filenames = (await readdir(dir)).filter((filename) => filename.endsWith(".sql")).sort()
+  const migrations = []
+
+  for (const filename of filenames) {
+    migrations.push(parseMigration(filename, await readFile(path.join(dir, filename), "utf8")))
+  }
+
+  migrations.sort((a, b) => a.version - b.version)
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new MigrationError(
+        `${migrations[i - 1].filename} and ${migrations[i].filename} share version ${migrations[i].version}`,
+      )
+    }
+  }
+
+  return migrations
+}
+
+/** @param {MigrationClient} sql */
+export async function ensureMigrationsTable(sql) {
+  await sql.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `)
+}
+
+/**
+ * Compare the migration files with what has been applied to the database.
+ * Reads only; the tracking table is reported as missing rather than created.
+ * @param {MigrationClient} sql
+ * @param {string} [dir]
+ */
+export async function getMigrationStatus(sql, dir = MIGRATIONS_DIR) {
+  const migrations = await loadMigrations(dir)
+
+  const [{ exists }] = await sql.query(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`)
+  /** @type {AppliedMigration[]} */
+  const applied = exists
+    ? await sql.query(`SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version`)
+    : []
+
+  const files = new Map(migrations.map((migration) => [migration.version, migration]))
+  const appliedVersions = new Set(applied.map((row) => row.version))
+
+  // Applied migrations whose file was edited after it ran
+  const changed = applied
+    .filter((row) => files.has(row.version) && files.get(row.version)?.checksum !== row.checksum)
+    .map((row) => ({ version: row.version, name: row.name }))
+
+  // Applied migrations whose file no longer exists
+  const missing = applied
+    .filter((row) => !files.has(row.version))
+    .map((row) => ({ version: row.version, name: row.name }))
+
+  const pending = migrations
+    .filter((migration) => !appliedVersions.has(migration.version))
+    .map(({ version, name }) => ({ version, name }))
+
+  return {
+    trackingTableExists: Boolean(exists),
+    currentVersion: applied.length > 0 ? applied[applied.length - 1].version : null,
+    applied,
+    pending,
+    changed,
+    missing,
+    upToDate: pending.length === 0 && changed.length === 0 && missing.length === 0,
+  }
+}
+
+/**
+ * @param {Awaited<ReturnType<typeof getMigrationStatus>>} status
+ */
+function assertUnchanged(status) {
+  const problems = [
+    ...status.changed.map(({ version, name }) => `${version}_${name} has changed since it was applied`),
+    ...status.missing.map(({ version, name }) => `${version}_${name} was applied but its file is missing`),
+  ]
+
+  if (problems.length > 0) {
+    throw new MigrationError(`Refusing to run migrations:\n  ${problems.join("\n  ")}`)
+  }
+}
+
+/**
+ * Apply pending migrations in version order, each in its own transaction
+ * together with its schema_migrations row.
+ * @param {MigrationClient} sql
+ * @param {{ dir?: string, to?: number }} [options]
+ */
+export async function applyMigrations(sql, { dir = MIGRATIONS_DIR, to } = {}) {
+  await ensureMigrationsTable(sql)
+  const status = await getMigrationStatus(sql, dir)
+  assertUnchanged(status)
+
+  const pendingVersions = new Set(status.pending.map(({ version }) => version))
+  const toApply = (await loadMigrations(dir)).filter(
+    (migration) => pendingVersions.has(migration.version) && (to === undefined || migration.version <= to),
+  )
+
+  for (const migration of toApply) {
+    await sql.transaction([
+      ...migration.up.map((statement) => sql.query(statement)),
+      sql.query(`INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`, [
+        migration.version,
+        migration.name,
+        migration.checksum,
+      ]),
+    ])
+  }
+
+  return toApply.map(({ version, name }) => ({ version, name }))
+}
+
+/**
+ * Roll back the most recently applied migrations using their down sections.
+ * @param {MigrationClient} sql
+ * @param {{ dir?: string, steps?: number }} [options]
+ */
+export async function rollbackMigrations(sql, { dir = MIGRATIONS_DIR, steps = 1 } = {}) {
+  await ensureMigrationsTable(sql)
+  const status = await getMigrationStatus(sql, dir)
+  assertUnchanged(status)
+
+  const files = new Map((await loadMigrations(dir)).map((migration) => [migration.version, migration]))
+  const toRollBack = status.applied
+    .slice(-steps)
+    .reverse()
+    .map((row) => /** @type {Migration} */ (files.get(row.version)))
+
+  const irreversible = toRollBack.find((migration) => migration.down.length === 0)
+  if (irreversible) {
+    throw new MigrationError(`${irreversible.filename} has no "-- migrate:down" section and cannot be rolled back`)
+  }
+
+  for (const migration of toRollBack) {
+    await sql.transaction([
+      ...migration.down.map((statement) => sql.query(statement)),
+      sql.query(`DELETE FROM schema_migrations WHERE version = $1`, [migration.version]),
+    ])
+  }
+
+  return toRollBack.map(({ version, name }) => ({ version, name }))
+}
+
+/**
+ * Record migrations up to a version as applied without running them, for
+ * databases whose schema was set up by hand before migrations were tracked.
+ * @param {MigrationClient} sql
+ * @param {{ dir?: string, to: number }} options
+ */
+export async function baselineMigrations(sql, { dir = MIGRATIONS_DIR, to }) {
+  await ensureMigrationsTable(sql)
+  const status = await getMigrationStatus(sql, dir)
+  assertUnchanged(status)
+
+  const pendingVersions = new Set(status.pending.map(({ version }) => version))
+  const toRecord = (await loadMigrations(dir)).filter(
+    (migration) => pendingVersions.has(migration.version) && migration.version <= to,
+  )
+
+  for (const migration of toRecord) {
+    await sql.query(`INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`, [
+      migration.version,
+      migration.name,
+      migration.checksum,
+    ])
+  }
+
+  return toRecord.map(({ version, name }) => ({ version, name }))
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest"
+import { checksumOf, loadMigrations, MigrationError, parseMigration, splitStatements } from "./migrations.mjs"
+
+describe("parseMigration", () => {
+  it("splits the up and down sections into statements", () => {
+    const migration = parseMigration(
+      "007_add-widgets.sql",
+      [
+        "-- migrate:up",
+        "CREATE TABLE widgets (id SERIAL PRIMARY KEY);",
+        "CREATE INDEX idx_widgets ON widgets(id);",
+        "",
+        "-- migrate:down",
+        "DROP TABLE widgets;",
+      ].join("\n"),
+    )
+
+    expect(migration).toMatchObject({ version: 7, name: "add-widgets", filename: "007_add-widgets.sql" })
+    expect(migration.up).toEqual([
+      "CREATE TABLE widgets (id SERIAL PRIMARY KEY)",
+      "CREATE INDEX idx_widgets ON widgets(id)",
+    ])
+    expect(migration.down).toEqual(["DROP TABLE widgets"])
+  })
+
+  it("treats the down section as optional", () => {
+    const migration = parseMigration("001_init.sql", "-- migrate:up\nSELECT 1;")
+
+    expect(migration.up).toEqual(["SELECT 1"])
+    expect(migration.down).toEqual([])
+  })
+
+  it("ignores a down marker that comes before the up marker", () => {
+    const migration = parseMigration("001_init.sql", "-- migrate:down\n-- migrate:up\nSELECT 1;")
+
+    expect(migration.up).toEqual(["SELECT 1"])
+    expect(migration.down).toEqual([])
+  })
+
+  it("rejects files without an up section or with a bad name", () => {
+    expect(() => parseMigration("001_init.sql", "SELECT 1;")).toThrow(MigrationError)
+    expect(() => parseMigration("init.sql", "-- migrate:up\nSELECT 1;")).toThrow(MigrationError)
+  })
+
+  it("records the checksum of the whole file", () => {
+    const source = "-- migrate:up\nSELECT 1;\n-- migrate:down\nSELECT 2;\n"
+
+    expect(parseMigration("001_init.sql", source).checksum).toBe(checksumOf(source))
+  })
+})
+
+describe("checksumOf", () => {
+  it("ignores line ending differences", () => {
+    expect(checksumOf("SELECT 1;\r\nSELECT 2;\r\n")).toBe(checksumOf("SELECT 1;\nSELECT 2;\n"))
+  })
+
+  it("changes when the content changes", () => {
+    expect(checksumOf("SELECT 1;")).not.toBe(checksumOf("SELECT 2;"))
+    expect(checksumOf("SELECT 1;")).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
+
+describe("splitStatements", () => {
+  it("keeps semicolons inside strings, comments and function bodies", () => {
+    const statements = splitStatements(`
+      INSERT INTO notes (body) VALUES ('a; b'), ('it''s; fine');
+      -- a comment; not a statement
+      /* another; comment */
+      CREATE FUNCTION f() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'no; way';
+      END;
+      $$ LANGUAGE plpgsql;
+      DO $body$ BEGIN PERFORM 1; END $body$;
+    `)
+
+    expect(statements).toHaveLength(3)
+    expect(statements[0]).toBe("INSERT INTO notes (body) VALUES ('a; b'), ('it''s; fine')")
+    expect(statements[1]).toMatch(/^CREATE FUNCTION f\(\)[\s\S]*RAISE EXCEPTION 'no; way';[\s\S]*LANGUAGE plpgsql$/)
+    expect(statements[2]).toBe("DO $body$ BEGIN PERFORM 1; END $body$")
+  })
+})
+
+describe("loadMigrations", () => {
+  it("parses every migration in the repository in version order", async () => {
+    const migrations = await loadMigrations()
+    const versions = migrations.map((migration) => migration.version)
+
+    expect(migrations.length).toBeGreaterThan(0)
+    expect(versions).toEqual([...versions].sort((a, b) => a - b))
+    for (const migration of migrations) {
+      expect(migration.up.length, migration.filename).toBeGreaterThan(0)
+    }
+  })
+})
@@ -0,0 +1,68 @@
+// Stock across every hospital in the network, as shown to network coordinators
+// on the network dashboard.
+//
+// This module is imported by client components and must stay free of server code.
+import type { BloodComponentKey } from "./blood-components"
+import type { StockLevel, StockStatus } from "./stock-levels"
+
+// Days of use that days-of-supply is averaged over
+export const USAGE_WINDOW_DAYS = 30
+
+export type NetworkHospital = {
+  hospital_id: number
+  hospital_name: string
+}
+
+// One hospital's available stock of a blood group, against its own levels
+export type NetworkStockCell = {
+  hospital_id: number
+  blood_type: string
+  rh: string
+  count: number
+  total_amount: number
+  level: StockLevel
+  status: StockStatus
+}
+
+// How long a hospital's available stock of a component lasts at its recent rate of use
+export type NetworkSupply = {
+  hospital_id: number
+  available: number
+  // Units issued or transfused within the usage window
+  used: number
+  // Null when nothing was used within the window
+  days_of_supply: number | null
+}
+
+// Available units across the network expiring within the expiring-soon window
+export type NetworkExpiringCount = {
+  blood_type: string
+  rh: string
+  count: number
+}
+
+// Units a hospital holding surplus could send to one running low
+export type RebalancingMove = {
+  blood_type: string
+  rh: string
+  from_hospital_id: number
+  from_hospital_name: string
+  to_hospital_id: number
+  to_hospital_name: string
+  units: number
+  // Status of the receiving hospital before the move
+  to_status: StockStatus
+}
+
+export type NetworkComponentOverview = {
+  component: BloodComponentKey
+  stock: NetworkStockCell[]
+  supply: NetworkSupply[]
+  expiring: NetworkExpiringCount[]
+  moves: RebalancingMove[]
+}
+
+export type NetworkDashboard = {
+  hospitals: NetworkHospital[]
+  components: NetworkComponentOverview[]
+}
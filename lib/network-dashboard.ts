@@ -0,0 +1,247 @@
+import { dbClient, MOCK_DATA } from "./db"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { EXPIRING_SOON_DAYS } from "./expiry"
+import { BLOOD_COMPONENT_LIST, BLOOD_COMPONENTS, type BloodComponentKey } from "./blood-components"
+import {
+  DEFAULT_STOCK_LEVELS,
+  findStockLevel,
+  getStockGroups,
+  getStockStatus,
+  type StockLevel,
+} from "./stock-levels"
+import {
+  USAGE_WINDOW_DAYS,
+  type NetworkComponentOverview,
+  type NetworkDashboard,
+  type NetworkHospital,
+  type NetworkStockCell,
+  type RebalancingMove,
+} from "./network-dashboard-types"
+
+type StockRow = {
+  hospital_id: number
+  blood_type: string
+  rh: string
+  count: number
+  total_amount: number
+  expiring: number
+}
+
+type LevelRow = StockLevel & {
+  hospital_id: number
+  component: string
+  blood_type: string
+  rh: string
+}
+
+function requireDbClient() {
+  if (!dbClient) {
+    throw new AppError(
+      ErrorType.DATABASE_CONNECTION,
+      "Database client not initialized",
+      "Database URL environment variable may be missing or invalid",
+    )
+  }
+  return dbClient
+}
+
+// A stock level in whole units; levels set in millilitres are converted at the average bag volume
+function levelInUnits(component: BloodComponentKey, value: number, cell: NetworkStockCell) {
+  if (cell.level.measure === "units") {
+    return value
+  }
+  const { min, max } = BLOOD_COMPONENTS[component].volumeRange
+  const bagVolume = cell.count > 0 ? cell.total_amount / cell.count : (min + max) / 2
+  return Math.ceil(value / bagVolume)
+}
+
+// Pair hospitals below their target with hospitals above their maximum, most urgent first.
+// Suppliers give down to their own target so a move never leaves them short.
+function suggestRebalancing(
+  component: BloodComponentKey,
+  hospitals: NetworkHospital[],
+  stock: NetworkStockCell[],
+): RebalancingMove[] {
+  const hospitalName = (hospitalId: number) =>
+    hospitals.find((hospital) => hospital.hospital_id === hospitalId)?.hospital_name ?? `Hospital ${hospitalId}`
+  const moves: RebalancingMove[] = []
+
+  for (const { blood_type, rh } of getStockGroups(component)) {
+    const cells = stock.filter((cell) => cell.blood_type === blood_type && cell.rh === rh)
+
+    const suppliers = cells
+      .filter((cell) => cell.status === "surplus")
+      .map((cell) => ({ cell, spare: cell.count - levelInUnits(component, cell.level.target, cell) }))
+      .filter((supplier) => supplier.spare > 0)
+      .sort((a, b) => b.spare - a.spare)
+
+    const receivers = cells
+      .filter((cell) => cell.status === "critical" || cell.status === "low")
+      .map((cell) => ({ cell, need: levelInUnits(component, cell.level.target, cell) - cell.count }))
+      .filter((receiver) => receiver.need > 0)
+      .sort((a, b) => Number(b.cell.status === "critical") - Number(a.cell.status === "critical") || b.need - a.need)
+
+    for (const receiver of receivers) {
+      for (const supplier of suppliers) {
+        if (receiver.need <= 0) break
+        if (supplier.spare <= 0) continue
+
+        const units = Math.min(receiver.need, supplier.spare)
+        receiver.need -= units
+        supplier.spare -= units
+        moves.push({
+          blood_type,
+          rh,
+          from_hospital_id: supplier.cell.hospital_id,
+          from_hospital_name: hospitalName(supplier.cell.hospital_id),
+          to_hospital_id: receiver.cell.hospital_id,
+          to_hospital_name: hospitalName(receiver.cell.hospital_id),
+          units,
+          to_status: receiver.cell.status,
+        })
+      }
+    }
+  }
+
+  return moves
+}
+
+function buildComponentOverview(
+  component: BloodComponentKey,
+  hospitals: NetworkHospital[],
+  stockRows: StockRow[],
+  levelRows: LevelRow[],
+  usage: Map<number, number>,
+): NetworkComponentOverview {
+  const groups = getStockGroups(component)
+
+  // Every hospital gets a cell for every group, so empty shelves show up against their levels
+  const stock = hospitals.flatMap(({ hospital_id }) =>
+    groups.map(({ blood_type, rh }): NetworkStockCell => {
+      const row = stockRows.find(
+        (item) => item.hospital_id === hospital_id && item.blood_type === blood_type && item.rh === rh,
+      )
+      const configured = levelRows.find(
+        (level) =>
+          level.hospital_id === hospital_id &&
+          level.component === component &&
+          level.blood_type === blood_type &&
+          level.rh === rh,
+      )
+      const level: StockLevel = configured
+        ? {
+            measure: configured.measure,
+            minimum: configured.minimum,
+            target: configured.target,
+            maximum: configured.maximum,
+          }
+        : findStockLevel(DEFAULT_STOCK_LEVELS, component, blood_type, rh)
+      const amounts = { count: row?.count ?? 0, total_amount: row?.total_amount ?? 0 }
+
+      return { hospital_id, blood_type, rh, ...amounts, level, status: getStockStatus(level, amounts) }
+    }),
+  )
+
+  const supply = hospitals.map(({ hospital_id }) => {
+    const available = stockRows
+      .filter((row) => row.hospital_id === hospital_id)
+      .reduce((sum, row) => sum + row.count, 0)
+    const used = usage.get(hospital_id) ?? 0
+
+    return {
+      hospital_id,
+      available,
+      used,
+      days_of_supply: used > 0 ? Math.round((available / (used / USAGE_WINDOW_DAYS)) * 10) / 10 : null,
+    }
+  })
+
+  const expiring = groups.map(({ blood_type, rh }) => ({
+    blood_type,
+    rh,
+    count: stockRows
+      .filter((row) => row.blood_type === blood_type && row.rh === rh)
+      .reduce((sum, row) => sum + row.expiring, 0),
+  }))
+
+  return { component, stock, supply, expiring, moves: suggestRebalancing(component, hospitals, stock) }
+}
+
+// Available stock, days of supply, expiring units and suggested moves for every hospital and component
+export async function getNetworkDashboard(): Promise<NetworkDashboard> {
+  if (isPreviewMode()) {
+    const hospitals = MOCK_DATA.hospitals
+    return {
+      hospitals,
+      components: BLOOD_COMPONENT_LIST.map(({ key }) => buildComponentOverview(key, hospitals, [], [], new Map())),
+    }
+  }
+
+  try {
+    const client = requireDbClient()
+
+    const hospitals = (await client.query(
+      "SELECT hospital_id, hospital_name FROM hospital ORDER BY hospital_name",
+    )) as NetworkHospital[]
+
+    const levelRows = (
+      await client.query(
+        "SELECT hospital_id, component, blood_type, rh, measure, minimum, target, maximum FROM stock_levels",
+      )
+    ).map((row) => ({
+      hospital_id: row.hospital_id as number,
+      component: row.component as string,
+      blood_type: row.blood_type as string,
+      rh: row.rh as string,
+      measure: row.measure as StockLevel["measure"],
+      minimum: Number(row.minimum),
+      target: Number(row.target),
+      maximum: Number(row.maximum),
+    }))
+
+    const components: NetworkComponentOverview[] = []
+
+    for (const { key, tableName, hasRh } of BLOOD_COMPONENT_LIST) {
+      const rhColumn = hasRh ? "rh" : "'' as rh"
+      const groupColumns = hasRh ? "blood_type, rh" : "blood_type"
+
+      const stockRows = (
+        await client.query(
+          `
+            SELECT hospital_id, blood_type, ${rhColumn}, COUNT(*) as count, SUM(amount) as total_amount,
+                   SUM(CASE WHEN expiration_date <= NOW() + INTERVAL '${EXPIRING_SOON_DAYS} days' THEN 1 ELSE 0 END)
+                     as expiring
+            FROM ${tableName}
+            WHERE expiration_date > NOW() AND active = true AND status = 'available'
+            GROUP BY hospital_id, ${groupColumns}
+          `,
+        )
+      ).map((row) => ({
+        hospital_id: row.hospital_id as number,
+        blood_type: row.blood_type as string,
+        rh: row.rh as string,
+        count: Number(row.count),
+        total_amount: Number(row.total_amount),
+        expiring: Number(row.expiring),
+      }))
+
+      // A unit is used once it leaves the blood bank; transfusion moves it on from issued
+      const usageRows = await client.query(
+        `
+          SELECT hospital_id, COUNT(*) as used FROM ${tableName}
+          WHERE status IN ('issued', 'transfused')
+            AND status_changed_at > NOW() - INTERVAL '${USAGE_WINDOW_DAYS} days'
+          GROUP BY hospital_id
+        `,
+      )
+      const usage = new Map(usageRows.map((row) => [row.hospital_id as number, Number(row.used)]))
+
+      components.push(buildComponentOverview(key, hospitals, stockRows, levelRows, usage))
+    }
+
+    return { hospitals, components }
+  } catch (error) {
+    throw logError(error, "Get Network Dashboard")
+  }
+}
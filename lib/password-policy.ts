@@ -0,0 +1,25 @@
+// Password rules for admin accounts, shared by the forms and the server
+export const PASSWORD_MIN_LENGTH = 10
+export const PASSWORD_MAX_LENGTH = 128
+
+export const PASSWORD_POLICY_DESCRIPTION = `At least ${PASSWORD_MIN_LENGTH} characters, with a letter and a number, and not containing your username`
+
+// List every rule a password breaks; an empty list means it is acceptable
+export function getPasswordPolicyViolations(password: string, username?: string | null): string[] {
+  const violations: string[] = []
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    violations.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    violations.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters`)
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    violations.push("Password must contain both letters and numbers")
+  }
+  if (username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+    violations.push("Password must not contain your username")
+  }
+
+  return violations
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { hashPassword, isPasswordHash, verifyLegacyPassword, verifyPasswordHash } from "./password"
+
+describe("hashPassword", () => {
+  it("produces a scrypt hash that verifies against the same password", async () => {
+    const hash = await hashPassword("correct horse battery staple")
+
+    expect(hash).toMatch(/^scrypt\$32768\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/)
+    expect(isPasswordHash(hash)).toBe(true)
+    expect(await verifyPasswordHash("correct horse battery staple", hash)).toBe(true)
+    expect(await verifyPasswordHash("correct horse battery stapler", hash)).toBe(false)
+  })
+
+  it("salts every hash", async () => {
+    const [first, second] = await Promise.all([hashPassword("secret"), hashPassword("secret")])
+
+    expect(first).not.toBe(second)
+  })
+})
+
+describe("verifyPasswordHash", () => {
+  it("reads the cost parameters from the stored hash", async () => {
+    const hash = await hashPassword("secret")
+    const [, , , , salt, key] = hash.split("$")
+
+    // A hash stored with other parameters doesn't match under the current ones
+    expect(await verifyPasswordHash("secret", ["scrypt", 16384, 8, 1, salt, key].join("$"))).toBe(false)
+  })
+
+  it("rejects values that aren't hashes", async () => {
+    expect(await verifyPasswordHash("secret", "secret")).toBe(false)
+    expect(await verifyPasswordHash("secret", "bcrypt$1$2$3$4$5")).toBe(false)
+  })
+})
+
+describe("legacy passwords", () => {
+  it("tells plaintext values apart from hashes", () => {
+    expect(isPasswordHash("password")).toBe(false)
+    expect(isPasswordHash("a$b$c")).toBe(false)
+    expect(isPasswordHash(null)).toBe(false)
+    expect(isPasswordHash(undefined)).toBe(false)
+  })
+
+  it("compares plaintext values exactly", () => {
+    expect(verifyLegacyPassword("password", "password")).toBe(true)
+    expect(verifyLegacyPassword("password", "Password")).toBe(false)
+    expect(verifyLegacyPassword("password", "password1")).toBe(false)
+    expect(verifyLegacyPassword("", "")).toBe(true)
+  })
+
+  it("upgrades a verified plaintext value to a hash of the same password", async () => {
+    const stored = "hunter2"
+    expect(isPasswordHash(stored)).toBe(false)
+    expect(verifyLegacyPassword("hunter2", stored)).toBe(true)
+
+    const upgraded = await hashPassword("hunter2")
+
+    expect(isPasswordHash(upgraded)).toBe(true)
+    expect(await verifyPasswordHash("hunter2", upgraded)).toBe(true)
+    // The plaintext comparison no longer matches once the row holds a hash
+    expect(verifyLegacyPassword("hunter2", upgraded)).toBe(false)
+  })
+})
@@ -0,0 +1,88 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto"
+
+/**
+ * Password hashing for admin accounts.
+ *
+ * Hashes use scrypt (memory-hard) with a random per-user salt and are stored as
+ * `scrypt$N$r$p$<salt>$<hash>` so the cost parameters can be raised later
+ * without breaking existing rows.
+ */
+
+// scrypt cost parameters (N=2^15 uses ~32 MB per hash)
+const SCRYPT_PARAMS = {
+  N: 32768,
+  r: 8,
+  p: 1,
+}
+const SALT_BYTES = 16
+const KEY_LENGTH = 64
+const HASH_PREFIX = "scrypt"
+
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...options, maxmem: 128 * options.N! * options.r! * 2 }, (error, key) => {
+      if (error) {
+        reject(error)
+      } else {
+        resolve(key)
+      }
+    })
+  })
+}
+
+/**
+ * Checks whether a stored value is a hash produced by hashPassword
+ * (as opposed to a legacy plaintext password)
+ */
+export function isPasswordHash(stored: string | null | undefined): boolean {
+  if (!stored) return false
+  const parts = stored.split("$")
+  return parts.length === 6 && parts[0] === HASH_PREFIX
+}
+
+/**
+ * Hashes a password with a fresh random salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await deriveKey(password, salt, KEY_LENGTH, SCRYPT_PARAMS)
+
+  return [
+    HASH_PREFIX,
+    SCRYPT_PARAMS.N,
+    SCRYPT_PARAMS.r,
+    SCRYPT_PARAMS.p,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$")
+}
+
+/**
+ * Verifies a password against a stored hash in constant time
+ */
+export async function verifyPasswordHash(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    return false
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split("$")
+  const salt = Buffer.from(saltB64, "base64")
+  const expected = Buffer.from(hashB64, "base64")
+
+  const key = await deriveKey(password, salt, expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  })
+
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
+
+/**
+ * Compares a password against a legacy plaintext value in constant time
+ */
+export function verifyLegacyPassword(password: string, stored: string): boolean {
+  const a = Buffer.from(password)
+  const b = Buffer.from(stored)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
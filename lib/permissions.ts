@@ -0,0 +1,87 @@
+// Admin roles, from least to most privileged
+export const ADMIN_ROLES = ["viewer", "technician", "hospital_admin", "network_coordinator"] as const
+
+export type AdminRole = (typeof ADMIN_ROLES)[number]
+
+// Actions that can be granted to a role
+export type Permission =
+  | "inventory:view"
+  | "inventory:add"
+  | "inventory:edit"
+  | "inventory:delete"
+  | "inventory:restore"
+  | "inventory:update-status"
+  | "inventory:release"
+  | "inventory:view-all-hospitals"
+  | "diagnostics:debug"
+  | "audit:view"
+  | "admins:manage"
+  | "hospital:settings"
+  | "transfers:manage"
+  | "hospitals:create"
+
+// Display labels for roles
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  technician: "Lab Technician",
+  hospital_admin: "Hospital Admin",
+  network_coordinator: "Network Coordinator",
+}
+
+// Permission matrix: which actions each role may perform
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  // Read-only access, e.g. night-shift lab staff
+  viewer: ["inventory:view"],
+  technician: ["inventory:view", "inventory:add", "inventory:edit", "inventory:update-status"],
+  hospital_admin: [
+    "inventory:view",
+    "inventory:add",
+    "inventory:edit",
+    "inventory:delete",
+    "inventory:restore",
+    "inventory:update-status",
+    "inventory:release",
+    "diagnostics:debug",
+    "audit:view",
+    "admins:manage",
+    "hospital:settings",
+    "transfers:manage",
+  ],
+  network_coordinator: [
+    "inventory:view",
+    "inventory:add",
+    "inventory:edit",
+    "inventory:delete",
+    "inventory:restore",
+    "inventory:update-status",
+    "inventory:release",
+    "inventory:view-all-hospitals",
+    "diagnostics:debug",
+    "audit:view",
+    "admins:manage",
+    "hospital:settings",
+    "transfers:manage",
+    "hospitals:create",
+  ],
+}
+
+// Check whether a value is a known role
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value)
+}
+
+// Check whether a role grants a permission
+export function hasPermission(role: AdminRole | null | undefined, permission: Permission): boolean {
+  if (!role || !isAdminRole(role)) {
+    return false
+  }
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Check whether an admin may grant a role to someone else (never above their own role)
+export function canAssignRole(actorRole: AdminRole | null | undefined, targetRole: AdminRole): boolean {
+  if (!hasPermission(actorRole, "admins:manage")) {
+    return false
+  }
+  return ADMIN_ROLES.indexOf(targetRole) <= ADMIN_ROLES.indexOf(actorRole as AdminRole)
+}
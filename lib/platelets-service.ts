@@ -3,6 +3,8 @@ import { queryCache } from "./cache"
 import { AppError, ErrorType, logError } from "./error-handling"
 import { isPreviewMode } from "./environment-detection"
 import { MOCK_DATA } from "./db"
+import { insertWithAudit } from "./audit-log"
+import { buildInventoryWhereClause, type InventoryFilters } from "./inventory-filters"
 
 /**
  * Enhanced service for retrieving platelets inventory data
@@ -49,7 +51,7 @@ export async function getPlateletsInventory(hospitalId: number) {
       FROM platelets_inventory
       WHERE 
         hospital_id = $1 
-        AND expiration_date > CURRENT_DATE 
+        AND expiration_date > NOW() 
         AND active = true
       GROUP BY blood_type, rh
       ORDER BY blood_type, rh
@@ -105,9 +107,10 @@ export async function getPlateletsInventory(hospitalId: number) {
 /**
  * Function to get raw platelets inventory data for debugging
  */
-export async function getRawPlateletsInventory(hospitalId: number) {
+export async function getRawPlateletsInventory(filters: InventoryFilters) {
   // In preview mode, return mock data
   if (isPreviewMode()) {
+    const hospitalId = filters.hospitalId ?? 1
     return {
       success: true,
       data: [
@@ -179,15 +182,16 @@ export async function getRawPlateletsInventory(hospitalId: number) {
 
     const dbClient = neon(process.env.DATABASE_URL)
 
-    // Get all raw platelet inventory data without any grouping
+    // Get all raw platelet inventory data matching the filters, without any grouping
+    const where = buildInventoryWhereClause("platelets", filters)
     const query = `
       SELECT *
       FROM platelets_inventory
-      WHERE hospital_id = $1 AND active = true
+      ${where.clause}
       ORDER BY blood_type, rh, expiration_date DESC
     `
 
-    const result = await dbClient.query(query, [hospitalId])
+    const result = await dbClient.query(query, where.params)
 
     return {
       success: true,
@@ -208,7 +212,7 @@ export async function getRawPlateletsInventory(hospitalId: number) {
 /**
  * Function to add a test platelet entry for debugging
  */
-export async function addTestPlateletEntry(hospitalId: number) {
+export async function addTestPlateletEntry(hospitalId: number, adminId: number) {
   if (isPreviewMode()) {
     return { success: true, message: "Test platelet entry added (preview mode)" }
   }
@@ -221,8 +225,6 @@ export async function addTestPlateletEntry(hospitalId: number) {
       }
     }
 
-    const dbClient = neon(process.env.DATABASE_URL)
-
     // Generate random blood type and Rh
     const bloodTypes = ["A", "B", "AB", "O"]
     const rhFactors = ["+", "-"]
@@ -233,33 +235,26 @@ export async function addTestPlateletEntry(hospitalId: number) {
     const expirationDate = new Date()
     expirationDate.setDate(expirationDate.getDate() + 30)
 
-    // Insert test platelet entry
-    const query = `
-      INSERT INTO platelets_inventory 
-      (donor_name, amount, hospital_id, expiration_date, blood_type, rh, active)
-      VALUES 
-      ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING bag_id
-    `
-
-    const result = await dbClient.query(query, [
-      `Test Donor ${new Date().toISOString()}`,
-      250,
-      hospitalId,
-      expirationDate.toISOString(),
-      bloodType,
+    // Insert test platelet entry, with its audit entry
+    const result = await insertWithAudit("platelets", { adminId, hospitalId }, {
+      donor_name: `Test Donor ${new Date().toISOString()}`,
+      amount: 250,
+      hospital_id: hospitalId,
+      created_by: adminId,
+      expiration_date: expirationDate.toISOString(),
+      blood_type: bloodType,
       rh,
-      true,
-    ])
+      active: true,
+    })
 
     // Invalidate cache
     queryCache.invalidate(`platelets:${hospitalId}`)
 
     return {
       success: true,
-      message: `Test platelet entry added with ID: ${result[0]?.bag_id}`,
+      message: `Test platelet entry added with ID: ${result?.bag_id}`,
       details: {
-        bagId: result[0]?.bag_id,
+        bagId: result?.bag_id,
         bloodType,
         rh,
         expirationDate: expirationDate.toISOString(),
@@ -0,0 +1,421 @@
+/**
+ * Minimal QR code encoder (byte mode, error correction level M).
+ *
+ * Used to render authenticator enrollment links as inline SVG without a
+ * third-party dependency. Follows ISO/IEC 18004; the structure mirrors the
+ * well-known reference implementation by Project Nayuki.
+ */
+
+// Error correction codewords per block and number of blocks, by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+]
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33,
+  35, 37, 38, 40, 43, 45, 47, 49,
+]
+
+// Format bits for error correction level M
+const ECC_LEVEL_M_FORMAT_BITS = 0
+
+function getBit(value: number, index: number) {
+  return ((value >>> index) & 1) !== 0
+}
+
+function getNumRawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) {
+      result -= 36
+    }
+  }
+  return result
+}
+
+function getNumDataCodewords(version: number) {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+  )
+}
+
+// Multiply two elements of GF(2^8) modulo the QR polynomial 0x11D
+function gfMultiply(x: number, y: number) {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1]
+      }
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Split data into blocks, append error correction to each and interleave them
+function addEccAndInterleave(data: number[], version: number) {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+  const divisor = reedSolomonDivisor(blockEccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1))
+    k += blockData.length
+    const ecc = reedSolomonRemainder(blockData, divisor)
+    if (i < numShortBlocks) {
+      blockData.push(0)
+    }
+    blocks.push(blockData.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte in short blocks
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+// Encode bytes as mode indicator, length and data, padded to the version's capacity
+function encodeDataCodewords(bytes: Uint8Array) {
+  let version = 1
+  let lengthBits = 8
+  for (; version <= 40; version++) {
+    lengthBits = version <= 9 ? 8 : 16
+    if (4 + lengthBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) {
+      break
+    }
+  }
+  if (version > 40) {
+    throw new Error("Data too long for a QR code")
+  }
+
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1)
+    }
+  }
+
+  append(0b0100, 4) // Byte mode
+  append(bytes.length, lengthBits)
+  bytes.forEach((byte) => append(byte, 8))
+
+  const capacityBits = getNumDataCodewords(version) * 8
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return { version, codewords }
+}
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0)
+      this.setFunctionModule(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinderPattern(3, 3)
+    this.drawFinderPattern(this.size - 4, 3)
+    this.drawFinderPattern(3, this.size - 4)
+
+    const positions = this.alignmentPatternPositions()
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Alignment patterns never overlap the finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(x, y)
+        }
+      })
+    })
+
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  private alignmentPatternPositions() {
+    if (this.version === 1) {
+      return []
+    }
+    const numAlign = Math.floor(this.version / 7) + 2
+    const step = this.version === 32 ? 26 : Math.ceil((this.version * 4 + 4) / (numAlign * 2 - 2)) * 2
+    const result = [6]
+    for (let position = this.size - 7; result.length < numAlign; position -= step) {
+      result.splice(1, 0, position)
+    }
+    return result
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_LEVEL_M_FORMAT_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    // First copy, around the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, getBit(bits, i))
+    }
+    this.setFunctionModule(8, 7, getBit(bits, 6))
+    this.setFunctionModule(8, 8, getBit(bits, 7))
+    this.setFunctionModule(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, getBit(bits, i))
+    }
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i))
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i))
+    }
+    this.setFunctionModule(8, this.size - 8, true) // Always dark
+  }
+
+  private drawVersion() {
+    if (this.version < 7) {
+      return
+    }
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i)
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunctionModule(a, b, bit)
+      this.setFunctionModule(b, a, bit)
+    }
+  }
+
+  // Place data bits in the zigzag pattern, skipping function modules
+  drawCodewords(data: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  // XOR the mask pattern over the data modules; applying it twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean
+        switch (mask) {
+          case 0:
+            invert = (x + y) % 2 === 0
+            break
+          case 1:
+            invert = y % 2 === 0
+            break
+          case 2:
+            invert = x % 3 === 0
+            break
+          case 3:
+            invert = (x + y) % 3 === 0
+            break
+          case 4:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+            break
+          case 5:
+            invert = ((x * y) % 2) + ((x * y) % 3) === 0
+            break
+          case 6:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+            break
+          default:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+        }
+        if (invert && !this.isFunction[y][x]) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  // Penalty score used to pick the mask that is easiest to scan
+  penaltyScore() {
+    const { size, modules } = this
+    let penalty = 0
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true],
+    ]
+
+    for (let line = 0; line < 2; line++) {
+      for (let a = 0; a < size; a++) {
+        const get = (b: number) => (line === 0 ? modules[a][b] : modules[b][a])
+        let runLength = 1
+        for (let b = 1; b <= size; b++) {
+          if (b < size && get(b) === get(b - 1)) {
+            runLength++
+            continue
+          }
+          // Long runs of one color
+          if (runLength >= 5) {
+            penalty += 3 + (runLength - 5)
+          }
+          runLength = 1
+        }
+
+        // Patterns that look like finder patterns
+        for (let b = 0; b + 11 <= size; b++) {
+          for (const pattern of finderLike) {
+            if (pattern.every((dark, k) => get(b + k) === dark)) {
+              penalty += 40
+            }
+          }
+        }
+      }
+    }
+
+    // 2x2 blocks of one color
+    let dark = 0
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) {
+          dark++
+        }
+        if (
+          x < size - 1 &&
+          y < size - 1 &&
+          modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] &&
+          modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          penalty += 3
+        }
+      }
+    }
+
+    // Imbalance between dark and light modules
+    const total = size * size
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+    return penalty
+  }
+}
+
+// Encode text as a QR code; returns rows of modules where true is dark
+export function encodeQrCode(text: string): boolean[][] {
+  const { version, codewords } = encodeDataCodewords(new TextEncoder().encode(text))
+
+  const matrix = new QrMatrix(version)
+  matrix.drawFunctionPatterns()
+  matrix.drawCodewords(addEccAndInterleave(codewords, version))
+
+  let bestMask = 0
+  let bestPenalty = Number.POSITIVE_INFINITY
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(mask)
+    const penalty = matrix.penaltyScore()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    matrix.applyMask(mask)
+  }
+
+  matrix.applyMask(bestMask)
+  matrix.drawFormatBits(bestMask)
+  return matrix.modules
+}
@@ -0,0 +1,155 @@
+import { executeQuery } from "./db"
+import { logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { isAdminRole, type AdminRole } from "./permissions"
+import { generateSessionId, hashSessionId, signSessionId, SESSION_TTL_MS, verifySessionToken } from "./session-token"
+
+// Only refresh last_seen_at when it is older than this, to avoid a write per request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000 // 5 minutes
+
+export type SessionRecord = {
+  sessionId: string
+  adminId: number
+  hospitalId: number
+  role: AdminRole
+  expiresAt: Date
+}
+
+// A live session joined to its admin's current role
+type SessionRow = {
+  session_id: string | number
+  admin_id: number
+  hospital_id: number
+  expires_at: string
+  last_seen_at: string | null
+  role: string
+}
+
+type SessionMetadata = {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+// Create a session row and return the signed token for the cookie
+export async function createSessionRecord(adminId: number, hospitalId: number, metadata: SessionMetadata = {}) {
+  const sessionId = generateSessionId()
+  const token = await signSessionId(sessionId)
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  // Preview mode has no database; the signed token alone identifies the mock admin
+  if (isPreviewMode()) {
+    return { token, expiresAt }
+  }
+
+  const tokenHash = await hashSessionId(sessionId)
+
+  await executeQuery(async (sql) => {
+    await sql`
+      INSERT INTO sessions (token_hash, admin_id, hospital_id, expires_at, last_seen_at, ip_address, user_agent)
+      VALUES (
+        ${tokenHash},
+        ${adminId},
+        ${hospitalId},
+        ${expiresAt.toISOString()},
+        NOW(),
+        ${metadata.ipAddress || null},
+        ${metadata.userAgent ? metadata.userAgent.slice(0, 512) : null}
+      )
+    `
+  })
+
+  return { token, expiresAt }
+}
+
+// Resolve a session token to the admin and hospital it belongs to
+export async function findActiveSession(token: string | undefined | null): Promise<SessionRecord | null> {
+  const sessionId = await verifySessionToken(token)
+  if (!sessionId) {
+    return null
+  }
+
+  if (isPreviewMode()) {
+    return {
+      sessionId: "preview",
+      adminId: 1,
+      hospitalId: 1,
+      role: "hospital_admin",
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    }
+  }
+
+  const tokenHash = await hashSessionId(sessionId)
+
+  const rows = await executeQuery<SessionRow[]>(
+    (sql) => sql`
+      SELECT s.session_id, s.admin_id, s.hospital_id, s.expires_at, s.last_seen_at, a.role
+      FROM sessions s
+      JOIN admin a ON s.admin_id = a.admin_id
+      WHERE s.token_hash = ${tokenHash}
+        AND s.revoked_at IS NULL
+        AND s.expires_at > NOW()
+    `,
+  )
+
+  const session = rows[0]
+  if (!session) {
+    return null
+  }
+
+  // Touch the session so last-seen reflects activity
+  if (!session.last_seen_at || Date.now() - new Date(session.last_seen_at).getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    try {
+      await executeQuery((sql) => sql`UPDATE sessions SET last_seen_at = NOW() WHERE session_id = ${session.session_id}`)
+    } catch (error) {
+      // A failed touch should not log the user out
+      logError(error, "Touch Session")
+    }
+  }
+
+  return {
+    sessionId: String(session.session_id),
+    adminId: Number(session.admin_id),
+    hospitalId: Number(session.hospital_id),
+    // Unknown roles fall back to the least privileged one
+    role: isAdminRole(session.role) ? session.role : "viewer",
+    expiresAt: new Date(session.expires_at),
+  }
+}
+
+// Revoke the session identified by a token (used on logout)
+export async function revokeSessionByToken(token: string | undefined | null) {
+  const sessionId = await verifySessionToken(token)
+  if (!sessionId || isPreviewMode()) {
+    return false
+  }
+
+  const tokenHash = await hashSessionId(sessionId)
+  const result = await executeQuery<{ session_id: string | number }[]>(
+    (sql) => sql`
+      UPDATE sessions SET revoked_at = NOW()
+      WHERE token_hash = ${tokenHash} AND revoked_at IS NULL
+      RETURNING session_id
+    `,
+  )
+
+  return result.length > 0
+}
+
+// Revoke every session an admin holds, optionally keeping one (e.g. the current session)
+export async function revokeAdminSessions(adminId: number, exceptSessionId?: string) {
+  if (isPreviewMode()) {
+    return 0
+  }
+
+  const result = await executeQuery<{ session_id: string | number }[]>(
+    (sql) => sql`
+      UPDATE sessions SET revoked_at = NOW()
+      WHERE admin_id = ${adminId}
+        AND revoked_at IS NULL
+        AND (${exceptSessionId ?? null}::bigint IS NULL OR session_id <> ${exceptSessionId ?? null}::bigint)
+      RETURNING session_id
+    `,
+  )
+
+  return result.length
+}
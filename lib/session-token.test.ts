@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { generateSessionId, hashSessionId, signSessionId, verifySessionToken } from "./session-token"
+
+describe("session tokens", () => {
+  it("verifies a signed session ID", async () => {
+    const sessionId = generateSessionId()
+    const token = await signSessionId(sessionId)
+
+    expect(token.startsWith(`${sessionId}.`)).toBe(true)
+    expect(await verifySessionToken(token)).toBe(sessionId)
+  })
+
+  it("generates distinct URL-safe session IDs", () => {
+    const first = generateSessionId()
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(generateSessionId()).not.toBe(first)
+  })
+
+  it("rejects a token whose session ID was changed", async () => {
+    const token = await signSessionId(generateSessionId())
+    const [, signature] = token.split(".")
+
+    expect(await verifySessionToken(`${generateSessionId()}.${signature}`)).toBeNull()
+  })
+
+  it("rejects a token whose signature was changed", async () => {
+    const sessionId = generateSessionId()
+    const token = await signSessionId(sessionId)
+    const tampered = token.slice(0, -1) + (token.endsWith("A") ? "B" : "A")
+
+    expect(await verifySessionToken(tampered)).toBeNull()
+  })
+
+  it("rejects malformed tokens", async () => {
+    const token = await signSessionId(generateSessionId())
+
+    expect(await verifySessionToken(undefined)).toBeNull()
+    expect(await verifySessionToken(null)).toBeNull()
+    expect(await verifySessionToken("")).toBeNull()
+    expect(await verifySessionToken(token.split(".")[0])).toBeNull()
+    expect(await verifySessionToken(`${token}.extra`)).toBeNull()
+  })
+
+  it("hashes session IDs deterministically for storage", async () => {
+    const sessionId = generateSessionId()
+
+    expect(await hashSessionId(sessionId)).toBe(await hashSessionId(sessionId))
+    expect(await hashSessionId(sessionId)).not.toBe(sessionId)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Signed session tokens.
+ *
+ * A token is `<sessionId>.<signature>` where the signature is an HMAC-SHA256 of
+ * the session ID. Only Web Crypto is used so the same code runs in the Node.js
+ * runtime (API routes, server components) and in the Edge runtime (middleware).
+ */
+
+export const SESSION_COOKIE_NAME = "sessionToken"
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000 // 1 day
+
+const encoder = new TextEncoder()
+let cachedKey: Promise<CryptoKey> | null = null
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) {
+    return secret
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET environment variable is required in production")
+  }
+
+  // Development fallback so local setups work without extra configuration
+  return "songblood-development-session-secret"
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    cachedKey = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(getSessionSecret()),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    )
+  }
+  return cachedKey
+}
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  let binary = ""
+  for (const byte of array) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/") + "===".slice((value.length + 3) % 4)
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// Generate a new random session ID (256 bits)
+export function generateSessionId(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return toBase64Url(bytes)
+}
+
+// Sign a session ID, producing the value stored in the session cookie
+export async function signSessionId(sessionId: string): Promise<string> {
+  const key = await getSigningKey()
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(sessionId))
+  return `${sessionId}.${toBase64Url(signature)}`
+}
+
+// Verify a session token's signature and return the session ID, or null if invalid
+export async function verifySessionToken(token: string | undefined | null): Promise<string | null> {
+  try {
+    if (!token) {
+      return null
+    }
+
+    const [sessionId, signature, ...rest] = token.split(".")
+    if (!sessionId || !signature || rest.length > 0) {
+      return null
+    }
+
+    const key = await getSigningKey()
+    const valid = await crypto.subtle.verify("HMAC", key, fromBase64Url(signature), encoder.encode(sessionId))
+    return valid ? sessionId : null
+  } catch (error) {
+    console.error("Error verifying session token:", error)
+    return null
+  }
+}
+
+// Hash a session ID for storage, so a leaked sessions table cannot be replayed
+export async function hashSessionId(sessionId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(sessionId))
+  return toBase64Url(digest)
+}
@@ -0,0 +1,89 @@
+import { z } from "zod"
+import { executeQuery } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { isBloodComponentKey, type BloodComponentKey, type ShelfLifeRule } from "./blood-components"
+import { DEFAULT_SHELF_LIFE_RULES, type ShelfLifeRules } from "./shelf-life"
+
+const rulesSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1, "Rule name is required").max(100),
+      days: z.number().int().min(1, "Shelf life must be at least 1 day").max(3650),
+    }),
+  )
+  .max(20)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.name.toLowerCase())).size === rules.length,
+    "Rule names must be unique",
+  )
+
+function getCacheKey(hospitalId: number) {
+  return `shelf-life:${hospitalId}`
+}
+
+// Parse and validate a component's rules from a request body
+export function parseShelfLifeRules(body: unknown): ShelfLifeRule[] {
+  const result = rulesSchema.safeParse(body)
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid shelf-life rules", details)
+  }
+
+  return result.data
+}
+
+// Rules in effect at a hospital, falling back to the defaults for components it hasn't configured
+export async function getShelfLifeRules(hospitalId: number): Promise<ShelfLifeRules> {
+  if (isPreviewMode()) {
+    return DEFAULT_SHELF_LIFE_RULES
+  }
+
+  try {
+    const rows = await executeQuery<{ component: string; name: string; shelf_life_days: number }[]>(
+      (sql) => sql`
+        SELECT component, name, shelf_life_days FROM shelf_life_rules
+        WHERE hospital_id = ${hospitalId}
+        ORDER BY sort_order, rule_id
+      `,
+      { cacheKey: getCacheKey(hospitalId) },
+    )
+
+    const configured: Partial<ShelfLifeRules> = {}
+    for (const row of rows) {
+      if (!isBloodComponentKey(row.component)) continue
+      configured[row.component] = [...(configured[row.component] ?? []), { name: row.name, days: row.shelf_life_days }]
+    }
+
+    return { ...DEFAULT_SHELF_LIFE_RULES, ...configured }
+  } catch (error) {
+    throw logError(error, "Get Shelf-Life Rules")
+  }
+}
+
+// Replace a hospital's rules for one component; an empty list restores the defaults
+export async function setShelfLifeRules(
+  hospitalId: number,
+  component: BloodComponentKey,
+  rules: ShelfLifeRule[],
+  adminId: number,
+) {
+  try {
+    await executeQuery((sql) =>
+      sql.transaction([
+        sql`DELETE FROM shelf_life_rules WHERE hospital_id = ${hospitalId} AND component = ${component}`,
+        ...rules.map(
+          (rule, index) => sql`
+            INSERT INTO shelf_life_rules (hospital_id, component, name, shelf_life_days, sort_order, updated_by)
+            VALUES (${hospitalId}, ${component}, ${rule.name}, ${rule.days}, ${index}, ${adminId})
+          `,
+        ),
+      ]),
+    )
+    queryCache.invalidate(getCacheKey(hospitalId))
+  } catch (error) {
+    throw logError(error, "Set Shelf-Life Rules")
+  }
+}
@@ -0,0 +1,79 @@
+// Shelf-life rules turn a unit's collection date into its default expiration
+// time and cap how long after collection a unit may be dated. Dates here are
+// wall-clock dates in the hospital's time zone.
+//
+// This module is imported by client components and must stay free of server code.
+import { BLOOD_COMPONENT_KEYS, BLOOD_COMPONENTS, type BloodComponentKey, type ShelfLifeRule } from "./blood-components"
+import { DEFAULT_TIME_ZONE, zonedToday } from "./expiry"
+
+// Rules in effect at a hospital for every component
+export type ShelfLifeRules = Record<BloodComponentKey, ShelfLifeRule[]>
+
+export const DEFAULT_SHELF_LIFE_RULES = Object.fromEntries(
+  BLOOD_COMPONENT_KEYS.map((key) => [key, [...BLOOD_COMPONENTS[key].shelfLifeRules]]),
+) as ShelfLifeRules
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Today's date in the time zone as YYYY-MM-DD
+export function today(timeZone = DEFAULT_TIME_ZONE) {
+  return zonedToday(timeZone)
+}
+
+// A YYYY-MM-DD date the given number of days later
+export function addDays(date: string, days: number) {
+  const result = new Date(`${date.slice(0, 10)}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+// Whole days from one YYYY-MM-DD date to another
+export function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS)
+}
+
+// The rule a unit is dated under: the named rule, or the longest one when no
+// rule was chosen or the named rule has since been removed
+export function resolveShelfLifeRule(rules: readonly ShelfLifeRule[], name?: string | null) {
+  const named = name ? rules.find((rule) => rule.name === name) : undefined
+  if (named) return named
+
+  let longest: ShelfLifeRule | undefined
+  for (const rule of rules) {
+    if (!longest || rule.days > longest.days) longest = rule
+  }
+  return longest
+}
+
+// Default expiration time, as "YYYY-MM-DDTHH:mm", for a unit collected on the given
+// date: the start of the day its shelf life runs out
+export function computeExpirationDate(collectionDate: string, rule: ShelfLifeRule) {
+  return `${addDays(collectionDate, rule.days)}T00:00`
+}
+
+/**
+ * Check a local expiration date or time against a shelf-life rule. Units without
+ * a collection date are treated as collected today in the time zone. Returns the
+ * reason the expiry is not allowed, or null when it is.
+ */
+export function checkShelfLife(
+  expirationDate: string,
+  collectionDate: string | null | undefined,
+  rule: ShelfLifeRule | undefined,
+  timeZone = DEFAULT_TIME_ZONE,
+) {
+  const start = collectionDate || today(timeZone)
+
+  if (daysBetween(start, expirationDate) < 0) {
+    return "Expiration date cannot be before the collection date"
+  }
+
+  // A bare date means the start of that day, so it compares equal to the computed default
+  const expiry = expirationDate.length > 10 ? expirationDate.slice(0, 16) : `${expirationDate}T00:00`
+  if (rule && expiry > computeExpirationDate(start, rule)) {
+    const latest = computeExpirationDate(start, rule).replace("T", " ")
+    return `Exceeds the ${rule.days}-day shelf life for ${rule.name} (latest ${latest})`
+  }
+
+  return null
+}
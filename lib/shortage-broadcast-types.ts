@@ -0,0 +1,55 @@
+// Urgent needs posted to the hospital network, as shown on dashboards and the
+// shortages page.
+//
+// This module is imported by client components and must stay free of server code.
+
+export const SHORTAGE_BROADCAST_STATUSES = ["open", "fulfilled", "cancelled"] as const
+
+export type ShortageBroadcastStatus = (typeof SHORTAGE_BROADCAST_STATUSES)[number]
+
+export const SHORTAGE_BROADCAST_STATUS_LABELS: Record<ShortageBroadcastStatus, string> = {
+  open: "Open",
+  fulfilled: "Fulfilled",
+  cancelled: "Cancelled",
+}
+
+// A hospital holding available units that match a broadcast
+export type ShortageStockholder = {
+  hospital_id: number
+  hospital_name: string
+  count: number
+  // Whether its stock alone covers the quantity needed
+  can_fill: boolean
+}
+
+export type ShortageResponse = {
+  hospital_id: number
+  hospital_name: string
+  quantity: number
+  message: string | null
+  responded_by_username: string | null
+  responded_at: string
+}
+
+export type ShortageBroadcast = {
+  broadcast_id: number
+  hospital_id: number
+  hospital_name: string
+  contact_phone: string | null
+  contact_email: string | null
+  component_type: string
+  blood_type: string
+  rh: string
+  quantity: number
+  needed_by: string
+  reason: string
+  status: ShortageBroadcastStatus
+  created_at: string
+  created_by_username: string | null
+  closed_at: string | null
+  closed_by_username: string | null
+  // Hospitals other than the poster that hold matching units, most first
+  stockholders: ShortageStockholder[]
+  // Offers received so far, newest first
+  responses: ShortageResponse[]
+}
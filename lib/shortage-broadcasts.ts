@@ -0,0 +1,281 @@
+import { z } from "zod"
+import { dbClient } from "./db"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { BLOOD_COMPONENTS, isBloodComponentKey, type BloodComponentKey } from "./blood-components"
+import type { ShortageBroadcast, ShortageResponse, ShortageStockholder } from "./shortage-broadcast-types"
+
+// The signed-in admin posting or answering a broadcast, taken from the session
+export type BroadcastActor = {
+  adminId: number
+  hospitalId: number
+}
+
+const broadcastSchema = z
+  .object({
+    component: z.string().refine(isBloodComponentKey, "Unknown blood component"),
+    bloodType: z.enum(["A", "B", "AB", "O"]),
+    rh: z.enum(["+", "-", ""]).default(""),
+    quantity: z.number().int().min(1, "Ask for at least one unit").max(100),
+    neededBy: z
+      .string()
+      .datetime({ offset: true, message: "Expected an ISO 8601 timestamp" })
+      .refine((value) => new Date(value).getTime() > Date.now(), "The deadline must be in the future"),
+    reason: z.string().trim().min(1, "Reason is required").max(500),
+  })
+  .refine((input) => !isBloodComponentKey(input.component) || !BLOOD_COMPONENTS[input.component].hasRh || input.rh, {
+    message: "Rh factor is required (+ or -)",
+    path: ["rh"],
+  })
+
+const responseSchema = z.object({
+  quantity: z.number().int().min(1, "Offer at least one unit").max(100),
+  message: z.string().trim().max(500).optional(),
+})
+
+const closeSchema = z.object({
+  status: z.enum(["fulfilled", "cancelled"]),
+})
+
+export type ShortageBroadcastInput = Omit<z.infer<typeof broadcastSchema>, "component"> & {
+  component: BloodComponentKey
+}
+
+export type ShortageResponseInput = z.infer<typeof responseSchema>
+
+function requireDbClient() {
+  if (!dbClient) {
+    throw new AppError(
+      ErrorType.DATABASE_CONNECTION,
+      "Database client not initialized",
+      "Database URL environment variable may be missing or invalid",
+    )
+  }
+  return dbClient
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+}
+
+// Parse and validate a new broadcast from a request body
+export function parseShortageBroadcast(body: unknown): ShortageBroadcastInput {
+  const result = broadcastSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid shortage broadcast", formatIssues(result.error))
+  }
+
+  const input = result.data as ShortageBroadcastInput
+  // Components without an Rh factor are needed by ABO group alone
+  return BLOOD_COMPONENTS[input.component].hasRh ? input : { ...input, rh: "" }
+}
+
+// Parse and validate another hospital's offer of units
+export function parseShortageResponse(body: unknown): ShortageResponseInput {
+  const result = responseSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid response", formatIssues(result.error))
+  }
+
+  return result.data
+}
+
+// Parse and validate how the poster closes a broadcast
+export function parseBroadcastClose(body: unknown) {
+  const result = closeSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid status", formatIssues(result.error))
+  }
+
+  return result.data.status
+}
+
+// Post an urgent need to every other hospital; returns the new broadcast's ID
+export async function createShortageBroadcast(input: ShortageBroadcastInput, actor: BroadcastActor) {
+  try {
+    const rows = await requireDbClient().query(
+      `
+        INSERT INTO shortage_broadcasts
+          (hospital_id, component_type, blood_type, rh, quantity, needed_by, reason, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING broadcast_id
+      `,
+      [
+        actor.hospitalId,
+        input.component,
+        input.bloodType,
+        input.rh,
+        input.quantity,
+        input.neededBy,
+        input.reason,
+        actor.adminId,
+      ],
+    )
+    return rows[0].broadcast_id as number
+  } catch (error) {
+    throw logError(error, "Create Shortage Broadcast")
+  }
+}
+
+// Hospitals other than the poster holding available, unexpired units that match a broadcast
+async function getStockholders(
+  broadcast: Pick<ShortageBroadcast, "hospital_id" | "component_type" | "blood_type" | "rh" | "quantity">,
+): Promise<ShortageStockholder[]> {
+  if (!isBloodComponentKey(broadcast.component_type)) {
+    return []
+  }
+
+  const { tableName, hasRh } = BLOOD_COMPONENTS[broadcast.component_type]
+  const rows = await requireDbClient().query(
+    `
+      SELECT h.hospital_id, h.hospital_name, COUNT(*)::int as count
+      FROM ${tableName} inv
+      JOIN hospital h ON h.hospital_id = inv.hospital_id
+      WHERE inv.hospital_id <> $1 AND inv.active = true AND inv.status = 'available'
+        AND inv.expiration_date > NOW() AND inv.blood_type = $2 ${hasRh ? "AND inv.rh = $3" : ""}
+      GROUP BY h.hospital_id, h.hospital_name
+      ORDER BY count DESC, h.hospital_name
+      LIMIT 10
+    `,
+    hasRh
+      ? [broadcast.hospital_id, broadcast.blood_type, broadcast.rh]
+      : [broadcast.hospital_id, broadcast.blood_type],
+  )
+
+  return rows.map((row) => ({
+    hospital_id: row.hospital_id,
+    hospital_name: row.hospital_name,
+    count: row.count,
+    can_fill: row.count >= broadcast.quantity,
+  }))
+}
+
+/**
+ * Broadcasts for a hospital: its own, open ones first, and the open needs of
+ * every other hospital, soonest deadline first. Open broadcasts list the
+ * hospitals whose current stock matches.
+ */
+export async function getShortageBroadcasts(
+  hospitalId: number,
+): Promise<{ own: ShortageBroadcast[]; network: ShortageBroadcast[] }> {
+  if (isPreviewMode()) {
+    return { own: [], network: [] }
+  }
+
+  try {
+    const client = requireDbClient()
+
+    const broadcasts = (await client.query(
+      `
+        SELECT b.broadcast_id, b.hospital_id, h.hospital_name, h.hospital_contact_phone as contact_phone,
+          h.hospital_contact_mail as contact_email, b.component_type, b.blood_type, b.rh, b.quantity, b.needed_by,
+          b.reason, b.status, b.created_at, ca.admin_username as created_by_username, b.closed_at,
+          xa.admin_username as closed_by_username
+        FROM shortage_broadcasts b
+        JOIN hospital h ON h.hospital_id = b.hospital_id
+        LEFT JOIN admin ca ON ca.admin_id = b.created_by
+        LEFT JOIN admin xa ON xa.admin_id = b.closed_by
+        WHERE (b.hospital_id = $1 AND b.created_at > NOW() - INTERVAL '90 days')
+          OR (b.hospital_id <> $1 AND b.status = 'open')
+        ORDER BY b.status <> 'open', b.needed_by
+        LIMIT 200
+      `,
+      [hospitalId],
+    )) as Omit<ShortageBroadcast, "stockholders" | "responses">[]
+
+    if (broadcasts.length === 0) {
+      return { own: [], network: [] }
+    }
+
+    const responses = (await client.query(
+      `
+        SELECT r.broadcast_id, r.hospital_id, h.hospital_name, r.quantity, r.message,
+          a.admin_username as responded_by_username, r.responded_at
+        FROM shortage_broadcast_responses r
+        JOIN hospital h ON h.hospital_id = r.hospital_id
+        LEFT JOIN admin a ON a.admin_id = r.responded_by
+        WHERE r.broadcast_id = ANY($1::int[])
+        ORDER BY r.responded_at DESC
+      `,
+      [broadcasts.map((broadcast) => broadcast.broadcast_id)],
+    )) as (ShortageResponse & { broadcast_id: number })[]
+
+    const withDetails: ShortageBroadcast[] = []
+    for (const broadcast of broadcasts) {
+      withDetails.push({
+        ...broadcast,
+        stockholders: broadcast.status === "open" ? await getStockholders(broadcast) : [],
+        responses: responses.filter((response) => response.broadcast_id === broadcast.broadcast_id),
+      })
+    }
+
+    return {
+      own: withDetails.filter((broadcast) => broadcast.hospital_id === hospitalId),
+      network: withDetails.filter((broadcast) => broadcast.hospital_id !== hospitalId),
+    }
+  } catch (error) {
+    throw logError(error, "Get Shortage Broadcasts")
+  }
+}
+
+// Offer units for another hospital's open broadcast, replacing any earlier offer
+export async function respondToShortageBroadcast(
+  broadcastId: number,
+  input: ShortageResponseInput,
+  actor: BroadcastActor,
+) {
+  const client = requireDbClient()
+
+  const rows = await client.query(`SELECT hospital_id, status FROM shortage_broadcasts WHERE broadcast_id = $1`, [
+    broadcastId,
+  ])
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Broadcast not found")
+  }
+
+  if (rows[0].hospital_id === actor.hospitalId) {
+    throw new AppError(ErrorType.VALIDATION, "A hospital cannot respond to its own broadcast")
+  }
+
+  if (rows[0].status !== "open") {
+    throw new AppError(ErrorType.CONFLICT, `The broadcast has been ${rows[0].status}`)
+  }
+
+  try {
+    await client.query(
+      `
+        INSERT INTO shortage_broadcast_responses (broadcast_id, hospital_id, quantity, message, responded_by)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (broadcast_id, hospital_id)
+        DO UPDATE SET quantity = $3, message = $4, responded_by = $5, responded_at = NOW()
+      `,
+      [broadcastId, actor.hospitalId, input.quantity, input.message || null, actor.adminId],
+    )
+  } catch (error) {
+    throw logError(error, "Respond To Shortage Broadcast")
+  }
+}
+
+// Mark the hospital's own open broadcast fulfilled or cancelled, taking it off other dashboards
+export async function closeShortageBroadcast(
+  broadcastId: number,
+  status: "fulfilled" | "cancelled",
+  actor: BroadcastActor,
+) {
+  const rows = await requireDbClient().query(
+    `
+      UPDATE shortage_broadcasts SET status = $3, closed_by = $4, closed_at = NOW()
+      WHERE broadcast_id = $1 AND hospital_id = $2 AND status = 'open'
+      RETURNING broadcast_id
+    `,
+    [broadcastId, actor.hospitalId, status, actor.adminId],
+  )
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Open broadcast not found")
+  }
+}
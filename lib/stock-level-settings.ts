@@ -0,0 +1,133 @@
+import { z } from "zod"
+import { executeQuery } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { BLOOD_COMPONENTS, isBloodComponentKey, type BloodComponentKey } from "./blood-components"
+import {
+  DEFAULT_STOCK_LEVELS,
+  getStockGroups,
+  STOCK_MEASURES,
+  type StockGroupLevel,
+  type StockLevels,
+} from "./stock-levels"
+
+const levelsSchema = z.object({
+  measure: z.enum(STOCK_MEASURES),
+  levels: z
+    .array(
+      z
+        .object({
+          bloodType: z.enum(["A", "B", "AB", "O"]),
+          rh: z.enum(["+", "-", ""]).default(""),
+          minimum: z.number().int().min(0).max(100000),
+          target: z.number().int().min(0).max(100000),
+          maximum: z.number().int().min(0).max(100000),
+        })
+        .refine((level) => level.minimum <= level.target && level.target <= level.maximum, {
+          message: "Levels must satisfy minimum ≤ target ≤ maximum",
+        }),
+    )
+    .max(8),
+})
+
+function getCacheKey(hospitalId: number) {
+  return `stock-levels:${hospitalId}`
+}
+
+// Parse and validate a component's levels from a request body
+export function parseStockLevels(component: BloodComponentKey, body: unknown): StockGroupLevel[] {
+  const result = levelsSchema.safeParse(body)
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid stock levels", details)
+  }
+
+  const { measure, levels } = result.data
+  const groups = getStockGroups(component).map((group) => `${group.blood_type}${group.rh}`)
+  const seen = new Set<string>()
+
+  for (const level of levels) {
+    const group = `${level.bloodType}${BLOOD_COMPONENTS[component].hasRh ? level.rh : ""}`
+    if (!groups.includes(group) || seen.has(group)) {
+      throw new AppError(ErrorType.VALIDATION, "Invalid stock levels", `Unexpected or repeated blood group ${group}`)
+    }
+    seen.add(group)
+  }
+
+  return levels.map((level) => ({
+    blood_type: level.bloodType,
+    rh: BLOOD_COMPONENTS[component].hasRh ? level.rh : "",
+    measure,
+    minimum: level.minimum,
+    target: level.target,
+    maximum: level.maximum,
+  }))
+}
+
+// Levels in effect at a hospital, falling back to the defaults for groups it hasn't configured
+export async function getStockLevels(hospitalId: number): Promise<StockLevels> {
+  if (isPreviewMode()) {
+    return DEFAULT_STOCK_LEVELS
+  }
+
+  try {
+    const rows = await executeQuery<(StockGroupLevel & { component: string })[]>(
+      (sql) => sql`
+        SELECT component, blood_type, rh, measure, minimum, target, maximum FROM stock_levels
+        WHERE hospital_id = ${hospitalId}
+      `,
+      { cacheKey: getCacheKey(hospitalId) },
+    )
+
+    const configured = new Map<string, StockGroupLevel>()
+    for (const row of rows) {
+      if (!isBloodComponentKey(row.component)) continue
+      configured.set(`${row.component}:${row.blood_type}${row.rh}`, {
+        blood_type: row.blood_type,
+        rh: row.rh,
+        measure: row.measure,
+        minimum: row.minimum,
+        target: row.target,
+        maximum: row.maximum,
+      })
+    }
+
+    return Object.fromEntries(
+      Object.entries(DEFAULT_STOCK_LEVELS).map(([component, defaults]) => [
+        component,
+        defaults.map((level) => configured.get(`${component}:${level.blood_type}${level.rh}`) ?? level),
+      ]),
+    ) as StockLevels
+  } catch (error) {
+    throw logError(error, "Get Stock Levels")
+  }
+}
+
+// Replace a hospital's levels for one component; an empty list restores the defaults
+export async function setStockLevels(
+  hospitalId: number,
+  component: BloodComponentKey,
+  levels: StockGroupLevel[],
+  adminId: number,
+) {
+  try {
+    await executeQuery((sql) =>
+      sql.transaction([
+        sql`DELETE FROM stock_levels WHERE hospital_id = ${hospitalId} AND component = ${component}`,
+        ...levels.map(
+          (level) => sql`
+            INSERT INTO stock_levels
+              (hospital_id, component, blood_type, rh, measure, minimum, target, maximum, updated_by)
+            VALUES (${hospitalId}, ${component}, ${level.blood_type}, ${level.rh}, ${level.measure},
+              ${level.minimum}, ${level.target}, ${level.maximum}, ${adminId})
+          `,
+        ),
+      ]),
+    )
+    queryCache.invalidate(getCacheKey(hospitalId))
+  } catch (error) {
+    throw logError(error, "Set Stock Levels")
+  }
+}
@@ -0,0 +1,86 @@
+// Stock levels a hospital keeps for each component and blood group: below the
+// minimum stock is critical, below the target (par) it is low, and above the
+// maximum it is surplus other hospitals may ask for. Levels are set in units
+// or millilitres.
+//
+// This module is imported by client components and must stay free of server code.
+import { BLOOD_COMPONENT_KEYS, BLOOD_COMPONENTS, type BloodComponentKey } from "./blood-components"
+
+export const STOCK_MEASURES = ["units", "ml"] as const
+
+export type StockMeasure = (typeof STOCK_MEASURES)[number]
+
+export type StockLevel = {
+  measure: StockMeasure
+  minimum: number
+  target: number
+  maximum: number
+}
+
+// Levels for one blood group of a component
+export type StockGroupLevel = StockLevel & {
+  blood_type: string
+  // Empty for components without an Rh factor
+  rh: string
+}
+
+// Levels in effect at a hospital for every blood group of every component
+export type StockLevels = Record<BloodComponentKey, StockGroupLevel[]>
+
+export type StockStatus = "critical" | "low" | "adequate" | "surplus"
+
+const ABO_GROUPS = ["A", "B", "AB", "O"]
+
+// Blood groups a component is stocked by, in display order
+export function getStockGroups(component: BloodComponentKey) {
+  return BLOOD_COMPONENTS[component].hasRh
+    ? ABO_GROUPS.flatMap((bloodType) => [
+        { blood_type: bloodType, rh: "+" },
+        { blood_type: bloodType, rh: "-" },
+      ])
+    : ABO_GROUPS.map((bloodType) => ({ blood_type: bloodType, rh: "" }))
+}
+
+export const DEFAULT_STOCK_LEVELS = Object.fromEntries(
+  BLOOD_COMPONENT_KEYS.map((key) => [
+    key,
+    getStockGroups(key).map((group) => ({ ...group, measure: "ml", ...BLOOD_COMPONENTS[key].stockLevels })),
+  ]),
+) as StockLevels
+
+// The levels for a blood group, falling back to the component's defaults
+export function findStockLevel(
+  levels: StockLevels,
+  component: BloodComponentKey,
+  bloodType: string,
+  rh?: string | null,
+): StockLevel {
+  const hasRh = BLOOD_COMPONENTS[component].hasRh
+  const matches = (level: StockGroupLevel) => level.blood_type === bloodType && (!hasRh || level.rh === rh)
+
+  return levels[component]?.find(matches) ?? DEFAULT_STOCK_LEVELS[component].find(matches) ?? {
+    measure: "ml",
+    ...BLOOD_COMPONENTS[component].stockLevels,
+  }
+}
+
+// Stock measured the way the level is set
+export function measureStock(level: StockLevel, stock: { count: number | string; total_amount: number | string }) {
+  return level.measure === "units" ? Number(stock.count) : Number(stock.total_amount)
+}
+
+export function getStockStatus(
+  level: StockLevel,
+  stock: { count: number | string; total_amount: number | string },
+): StockStatus {
+  const value = measureStock(level, stock)
+
+  if (value < level.minimum) return "critical"
+  if (value < level.target) return "low"
+  if (value > level.maximum) return "surplus"
+  return "adequate"
+}
+
+export function formatStockAmount(value: number, measure: StockMeasure) {
+  return measure === "units" ? `${value.toLocaleString()} units` : `${value.toLocaleString()} ml`
+}
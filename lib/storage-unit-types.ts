@@ -0,0 +1,44 @@
+// Kinds of storage unit that hold blood components, and how a bag's location
+// is shown.
+//
+// This module is imported by client components and must stay free of server code.
+
+export const STORAGE_UNIT_TYPES = ["refrigerator", "freezer", "platelet_agitator"] as const
+
+export type StorageUnitType = (typeof STORAGE_UNIT_TYPES)[number]
+
+export const STORAGE_UNIT_TYPE_LABELS: Record<StorageUnitType, string> = {
+  refrigerator: "Refrigerator",
+  freezer: "Freezer",
+  platelet_agitator: "Platelet Agitator",
+}
+
+// Usual temperature range in °C, offered as the default for a new unit
+export const DEFAULT_TEMPERATURE_RANGES: Record<StorageUnitType, { min: number; max: number }> = {
+  refrigerator: { min: 2, max: 6 },
+  freezer: { min: -40, max: -25 },
+  platelet_agitator: { min: 20, max: 24 },
+}
+
+export type StorageUnit = {
+  storage_unit_id: number
+  hospital_id: number
+  name: string
+  unit_type: StorageUnitType
+  min_temp_c: number
+  max_temp_c: number
+  capacity: number
+  active: boolean
+  // Bags currently stored in the unit
+  bag_count: number
+}
+
+export function isStorageUnitType(value: unknown): value is StorageUnitType {
+  return typeof value === "string" && (STORAGE_UNIT_TYPES as readonly string[]).includes(value)
+}
+
+// A bag's location as shown to staff, e.g. "Fridge 2 · Shelf B3"
+export function formatLocation(storageUnitName: string | null | undefined, position: string | null | undefined) {
+  if (!storageUnitName) return "Unassigned"
+  return position ? `${storageUnitName} · ${position}` : storageUnitName
+}
@@ -0,0 +1,277 @@
+import { z } from "zod"
+import { dbClient } from "./db"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { updateWithAudit, type AuditActor } from "./audit-log"
+import { BLOOD_COMPONENT_LIST, BLOOD_COMPONENTS, type BloodComponentKey } from "./blood-components"
+import { STORED_UNIT_STATUSES } from "./unit-lifecycle"
+import { STORAGE_UNIT_TYPE_LABELS, STORAGE_UNIT_TYPES, type StorageUnit } from "./storage-unit-types"
+
+export const storageUnitInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    unitType: z.enum(STORAGE_UNIT_TYPES),
+    minTempC: z.number().min(-100).max(50),
+    maxTempC: z.number().min(-100).max(50),
+    capacity: z.number().int().min(1, "Capacity must be at least 1 bag").max(10000),
+    active: z.boolean().default(true),
+  })
+  .refine((input) => input.minTempC <= input.maxTempC, {
+    message: "Minimum temperature cannot be above the maximum",
+    path: ["minTempC"],
+  })
+
+export type StorageUnitInput = z.infer<typeof storageUnitInputSchema>
+
+// A bag's new location; a null storage unit clears it
+export type StorageLocation = {
+  storageUnitId: number | null
+  position?: string | null
+}
+
+function requireDbClient() {
+  if (!dbClient) {
+    throw new AppError(
+      ErrorType.DATABASE_CONNECTION,
+      "Database client not initialized",
+      "Database URL environment variable may be missing or invalid",
+    )
+  }
+  return dbClient
+}
+
+// Storage unit of every bag that still takes up space, across all components
+function storedBagsQuery() {
+  const statuses = STORED_UNIT_STATUSES.map((status) => `'${status}'`).join(", ")
+  return BLOOD_COMPONENT_LIST.map(
+    ({ tableName }) => `
+      SELECT storage_unit_id FROM ${tableName}
+      WHERE storage_unit_id IS NOT NULL AND active = true AND status IN (${statuses})
+    `,
+  ).join(" UNION ALL ")
+}
+
+const STORAGE_UNIT_COLUMNS = `
+  su.storage_unit_id, su.hospital_id, su.name, su.unit_type, su.min_temp_c::float8 as min_temp_c,
+  su.max_temp_c::float8 as max_temp_c, su.capacity, su.active
+`
+
+// Parse and validate a storage unit from a request body
+export function parseStorageUnitInput(body: unknown): StorageUnitInput {
+  const result = storageUnitInputSchema.safeParse(body)
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    throw new AppError(ErrorType.VALIDATION, "Invalid storage unit", details)
+  }
+
+  return result.data
+}
+
+// A hospital's storage units with how many bags each holds
+export async function getStorageUnits(hospitalId: number, { includeInactive = false } = {}) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const rows = await requireDbClient().query(
+      `
+        SELECT ${STORAGE_UNIT_COLUMNS}, COALESCE(usage.bag_count, 0)::int as bag_count
+        FROM storage_units su
+        LEFT JOIN (
+          SELECT storage_unit_id, COUNT(*) as bag_count FROM (${storedBagsQuery()}) bags GROUP BY storage_unit_id
+        ) usage ON usage.storage_unit_id = su.storage_unit_id
+        WHERE su.hospital_id = $1 ${includeInactive ? "" : "AND su.active = true"}
+        ORDER BY su.active DESC, su.name
+      `,
+      [hospitalId],
+    )
+
+    return rows as StorageUnit[]
+  } catch (error) {
+    throw logError(error, "Get Storage Units")
+  }
+}
+
+export async function createStorageUnit(hospitalId: number, input: StorageUnitInput) {
+  try {
+    const rows = await requireDbClient().query(
+      `
+        INSERT INTO storage_units (hospital_id, name, unit_type, min_temp_c, max_temp_c, capacity, active)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING storage_unit_id
+      `,
+      [hospitalId, input.name, input.unitType, input.minTempC, input.maxTempC, input.capacity, input.active],
+    )
+    return rows[0] as { storage_unit_id: number }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("storage_units_hospital_id_name_key")) {
+      throw new AppError(ErrorType.CONFLICT, `A storage unit named "${input.name}" already exists`)
+    }
+    throw logError(error, "Create Storage Unit")
+  }
+}
+
+export async function updateStorageUnit(hospitalId: number, storageUnitId: number, input: StorageUnitInput) {
+  let rows: Record<string, unknown>[]
+  try {
+    rows = await requireDbClient().query(
+      `
+        UPDATE storage_units
+        SET name = $3, unit_type = $4, min_temp_c = $5, max_temp_c = $6, capacity = $7, active = $8
+        WHERE storage_unit_id = $1 AND hospital_id = $2
+        RETURNING storage_unit_id
+      `,
+      [
+        storageUnitId,
+        hospitalId,
+        input.name,
+        input.unitType,
+        input.minTempC,
+        input.maxTempC,
+        input.capacity,
+        input.active,
+      ],
+    )
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("storage_units_hospital_id_name_key")) {
+      throw new AppError(ErrorType.CONFLICT, `A storage unit named "${input.name}" already exists`)
+    }
+    throw logError(error, "Update Storage Unit")
+  }
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Storage unit not found")
+  }
+}
+
+/**
+ * Check that a bag of the component can go into a storage unit at the hospital:
+ * the unit must be in service, of the right kind and not full. A bag already in
+ * the unit doesn't count against its capacity. Returns the storage unit.
+ */
+export async function checkStorageUnit(
+  component: BloodComponentKey,
+  hospitalId: number,
+  storageUnitId: number,
+  bagId?: number,
+) {
+  const { label, storageType, tableName } = BLOOD_COMPONENTS[component]
+  const client = requireDbClient()
+
+  const units = (await client.query(
+    `SELECT ${STORAGE_UNIT_COLUMNS} FROM storage_units su WHERE su.storage_unit_id = $1 AND su.hospital_id = $2`,
+    [storageUnitId, hospitalId],
+  )) as Omit<StorageUnit, "bag_count">[]
+
+  const unit = units[0]
+  if (!unit) {
+    throw new AppError(ErrorType.NOT_FOUND, "Storage unit not found")
+  }
+
+  if (!unit.active) {
+    throw new AppError(ErrorType.VALIDATION, `${unit.name} is out of service`)
+  }
+
+  if (unit.unit_type !== storageType) {
+    throw new AppError(
+      ErrorType.VALIDATION,
+      `${label} must be stored in a ${STORAGE_UNIT_TYPE_LABELS[storageType].toLowerCase()}`,
+    )
+  }
+
+  const [usage] = await client.query(
+    `SELECT COUNT(*)::int as bag_count FROM (${storedBagsQuery()}) bags WHERE storage_unit_id = $1`,
+    [storageUnitId],
+  )
+
+  let alreadyStored = false
+  if (bagId !== undefined) {
+    const rows = await client.query(`SELECT 1 FROM ${tableName} WHERE bag_id = $1 AND storage_unit_id = $2`, [
+      bagId,
+      storageUnitId,
+    ])
+    alreadyStored = rows.length > 0
+  }
+
+  if (!alreadyStored && usage.bag_count >= unit.capacity) {
+    throw new AppError(ErrorType.CONFLICT, `${unit.name} is full (${unit.capacity} bags)`)
+  }
+
+  return unit
+}
+
+// Move a bag at the actor's hospital to a new location, recording the move in the audit log
+export async function moveUnit(
+  component: BloodComponentKey,
+  bagId: number,
+  location: StorageLocation,
+  actor: AuditActor,
+) {
+  const { tableName } = BLOOD_COMPONENTS[component]
+  const position = location.position?.trim() || null
+
+  const rows = await requireDbClient().query(
+    `
+      SELECT storage_unit_id, storage_position FROM ${tableName}
+      WHERE bag_id = $1 AND hospital_id = $2 AND active = true
+    `,
+    [bagId, actor.hospitalId],
+  )
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Entry not found")
+  }
+
+  if (rows[0].storage_unit_id === location.storageUnitId && (rows[0].storage_position || null) === position) {
+    throw new AppError(ErrorType.VALIDATION, "The unit is already at this location")
+  }
+
+  if (location.storageUnitId !== null) {
+    await checkStorageUnit(component, actor.hospitalId, location.storageUnitId, bagId)
+  }
+
+  const updated = await updateWithAudit(
+    component,
+    "move",
+    actor,
+    bagId,
+    { storage_unit_id: location.storageUnitId, storage_position: location.storageUnitId === null ? null : position },
+    { onlyActive: true },
+  )
+
+  if (!updated) {
+    throw new AppError(ErrorType.NOT_FOUND, "Entry not found")
+  }
+  return updated
+}
+
+// Where a bag was first stored and every move since, newest first
+export async function getLocationHistory(component: BloodComponentKey, bagId: number, hospitalId: number) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const rows = await requireDbClient().query(
+      `
+        SELECT l.audit_id, l.created_at, l.action, a.admin_username,
+          fu.name as from_storage_unit_name, l.before_data->>'storage_position' as from_position,
+          tu.name as to_storage_unit_name, l.after_data->>'storage_position' as to_position
+        FROM audit_log l
+        LEFT JOIN admin a ON l.admin_id = a.admin_id
+        LEFT JOIN storage_units fu ON fu.storage_unit_id = (l.before_data->>'storage_unit_id')::int
+        LEFT JOIN storage_units tu ON tu.storage_unit_id = (l.after_data->>'storage_unit_id')::int
+        WHERE l.hospital_id = $1 AND l.component_type = $2 AND l.bag_id = $3
+          AND (l.action = 'move' OR (l.action = 'create' AND l.after_data->>'storage_unit_id' IS NOT NULL))
+        ORDER BY l.created_at DESC, l.audit_id DESC
+      `,
+      [hospitalId, component, bagId],
+    )
+
+    return rows as Record<string, unknown>[]
+  } catch (error) {
+    throw logError(error, "Get Location History")
+  }
+}
@@ -0,0 +1,427 @@
+import { timingSafeEqual } from "node:crypto"
+import { z } from "zod"
+import { dbClient } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { updateWithAudit, type AuditActor } from "./audit-log"
+import { BLOOD_COMPONENT_LIST, getInventoryCacheKey, isBloodComponentKey, type BloodComponentKey } from "./blood-components"
+import { canTransition, UNIT_STATUSES } from "./unit-lifecycle"
+import { changeUnitStatus, type StatusChangeActor } from "./unit-status"
+
+export type ReadingSource = "manual" | "monitor"
+
+export const EXCURSION_OUTCOMES = ["released", "discarded"] as const
+
+export type ExcursionOutcome = (typeof EXCURSION_OUTCOMES)[number]
+
+const readingSchema = z.object({
+  storageUnitId: z.number().int().positive(),
+  temperatureC: z.number().min(-100).max(100),
+  // Defaults to the time the reading is received
+  recordedAt: z
+    .string()
+    .datetime({ offset: true, message: "Expected an ISO 8601 timestamp" })
+    .refine((value) => new Date(value).getTime() <= Date.now() + 5 * 60 * 1000, "Reading is in the future")
+    .optional(),
+})
+
+// The monitoring agent may batch readings from several units in one request
+const readingBatchSchema = z.object({
+  readings: z.array(readingSchema).min(1, "At least one reading is required").max(500),
+})
+
+const reviewSchema = z.object({
+  decisions: z
+    .array(
+      z.object({
+        component: z.string().refine(isBloodComponentKey, "Unknown blood component"),
+        bagId: z.number().int().positive(),
+        outcome: z.enum(EXCURSION_OUTCOMES),
+      }),
+    )
+    .max(1000),
+})
+
+export type TemperatureReadingInput = z.infer<typeof readingSchema>
+
+export type ExcursionDecision = { component: BloodComponentKey; bagId: number; outcome: ExcursionOutcome }
+
+// Statuses a bag is quarantined from when its storage unit leaves its range
+const QUARANTINABLE_STATUSES = UNIT_STATUSES.filter((status) => canTransition(status, "quarantined"))
+
+function requireDbClient() {
+  if (!dbClient) {
+    throw new AppError(
+      ErrorType.DATABASE_CONNECTION,
+      "Database client not initialized",
+      "Database URL environment variable may be missing or invalid",
+    )
+  }
+  return dbClient
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+}
+
+// Parse and validate a reading entered by hand
+export function parseTemperatureReading(body: unknown): TemperatureReadingInput {
+  const result = readingSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid temperature reading", formatIssues(result.error))
+  }
+
+  return result.data
+}
+
+// Parse and validate a batch of readings from the monitoring agent
+export function parseReadingBatch(body: unknown): TemperatureReadingInput[] {
+  const result = readingBatchSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid temperature readings", formatIssues(result.error))
+  }
+
+  return result.data.readings
+}
+
+// Parse and validate the reviewer's decisions for an excursion's bags
+export function parseExcursionReview(body: unknown): ExcursionDecision[] {
+  const result = reviewSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid excursion review", formatIssues(result.error))
+  }
+
+  return result.data.decisions as ExcursionDecision[]
+}
+
+function getIngestKey(): string {
+  const key = process.env.TEMPERATURE_INGEST_KEY
+  if (key) {
+    return key
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new AppError(
+      ErrorType.SERVER,
+      "Temperature ingest is not configured",
+      "TEMPERATURE_INGEST_KEY environment variable is required in production",
+    )
+  }
+
+  // Development fallback so scripts/post-temperature-readings.mjs works without extra configuration
+  return "songblood-development-ingest-key"
+}
+
+// Check the monitoring agent's "Authorization: Bearer <key>" header
+export function verifyIngestKey(authorization: string | null) {
+  const expected = Buffer.from(getIngestKey())
+  const provided = Buffer.from(authorization?.replace(/^Bearer\s+/i, "") ?? "")
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new AppError(ErrorType.AUTHENTICATION, "Invalid ingest key")
+  }
+}
+
+/**
+ * Quarantine every bag in a storage unit that can be quarantined and link it to
+ * the excursion. Bags that are issued, discarded or already quarantined are left
+ * alone. Returns the number of bags quarantined.
+ */
+async function quarantineStoredBags(
+  excursionId: number,
+  storageUnitId: number,
+  actor: AuditActor,
+  reason: string,
+) {
+  const client = requireDbClient()
+  const statuses = QUARANTINABLE_STATUSES.map((status) => `'${status}'`).join(", ")
+  let quarantined = 0
+
+  for (const { key, tableName } of BLOOD_COMPONENT_LIST) {
+    const bags = await client.query(
+      `
+        SELECT bag_id, status FROM ${tableName}
+        WHERE storage_unit_id = $1 AND hospital_id = $2 AND active = true AND status IN (${statuses})
+      `,
+      [storageUnitId, actor.hospitalId],
+    )
+
+    for (const bag of bags) {
+      // Skip a bag whose status changed since it was read
+      const updated = await updateWithAudit(
+        key,
+        "status",
+        actor,
+        bag.bag_id,
+        {
+          status: "quarantined",
+          status_changed_at: new Date().toISOString(),
+          status_changed_by: actor.adminId,
+          quarantine_reason: reason,
+        },
+        { onlyActive: true, expected: { status: bag.status } },
+      )
+      if (!updated) continue
+
+      await client.query(
+        `
+          INSERT INTO temperature_excursion_bags (excursion_id, component_type, bag_id, previous_status)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT DO NOTHING
+        `,
+        [excursionId, key, bag.bag_id, bag.status],
+      )
+      quarantined++
+    }
+
+    if (bags.length > 0) {
+      queryCache.invalidate(getInventoryCacheKey(key, actor.hospitalId))
+    }
+  }
+
+  return quarantined
+}
+
+/**
+ * Record temperature readings and check each against its storage unit's range.
+ * A reading out of range opens an excursion for the unit, or adds to the one
+ * already open, and quarantines the bags stored there. With a hospital ID only
+ * that hospital's units are accepted; the monitoring agent passes null.
+ */
+export async function recordTemperatureReadings(
+  readings: TemperatureReadingInput[],
+  { hospitalId, source, adminId }: { hospitalId: number | null; source: ReadingSource; adminId: number | null },
+) {
+  const client = requireDbClient()
+  const storageUnitIds = [...new Set(readings.map((reading) => reading.storageUnitId))]
+
+  const units = await client.query(
+    `
+      SELECT storage_unit_id, hospital_id, name, min_temp_c::float8 as min_temp_c, max_temp_c::float8 as max_temp_c
+      FROM storage_units
+      WHERE storage_unit_id = ANY($1::int[]) ${hospitalId === null ? "" : "AND hospital_id = $2"}
+    `,
+    hospitalId === null ? [storageUnitIds] : [storageUnitIds, hospitalId],
+  )
+  const unitsById = new Map(units.map((unit) => [unit.storage_unit_id as number, unit]))
+
+  // Reject the whole batch rather than record part of it
+  const unknown = storageUnitIds.filter((id) => !unitsById.has(id))
+  if (unknown.length > 0) {
+    throw new AppError(ErrorType.VALIDATION, "Unknown storage unit", `No storage unit with ID ${unknown.join(", ")}`)
+  }
+
+  const excursions: { excursionId: number; storageUnitId: number; quarantined: number }[] = []
+
+  try {
+    // Oldest first, so an excursion records the first reading out of range
+    const ordered = readings
+      .map((reading) => ({ ...reading, recordedAt: reading.recordedAt ?? new Date().toISOString() }))
+      .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime())
+
+    for (const reading of ordered) {
+      const unit = unitsById.get(reading.storageUnitId)!
+
+      const [{ reading_id: readingId }] = await client.query(
+        `
+          INSERT INTO temperature_readings (storage_unit_id, temperature_c, recorded_at, source, recorded_by)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING reading_id
+        `,
+        [unit.storage_unit_id, reading.temperatureC, reading.recordedAt, source, adminId],
+      )
+
+      if (reading.temperatureC >= unit.min_temp_c && reading.temperatureC <= unit.max_temp_c) {
+        continue
+      }
+
+      // Open an excursion unless the unit already has one awaiting review
+      const [excursion] = await client.query(
+        `
+          WITH opened AS (
+            INSERT INTO temperature_excursions
+              (storage_unit_id, hospital_id, reading_id, temperature_c, min_temp_c, max_temp_c, detected_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT (storage_unit_id) WHERE resolved_at IS NULL DO NOTHING
+            RETURNING excursion_id
+          )
+          SELECT excursion_id FROM opened
+          UNION ALL
+          SELECT excursion_id FROM temperature_excursions WHERE storage_unit_id = $1 AND resolved_at IS NULL
+          LIMIT 1
+        `,
+        [
+          unit.storage_unit_id,
+          unit.hospital_id,
+          readingId,
+          reading.temperatureC,
+          unit.min_temp_c,
+          unit.max_temp_c,
+          reading.recordedAt,
+        ],
+      )
+
+      const reason =
+        `Temperature excursion: ${unit.name} read ${reading.temperatureC} °C at ${reading.recordedAt} ` +
+        `(allowed ${unit.min_temp_c} to ${unit.max_temp_c} °C)`
+      const quarantined = await quarantineStoredBags(
+        excursion.excursion_id,
+        unit.storage_unit_id,
+        { adminId, hospitalId: unit.hospital_id },
+        reason,
+      )
+
+      excursions.push({ excursionId: excursion.excursion_id, storageUnitId: unit.storage_unit_id, quarantined })
+    }
+  } catch (error) {
+    throw logError(error, "Record Temperature Readings")
+  }
+
+  return { recorded: readings.length, excursions }
+}
+
+// Latest readings at a hospital, optionally for one storage unit, newest first
+export async function getTemperatureReadings(
+  hospitalId: number,
+  { storageUnitId, limit = 100 }: { storageUnitId?: number; limit?: number } = {},
+) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const rows = await requireDbClient().query(
+      `
+        SELECT r.reading_id, r.storage_unit_id, su.name as storage_unit_name, r.temperature_c::float8 as temperature_c,
+          r.recorded_at, r.source, a.admin_username as recorded_by_username,
+          (r.temperature_c < su.min_temp_c OR r.temperature_c > su.max_temp_c) as out_of_range
+        FROM temperature_readings r
+        JOIN storage_units su ON su.storage_unit_id = r.storage_unit_id
+        LEFT JOIN admin a ON a.admin_id = r.recorded_by
+        WHERE su.hospital_id = $1 ${storageUnitId ? "AND r.storage_unit_id = $3" : ""}
+        ORDER BY r.recorded_at DESC, r.reading_id DESC
+        LIMIT $2
+      `,
+      storageUnitId ? [hospitalId, limit, storageUnitId] : [hospitalId, limit],
+    )
+
+    return rows as Record<string, unknown>[]
+  } catch (error) {
+    throw logError(error, "Get Temperature Readings")
+  }
+}
+
+// Excursions at a hospital with their affected bags; open ones first
+export async function getTemperatureExcursions(hospitalId: number, { includeResolved = false } = {}) {
+  if (isPreviewMode()) {
+    return []
+  }
+
+  try {
+    const client = requireDbClient()
+
+    const excursions = await client.query(
+      `
+        SELECT e.excursion_id, e.storage_unit_id, su.name as storage_unit_name, e.temperature_c::float8 as temperature_c,
+          e.min_temp_c::float8 as min_temp_c, e.max_temp_c::float8 as max_temp_c, e.detected_at, e.resolved_at,
+          a.admin_username as resolved_by_username
+        FROM temperature_excursions e
+        JOIN storage_units su ON su.storage_unit_id = e.storage_unit_id
+        LEFT JOIN admin a ON a.admin_id = e.resolved_by
+        WHERE e.hospital_id = $1 ${includeResolved ? "" : "AND e.resolved_at IS NULL"}
+        ORDER BY e.resolved_at IS NULL DESC, e.detected_at DESC
+        LIMIT 100
+      `,
+      [hospitalId],
+    )
+
+    if (excursions.length === 0) {
+      return []
+    }
+
+    const bags = await client.query(
+      `
+        SELECT b.excursion_id, b.component_type, b.bag_id, b.previous_status, b.outcome, b.reviewed_at,
+          a.admin_username as reviewed_by_username
+        FROM temperature_excursion_bags b
+        LEFT JOIN admin a ON a.admin_id = b.reviewed_by
+        WHERE b.excursion_id = ANY($1::int[])
+        ORDER BY b.component_type, b.bag_id
+      `,
+      [excursions.map((excursion) => excursion.excursion_id)],
+    )
+
+    return excursions.map((excursion) => ({
+      ...excursion,
+      bags: bags.filter((bag) => bag.excursion_id === excursion.excursion_id),
+    }))
+  } catch (error) {
+    throw logError(error, "Get Temperature Excursions")
+  }
+}
+
+/**
+ * Release or discard bags quarantined by an open excursion. Each decision moves
+ * the bag out of quarantine through the usual status checks. Once no bag is left
+ * awaiting review the excursion is closed. Returns whether it was closed.
+ */
+export async function reviewTemperatureExcursion(
+  excursionId: number,
+  decisions: ExcursionDecision[],
+  actor: StatusChangeActor,
+) {
+  const client = requireDbClient()
+
+  const excursions = await client.query(
+    `SELECT resolved_at FROM temperature_excursions WHERE excursion_id = $1 AND hospital_id = $2`,
+    [excursionId, actor.hospitalId],
+  )
+
+  if (excursions.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Excursion not found")
+  }
+
+  if (excursions[0].resolved_at) {
+    throw new AppError(ErrorType.CONFLICT, "The excursion has already been closed")
+  }
+
+  for (const { component, bagId, outcome } of decisions) {
+    const pending = await client.query(
+      `
+        SELECT 1 FROM temperature_excursion_bags
+        WHERE excursion_id = $1 AND component_type = $2 AND bag_id = $3 AND outcome IS NULL
+      `,
+      [excursionId, component, bagId],
+    )
+
+    if (pending.length === 0) {
+      throw new AppError(ErrorType.VALIDATION, `Bag #${bagId} is not awaiting review in this excursion`)
+    }
+
+    await changeUnitStatus(component, bagId, outcome === "released" ? "available" : "discarded", actor)
+
+    await client.query(
+      `
+        UPDATE temperature_excursion_bags SET outcome = $4, reviewed_by = $5, reviewed_at = NOW()
+        WHERE excursion_id = $1 AND component_type = $2 AND bag_id = $3
+      `,
+      [excursionId, component, bagId, outcome, actor.adminId],
+    )
+  }
+
+  const closed = await client.query(
+    `
+      UPDATE temperature_excursions SET resolved_at = NOW(), resolved_by = $2
+      WHERE excursion_id = $1 AND resolved_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM temperature_excursion_bags WHERE excursion_id = $1 AND outcome IS NULL)
+      RETURNING excursion_id
+    `,
+    [excursionId, actor.adminId],
+  )
+
+  return closed.length > 0
+}
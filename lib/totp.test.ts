@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { buildOtpauthUrl, currentTotpStep, generateTotpSecret, verifyTotpCode } from "./totp"
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890" in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+
+// Test vectors from RFC 6238 appendix B, truncated to the six digits authenticator apps show
+const RFC_VECTORS = [
+  { seconds: 59, code: "287082" },
+  { seconds: 1111111109, code: "081804" },
+  { seconds: 1111111111, code: "050471" },
+  { seconds: 1234567890, code: "005924" },
+  { seconds: 2000000000, code: "279037" },
+  { seconds: 20000000000, code: "353130" },
+]
+
+describe("verifyTotpCode", () => {
+  it.each(RFC_VECTORS)("accepts the RFC 6238 code at $seconds seconds", ({ seconds, code }) => {
+    const now = seconds * 1000
+
+    expect(verifyTotpCode(RFC_SECRET, code, now)).toBe(currentTotpStep(now))
+  })
+
+  it("accepts a code one step either side of the current one", () => {
+    const now = 1111111109 * 1000
+    const step = currentTotpStep(now)
+
+    expect(verifyTotpCode(RFC_SECRET, "081804", now + 30_000)).toBe(step)
+    expect(verifyTotpCode(RFC_SECRET, "081804", now - 30_000)).toBe(step)
+    expect(verifyTotpCode(RFC_SECRET, "081804", now + 60_000)).toBeNull()
+  })
+
+  it("ignores spaces in the code", () => {
+    expect(verifyTotpCode(RFC_SECRET, "287 082", 59_000)).toBe(1)
+  })
+
+  it("rejects wrong and malformed codes", () => {
+    expect(verifyTotpCode(RFC_SECRET, "287083", 59_000)).toBeNull()
+    expect(verifyTotpCode(RFC_SECRET, "28708", 59_000)).toBeNull()
+    expect(verifyTotpCode(RFC_SECRET, "2870822", 59_000)).toBeNull()
+    expect(verifyTotpCode(RFC_SECRET, "abcdef", 59_000)).toBeNull()
+  })
+})
+
+describe("generateTotpSecret", () => {
+  it("generates a 160-bit base32 secret", () => {
+    const secret = generateTotpSecret()
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(generateTotpSecret()).not.toBe(secret)
+  })
+})
+
+describe("buildOtpauthUrl", () => {
+  it("describes the secret in the format authenticator apps read", () => {
+    const [label, query] = buildOtpauthUrl("admin@example.org", RFC_SECRET).split("?")
+
+    expect(label).toBe("otpauth://totp/Songblood%3Aadmin%40example.org")
+    expect(Object.fromEntries(new URLSearchParams(query))).toEqual({
+      secret: RFC_SECRET,
+      issuer: "Songblood",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    })
+  })
+})
@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+
+// RFC 6238 parameters understood by all common authenticator apps
+const TOTP_DIGITS = 6
+const TOTP_PERIOD_SECONDS = 30
+// Accept codes one step either side to allow for clock drift
+const TOTP_DRIFT_STEPS = 1
+const SECRET_BYTES = 20
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+function base32Encode(bytes: Uint8Array) {
+  let bits = 0
+  let value = 0
+  let output = ""
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(input: string) {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, "")
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char)
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+// Generate a new base32-encoded TOTP secret
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(SECRET_BYTES))
+}
+
+// Compute the code for a time step (RFC 4226 HOTP with the step as counter)
+function totpCodeForStep(secret: string, step: number) {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS
+  return binary.toString().padStart(TOTP_DIGITS, "0")
+}
+
+export function currentTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * Check a code against the secret. Returns the matching time step so callers
+ * can reject a code that has already been used, or null if it doesn't match.
+ */
+export function verifyTotpCode(secret: string, code: string, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "")
+  if (!/^\d{6}$/.test(normalized)) {
+    return null
+  }
+
+  const current = currentTotpStep(now)
+  for (let offset = -TOTP_DRIFT_STEPS; offset <= TOTP_DRIFT_STEPS; offset++) {
+    const expected = totpCodeForStep(secret, current + offset)
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return current + offset
+    }
+  }
+  return null
+}
+
+// Build the otpauth:// URI that authenticator apps read from the QR code
+export function buildOtpauthUrl(accountName: string, secret: string, issuer = "Songblood") {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
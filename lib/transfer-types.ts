@@ -0,0 +1,69 @@
+// Stages of a request for units from another hospital, and how they are shown.
+//
+// This module is imported by client components and must stay free of server code.
+
+export const TRANSFER_STATUSES = [
+  "requested",
+  "accepted",
+  "partially_filled",
+  "declined",
+  "cancelled",
+  "in_transit",
+  "received",
+] as const
+
+export type TransferStatus = (typeof TRANSFER_STATUSES)[number]
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  requested: "Requested",
+  accepted: "Accepted",
+  partially_filled: "Partially Filled",
+  declined: "Declined",
+  cancelled: "Cancelled",
+  in_transit: "In Transit",
+  received: "Received",
+}
+
+// Requests the supplier has answered with bags but not yet shipped
+export const FILLED_TRANSFER_STATUSES: readonly TransferStatus[] = ["accepted", "partially_filled"]
+
+// Requests that can still be called off: nothing has left the supplier yet
+export const CANCELLABLE_TRANSFER_STATUSES: readonly TransferStatus[] = ["requested", "accepted", "partially_filled"]
+
+export type CustodyEvent = {
+  custody_event_id: number
+  bag_id: number
+  event: "shipped" | "received"
+  hospital_name: string
+  admin_username: string | null
+  courier: string | null
+  occurred_at: string
+}
+
+export type Transfer = {
+  transfer_id: number
+  requesting_hospital_id: number
+  requesting_hospital_name: string
+  supplying_hospital_id: number
+  supplying_hospital_name: string
+  component_type: string
+  blood_type: string
+  rh: string
+  quantity: number
+  notes: string | null
+  status: TransferStatus
+  requested_at: string
+  requested_by_username: string | null
+  responded_at: string | null
+  responded_by_username: string | null
+  cancelled_at: string | null
+  cancelled_by_username: string | null
+  status_note: string | null
+  shipped_at: string | null
+  courier: string | null
+  received_at: string | null
+  // Bags chosen by the supplier
+  bag_ids: number[]
+  // Hand-offs of those bags, oldest first
+  custody: CustodyEvent[]
+}
@@ -0,0 +1,628 @@
+import { z } from "zod"
+import { dbClient } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { updateWithAudit, type AuditAction } from "./audit-log"
+import {
+  BLOOD_COMPONENTS,
+  getInventoryCacheKey,
+  isBloodComponentKey,
+  type BloodComponentKey,
+} from "./blood-components"
+import {
+  CANCELLABLE_TRANSFER_STATUSES,
+  FILLED_TRANSFER_STATUSES,
+  TRANSFER_STATUS_LABELS,
+  type Transfer,
+  type TransferStatus,
+} from "./transfer-types"
+
+// The signed-in admin acting on a transfer, taken from the session
+export type TransferActor = {
+  adminId: number
+  hospitalId: number
+}
+
+const transferRequestSchema = z
+  .object({
+    supplyingHospitalId: z.number().int().positive(),
+    component: z.string().refine(isBloodComponentKey, "Unknown blood component"),
+    bloodType: z.enum(["A", "B", "AB", "O"]),
+    rh: z.enum(["+", "-", ""]).default(""),
+    quantity: z.number().int().min(1, "Request at least one unit").max(100),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine((input) => !isBloodComponentKey(input.component) || !BLOOD_COMPONENTS[input.component].hasRh || input.rh, {
+    message: "Rh factor is required (+ or -)",
+    path: ["rh"],
+  })
+
+const transferResponseSchema = z.discriminatedUnion("decision", [
+  z.object({
+    decision: z.literal("accept"),
+    bagIds: z.array(z.number().int().positive()).min(1, "Choose at least one bag").max(100),
+  }),
+  z.object({
+    decision: z.literal("decline"),
+    reason: z.string().trim().max(500).optional(),
+  }),
+])
+
+const shipmentSchema = z.object({
+  courier: z.string().trim().max(100).optional(),
+})
+
+const cancellationSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+})
+
+export type TransferRequestInput = Omit<z.infer<typeof transferRequestSchema>, "component"> & {
+  component: BloodComponentKey
+}
+
+export type TransferResponse = z.infer<typeof transferResponseSchema>
+
+function requireDbClient() {
+  if (!dbClient) {
+    throw new AppError(
+      ErrorType.DATABASE_CONNECTION,
+      "Database client not initialized",
+      "Database URL environment variable may be missing or invalid",
+    )
+  }
+  return dbClient
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+}
+
+// Parse and validate a new transfer request from a request body
+export function parseTransferRequest(body: unknown): TransferRequestInput {
+  const result = transferRequestSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid transfer request", formatIssues(result.error))
+  }
+
+  const input = result.data as TransferRequestInput
+  // Components without an Rh factor are requested by ABO group alone
+  return BLOOD_COMPONENTS[input.component].hasRh ? input : { ...input, rh: "" }
+}
+
+// Parse and validate the supplier's answer to a request
+export function parseTransferResponse(body: unknown): TransferResponse {
+  const result = transferResponseSchema.safeParse(body)
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid transfer response", formatIssues(result.error))
+  }
+
+  return result.data
+}
+
+// Parse and validate shipping details, which are optional
+export function parseShipment(body: unknown) {
+  const result = shipmentSchema.safeParse(body ?? {})
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid shipment", formatIssues(result.error))
+  }
+
+  return result.data
+}
+
+// Parse and validate the reason for cancelling a request, which is optional
+export function parseCancellation(body: unknown) {
+  const result = cancellationSchema.safeParse(body ?? {})
+
+  if (!result.success) {
+    throw new AppError(ErrorType.VALIDATION, "Invalid cancellation", formatIssues(result.error))
+  }
+
+  return result.data
+}
+
+type TransferRow = {
+  transfer_id: number
+  requesting_hospital_id: number
+  supplying_hospital_id: number
+  component_type: BloodComponentKey
+  blood_type: string
+  rh: string
+  quantity: number
+  status: TransferStatus
+}
+
+/**
+ * Load a transfer the hospital takes part in on the given side. Requests between
+ * other hospitals are reported as not found rather than forbidden.
+ */
+async function getTransferFor(transferId: number, hospitalId: number, side: "requester" | "supplier" | "either") {
+  const rows = (await requireDbClient().query(
+    `
+      SELECT transfer_id, requesting_hospital_id, supplying_hospital_id, component_type, blood_type, rh, quantity,
+        status
+      FROM transfer_requests
+      WHERE transfer_id = $1
+    `,
+    [transferId],
+  )) as TransferRow[]
+
+  const transfer = rows[0]
+  const isRequester = transfer?.requesting_hospital_id === hospitalId
+  const isSupplier = transfer?.supplying_hospital_id === hospitalId
+  const allowed = side === "requester" ? isRequester : side === "supplier" ? isSupplier : isRequester || isSupplier
+
+  if (!transfer || !allowed || !isBloodComponentKey(transfer.component_type)) {
+    throw new AppError(ErrorType.NOT_FOUND, "Transfer not found")
+  }
+
+  return transfer
+}
+
+function statusConflict(status: TransferStatus, action: string) {
+  return new AppError(
+    ErrorType.CONFLICT,
+    `The transfer is ${TRANSFER_STATUS_LABELS[status].toLowerCase()} and cannot be ${action}`,
+  )
+}
+
+// Move a transfer on from the status it was read in; fails if someone else moved it first
+async function claimTransfer(transferId: number, from: TransferStatus, assignments: string, params: unknown[]) {
+  const rows = await requireDbClient().query(
+    `UPDATE transfer_requests SET ${assignments} WHERE transfer_id = $1 AND status = $2 RETURNING transfer_id`,
+    [transferId, from, ...params],
+  )
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.CONFLICT, "The transfer was changed by someone else. Refresh and try again.")
+  }
+}
+
+type TransferBagMove = {
+  transferId: number
+  // Status the transfer was read in, and the assignments moving it on; their parameters start at $9
+  from: TransferStatus
+  assignments: string
+  params: unknown[]
+  component: BloodComponentKey
+  bagIds: number[]
+  // Where the bags are held and the status they must still be in
+  bagHospitalId: number
+  bagStatus: string
+  bagChanges: Record<string, unknown>
+  action: AuditAction
+  adminId: number
+  // Link the bags to the transfer, as when the supplier answers with them
+  linkBags?: boolean
+  // Custody record written for each bag that changes hands
+  custody?: { event: "shipped" | "received"; hospitalId: number; courier?: string | null }
+}
+
+/**
+ * Move a transfer on together with its bags in a single statement, so they can't
+ * get out of step. Nothing changes unless the transfer is still in the status it
+ * was read in and every bag is still active at its hospital in the expected
+ * status; the bags are locked first so a concurrent change drops them from the
+ * count. Each moved bag gets an audit entry as updateWithAudit writes it.
+ */
+async function moveTransferWithBags(move: TransferBagMove) {
+  const { tableName } = BLOOD_COMPONENTS[move.component]
+  const params: unknown[] = [
+    move.transferId,
+    move.from,
+    move.bagIds,
+    move.bagHospitalId,
+    move.bagStatus,
+    move.adminId,
+    move.component,
+    move.action,
+    ...move.params,
+  ]
+  const param = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+
+  const bagAssignments = Object.entries(move.bagChanges).map(([column, value]) => `${column} = ${param(value)}`)
+  const linked = move.linkBags
+    ? `, linked AS (INSERT INTO transfer_request_bags (transfer_id, bag_id) SELECT $1, bag_id FROM changed)`
+    : ""
+  const custody = move.custody
+    ? `
+      , custody AS (
+        INSERT INTO custody_events (transfer_id, component_type, bag_id, event, hospital_id, admin_id, courier)
+        SELECT $1, $7, bag_id, ${param(move.custody.event)}, ${param(move.custody.hospitalId)}, $6,
+          ${param(move.custody.courier ?? null)}
+        FROM changed
+      )`
+    : ""
+
+  const rows = await requireDbClient().query(
+    `
+      WITH previous AS (
+        SELECT * FROM ${tableName}
+        WHERE bag_id = ANY($3::int[]) AND hospital_id = $4 AND active = true AND status = $5
+        FOR UPDATE
+      ), claimed AS (
+        UPDATE transfer_requests SET ${move.assignments}
+        WHERE transfer_id = $1 AND status = $2 AND (SELECT COUNT(*) FROM previous) = cardinality($3::int[])
+        RETURNING transfer_id
+      ), changed AS (
+        UPDATE ${tableName} inv SET ${bagAssignments.join(", ")}
+        FROM previous, claimed
+        WHERE inv.bag_id = previous.bag_id
+        RETURNING inv.*
+      ), audit AS (
+        INSERT INTO audit_log (admin_id, hospital_id, bag_id, component_type, action, before_data, after_data)
+        SELECT $6, changed.hospital_id, changed.bag_id, $7, $8, to_jsonb(previous), to_jsonb(changed)
+        FROM changed JOIN previous ON previous.bag_id = changed.bag_id
+      )${linked}${custody}
+      SELECT transfer_id FROM claimed
+    `,
+    params,
+  )
+
+  if (rows.length === 0) {
+    throw new AppError(
+      ErrorType.CONFLICT,
+      "The transfer or one of its bags was changed by someone else. Refresh and try again.",
+    )
+  }
+}
+
+async function getTransferBagIds(transferId: number) {
+  const rows = await requireDbClient().query(
+    `SELECT bag_id FROM transfer_request_bags WHERE transfer_id = $1 ORDER BY bag_id`,
+    [transferId],
+  )
+  return rows.map((row) => row.bag_id as number)
+}
+
+// Put reserved bags back into stock, skipping any whose status changed since
+async function releaseReservedBags(component: BloodComponentKey, bagIds: number[], actor: TransferActor) {
+  for (const bagId of bagIds) {
+    await updateWithAudit(
+      component,
+      "status",
+      actor,
+      bagId,
+      { status: "available", status_changed_at: new Date().toISOString(), status_changed_by: actor.adminId },
+      { onlyActive: true, expected: { status: "reserved" } },
+    )
+  }
+  queryCache.invalidate(getInventoryCacheKey(component, actor.hospitalId))
+}
+
+// Ask another hospital for units; returns the new transfer's ID
+export async function createTransferRequest(input: TransferRequestInput, actor: TransferActor) {
+  if (input.supplyingHospitalId === actor.hospitalId) {
+    throw new AppError(ErrorType.VALIDATION, "A hospital cannot request units from itself")
+  }
+
+  const client = requireDbClient()
+
+  const hospitals = await client.query(`SELECT 1 FROM hospital WHERE hospital_id = $1`, [input.supplyingHospitalId])
+  if (hospitals.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Hospital not found")
+  }
+
+  try {
+    const rows = await client.query(
+      `
+        INSERT INTO transfer_requests
+          (requesting_hospital_id, supplying_hospital_id, component_type, blood_type, rh, quantity, notes, requested_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING transfer_id
+      `,
+      [
+        actor.hospitalId,
+        input.supplyingHospitalId,
+        input.component,
+        input.bloodType,
+        input.rh,
+        input.quantity,
+        input.notes || null,
+        actor.adminId,
+      ],
+    )
+    return rows[0].transfer_id as number
+  } catch (error) {
+    throw logError(error, "Create Transfer Request")
+  }
+}
+
+// Transfers the hospital takes part in, split by whether it asked for the units
+// or supplies them; open ones first
+export async function getTransfers(hospitalId: number): Promise<{ incoming: Transfer[]; outgoing: Transfer[] }> {
+  if (isPreviewMode()) {
+    return { incoming: [], outgoing: [] }
+  }
+
+  try {
+    const client = requireDbClient()
+
+    const transfers = await client.query(
+      `
+        SELECT t.transfer_id, t.requesting_hospital_id, rh.hospital_name as requesting_hospital_name,
+          t.supplying_hospital_id, sh.hospital_name as supplying_hospital_name, t.component_type, t.blood_type, t.rh,
+          t.quantity, t.notes, t.status, t.requested_at, ra.admin_username as requested_by_username, t.responded_at,
+          pa.admin_username as responded_by_username, t.cancelled_at, ca.admin_username as cancelled_by_username,
+          t.status_note, t.shipped_at, t.courier, t.received_at
+        FROM transfer_requests t
+        JOIN hospital rh ON rh.hospital_id = t.requesting_hospital_id
+        JOIN hospital sh ON sh.hospital_id = t.supplying_hospital_id
+        LEFT JOIN admin ra ON ra.admin_id = t.requested_by
+        LEFT JOIN admin pa ON pa.admin_id = t.responded_by
+        LEFT JOIN admin ca ON ca.admin_id = t.cancelled_by
+        WHERE t.requesting_hospital_id = $1 OR t.supplying_hospital_id = $1
+        ORDER BY t.status IN ('declined', 'cancelled', 'received'), t.requested_at DESC
+        LIMIT 200
+      `,
+      [hospitalId],
+    )
+
+    if (transfers.length === 0) {
+      return { incoming: [], outgoing: [] }
+    }
+
+    const transferIds = transfers.map((transfer) => transfer.transfer_id)
+
+    const bags = await client.query(
+      `SELECT transfer_id, bag_id FROM transfer_request_bags WHERE transfer_id = ANY($1::int[]) ORDER BY bag_id`,
+      [transferIds],
+    )
+
+    const custody = await client.query(
+      `
+        SELECT c.custody_event_id, c.transfer_id, c.bag_id, c.event, h.hospital_name, a.admin_username, c.courier,
+          c.occurred_at
+        FROM custody_events c
+        JOIN hospital h ON h.hospital_id = c.hospital_id
+        LEFT JOIN admin a ON a.admin_id = c.admin_id
+        WHERE c.transfer_id = ANY($1::int[])
+        ORDER BY c.occurred_at, c.custody_event_id
+      `,
+      [transferIds],
+    )
+
+    const withDetails = transfers.map(
+      (transfer) =>
+        ({
+          ...transfer,
+          bag_ids: bags.filter((bag) => bag.transfer_id === transfer.transfer_id).map((bag) => bag.bag_id),
+          custody: custody.filter((event) => event.transfer_id === transfer.transfer_id),
+        }) as Transfer,
+    )
+
+    return {
+      incoming: withDetails.filter((transfer) => transfer.supplying_hospital_id === hospitalId),
+      outgoing: withDetails.filter((transfer) => transfer.requesting_hospital_id === hospitalId),
+    }
+  } catch (error) {
+    throw logError(error, "Get Transfers")
+  }
+}
+
+// Bags the supplier could send for a request: available, unexpired and of the
+// requested type, soonest to expire first
+export async function getCandidateBags(transferId: number, hospitalId: number) {
+  const transfer = await getTransferFor(transferId, hospitalId, "supplier")
+  const { tableName, hasRh } = BLOOD_COMPONENTS[transfer.component_type]
+
+  try {
+    const rows = await requireDbClient().query(
+      `
+        SELECT inv.bag_id, inv.amount, inv.expiration_date, inv.storage_position, su.name as storage_unit_name
+        FROM ${tableName} inv
+        LEFT JOIN storage_units su ON su.storage_unit_id = inv.storage_unit_id
+        WHERE inv.hospital_id = $1 AND inv.active = true AND inv.status = 'available'
+          AND inv.expiration_date > NOW() AND inv.blood_type = $2 ${hasRh ? "AND inv.rh = $3" : ""}
+        ORDER BY inv.expiration_date, inv.bag_id
+        LIMIT 200
+      `,
+      hasRh ? [hospitalId, transfer.blood_type, transfer.rh] : [hospitalId, transfer.blood_type],
+    )
+
+    return rows as Record<string, unknown>[]
+  } catch (error) {
+    throw logError(error, "Get Candidate Bags")
+  }
+}
+
+/**
+ * Answer a request as the supplier. Declining closes it. Accepting reserves the
+ * chosen bags for the requester; fewer bags than requested fill it partially.
+ */
+export async function respondToTransfer(transferId: number, response: TransferResponse, actor: TransferActor) {
+  const transfer = await getTransferFor(transferId, actor.hospitalId, "supplier")
+
+  if (transfer.status !== "requested") {
+    throw statusConflict(transfer.status, response.decision === "accept" ? "accepted" : "declined")
+  }
+
+  if (response.decision === "decline") {
+    await claimTransfer(
+      transferId,
+      "requested",
+      "status = 'declined', responded_by = $3, responded_at = NOW(), status_note = $4",
+      [actor.adminId, response.reason || null],
+    )
+    return "declined" as const
+  }
+
+  const bagIds = [...new Set(response.bagIds)]
+  if (bagIds.length > transfer.quantity) {
+    throw new AppError(ErrorType.VALIDATION, `Choose at most ${transfer.quantity} bags`)
+  }
+
+  const { tableName, hasRh } = BLOOD_COMPONENTS[transfer.component_type]
+  const client = requireDbClient()
+
+  const suitable = await client.query(
+    `
+      SELECT bag_id FROM ${tableName}
+      WHERE bag_id = ANY($1::int[]) AND hospital_id = $2 AND active = true AND status = 'available'
+        AND expiration_date > NOW() AND blood_type = $3 ${hasRh ? "AND rh = $4" : ""}
+    `,
+    hasRh
+      ? [bagIds, actor.hospitalId, transfer.blood_type, transfer.rh]
+      : [bagIds, actor.hospitalId, transfer.blood_type],
+  )
+  const suitableIds = new Set(suitable.map((bag) => bag.bag_id as number))
+  const unsuitable = bagIds.filter((bagId) => !suitableIds.has(bagId))
+
+  if (unsuitable.length > 0) {
+    throw new AppError(
+      ErrorType.VALIDATION,
+      `Bag ${unsuitable.map((bagId) => `#${bagId}`).join(", ")} cannot fill this request`,
+      "Bags must be available, unexpired and of the requested blood type",
+    )
+  }
+
+  // Reserve the bags so they aren't issued meanwhile
+  const status: TransferStatus = bagIds.length < transfer.quantity ? "partially_filled" : "accepted"
+  await moveTransferWithBags({
+    transferId,
+    from: "requested",
+    assignments: "status = $9, responded_by = $10, responded_at = NOW()",
+    params: [status, actor.adminId],
+    component: transfer.component_type,
+    bagIds,
+    bagHospitalId: actor.hospitalId,
+    bagStatus: "available",
+    bagChanges: { status: "reserved", status_changed_at: new Date().toISOString(), status_changed_by: actor.adminId },
+    action: "status",
+    adminId: actor.adminId,
+    linkBags: true,
+  })
+
+  queryCache.invalidate(getInventoryCacheKey(transfer.component_type, actor.hospitalId))
+
+  return status
+}
+
+// Call off a request that hasn't shipped; bags reserved for it go back into the supplier's stock
+export async function cancelTransfer(transferId: number, reason: string | undefined, actor: TransferActor) {
+  const transfer = await getTransferFor(transferId, actor.hospitalId, "either")
+
+  if (!CANCELLABLE_TRANSFER_STATUSES.includes(transfer.status)) {
+    throw statusConflict(transfer.status, "cancelled")
+  }
+
+  await claimTransfer(
+    transferId,
+    transfer.status,
+    "status = 'cancelled', cancelled_by = $3, cancelled_at = NOW(), status_note = $4",
+    [actor.adminId, reason || null],
+  )
+
+  if (FILLED_TRANSFER_STATUSES.includes(transfer.status)) {
+    const bagIds = await getTransferBagIds(transferId)
+    await releaseReservedBags(transfer.component_type, bagIds, {
+      adminId: actor.adminId,
+      hospitalId: transfer.supplying_hospital_id,
+    })
+  }
+}
+
+// Ship the bags reserved for a request: they leave the supplier's storage and are
+// in transit, each with a custody record of the hand-off
+export async function shipTransfer(transferId: number, courier: string | undefined, actor: TransferActor) {
+  const transfer = await getTransferFor(transferId, actor.hospitalId, "supplier")
+
+  if (!FILLED_TRANSFER_STATUSES.includes(transfer.status)) {
+    throw statusConflict(transfer.status, "shipped")
+  }
+
+  const { tableName } = BLOOD_COMPONENTS[transfer.component_type]
+  const client = requireDbClient()
+  const bagIds = await getTransferBagIds(transferId)
+
+  const reserved = await client.query(
+    `
+      SELECT bag_id FROM ${tableName}
+      WHERE bag_id = ANY($1::int[]) AND hospital_id = $2 AND active = true AND status = 'reserved'
+    `,
+    [bagIds, actor.hospitalId],
+  )
+  const reservedIds = new Set(reserved.map((bag) => bag.bag_id as number))
+  const missing = bagIds.filter((bagId) => !reservedIds.has(bagId))
+
+  if (missing.length > 0) {
+    throw new AppError(
+      ErrorType.CONFLICT,
+      `Bag ${missing.map((bagId) => `#${bagId}`).join(", ")} is no longer reserved for this transfer`,
+      "Cancel the transfer so the requester can ask again",
+    )
+  }
+
+  try {
+    await moveTransferWithBags({
+      transferId,
+      from: transfer.status,
+      assignments: "status = 'in_transit', shipped_by = $9, shipped_at = NOW(), courier = $10",
+      params: [actor.adminId, courier || null],
+      component: transfer.component_type,
+      bagIds,
+      bagHospitalId: actor.hospitalId,
+      bagStatus: "reserved",
+      bagChanges: {
+        status: "in_transit",
+        status_changed_at: new Date().toISOString(),
+        status_changed_by: actor.adminId,
+        storage_unit_id: null,
+        storage_position: null,
+      },
+      action: "transfer",
+      adminId: actor.adminId,
+      custody: { event: "shipped", hospitalId: actor.hospitalId, courier: courier || null },
+    })
+  } catch (error) {
+    throw logError(error, "Ship Transfer")
+  }
+
+  queryCache.invalidate(getInventoryCacheKey(transfer.component_type, actor.hospitalId))
+}
+
+// Receive a shipped transfer: its bags join the requester's stock, each with a
+// custody record of the hand-off
+export async function receiveTransfer(transferId: number, actor: TransferActor) {
+  const transfer = await getTransferFor(transferId, actor.hospitalId, "requester")
+
+  if (transfer.status !== "in_transit") {
+    throw statusConflict(transfer.status, "received")
+  }
+
+  const bagIds = await getTransferBagIds(transferId)
+
+  try {
+    // The bags are still recorded at the supplier until this moves them
+    await moveTransferWithBags({
+      transferId,
+      from: "in_transit",
+      assignments: "status = 'received', received_by = $9, received_at = NOW()",
+      params: [actor.adminId],
+      component: transfer.component_type,
+      bagIds,
+      bagHospitalId: transfer.supplying_hospital_id,
+      bagStatus: "in_transit",
+      bagChanges: {
+        hospital_id: actor.hospitalId,
+        status: "available",
+        status_changed_at: new Date().toISOString(),
+        status_changed_by: actor.adminId,
+      },
+      action: "transfer",
+      adminId: actor.adminId,
+      custody: { event: "received", hospitalId: actor.hospitalId },
+    })
+  } catch (error) {
+    throw logError(error, "Receive Transfer")
+  }
+
+  queryCache.invalidate(getInventoryCacheKey(transfer.component_type, transfer.supplying_hospital_id))
+  queryCache.invalidate(getInventoryCacheKey(transfer.component_type, actor.hospitalId))
+}
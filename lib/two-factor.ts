@@ -0,0 +1,335 @@
+import { createHash, randomBytes } from "crypto"
+import { executeQuery } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType, logError } from "./error-handling"
+import { isPreviewMode } from "./environment-detection"
+import { buildOtpauthUrl, generateTotpSecret, verifyTotpCode } from "./totp"
+import { generateSessionId, hashSessionId } from "./session-token"
+
+const RECOVERY_CODE_COUNT = 10
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000 // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5
+
+export type LoginChallengePurpose = "verify" | "enroll"
+
+type TwoFactorStatusRow = {
+  totp_enabled: boolean
+  require_two_factor: boolean
+  recovery_codes_remaining: string
+}
+
+// A pending login challenge joined to the admin it was issued for
+type LoginChallengeRow = {
+  challenge_id: string
+  admin_id: number
+  purpose: string
+  hospital_id: number
+  admin_username: string
+}
+
+function hashRecoveryCode(code: string) {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "")
+  return createHash("sha256").update(normalized).digest("hex")
+}
+
+// Recovery codes look like "3f9a1-c07be"
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex")
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+}
+
+// Replace an admin's recovery codes and return the new plaintext codes
+async function replaceRecoveryCodes(adminId: number) {
+  const codes = generateRecoveryCodes()
+
+  await executeQuery(async (sql) => {
+    await sql`DELETE FROM admin_recovery_codes WHERE admin_id = ${adminId}`
+    for (const code of codes) {
+      await sql`INSERT INTO admin_recovery_codes (admin_id, code_hash) VALUES (${adminId}, ${hashRecoveryCode(code)})`
+    }
+  })
+
+  return codes
+}
+
+// Two-factor state for an admin and whether their hospital requires it
+export async function getTwoFactorStatus(adminId: number) {
+  if (isPreviewMode()) {
+    return { enabled: false, requiredByHospital: false, recoveryCodesRemaining: 0 }
+  }
+
+  try {
+    const rows = await executeQuery<TwoFactorStatusRow[]>(
+      (sql) => sql`
+        SELECT
+          a.totp_enabled,
+          h.require_two_factor,
+          (SELECT COUNT(*) FROM admin_recovery_codes r WHERE r.admin_id = a.admin_id AND r.used_at IS NULL)
+            as recovery_codes_remaining
+        FROM admin a
+        JOIN hospital h ON a.hospital_id = h.hospital_id
+        WHERE a.admin_id = ${adminId}
+      `,
+    )
+
+    const row = rows[0]
+    if (!row) {
+      throw new AppError(ErrorType.NOT_FOUND, "Account not found")
+    }
+
+    return {
+      enabled: Boolean(row.totp_enabled),
+      requiredByHospital: Boolean(row.require_two_factor),
+      recoveryCodesRemaining: Number(row.recovery_codes_remaining || 0),
+    }
+  } catch (error) {
+    throw logError(error, "Get Two-Factor Status")
+  }
+}
+
+// Generate a new secret for an admin who is not yet enrolled. It only takes effect
+// once confirmed with a code from the authenticator app.
+export async function startTwoFactorEnrollment(adminId: number) {
+  try {
+    const secret = generateTotpSecret()
+
+    const rows = await executeQuery<{ admin_username: string }[]>(
+      (sql) => sql`
+        UPDATE admin SET totp_secret = ${secret}
+        WHERE admin_id = ${adminId} AND totp_enabled = false
+        RETURNING admin_username
+      `,
+    )
+
+    if (rows.length === 0) {
+      throw new AppError(ErrorType.CONFLICT, "Two-factor authentication is already enabled")
+    }
+
+    return { secret, otpauthUrl: buildOtpauthUrl(rows[0].admin_username, secret) }
+  } catch (error) {
+    throw logError(error, "Start Two-Factor Enrollment")
+  }
+}
+
+// Confirm enrollment with a first code; returns the recovery codes, shown only once
+export async function confirmTwoFactorEnrollment(adminId: number, code: string) {
+  try {
+    const rows = await executeQuery<{ totp_secret: string | null; totp_enabled: boolean }[]>(
+      (sql) => sql`SELECT totp_secret, totp_enabled FROM admin WHERE admin_id = ${adminId}`,
+    )
+
+    const admin = rows[0]
+    if (!admin?.totp_secret || admin.totp_enabled) {
+      throw new AppError(ErrorType.VALIDATION, "Start enrollment before confirming a code")
+    }
+
+    const step = verifyTotpCode(admin.totp_secret, code)
+    if (step === null) {
+      throw new AppError(ErrorType.VALIDATION, "Invalid authentication code")
+    }
+
+    await executeQuery(
+      (sql) => sql`
+        UPDATE admin
+        SET totp_enabled = true, totp_enabled_at = NOW(), totp_last_used_step = ${step}
+        WHERE admin_id = ${adminId}
+      `,
+    )
+
+    return await replaceRecoveryCodes(adminId)
+  } catch (error) {
+    throw logError(error, "Confirm Two-Factor Enrollment")
+  }
+}
+
+// Check a TOTP code or, failing that, a recovery code for an enrolled admin
+export async function verifyTwoFactorCode(adminId: number, code: string) {
+  try {
+    const rows = await executeQuery<{ totp_secret: string | null; totp_enabled: boolean }[]>(
+      (sql) => sql`SELECT totp_secret, totp_enabled FROM admin WHERE admin_id = ${adminId}`,
+    )
+
+    const admin = rows[0]
+    if (!admin?.totp_enabled || !admin.totp_secret) {
+      return false
+    }
+
+    const step = verifyTotpCode(admin.totp_secret, code)
+    if (step !== null) {
+      // Record the step atomically so the same code can't be used twice
+      const updated = await executeQuery<{ admin_id: number }[]>(
+        (sql) => sql`
+          UPDATE admin SET totp_last_used_step = ${step}
+          WHERE admin_id = ${adminId} AND (totp_last_used_step IS NULL OR totp_last_used_step < ${step})
+          RETURNING admin_id
+        `,
+      )
+      return updated.length > 0
+    }
+
+    const used = await executeQuery<{ code_id: number }[]>(
+      (sql) => sql`
+        UPDATE admin_recovery_codes SET used_at = NOW()
+        WHERE admin_id = ${adminId} AND code_hash = ${hashRecoveryCode(code)} AND used_at IS NULL
+        RETURNING code_id
+      `,
+    )
+    return used.length > 0
+  } catch (error) {
+    throw logError(error, "Verify Two-Factor Code")
+  }
+}
+
+// Issue a fresh set of recovery codes, invalidating the old ones
+export async function regenerateRecoveryCodes(adminId: number) {
+  try {
+    return await replaceRecoveryCodes(adminId)
+  } catch (error) {
+    throw logError(error, "Regenerate Recovery Codes")
+  }
+}
+
+// Turn two-factor authentication off, unless the hospital requires it
+export async function disableTwoFactor(adminId: number) {
+  try {
+    const status = await getTwoFactorStatus(adminId)
+    if (status.requiredByHospital) {
+      throw new AppError(ErrorType.FORBIDDEN, "Your hospital requires two-factor authentication")
+    }
+
+    await executeQuery(async (sql) => {
+      await sql`
+        UPDATE admin
+        SET totp_enabled = false, totp_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL
+        WHERE admin_id = ${adminId}
+      `
+      await sql`DELETE FROM admin_recovery_codes WHERE admin_id = ${adminId}`
+    })
+
+    return { success: true }
+  } catch (error) {
+    throw logError(error, "Disable Two-Factor")
+  }
+}
+
+// Require (or stop requiring) two-factor authentication for every account at a hospital
+export async function setHospitalTwoFactorRequirement(hospitalId: number, required: boolean) {
+  try {
+    await executeQuery(
+      (sql) => sql`UPDATE hospital SET require_two_factor = ${required} WHERE hospital_id = ${hospitalId}`,
+    )
+    queryCache.invalidate(`hospital:${hospitalId}`)
+
+    // Report how many active accounts will be asked to enroll at their next login
+    const rows = await executeQuery<{ count: string }[]>(
+      (sql) => sql`
+        SELECT COUNT(*) as count FROM admin
+        WHERE hospital_id = ${hospitalId} AND status = 'active' AND totp_enabled = false
+      `,
+    )
+
+    return { success: true, unenrolledCount: Number(rows[0]?.count || 0) }
+  } catch (error) {
+    throw logError(error, "Set Hospital Two-Factor Requirement")
+  }
+}
+
+// Hospital-wide requirement and how many active accounts have not enrolled yet
+export async function getHospitalTwoFactorPolicy(hospitalId: number) {
+  if (isPreviewMode()) {
+    return { required: false, unenrolledCount: 0 }
+  }
+
+  try {
+    const rows = await executeQuery<{ require_two_factor: boolean; unenrolled_count: string }[]>(
+      (sql) => sql`
+        SELECT
+          h.require_two_factor,
+          (SELECT COUNT(*) FROM admin a
+            WHERE a.hospital_id = h.hospital_id AND a.status = 'active' AND a.totp_enabled = false) as unenrolled_count
+        FROM hospital h
+        WHERE h.hospital_id = ${hospitalId}
+      `,
+    )
+
+    return {
+      required: Boolean(rows[0]?.require_two_factor),
+      unenrolledCount: Number(rows[0]?.unenrolled_count || 0),
+    }
+  } catch (error) {
+    throw logError(error, "Get Hospital Two-Factor Policy")
+  }
+}
+
+// Decide whether a login needs a second step after the password was accepted
+export async function getLoginChallengePurpose(adminId: number): Promise<LoginChallengePurpose | null> {
+  const status = await getTwoFactorStatus(adminId)
+  if (status.enabled) {
+    return "verify"
+  }
+  if (status.requiredByHospital) {
+    return "enroll"
+  }
+  return null
+}
+
+// Create a challenge for the second login step; the token is returned to the client once
+export async function createLoginChallenge(adminId: number, purpose: LoginChallengePurpose) {
+  try {
+    const challengeToken = generateSessionId()
+    const tokenHash = await hashSessionId(challengeToken)
+    const expiresAt = new Date(Date.now() + LOGIN_CHALLENGE_TTL_MS)
+
+    await executeQuery(
+      (sql) => sql`
+        INSERT INTO login_challenges (token_hash, admin_id, purpose, expires_at)
+        VALUES (${tokenHash}, ${adminId}, ${purpose}, ${expiresAt.toISOString()})
+      `,
+    )
+
+    return { challengeToken, expiresAt: expiresAt.toISOString() }
+  } catch (error) {
+    throw logError(error, "Create Login Challenge")
+  }
+}
+
+// Look up a pending challenge and count this attempt against it
+export async function claimLoginChallengeAttempt(challengeToken: string) {
+  try {
+    const tokenHash = await hashSessionId(challengeToken)
+    const rows = await executeQuery<LoginChallengeRow[]>(
+      (sql) => sql`
+        UPDATE login_challenges c SET attempts = c.attempts + 1
+        FROM admin a
+        WHERE c.token_hash = ${tokenHash}
+          AND c.admin_id = a.admin_id
+          AND c.used_at IS NULL
+          AND c.expires_at > NOW()
+          AND c.attempts < ${MAX_CHALLENGE_ATTEMPTS}
+        RETURNING c.challenge_id, c.admin_id, c.purpose, a.hospital_id, a.admin_username
+      `,
+    )
+
+    const challenge = rows[0]
+    if (!challenge) {
+      throw new AppError(ErrorType.AUTHENTICATION, "Your login has expired. Please sign in again.")
+    }
+
+    return {
+      challengeId: String(challenge.challenge_id),
+      adminId: Number(challenge.admin_id),
+      hospitalId: Number(challenge.hospital_id),
+      username: String(challenge.admin_username),
+      purpose: challenge.purpose as LoginChallengePurpose,
+    }
+  } catch (error) {
+    throw logError(error, "Claim Login Challenge")
+  }
+}
+
+// Mark a challenge as used once the second step succeeded
+export async function completeLoginChallenge(challengeId: string) {
+  await executeQuery((sql) => sql`UPDATE login_challenges SET used_at = NOW() WHERE challenge_id = ${challengeId}`)
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import {
+  canTransition,
+  getTransitionPermission,
+  isUnitStatus,
+  UNIT_STATUS_TRANSITIONS,
+  UNIT_STATUSES,
+  type UnitStatus,
+} from "./unit-lifecycle"
+
+// Every allowed move, written out so a change to the matrix has to be made here too
+const ALLOWED: [UnitStatus, UnitStatus][] = [
+  ["quarantined", "available"],
+  ["quarantined", "discarded"],
+  ["available", "reserved"],
+  ["available", "issued"],
+  ["available", "quarantined"],
+  ["available", "discarded"],
+  ["available", "expired"],
+  ["reserved", "crossmatched"],
+  ["reserved", "available"],
+  ["reserved", "quarantined"],
+  ["reserved", "discarded"],
+  ["reserved", "expired"],
+  ["crossmatched", "issued"],
+  ["crossmatched", "available"],
+  ["crossmatched", "quarantined"],
+  ["crossmatched", "discarded"],
+  ["crossmatched", "expired"],
+  ["issued", "transfused"],
+  ["issued", "returned"],
+  ["returned", "available"],
+  ["returned", "quarantined"],
+  ["returned", "discarded"],
+  ["expired", "discarded"],
+]
+
+describe("canTransition", () => {
+  it("allows exactly the moves in the lifecycle", () => {
+    const allowed = new Set(ALLOWED.map(([from, to]) => `${from}->${to}`))
+
+    for (const from of UNIT_STATUSES) {
+      for (const to of UNIT_STATUSES) {
+        expect(canTransition(from, to), `${from} -> ${to}`).toBe(allowed.has(`${from}->${to}`))
+      }
+    }
+  })
+
+  it("has a transition list for every status", () => {
+    expect(Object.keys(UNIT_STATUS_TRANSITIONS).sort()).toEqual([...UNIT_STATUSES].sort())
+  })
+
+  it("treats transfused and discarded as final", () => {
+    expect(UNIT_STATUS_TRANSITIONS.transfused).toEqual([])
+    expect(UNIT_STATUS_TRANSITIONS.discarded).toEqual([])
+  })
+
+  it("leaves moves in and out of transit to transfers", () => {
+    for (const status of UNIT_STATUSES) {
+      expect(canTransition(status, "in_transit")).toBe(false)
+      expect(canTransition("in_transit", status)).toBe(false)
+    }
+  })
+})
+
+describe("getTransitionPermission", () => {
+  it("requires a release to put quarantined or returned units back into stock", () => {
+    expect(getTransitionPermission("quarantined", "available")).toBe("inventory:release")
+    expect(getTransitionPermission("returned", "available")).toBe("inventory:release")
+  })
+
+  it("requires the status permission for every other move", () => {
+    for (const [from, to] of ALLOWED) {
+      if (to === "available" && (from === "quarantined" || from === "returned")) continue
+      expect(getTransitionPermission(from, to), `${from} -> ${to}`).toBe("inventory:update-status")
+    }
+  })
+})
+
+describe("isUnitStatus", () => {
+  it("accepts only known statuses", () => {
+    expect(isUnitStatus("available")).toBe(true)
+    expect(isUnitStatus("in_transit")).toBe(true)
+    expect(isUnitStatus("lost")).toBe(false)
+    expect(isUnitStatus(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,73 @@
+// Lifecycle of a blood unit from collection to use or disposal. Soft deletion
+// (the active flag) is separate: it removes entries recorded by mistake.
+//
+// This module is imported by client components and must stay free of server code.
+import type { Permission } from "./permissions"
+
+export const UNIT_STATUSES = [
+  "quarantined",
+  "available",
+  "reserved",
+  "crossmatched",
+  "issued",
+  "transfused",
+  "returned",
+  "discarded",
+  "expired",
+  "in_transit",
+] as const
+
+export type UnitStatus = (typeof UNIT_STATUSES)[number]
+
+export const UNIT_STATUS_LABELS: Record<UnitStatus, string> = {
+  quarantined: "Quarantined",
+  available: "Available",
+  reserved: "Reserved",
+  crossmatched: "Crossmatched",
+  issued: "Issued",
+  transfused: "Transfused",
+  returned: "Returned",
+  discarded: "Discarded",
+  expired: "Expired",
+  in_transit: "In Transit",
+}
+
+// Statuses a unit may move to from each status; transfused and discarded are final.
+// Units enter and leave transit only by being shipped and received in a transfer.
+export const UNIT_STATUS_TRANSITIONS: Record<UnitStatus, readonly UnitStatus[]> = {
+  quarantined: ["available", "discarded"],
+  available: ["reserved", "issued", "quarantined", "discarded", "expired"],
+  reserved: ["crossmatched", "available", "quarantined", "discarded", "expired"],
+  crossmatched: ["issued", "available", "quarantined", "discarded", "expired"],
+  issued: ["transfused", "returned"],
+  returned: ["available", "quarantined", "discarded"],
+  transfused: [],
+  discarded: [],
+  expired: ["discarded"],
+  in_transit: [],
+}
+
+// Units still physically held by the blood bank, which take up storage space
+export const STORED_UNIT_STATUSES: readonly UnitStatus[] = [
+  "quarantined",
+  "available",
+  "reserved",
+  "crossmatched",
+  "returned",
+  "expired",
+]
+
+export function isUnitStatus(value: unknown): value is UnitStatus {
+  return typeof value === "string" && (UNIT_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: UnitStatus, to: UnitStatus) {
+  return UNIT_STATUS_TRANSITIONS[from].includes(to)
+}
+
+// Putting a quarantined or returned unit back into stock needs a hospital admin's sign-off
+export function getTransitionPermission(from: UnitStatus, to: UnitStatus): Permission {
+  return to === "available" && (from === "quarantined" || from === "returned")
+    ? "inventory:release"
+    : "inventory:update-status"
+}
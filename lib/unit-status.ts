@@ -0,0 +1,84 @@
+import { dbClient } from "./db"
+import { queryCache } from "./cache"
+import { AppError, ErrorType } from "./error-handling"
+import { updateWithAudit } from "./audit-log"
+import { hasPermission, type AdminRole } from "./permissions"
+import { BLOOD_COMPONENTS, getInventoryCacheKey, type BloodComponentKey } from "./blood-components"
+import {
+  canTransition,
+  getTransitionPermission,
+  isUnitStatus,
+  UNIT_STATUS_LABELS,
+  type UnitStatus,
+} from "./unit-lifecycle"
+
+// The signed-in admin moving a unit, taken from the session
+export type StatusChangeActor = {
+  adminId: number
+  hospitalId: number
+  role: AdminRole
+}
+
+// Move a unit at the actor's hospital to a new lifecycle status, recording the
+// change on the row and in the audit log. Returns the updated row.
+export async function changeUnitStatus(
+  component: BloodComponentKey,
+  bagId: number,
+  status: UnitStatus,
+  actor: StatusChangeActor,
+) {
+  const { tableName } = BLOOD_COMPONENTS[component]
+
+  if (!dbClient) {
+    throw new AppError(ErrorType.DATABASE_CONNECTION, "Database client not initialized")
+  }
+
+  const rows = await dbClient.query(
+    `SELECT status FROM ${tableName} WHERE bag_id = $1 AND hospital_id = $2 AND active = true`,
+    [bagId, actor.hospitalId],
+  )
+
+  if (rows.length === 0) {
+    throw new AppError(ErrorType.NOT_FOUND, "Entry not found")
+  }
+
+  const current = rows[0].status
+  if (!isUnitStatus(current)) {
+    throw new AppError(ErrorType.SERVER, "Unit has an unknown status", `Bag ${bagId} has status "${current}"`)
+  }
+
+  if (!canTransition(current, status)) {
+    throw new AppError(
+      ErrorType.VALIDATION,
+      `A ${UNIT_STATUS_LABELS[current].toLowerCase()} unit cannot be marked ${UNIT_STATUS_LABELS[status].toLowerCase()}`,
+    )
+  }
+
+  const permission = getTransitionPermission(current, status)
+  if (!hasPermission(actor.role, permission)) {
+    throw new AppError(ErrorType.FORBIDDEN, undefined, `Role "${actor.role}" lacks permission "${permission}"`)
+  }
+
+  // Only update if nobody else has moved the unit since it was read. Manual changes
+  // carry no quarantine reason, so any earlier reason is cleared.
+  const updated = await updateWithAudit(
+    component,
+    "status",
+    actor,
+    bagId,
+    {
+      status,
+      status_changed_at: new Date().toISOString(),
+      status_changed_by: actor.adminId,
+      quarantine_reason: null,
+    },
+    { onlyActive: true, expected: { status: current } },
+  )
+
+  if (!updated) {
+    throw new AppError(ErrorType.CONFLICT, "The unit was changed by someone else. Refresh and try again.")
+  }
+
+  queryCache.invalidate(getInventoryCacheKey(component, actor.hospitalId))
+  return updated
+}
@@ -31,12 +31,16 @@ export function getBloodTypeColor(bloodType: string, rh?: string): string {
   }
 }
 
-export function formatDate(dateString: string): string {
+// Date and time to the minute, in the given IANA time zone or else the browser's
+export function formatDate(dateString: string, timeZone?: string): string {
   const date = new Date(dateString)
-  return date.toLocaleDateString("en-US", {
+  return date.toLocaleString("en-US", {
     year: "numeric",
     month: "long",
     day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
   })
 }
 
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
+import { SESSION_COOKIE_NAME, verifySessionToken } from "@/lib/session-token"
 
 // Safer preview mode detection that won't throw errors
 function isPreviewModeMiddleware(request: NextRequest): boolean {
@@ -40,7 +41,7 @@ function isPreviewModeMiddleware(request: NextRequest): boolean {
   }
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   try {
     const path = request.nextUrl.pathname
 
@@ -52,12 +53,12 @@ export function middleware(request: NextRequest) {
     }
 
     // Define public paths that don't require authentication
-    const isPublicPath = path === "/login" || path === "/register"
+    const isPublicPath = path === "/login" || path === "/register" || path === "/reset-password"
 
-    // Get authentication status from cookies - with safe fallbacks
-    const adminId = request.cookies.get("adminId")?.value
-    const hospitalId = request.cookies.get("hospitalId")?.value
-    const isAuthenticated = !!adminId && !!hospitalId
+    // Get authentication status from the signed session cookie. Only the signature is
+    // checked here; expiry and revocation are enforced against the sessions table by requireAuth
+    const sessionToken = request.cookies.get(SESSION_COOKIE_NAME)?.value
+    const isAuthenticated = (await verifySessionToken(sessionToken)) !== null
 
     // Special handling for preview mode - with error handling
     const inPreviewMode = isPreviewModeMiddleware(request)
@@ -77,11 +78,9 @@ export function middleware(request: NextRequest) {
       return NextResponse.redirect(url)
     }
 
-    if (isAuthenticated && (path === "/login" || path === "/register")) {
-      // Redirect to dashboard if already authenticated and trying to access login or register
-      console.log(`[Middleware] Already authenticated, redirecting to dashboard from: ${path}`)
-      return NextResponse.redirect(new URL("/dashboard", request.url))
-    }
+    // Authenticated users on /login or /register are redirected by the pages themselves,
+    // which check the sessions table. A validly signed cookie may belong to a revoked or
+    // expired session, so redirecting here could loop between /login and /dashboard.
 
     // Special case for root path: redirect to login if not authenticated, dashboard if authenticated
     if (path === "/") {
@@ -1,3 +1,4 @@
+-- migrate:up
 -- Add active column to redblood_inventory table
 ALTER TABLE redblood_inventory 
 ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true;
@@ -19,3 +20,12 @@ CREATE INDEX IF NOT EXISTS idx_platelets_active ON platelets_inventory(active);
 UPDATE redblood_inventory SET active = true WHERE active IS NULL;
 UPDATE plasma_inventory SET active = true WHERE active IS NULL;
 UPDATE platelets_inventory SET active = true WHERE active IS NULL;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_redblood_active;
+DROP INDEX IF EXISTS idx_plasma_active;
+DROP INDEX IF EXISTS idx_platelets_active;
+
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS active;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS active;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS active;
@@ -0,0 +1,12 @@
+-- migrate:up
+-- Widen admin_password so it can hold scrypt hashes
+-- (format: scrypt$N$r$p$<salt>$<hash>, roughly 140 characters)
+ALTER TABLE admin
+ALTER COLUMN admin_password TYPE TEXT;
+
+-- Existing plaintext passwords are rehashed on each admin's next successful login.
+-- Rows still holding plaintext can be listed with:
+--   SELECT admin_id, admin_username FROM admin WHERE admin_password NOT LIKE 'scrypt$%';
+
+-- migrate:down
+-- Irreversible: hashed passwords cannot be turned back into plaintext
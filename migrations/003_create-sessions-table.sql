@@ -0,0 +1,22 @@
+-- migrate:up
+-- Server-side sessions backing the signed sessionToken cookie
+CREATE TABLE IF NOT EXISTS sessions (
+  session_id BIGSERIAL PRIMARY KEY,
+  -- SHA-256 of the random session ID; the raw ID only ever lives in the cookie
+  token_hash TEXT NOT NULL UNIQUE,
+  admin_id INTEGER NOT NULL REFERENCES admin(admin_id) ON DELETE CASCADE,
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  ip_address TEXT,
+  user_agent TEXT
+);
+
+-- Indexes for session lookup and per-admin revocation
+CREATE INDEX IF NOT EXISTS idx_sessions_admin ON sessions(admin_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS sessions;
@@ -0,0 +1,20 @@
+-- migrate:up
+-- Add a role to each admin account
+-- Existing admins keep full access to their hospital
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'hospital_admin';
+
+ALTER TABLE admin
+DROP CONSTRAINT IF EXISTS admin_role_check;
+
+ALTER TABLE admin
+ADD CONSTRAINT admin_role_check
+CHECK (role IN ('viewer', 'technician', 'hospital_admin', 'network_coordinator'));
+
+-- New accounts start read-only until a hospital admin grants more
+ALTER TABLE admin
+ALTER COLUMN role SET DEFAULT 'viewer';
+
+-- migrate:down
+ALTER TABLE admin DROP CONSTRAINT IF EXISTS admin_role_check;
+ALTER TABLE admin DROP COLUMN IF EXISTS role;
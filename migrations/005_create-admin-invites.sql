@@ -0,0 +1,49 @@
+-- migrate:up
+-- Account status for admins: registrations without an invite wait for approval
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+
+ALTER TABLE admin
+DROP CONSTRAINT IF EXISTS admin_status_check;
+
+ALTER TABLE admin
+ADD CONSTRAINT admin_status_check CHECK (status IN ('pending', 'active', 'rejected'));
+
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS approved_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_admin_hospital_status ON admin(hospital_id, status);
+
+-- Single-use, expiring invite codes created by hospital admins
+CREATE TABLE IF NOT EXISTS admin_invites (
+  invite_id SERIAL PRIMARY KEY,
+  -- SHA-256 of the invite code; the code itself is only shown once to its creator
+  code_hash TEXT NOT NULL UNIQUE,
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'technician', 'hospital_admin', 'network_coordinator')),
+  created_by INTEGER NOT NULL REFERENCES admin(admin_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  used_by INTEGER REFERENCES admin(admin_id),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_invites_hospital ON admin_invites(hospital_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS admin_invites;
+
+DROP INDEX IF EXISTS idx_admin_hospital_status;
+
+ALTER TABLE admin DROP COLUMN IF EXISTS approved_at;
+ALTER TABLE admin DROP COLUMN IF EXISTS approved_by;
+ALTER TABLE admin DROP COLUMN IF EXISTS created_at;
+ALTER TABLE admin DROP CONSTRAINT IF EXISTS admin_status_check;
+ALTER TABLE admin DROP COLUMN IF EXISTS status;
@@ -0,0 +1,17 @@
+-- migrate:up
+-- Failed login tracking, keyed by username and by client IP
+CREATE TABLE IF NOT EXISTS login_throttle (
+  scope TEXT NOT NULL CHECK (scope IN ('username', 'ip')),
+  -- Lower-cased username, or the client IP address
+  throttle_key TEXT NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  PRIMARY KEY (scope, throttle_key)
+);
+
+-- Index for listing currently locked accounts
+CREATE INDEX IF NOT EXISTS idx_login_throttle_locked ON login_throttle(locked_until);
+
+-- migrate:down
+DROP TABLE IF EXISTS login_throttle;
@@ -0,0 +1,45 @@
+-- migrate:up
+-- TOTP two-factor authentication for admin accounts
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMPTZ;
+-- Last accepted time step, so a code can't be replayed within its validity window
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT;
+
+-- Hospital-wide requirement set by a hospital admin
+ALTER TABLE hospital ADD COLUMN IF NOT EXISTS require_two_factor BOOLEAN NOT NULL DEFAULT false;
+
+-- One-time recovery codes, stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS admin_recovery_codes (
+  code_id BIGSERIAL PRIMARY KEY,
+  admin_id INTEGER NOT NULL REFERENCES admin(admin_id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_recovery_codes_admin ON admin_recovery_codes(admin_id);
+
+-- Short-lived challenges between the password step and the code step of a login
+CREATE TABLE IF NOT EXISTS login_challenges (
+  challenge_id BIGSERIAL PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  admin_id INTEGER NOT NULL REFERENCES admin(admin_id) ON DELETE CASCADE,
+  -- 'verify' for enrolled accounts, 'enroll' when the hospital requires 2FA and the account has none
+  purpose TEXT NOT NULL CHECK (purpose IN ('verify', 'enroll')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS login_challenges;
+DROP TABLE IF EXISTS admin_recovery_codes;
+
+ALTER TABLE hospital DROP COLUMN IF EXISTS require_two_factor;
+
+ALTER TABLE admin DROP COLUMN IF EXISTS totp_last_used_step;
+ALTER TABLE admin DROP COLUMN IF EXISTS totp_enabled_at;
+ALTER TABLE admin DROP COLUMN IF EXISTS totp_enabled;
+ALTER TABLE admin DROP COLUMN IF EXISTS totp_secret;
@@ -0,0 +1,24 @@
+-- migrate:up
+-- When an admin's password last changed, whether by the admin or through a reset
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMPTZ;
+
+-- Single-use, expiring password reset tokens issued by a hospital admin for a colleague
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  token_id SERIAL PRIMARY KEY,
+  -- SHA-256 of the token; the token itself is only shown once to the issuing admin
+  token_hash TEXT NOT NULL UNIQUE,
+  admin_id INTEGER NOT NULL REFERENCES admin(admin_id) ON DELETE CASCADE,
+  issued_by INTEGER NOT NULL REFERENCES admin(admin_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_admin ON password_reset_tokens(admin_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS password_reset_tokens;
+
+ALTER TABLE admin DROP COLUMN IF EXISTS password_changed_at;
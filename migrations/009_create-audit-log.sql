@@ -0,0 +1,53 @@
+-- migrate:up
+-- Append-only record of every change to blood inventory
+CREATE TABLE IF NOT EXISTS audit_log (
+  audit_id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  admin_id INTEGER NOT NULL REFERENCES admin(admin_id),
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  bag_id INTEGER NOT NULL,
+  -- Inventory table key: redblood, plasma or platelets
+  component_type TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+  -- Full row before and after the change; before_data is NULL for creates
+  before_data JSONB,
+  after_data JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_hospital_created ON audit_log(hospital_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_bag ON audit_log(component_type, bag_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_admin ON audit_log(admin_id);
+
+-- Reject any attempt to change or remove audit entries
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON audit_log
+FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+
+CREATE TRIGGER audit_log_no_truncate
+BEFORE TRUNCATE ON audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- migrate:down
+-- Audit history is never discarded: rolling back is refused once anything has been recorded
+DO $$
+BEGIN
+  IF to_regclass('audit_log') IS NOT NULL THEN
+    IF EXISTS (SELECT 1 FROM audit_log) THEN
+      RAISE EXCEPTION 'audit_log has entries; archive them before rolling back this migration';
+    END IF;
+  END IF;
+END;
+$$;
+
+DROP TABLE IF EXISTS audit_log;
+DROP FUNCTION IF EXISTS prevent_audit_log_changes();
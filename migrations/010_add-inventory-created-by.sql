@@ -0,0 +1,28 @@
+-- migrate:up
+-- Record which admin added each bag, taken from the server-side session
+ALTER TABLE redblood_inventory
+ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE plasma_inventory
+ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE platelets_inventory
+ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES admin(admin_id);
+
+-- Backfill from the audit log where an entry exists
+UPDATE redblood_inventory i SET created_by = l.admin_id
+FROM audit_log l
+WHERE i.created_by IS NULL AND l.component_type = 'redblood' AND l.action = 'create' AND l.bag_id = i.bag_id;
+
+UPDATE plasma_inventory i SET created_by = l.admin_id
+FROM audit_log l
+WHERE i.created_by IS NULL AND l.component_type = 'plasma' AND l.action = 'create' AND l.bag_id = i.bag_id;
+
+UPDATE platelets_inventory i SET created_by = l.admin_id
+FROM audit_log l
+WHERE i.created_by IS NULL AND l.component_type = 'platelets' AND l.action = 'create' AND l.bag_id = i.bag_id;
+
+-- migrate:down
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS created_by;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS created_by;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS created_by;
@@ -0,0 +1,33 @@
+-- migrate:up
+-- Inventory tables for cryoprecipitate and whole blood, matching the existing component tables
+CREATE TABLE IF NOT EXISTS cryo_inventory (
+  bag_id SERIAL PRIMARY KEY,
+  donor_name TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  expiration_date DATE NOT NULL,
+  blood_type TEXT NOT NULL CHECK (blood_type IN ('A', 'B', 'AB', 'O')),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER REFERENCES admin(admin_id)
+);
+
+CREATE TABLE IF NOT EXISTS wholeblood_inventory (
+  bag_id SERIAL PRIMARY KEY,
+  donor_name TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  expiration_date DATE NOT NULL,
+  blood_type TEXT NOT NULL CHECK (blood_type IN ('A', 'B', 'AB', 'O')),
+  rh TEXT NOT NULL CHECK (rh IN ('+', '-')),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER REFERENCES admin(admin_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cryo_hospital ON cryo_inventory(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_cryo_active ON cryo_inventory(active);
+CREATE INDEX IF NOT EXISTS idx_wholeblood_hospital ON wholeblood_inventory(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_wholeblood_active ON wholeblood_inventory(active);
+
+-- migrate:down
+DROP TABLE IF EXISTS wholeblood_inventory;
+DROP TABLE IF EXISTS cryo_inventory;
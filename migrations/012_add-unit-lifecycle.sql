@@ -0,0 +1,69 @@
+-- migrate:up
+-- Explicit lifecycle status for each blood unit, with who moved it into that status and when
+ALTER TABLE redblood_inventory
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'available'
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')),
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE plasma_inventory
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'available'
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')),
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE platelets_inventory
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'available'
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')),
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE cryo_inventory
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'available'
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')),
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by INTEGER REFERENCES admin(admin_id);
+
+ALTER TABLE wholeblood_inventory
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'available'
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')),
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by INTEGER REFERENCES admin(admin_id);
+
+-- Units already past their expiration date start out expired
+UPDATE redblood_inventory SET status = 'expired' WHERE expiration_date <= CURRENT_DATE;
+UPDATE plasma_inventory SET status = 'expired' WHERE expiration_date <= CURRENT_DATE;
+UPDATE platelets_inventory SET status = 'expired' WHERE expiration_date <= CURRENT_DATE;
+UPDATE cryo_inventory SET status = 'expired' WHERE expiration_date <= CURRENT_DATE;
+UPDATE wholeblood_inventory SET status = 'expired' WHERE expiration_date <= CURRENT_DATE;
+
+-- Dashboard counts filter on hospital and status
+CREATE INDEX IF NOT EXISTS idx_redblood_hospital_status ON redblood_inventory(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_plasma_hospital_status ON plasma_inventory(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_platelets_hospital_status ON platelets_inventory(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_cryo_hospital_status ON cryo_inventory(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_wholeblood_hospital_status ON wholeblood_inventory(hospital_id, status);
+
+-- Status changes are recorded in the audit log with their own action
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check CHECK (action IN ('create', 'update', 'delete', 'restore', 'status'));
+
+-- migrate:down
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check CHECK (action IN ('create', 'update', 'delete', 'restore')) NOT VALID;
+
+DROP INDEX IF EXISTS idx_redblood_hospital_status;
+DROP INDEX IF EXISTS idx_plasma_hospital_status;
+DROP INDEX IF EXISTS idx_platelets_hospital_status;
+DROP INDEX IF EXISTS idx_cryo_hospital_status;
+DROP INDEX IF EXISTS idx_wholeblood_hospital_status;
+
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS status_changed_by, DROP COLUMN IF EXISTS status_changed_at, DROP COLUMN IF EXISTS status;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS status_changed_by, DROP COLUMN IF EXISTS status_changed_at, DROP COLUMN IF EXISTS status;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS status_changed_by, DROP COLUMN IF EXISTS status_changed_at, DROP COLUMN IF EXISTS status;
+ALTER TABLE cryo_inventory DROP COLUMN IF EXISTS status_changed_by, DROP COLUMN IF EXISTS status_changed_at, DROP COLUMN IF EXISTS status;
+ALTER TABLE wholeblood_inventory DROP COLUMN IF EXISTS status_changed_by, DROP COLUMN IF EXISTS status_changed_at, DROP COLUMN IF EXISTS status;
@@ -0,0 +1,41 @@
+-- migrate:up
+-- ISBT 128 donation identification number (13 characters, without check character) and product code
+ALTER TABLE redblood_inventory
+ADD COLUMN IF NOT EXISTS isbt_din TEXT,
+ADD COLUMN IF NOT EXISTS isbt_product_code TEXT;
+
+ALTER TABLE plasma_inventory
+ADD COLUMN IF NOT EXISTS isbt_din TEXT,
+ADD COLUMN IF NOT EXISTS isbt_product_code TEXT;
+
+ALTER TABLE platelets_inventory
+ADD COLUMN IF NOT EXISTS isbt_din TEXT,
+ADD COLUMN IF NOT EXISTS isbt_product_code TEXT;
+
+ALTER TABLE cryo_inventory
+ADD COLUMN IF NOT EXISTS isbt_din TEXT,
+ADD COLUMN IF NOT EXISTS isbt_product_code TEXT;
+
+ALTER TABLE wholeblood_inventory
+ADD COLUMN IF NOT EXISTS isbt_din TEXT,
+ADD COLUMN IF NOT EXISTS isbt_product_code TEXT;
+
+-- A donation yields one unit per product code; soft-deleted entries don't count
+CREATE UNIQUE INDEX IF NOT EXISTS idx_redblood_isbt_unit ON redblood_inventory(isbt_din, COALESCE(isbt_product_code, '')) WHERE isbt_din IS NOT NULL AND active = true;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plasma_isbt_unit ON plasma_inventory(isbt_din, COALESCE(isbt_product_code, '')) WHERE isbt_din IS NOT NULL AND active = true;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_platelets_isbt_unit ON platelets_inventory(isbt_din, COALESCE(isbt_product_code, '')) WHERE isbt_din IS NOT NULL AND active = true;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cryo_isbt_unit ON cryo_inventory(isbt_din, COALESCE(isbt_product_code, '')) WHERE isbt_din IS NOT NULL AND active = true;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wholeblood_isbt_unit ON wholeblood_inventory(isbt_din, COALESCE(isbt_product_code, '')) WHERE isbt_din IS NOT NULL AND active = true;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_redblood_isbt_unit;
+DROP INDEX IF EXISTS idx_plasma_isbt_unit;
+DROP INDEX IF EXISTS idx_platelets_isbt_unit;
+DROP INDEX IF EXISTS idx_cryo_isbt_unit;
+DROP INDEX IF EXISTS idx_wholeblood_isbt_unit;
+
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS isbt_product_code, DROP COLUMN IF EXISTS isbt_din;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS isbt_product_code, DROP COLUMN IF EXISTS isbt_din;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS isbt_product_code, DROP COLUMN IF EXISTS isbt_din;
+ALTER TABLE cryo_inventory DROP COLUMN IF EXISTS isbt_product_code, DROP COLUMN IF EXISTS isbt_din;
+ALTER TABLE wholeblood_inventory DROP COLUMN IF EXISTS isbt_product_code, DROP COLUMN IF EXISTS isbt_din;
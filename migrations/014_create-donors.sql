@@ -0,0 +1,41 @@
+-- migrate:up
+-- Donors shared across the network; each bag links to the donor it came from
+CREATE TABLE IF NOT EXISTS donors (
+  donor_id SERIAL PRIMARY KEY,
+  full_name TEXT NOT NULL,
+  date_of_birth DATE NOT NULL,
+  blood_type TEXT NOT NULL CHECK (blood_type IN ('A', 'B', 'AB', 'O')),
+  -- NULL until the donor's RhD type is known
+  rh TEXT CHECK (rh IN ('+', '-')),
+  phone TEXT,
+  email TEXT,
+  address TEXT,
+  registered_hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  created_by INTEGER REFERENCES admin(admin_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donors_full_name ON donors(lower(full_name));
+
+-- Existing bags keep their free-text donor_name and have no donor until linked
+
+ALTER TABLE redblood_inventory ADD COLUMN IF NOT EXISTS donor_id INTEGER REFERENCES donors(donor_id);
+ALTER TABLE plasma_inventory ADD COLUMN IF NOT EXISTS donor_id INTEGER REFERENCES donors(donor_id);
+ALTER TABLE platelets_inventory ADD COLUMN IF NOT EXISTS donor_id INTEGER REFERENCES donors(donor_id);
+ALTER TABLE cryo_inventory ADD COLUMN IF NOT EXISTS donor_id INTEGER REFERENCES donors(donor_id);
+ALTER TABLE wholeblood_inventory ADD COLUMN IF NOT EXISTS donor_id INTEGER REFERENCES donors(donor_id);
+
+CREATE INDEX IF NOT EXISTS idx_redblood_donor ON redblood_inventory(donor_id);
+CREATE INDEX IF NOT EXISTS idx_plasma_donor ON plasma_inventory(donor_id);
+CREATE INDEX IF NOT EXISTS idx_platelets_donor ON platelets_inventory(donor_id);
+CREATE INDEX IF NOT EXISTS idx_cryo_donor ON cryo_inventory(donor_id);
+CREATE INDEX IF NOT EXISTS idx_wholeblood_donor ON wholeblood_inventory(donor_id);
+
+-- migrate:down
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS donor_id;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS donor_id;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS donor_id;
+ALTER TABLE cryo_inventory DROP COLUMN IF EXISTS donor_id;
+ALTER TABLE wholeblood_inventory DROP COLUMN IF EXISTS donor_id;
+
+DROP TABLE IF EXISTS donors;
@@ -0,0 +1,44 @@
+-- migrate:up
+-- Collection (or processing) date of each unit and the shelf-life rule its expiry was set from;
+-- NULL for units added before collection dates were recorded
+ALTER TABLE redblood_inventory
+ADD COLUMN IF NOT EXISTS collection_date DATE,
+ADD COLUMN IF NOT EXISTS shelf_life_rule TEXT;
+
+ALTER TABLE plasma_inventory
+ADD COLUMN IF NOT EXISTS collection_date DATE,
+ADD COLUMN IF NOT EXISTS shelf_life_rule TEXT;
+
+ALTER TABLE platelets_inventory
+ADD COLUMN IF NOT EXISTS collection_date DATE,
+ADD COLUMN IF NOT EXISTS shelf_life_rule TEXT;
+
+ALTER TABLE cryo_inventory
+ADD COLUMN IF NOT EXISTS collection_date DATE,
+ADD COLUMN IF NOT EXISTS shelf_life_rule TEXT;
+
+ALTER TABLE wholeblood_inventory
+ADD COLUMN IF NOT EXISTS collection_date DATE,
+ADD COLUMN IF NOT EXISTS shelf_life_rule TEXT;
+
+-- A hospital's own shelf-life rules; a component with no rows uses the built-in defaults
+CREATE TABLE IF NOT EXISTS shelf_life_rules (
+  rule_id SERIAL PRIMARY KEY,
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  component TEXT NOT NULL,
+  name TEXT NOT NULL,
+  shelf_life_days INTEGER NOT NULL CHECK (shelf_life_days BETWEEN 1 AND 3650),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  updated_by INTEGER REFERENCES admin(admin_id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (hospital_id, component, name)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS shelf_life_rules;
+
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS collection_date, DROP COLUMN IF EXISTS shelf_life_rule;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS collection_date, DROP COLUMN IF EXISTS shelf_life_rule;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS collection_date, DROP COLUMN IF EXISTS shelf_life_rule;
+ALTER TABLE cryo_inventory DROP COLUMN IF EXISTS collection_date, DROP COLUMN IF EXISTS shelf_life_rule;
+ALTER TABLE wholeblood_inventory DROP COLUMN IF EXISTS collection_date, DROP COLUMN IF EXISTS shelf_life_rule;
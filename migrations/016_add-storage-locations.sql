@@ -0,0 +1,64 @@
+-- migrate:up
+-- Refrigerators, freezers and platelet agitators at each hospital
+CREATE TABLE IF NOT EXISTS storage_units (
+  storage_unit_id SERIAL PRIMARY KEY,
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  name TEXT NOT NULL,
+  unit_type TEXT NOT NULL CHECK (unit_type IN ('refrigerator', 'freezer', 'platelet_agitator')),
+  -- Required storage temperature range in °C
+  min_temp_c NUMERIC(5, 1) NOT NULL,
+  max_temp_c NUMERIC(5, 1) NOT NULL,
+  -- Number of bags the unit holds
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (min_temp_c <= max_temp_c),
+  UNIQUE (hospital_id, name)
+);
+
+-- Where each bag is: a storage unit plus a free-text shelf or slot
+ALTER TABLE redblood_inventory
+ADD COLUMN IF NOT EXISTS storage_unit_id INTEGER REFERENCES storage_units(storage_unit_id),
+ADD COLUMN IF NOT EXISTS storage_position TEXT;
+
+ALTER TABLE plasma_inventory
+ADD COLUMN IF NOT EXISTS storage_unit_id INTEGER REFERENCES storage_units(storage_unit_id),
+ADD COLUMN IF NOT EXISTS storage_position TEXT;
+
+ALTER TABLE platelets_inventory
+ADD COLUMN IF NOT EXISTS storage_unit_id INTEGER REFERENCES storage_units(storage_unit_id),
+ADD COLUMN IF NOT EXISTS storage_position TEXT;
+
+ALTER TABLE cryo_inventory
+ADD COLUMN IF NOT EXISTS storage_unit_id INTEGER REFERENCES storage_units(storage_unit_id),
+ADD COLUMN IF NOT EXISTS storage_position TEXT;
+
+ALTER TABLE wholeblood_inventory
+ADD COLUMN IF NOT EXISTS storage_unit_id INTEGER REFERENCES storage_units(storage_unit_id),
+ADD COLUMN IF NOT EXISTS storage_position TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_redblood_storage_unit ON redblood_inventory(storage_unit_id);
+CREATE INDEX IF NOT EXISTS idx_plasma_storage_unit ON plasma_inventory(storage_unit_id);
+CREATE INDEX IF NOT EXISTS idx_platelets_storage_unit ON platelets_inventory(storage_unit_id);
+CREATE INDEX IF NOT EXISTS idx_cryo_storage_unit ON cryo_inventory(storage_unit_id);
+CREATE INDEX IF NOT EXISTS idx_wholeblood_storage_unit ON wholeblood_inventory(storage_unit_id);
+
+-- Moves between locations are recorded in the audit log with their own action
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check CHECK (action IN ('create', 'update', 'delete', 'restore', 'status', 'move'));
+
+-- migrate:down
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check CHECK (action IN ('create', 'update', 'delete', 'restore', 'status')) NOT VALID;
+
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS storage_unit_id, DROP COLUMN IF EXISTS storage_position;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS storage_unit_id, DROP COLUMN IF EXISTS storage_position;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS storage_unit_id, DROP COLUMN IF EXISTS storage_position;
+ALTER TABLE cryo_inventory DROP COLUMN IF EXISTS storage_unit_id, DROP COLUMN IF EXISTS storage_position;
+ALTER TABLE wholeblood_inventory DROP COLUMN IF EXISTS storage_unit_id, DROP COLUMN IF EXISTS storage_position;
+
+DROP TABLE IF EXISTS storage_units;
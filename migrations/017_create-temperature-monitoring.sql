@@ -0,0 +1,73 @@
+-- migrate:up
+-- Temperature readings for each storage unit, entered by hand or posted by a monitoring agent
+CREATE TABLE IF NOT EXISTS temperature_readings (
+  reading_id BIGSERIAL PRIMARY KEY,
+  storage_unit_id INTEGER NOT NULL REFERENCES storage_units(storage_unit_id),
+  temperature_c NUMERIC(5, 1) NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'monitor')),
+  -- Admin who entered a manual reading; NULL for the monitoring agent
+  recorded_by INTEGER REFERENCES admin(admin_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_temperature_readings_unit_recorded
+ON temperature_readings(storage_unit_id, recorded_at DESC);
+
+-- A period during which a storage unit was outside its allowed range. It opens at the
+-- first reading out of range and stays open until every affected bag has been reviewed.
+CREATE TABLE IF NOT EXISTS temperature_excursions (
+  excursion_id SERIAL PRIMARY KEY,
+  storage_unit_id INTEGER NOT NULL REFERENCES storage_units(storage_unit_id),
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  -- The first reading out of range and the range it was checked against
+  reading_id BIGINT NOT NULL REFERENCES temperature_readings(reading_id),
+  temperature_c NUMERIC(5, 1) NOT NULL,
+  min_temp_c NUMERIC(5, 1) NOT NULL,
+  max_temp_c NUMERIC(5, 1) NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  resolved_by INTEGER REFERENCES admin(admin_id)
+);
+
+-- At most one open excursion per storage unit
+CREATE UNIQUE INDEX IF NOT EXISTS idx_temperature_excursions_open
+ON temperature_excursions(storage_unit_id) WHERE resolved_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_temperature_excursions_hospital
+ON temperature_excursions(hospital_id, detected_at DESC);
+
+-- Bags quarantined because of an excursion and what the reviewer decided for each
+CREATE TABLE IF NOT EXISTS temperature_excursion_bags (
+  excursion_id INTEGER NOT NULL REFERENCES temperature_excursions(excursion_id),
+  component_type TEXT NOT NULL,
+  bag_id INTEGER NOT NULL,
+  -- Status the bag had before it was quarantined
+  previous_status TEXT NOT NULL,
+  outcome TEXT CHECK (outcome IN ('released', 'discarded')),
+  reviewed_by INTEGER REFERENCES admin(admin_id),
+  reviewed_at TIMESTAMPTZ,
+  PRIMARY KEY (excursion_id, component_type, bag_id)
+);
+
+-- Why a unit is quarantined, shown next to its status
+ALTER TABLE redblood_inventory ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+ALTER TABLE plasma_inventory ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+ALTER TABLE platelets_inventory ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+ALTER TABLE cryo_inventory ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+ALTER TABLE wholeblood_inventory ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+
+-- Automatic quarantine by the monitoring agent is audited without an admin
+ALTER TABLE audit_log ALTER COLUMN admin_id DROP NOT NULL;
+
+-- migrate:down
+-- audit_log.admin_id stays nullable, since automatic entries may already exist
+ALTER TABLE redblood_inventory DROP COLUMN IF EXISTS quarantine_reason;
+ALTER TABLE plasma_inventory DROP COLUMN IF EXISTS quarantine_reason;
+ALTER TABLE platelets_inventory DROP COLUMN IF EXISTS quarantine_reason;
+ALTER TABLE cryo_inventory DROP COLUMN IF EXISTS quarantine_reason;
+ALTER TABLE wholeblood_inventory DROP COLUMN IF EXISTS quarantine_reason;
+
+DROP TABLE IF EXISTS temperature_excursion_bags;
+DROP TABLE IF EXISTS temperature_excursions;
+DROP TABLE IF EXISTS temperature_readings;
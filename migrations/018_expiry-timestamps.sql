@@ -0,0 +1,30 @@
+-- migrate:up
+-- Each hospital's IANA time zone, used to enter and show expiry times as local wall-clock times
+ALTER TABLE hospital ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Units expire at an exact time rather than on a date. Every hospital starts out in UTC,
+-- so existing dates become midnight UTC, the moment they were previously treated as expired.
+ALTER TABLE redblood_inventory
+ALTER COLUMN expiration_date TYPE TIMESTAMPTZ USING expiration_date::timestamp AT TIME ZONE 'UTC';
+
+ALTER TABLE plasma_inventory
+ALTER COLUMN expiration_date TYPE TIMESTAMPTZ USING expiration_date::timestamp AT TIME ZONE 'UTC';
+
+ALTER TABLE platelets_inventory
+ALTER COLUMN expiration_date TYPE TIMESTAMPTZ USING expiration_date::timestamp AT TIME ZONE 'UTC';
+
+ALTER TABLE cryo_inventory
+ALTER COLUMN expiration_date TYPE TIMESTAMPTZ USING expiration_date::timestamp AT TIME ZONE 'UTC';
+
+ALTER TABLE wholeblood_inventory
+ALTER COLUMN expiration_date TYPE TIMESTAMPTZ USING expiration_date::timestamp AT TIME ZONE 'UTC';
+
+-- migrate:down
+-- Times are truncated to their date in UTC
+ALTER TABLE redblood_inventory ALTER COLUMN expiration_date TYPE DATE USING (expiration_date AT TIME ZONE 'UTC')::date;
+ALTER TABLE plasma_inventory ALTER COLUMN expiration_date TYPE DATE USING (expiration_date AT TIME ZONE 'UTC')::date;
+ALTER TABLE platelets_inventory ALTER COLUMN expiration_date TYPE DATE USING (expiration_date AT TIME ZONE 'UTC')::date;
+ALTER TABLE cryo_inventory ALTER COLUMN expiration_date TYPE DATE USING (expiration_date AT TIME ZONE 'UTC')::date;
+ALTER TABLE wholeblood_inventory ALTER COLUMN expiration_date TYPE DATE USING (expiration_date AT TIME ZONE 'UTC')::date;
+
+ALTER TABLE hospital DROP COLUMN IF EXISTS time_zone;
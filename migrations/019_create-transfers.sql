@@ -0,0 +1,120 @@
+-- migrate:up
+-- Requests for units from another hospital, usually raised from a surplus alert. The
+-- supplier fills them with specific bags, ships them and the requester receives them.
+CREATE TABLE IF NOT EXISTS transfer_requests (
+  transfer_id SERIAL PRIMARY KEY,
+  requesting_hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  supplying_hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  component_type TEXT NOT NULL,
+  blood_type TEXT NOT NULL CHECK (blood_type IN ('A', 'B', 'AB', 'O')),
+  -- Empty for components without an Rh factor
+  rh TEXT NOT NULL DEFAULT '' CHECK (rh IN ('+', '-', '')),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'requested'
+  CHECK (status IN ('requested', 'accepted', 'partially_filled', 'declined', 'cancelled', 'in_transit', 'received')),
+  requested_by INTEGER NOT NULL REFERENCES admin(admin_id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- The supplier's answer
+  responded_by INTEGER REFERENCES admin(admin_id),
+  responded_at TIMESTAMPTZ,
+  -- Either side may call the request off before it ships
+  cancelled_by INTEGER REFERENCES admin(admin_id),
+  cancelled_at TIMESTAMPTZ,
+  -- Why the request was declined or cancelled
+  status_note TEXT,
+  shipped_by INTEGER REFERENCES admin(admin_id),
+  shipped_at TIMESTAMPTZ,
+  courier TEXT,
+  received_by INTEGER REFERENCES admin(admin_id),
+  received_at TIMESTAMPTZ,
+  CHECK (requesting_hospital_id <> supplying_hospital_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_requesting
+ON transfer_requests(requesting_hospital_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_requests_supplying
+ON transfer_requests(supplying_hospital_id, requested_at DESC);
+
+-- Bags the supplier chose to fill a request
+CREATE TABLE IF NOT EXISTS transfer_request_bags (
+  transfer_id INTEGER NOT NULL REFERENCES transfer_requests(transfer_id),
+  bag_id INTEGER NOT NULL,
+  PRIMARY KEY (transfer_id, bag_id)
+);
+
+-- Chain of custody: each hand-off of a bag between hospitals, from the supplier
+-- shipping it to the requester receiving it
+CREATE TABLE IF NOT EXISTS custody_events (
+  custody_event_id BIGSERIAL PRIMARY KEY,
+  transfer_id INTEGER NOT NULL REFERENCES transfer_requests(transfer_id),
+  component_type TEXT NOT NULL,
+  bag_id INTEGER NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('shipped', 'received')),
+  -- Hospital handing the bag over or taking it in
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  admin_id INTEGER NOT NULL REFERENCES admin(admin_id),
+  courier TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_custody_events_bag ON custody_events(component_type, bag_id, occurred_at);
+
+-- Bags shipped to another hospital are in transit until received
+ALTER TABLE redblood_inventory DROP CONSTRAINT IF EXISTS redblood_inventory_status_check;
+ALTER TABLE redblood_inventory ADD CONSTRAINT redblood_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired', 'in_transit'));
+
+ALTER TABLE plasma_inventory DROP CONSTRAINT IF EXISTS plasma_inventory_status_check;
+ALTER TABLE plasma_inventory ADD CONSTRAINT plasma_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired', 'in_transit'));
+
+ALTER TABLE platelets_inventory DROP CONSTRAINT IF EXISTS platelets_inventory_status_check;
+ALTER TABLE platelets_inventory ADD CONSTRAINT platelets_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired', 'in_transit'));
+
+ALTER TABLE cryo_inventory DROP CONSTRAINT IF EXISTS cryo_inventory_status_check;
+ALTER TABLE cryo_inventory ADD CONSTRAINT cryo_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired', 'in_transit'));
+
+ALTER TABLE wholeblood_inventory DROP CONSTRAINT IF EXISTS wholeblood_inventory_status_check;
+ALTER TABLE wholeblood_inventory ADD CONSTRAINT wholeblood_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired', 'in_transit'));
+
+-- Shipping and receiving bags are recorded in the audit log with their own action
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check
+CHECK (action IN ('create', 'update', 'delete', 'restore', 'status', 'move', 'transfer'));
+
+-- migrate:down
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+
+ALTER TABLE audit_log
+ADD CONSTRAINT audit_log_action_check CHECK (action IN ('create', 'update', 'delete', 'restore', 'status', 'move')) NOT VALID;
+
+ALTER TABLE redblood_inventory DROP CONSTRAINT IF EXISTS redblood_inventory_status_check;
+ALTER TABLE redblood_inventory ADD CONSTRAINT redblood_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')) NOT VALID;
+
+ALTER TABLE plasma_inventory DROP CONSTRAINT IF EXISTS plasma_inventory_status_check;
+ALTER TABLE plasma_inventory ADD CONSTRAINT plasma_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')) NOT VALID;
+
+ALTER TABLE platelets_inventory DROP CONSTRAINT IF EXISTS platelets_inventory_status_check;
+ALTER TABLE platelets_inventory ADD CONSTRAINT platelets_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')) NOT VALID;
+
+ALTER TABLE cryo_inventory DROP CONSTRAINT IF EXISTS cryo_inventory_status_check;
+ALTER TABLE cryo_inventory ADD CONSTRAINT cryo_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')) NOT VALID;
+
+ALTER TABLE wholeblood_inventory DROP CONSTRAINT IF EXISTS wholeblood_inventory_status_check;
+ALTER TABLE wholeblood_inventory ADD CONSTRAINT wholeblood_inventory_status_check
+CHECK (status IN ('quarantined', 'available', 'reserved', 'crossmatched', 'issued', 'transfused', 'returned', 'discarded', 'expired')) NOT VALID;
+
+DROP TABLE IF EXISTS custody_events;
+DROP TABLE IF EXISTS transfer_request_bags;
+DROP TABLE IF EXISTS transfer_requests;
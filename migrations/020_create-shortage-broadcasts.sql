@@ -0,0 +1,38 @@
+-- migrate:up
+-- Urgent needs a hospital posts to the rest of the network. Other hospitals see them on
+-- their dashboard and offer units until the poster marks the need fulfilled or cancels it.
+CREATE TABLE IF NOT EXISTS shortage_broadcasts (
+  broadcast_id SERIAL PRIMARY KEY,
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  component_type TEXT NOT NULL,
+  blood_type TEXT NOT NULL CHECK (blood_type IN ('A', 'B', 'AB', 'O')),
+  -- Empty for components without an Rh factor
+  rh TEXT NOT NULL DEFAULT '' CHECK (rh IN ('+', '-', '')),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  needed_by TIMESTAMPTZ NOT NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'fulfilled', 'cancelled')),
+  created_by INTEGER NOT NULL REFERENCES admin(admin_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_by INTEGER REFERENCES admin(admin_id),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_shortage_broadcasts_open ON shortage_broadcasts(needed_by) WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_shortage_broadcasts_hospital ON shortage_broadcasts(hospital_id, created_at DESC);
+
+-- Offers from other hospitals; a hospital has one offer per broadcast, which it may revise
+CREATE TABLE IF NOT EXISTS shortage_broadcast_responses (
+  broadcast_id INTEGER NOT NULL REFERENCES shortage_broadcasts(broadcast_id),
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  message TEXT,
+  responded_by INTEGER NOT NULL REFERENCES admin(admin_id),
+  responded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (broadcast_id, hospital_id)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS shortage_broadcast_responses;
+DROP TABLE IF EXISTS shortage_broadcasts;
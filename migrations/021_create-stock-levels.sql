@@ -0,0 +1,21 @@
+-- migrate:up
+-- A hospital's minimum, target (par) and maximum stock per component and blood group;
+-- a component with no rows uses the built-in defaults
+CREATE TABLE IF NOT EXISTS stock_levels (
+  hospital_id INTEGER NOT NULL REFERENCES hospital(hospital_id),
+  component TEXT NOT NULL,
+  blood_type TEXT NOT NULL CHECK (blood_type IN ('A', 'B', 'AB', 'O')),
+  -- Empty for components without an Rh factor
+  rh TEXT NOT NULL DEFAULT '' CHECK (rh IN ('+', '-', '')),
+  measure TEXT NOT NULL CHECK (measure IN ('units', 'ml')),
+  minimum INTEGER NOT NULL CHECK (minimum >= 0),
+  target INTEGER NOT NULL,
+  maximum INTEGER NOT NULL,
+  updated_by INTEGER REFERENCES admin(admin_id),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (hospital_id, component, blood_type, rh),
+  CHECK (minimum <= target AND target <= maximum)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS stock_levels;
@@ -0,0 +1,21 @@
+-- migrate:up
+-- Profile details hospital admins maintain for other sites: where the hospital is and who
+-- to call for transfusion services outside office hours
+ALTER TABLE hospital
+ADD COLUMN IF NOT EXISTS address TEXT,
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+ADD COLUMN IF NOT EXISTS after_hours_contact_name TEXT,
+ADD COLUMN IF NOT EXISTS after_hours_contact_phone TEXT;
+
+-- Profile changes are audited alongside inventory changes, as component 'hospital' with no bag
+ALTER TABLE audit_log ALTER COLUMN bag_id DROP NOT NULL;
+
+-- migrate:down
+-- audit_log.bag_id stays nullable, since hospital entries may already exist
+ALTER TABLE hospital
+DROP COLUMN IF EXISTS address,
+DROP COLUMN IF EXISTS latitude,
+DROP COLUMN IF EXISTS longitude,
+DROP COLUMN IF EXISTS after_hours_contact_name,
+DROP COLUMN IF EXISTS after_hours_contact_phone;
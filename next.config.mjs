@@ -23,6 +23,11 @@ const nextConfig = {
     BUILD_ID: process.env.BUILD_ID || 'local',
   },
   
+  // The migration status check in /api/db-status reads the SQL files at runtime
+  outputFileTracingIncludes: {
+    '/api/db-status': ['./migrations/**/*'],
+  },
+
   // Experimental features
   experimental: {
     // Enable server components
@@ -44,6 +49,22 @@ const nextConfig = {
     ]
   },
   
+  // The original per-component add endpoints, e.g. /api/add-redblood, are served by the
+  // component inventory route so existing clients and scripts keep working
+  async rewrites() {
+    return [
+      {
+        source: '/api/add-:component',
+        destination: '/api/inventory/:component',
+      },
+      // Red blood cells were the only component with a diagnostics endpoint before it was made generic
+      {
+        source: '/api/diagnostics/redblood',
+        destination: '/api/diagnostics/inventory/redblood',
+      },
+    ]
+  },
+  
   // Configure headers
   async headers() {
     return [
@@ -0,0 +1,81 @@
+// Schema migration commands:
+//
+//   node scripts/migrate.mjs status            list applied, pending and changed migrations
+//   node scripts/migrate.mjs up [version]      apply pending migrations, optionally up to a version
+//   node scripts/migrate.mjs down [steps]      roll back the last applied migration (or several)
+//   node scripts/migrate.mjs baseline <version> record migrations as applied without running them
+//
+// The database is taken from DATABASE_URL (or POSTGRES_URL), e.g.
+//   node --env-file=.env.local scripts/migrate.mjs status
+import { neon } from "@neondatabase/serverless"
+import {
+  applyMigrations,
+  baselineMigrations,
+  getMigrationStatus,
+  MigrationError,
+  rollbackMigrations,
+} from "../lib/migrations.mjs"
+
+const USAGE = "Usage: node scripts/migrate.mjs <status|up [version]|down [steps]|baseline <version>>"
+
+/** @param {string | undefined} value */
+function parseNumberArgument(value) {
+  if (value === undefined) return undefined
+  if (!/^\d+$/.test(value)) {
+    throw new MigrationError(`Expected a number, got "${value}"\n${USAGE}`)
+  }
+  return Number.parseInt(value, 10)
+}
+
+/** @param {{ version: number, name: string }[]} migrations */
+function formatList(migrations) {
+  return migrations.map(({ version, name }) => `  ${String(version).padStart(3, "0")}_${name}`).join("\n")
+}
+
+async function main() {
+  const [command, argument] = process.argv.slice(2)
+
+  const dbUrl = process.env.DATABASE_URL || process.env.POSTGRES_URL || process.env.POSTGRES_URL_NON_POOLING
+  if (!dbUrl) {
+    throw new MigrationError("DATABASE_URL is not set")
+  }
+
+  const sql = neon(dbUrl)
+
+  switch (command) {
+    case "status": {
+      const status = await getMigrationStatus(sql)
+      console.log(`Current version: ${status.currentVersion ?? "none"}`)
+      if (status.applied.length > 0) console.log(`Applied:\n${formatList(status.applied)}`)
+      if (status.pending.length > 0) console.log(`Pending:\n${formatList(status.pending)}`)
+      if (status.changed.length > 0) console.log(`Changed since applied:\n${formatList(status.changed)}`)
+      if (status.missing.length > 0) console.log(`Applied but missing:\n${formatList(status.missing)}`)
+      if (!status.upToDate) process.exitCode = 1
+      break
+    }
+    case "up": {
+      const applied = await applyMigrations(sql, { to: parseNumberArgument(argument) })
+      console.log(applied.length > 0 ? `Applied:\n${formatList(applied)}` : "No pending migrations")
+      break
+    }
+    case "down": {
+      const rolledBack = await rollbackMigrations(sql, { steps: parseNumberArgument(argument) ?? 1 })
+      console.log(rolledBack.length > 0 ? `Rolled back:\n${formatList(rolledBack)}` : "No applied migrations")
+      break
+    }
+    case "baseline": {
+      const to = parseNumberArgument(argument)
+      if (to === undefined) throw new MigrationError(USAGE)
+      const recorded = await baselineMigrations(sql, { to })
+      console.log(recorded.length > 0 ? `Recorded as applied:\n${formatList(recorded)}` : "Nothing to record")
+      break
+    }
+    default:
+      throw new MigrationError(USAGE)
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof MigrationError ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,65 @@
+// Post temperature readings to the ingest endpoint, as a monitoring agent would:
+//
+//   node scripts/post-temperature-readings.mjs <storageUnitId> <temperatureC> [temperatureC ...]
+//
+// Each temperature becomes one reading for the storage unit, spaced a minute apart
+// and ending now. A temperature outside the unit's range opens an excursion and
+// quarantines the bags stored there. The server and key are taken from
+// INGEST_URL (default http://localhost:3000) and TEMPERATURE_INGEST_KEY, e.g.
+//   node --env-file=.env.local scripts/post-temperature-readings.mjs 1 4.1 4.3 9.8
+const USAGE = "Usage: node scripts/post-temperature-readings.mjs <storageUnitId> <temperatureC> [temperatureC ...]"
+
+// Same fallback as the server uses outside production
+const DEVELOPMENT_INGEST_KEY = "songblood-development-ingest-key"
+
+async function main() {
+  const [storageUnitArgument, ...temperatureArguments] = process.argv.slice(2)
+
+  if (!/^\d+$/.test(storageUnitArgument ?? "") || temperatureArguments.length === 0) {
+    throw new Error(USAGE)
+  }
+
+  const temperatures = temperatureArguments.map((value) => {
+    const temperature = Number(value)
+    if (value.trim() === "" || Number.isNaN(temperature)) {
+      throw new Error(`Expected a temperature in °C, got "${value}"\n${USAGE}`)
+    }
+    return temperature
+  })
+
+  const now = Date.now()
+  const readings = temperatures.map((temperatureC, index) => ({
+    storageUnitId: Number.parseInt(storageUnitArgument, 10),
+    temperatureC,
+    recordedAt: new Date(now - (temperatures.length - 1 - index) * 60 * 1000).toISOString(),
+  }))
+
+  const baseUrl = process.env.INGEST_URL || "http://localhost:3000"
+  const response = await fetch(new URL("/api/temperature-readings/ingest", baseUrl), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${process.env.TEMPERATURE_INGEST_KEY || DEVELOPMENT_INGEST_KEY}`,
+    },
+    body: JSON.stringify({ readings }),
+  })
+  const result = await response.json().catch(() => null)
+
+  if (!response.ok || !result?.success) {
+    const details = result?.details ? `\n${result.details}` : ""
+    throw new Error(`Ingest failed (${response.status}): ${result?.error ?? response.statusText}${details}`)
+  }
+
+  console.log(`Recorded ${result.data.recorded} reading(s)`)
+  for (const excursion of result.data.excursions) {
+    console.log(
+      `Excursion #${excursion.excursionId} on storage unit ${excursion.storageUnitId}: ` +
+        `${excursion.quarantined} bag(s) quarantined`,
+    )
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})